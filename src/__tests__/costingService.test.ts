@@ -0,0 +1,151 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import type { Extra } from "../models/extra";
+import type { OrderExtra } from "../models/order";
+import type { Product } from "../models/product";
+import { createIngredient } from "../services/ingredientService";
+import { createProduct } from "../services/productService";
+import { createExtra } from "../services/extraService";
+import {
+  addProductCosting,
+  generateCustomCostReport,
+} from "../services/costingService";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const REPORT_DATE = "2026-10-15";
+
+let db: FakeFirestore;
+let product: Product;
+let cheddarExtra: Extra;
+
+const buildOrderExtra = (extra: Extra): OrderExtra => ({
+  extraId: extra.id,
+  extraName: extra.name,
+  quantity: 1,
+  unitPrice: extra.price,
+  totalPrice: extra.price,
+});
+
+// Pedido entregado con 2 unidades del producto y un extra en cada una
+const writeDeliveredOrder = (extras: OrderExtra[]): void => {
+  const extrasTotal = extras.reduce((sum, extra) => sum + extra.totalPrice, 0);
+  const itemTotal = (product.price + extrasTotal) * 2;
+
+  db.write(`tenants/${TENANT_ID}/orders/order1`, {
+    tenantId: TENANT_ID,
+    status: "entregado",
+    items: [
+      {
+        productId: product.id,
+        productName: product.name,
+        quantity: 2,
+        unitPrice: product.price,
+        customizations: [],
+        extras,
+        itemTotal,
+      },
+    ],
+    subtotal: itemTotal,
+    total: itemTotal,
+    createdAt: `${REPORT_DATE}T18:00:00.000Z`,
+  });
+};
+
+describe("costingService - costo de la mercadería vendida", () => {
+  // Doble con 2 panes ($100 c/u) y un extra de 50 g de cheddar ($10.000 el kg)
+  beforeEach(async () => {
+    db = new FakeFirestore();
+    setFirestore(db.asFirestore());
+    db.write(`tenants/${TENANT_ID}`, { name: "Burger Test" });
+
+    const bun = await createIngredient({
+      tenantId: TENANT_ID,
+      name: "Pan",
+      unit: "unidades",
+      stock: 10,
+      minStock: 0,
+      costPerUnit: 100,
+    });
+    const cheddar = await createIngredient({
+      tenantId: TENANT_ID,
+      name: "Cheddar",
+      unit: "kg",
+      stock: 1,
+      minStock: 0,
+      costPerUnit: 10000,
+    });
+
+    product = await createProduct({
+      tenantId: TENANT_ID,
+      name: "Doble",
+      price: 5000,
+      category: "doble",
+      ingredients: [
+        {
+          ingredientId: bun.id,
+          ingredientName: "Pan",
+          quantity: 2,
+          unit: "unidades",
+          isRemovable: false,
+          isExtra: false,
+          extraPrice: 0,
+        },
+      ],
+    });
+
+    cheddarExtra = await createExtra({
+      tenantId: TENANT_ID,
+      name: "Cheddar extra",
+      price: 800,
+      linkedProductId: cheddar.id,
+      stockConsumption: 50,
+      consumptionUnit: "gramos",
+    });
+  });
+
+  it("costea la receta y los extras convertidos a la unidad de stock", async () => {
+    writeDeliveredOrder([buildOrderExtra(cheddarExtra)]);
+
+    const report = await generateCustomCostReport(
+      TENANT_ID,
+      REPORT_DATE,
+      REPORT_DATE,
+    );
+
+    // (2 panes × $100 + 0,05 kg × $10.000) × 2 unidades
+    assert.equal(report.costOfGoodsSold, 1400);
+    assert.deepEqual(report.missingCosts, []);
+    assert.equal(report.products[0].cost, 1400);
+  });
+
+  it("informa los extras con unidades que no se pueden convertir", async () => {
+    // Guardado antes de validar la unidad al crear el extra
+    const extraPath = `tenants/${TENANT_ID}/extras/${cheddarExtra.id}`;
+    db.write(extraPath, { ...db.read(extraPath), consumptionUnit: "ml" });
+    writeDeliveredOrder([buildOrderExtra(cheddarExtra)]);
+
+    const report = await generateCustomCostReport(
+      TENANT_ID,
+      REPORT_DATE,
+      REPORT_DATE,
+    );
+
+    assert.equal(report.costOfGoodsSold, 400);
+    assert.deepEqual(report.missingCosts, ["Cheddar extra"]);
+    assert.deepEqual(report.products[0].missingCosts, ["Cheddar extra"]);
+  });
+
+  it("costea el producto y el ingrediente que se le puede agregar", async () => {
+    const [{ costing }] = await addProductCosting(TENANT_ID, [product]);
+
+    assert.equal(costing.recipeCost, 200);
+    assert.equal(costing.grossMargin, 4800);
+    assert.equal(costing.foodCostPercent, 4);
+    assert.deepEqual(costing.missingCosts, []);
+    assert.equal(costing.addOns.length, 1);
+    assert.equal(costing.addOns[0].cost, 500);
+    assert.equal(costing.addOns[0].grossMargin, 300);
+  });
+});
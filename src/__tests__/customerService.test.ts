@@ -0,0 +1,47 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import type { Order } from "../models/order";
+import {
+  getCustomerById,
+  recordCustomerOrder,
+} from "../services/customerService";
+import { CUSTOMER_FALLBACK_NAME } from "../utils/customer";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const PHONE = "5491155550000";
+
+const buildOrder = (customerName: string): Order =>
+  ({
+    id: "order1",
+    tenantId: TENANT_ID,
+    customerName,
+    customerPhone: PHONE,
+    orderType: "pickup",
+    total: 5000,
+    createdAt: new Date().toISOString(),
+  }) as Order;
+
+describe("customerService - nombre del perfil", () => {
+  beforeEach(() => {
+    setFirestore(new FakeFirestore().asFirestore());
+  });
+
+  it("no pisa el nombre con el nombre genérico del bot", async () => {
+    await recordCustomerOrder(buildOrder("Juan Pérez"));
+    await recordCustomerOrder(buildOrder(CUSTOMER_FALLBACK_NAME));
+
+    const customer = await getCustomerById(TENANT_ID, PHONE);
+    assert.equal(customer.name, "Juan Pérez");
+    assert.equal(customer.orderCount, 2);
+  });
+
+  it("reemplaza el nombre genérico cuando el cliente da el suyo", async () => {
+    await recordCustomerOrder(buildOrder(CUSTOMER_FALLBACK_NAME));
+    await recordCustomerOrder(buildOrder("Juan Pérez"));
+
+    const customer = await getCustomerById(TENANT_ID, PHONE);
+    assert.equal(customer.name, "Juan Pérez");
+  });
+});
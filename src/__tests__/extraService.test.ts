@@ -0,0 +1,78 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import type { Ingredient } from "../models/ingredient";
+import { createIngredient } from "../services/ingredientService";
+import {
+  createExtra,
+  getExtraStockQuantity,
+  updateExtra,
+} from "../services/extraService";
+import { HttpError } from "../utils/httpError";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+
+let cheddar: Ingredient;
+
+const isBadRequest = (error: unknown): boolean =>
+  error instanceof HttpError && error.statusCode === 400;
+
+describe("extraService - unidad de consumo", () => {
+  // Cheddar con stock en kg
+  beforeEach(async () => {
+    setFirestore(new FakeFirestore().asFirestore());
+
+    cheddar = await createIngredient({
+      tenantId: TENANT_ID,
+      name: "Cheddar",
+      unit: "kg",
+      stock: 1,
+      minStock: 0,
+      costPerUnit: 10000,
+    });
+  });
+
+  it("convierte el consumo a la unidad de stock del ingrediente", async () => {
+    const extra = await createExtra({
+      tenantId: TENANT_ID,
+      name: "Cheddar extra",
+      price: 500,
+      linkedProductId: cheddar.id,
+      stockConsumption: 50,
+      consumptionUnit: "gramos",
+    });
+
+    assert.equal(getExtraStockQuantity(extra, cheddar), 0.05);
+  });
+
+  it("rechaza al crear una unidad incompatible con el stock", async () => {
+    await assert.rejects(
+      createExtra({
+        tenantId: TENANT_ID,
+        name: "Cheddar extra",
+        price: 500,
+        linkedProductId: cheddar.id,
+        stockConsumption: 50,
+        consumptionUnit: "ml",
+      }),
+      isBadRequest,
+    );
+  });
+
+  it("rechaza al editar una unidad incompatible con el stock", async () => {
+    const extra = await createExtra({
+      tenantId: TENANT_ID,
+      name: "Cheddar extra",
+      price: 500,
+      linkedProductId: cheddar.id,
+      stockConsumption: 50,
+      consumptionUnit: "gramos",
+    });
+
+    await assert.rejects(
+      updateExtra(TENANT_ID, extra.id, { consumptionUnit: "litros" }),
+      isBadRequest,
+    );
+  });
+});
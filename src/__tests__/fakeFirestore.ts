@@ -0,0 +1,411 @@
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+
+/**
+ * Firestore en memoria para tests
+ * Implementa lo que usan los servicios: colecciones, documentos, queries
+ * simples y transacciones con control optimista (si un documento leído
+ * cambia antes del commit, la transacción se reintenta como en Firestore)
+ */
+
+type DocumentData = Record<string, unknown>;
+type WhereOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+// Los borrados se guardan sin datos para conservar la versión
+interface StoredDocument {
+  data: DocumentData | undefined;
+  version: number;
+}
+
+interface SetOptions {
+  merge?: boolean;
+}
+
+interface Filter {
+  field: string;
+  op: WhereOperator;
+  value: unknown;
+}
+
+// El SDK de servidor bloquea los documentos leídos; acá las transacciones
+// en conflicto se reintentan, con margen para muchas en paralelo
+const MAX_TRANSACTION_ATTEMPTS = 50;
+
+// Cede el turno para que las operaciones concurrentes se intercalen
+const tick = (): Promise<void> =>
+  new Promise((resolve) => setImmediate(resolve));
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const isDeleteSentinel = (value: unknown): boolean =>
+  value instanceof FieldValue && value.isEqual(FieldValue.delete());
+
+const getField = (data: DocumentData, field: string): unknown =>
+  field
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as DocumentData)[key]
+          : undefined,
+      data,
+    );
+
+const applyUpdate = (
+  data: DocumentData,
+  changes: DocumentData,
+): DocumentData => {
+  const result = clone(data);
+
+  for (const [path, value] of Object.entries(changes)) {
+    const keys = path.split(".");
+    const last = keys.pop()!;
+    let target = result;
+
+    for (const key of keys) {
+      if (!target[key] || typeof target[key] !== "object") target[key] = {};
+      target = target[key] as DocumentData;
+    }
+
+    if (isDeleteSentinel(value)) {
+      delete target[last];
+    } else {
+      target[last] = clone(value);
+    }
+  }
+
+  return result;
+};
+
+const matches = (data: DocumentData, filter: Filter): boolean => {
+  const value = getField(data, filter.field) as never;
+  const expected = filter.value as never;
+
+  switch (filter.op) {
+    case "==":
+      return value === expected;
+    case "!=":
+      return value !== undefined && value !== expected;
+    case "<":
+      return value !== undefined && value < expected;
+    case "<=":
+      return value !== undefined && value <= expected;
+    case ">":
+      return value !== undefined && value > expected;
+    case ">=":
+      return value !== undefined && value >= expected;
+    case "in":
+      return (filter.value as unknown[]).includes(value);
+  }
+};
+
+class FakeDocumentSnapshot {
+  constructor(
+    readonly ref: FakeDocumentReference,
+    private readonly stored: DocumentData | undefined,
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored ? clone(this.stored) : undefined;
+  }
+
+  get(field: string): unknown {
+    return this.stored ? clone(getField(this.stored, field)) : undefined;
+  }
+}
+
+class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+}
+
+class FakeDocumentReference {
+  constructor(
+    private readonly db: FakeFirestore,
+    readonly path: string,
+  ) {}
+
+  get id(): string {
+    return this.path.split("/").pop()!;
+  }
+
+  collection(name: string): FakeQuery {
+    return new FakeQuery(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    await tick();
+    return this.db.snapshot(this);
+  }
+
+  async set(data: DocumentData, options?: SetOptions): Promise<void> {
+    await tick();
+    this.db.write(this.path, this.db.setData(this.path, data, options));
+  }
+
+  async update(changes: DocumentData): Promise<void> {
+    await tick();
+    this.db.write(this.path, this.db.updatedData(this.path, changes));
+  }
+
+  async delete(): Promise<void> {
+    await tick();
+    this.db.write(this.path, undefined);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    protected readonly db: FakeFirestore,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly order?: { field: string; direction: "asc" | "desc" },
+    private readonly max?: number,
+  ) {}
+
+  doc(id: string = this.db.generateId()): FakeDocumentReference {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: DocumentData): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  where(field: string, op: WhereOperator, value: unknown): FakeQuery {
+    return new FakeQuery(
+      this.db,
+      this.path,
+      [...this.filters, { field, op, value }],
+      this.order,
+      this.max,
+    );
+  }
+
+  orderBy(field: string, direction: "asc" | "desc" = "asc"): FakeQuery {
+    return new FakeQuery(
+      this.db,
+      this.path,
+      this.filters,
+      { field, direction },
+      this.max,
+    );
+  }
+
+  limit(max: number): FakeQuery {
+    return new FakeQuery(this.db, this.path, this.filters, this.order, max);
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    await tick();
+    return this.run();
+  }
+
+  run(): FakeQuerySnapshot {
+    let docs = this.db
+      .listCollection(this.path)
+      .map((path) => this.db.snapshot(new FakeDocumentReference(this.db, path)))
+      .filter((doc) =>
+        this.filters.every((filter) => matches(doc.data()!, filter)),
+      );
+
+    if (this.order) {
+      const { field, direction } = this.order;
+      const sign = direction === "asc" ? 1 : -1;
+      docs = docs.sort((a, b) => {
+        const left = a.get(field) as never;
+        const right = b.get(field) as never;
+        return left < right ? -sign : left > right ? sign : 0;
+      });
+    }
+
+    return new FakeQuerySnapshot(
+      this.max === undefined ? docs : docs.slice(0, this.max),
+    );
+  }
+}
+
+class TransactionConflictError extends Error {}
+
+class FakeTransaction {
+  private readonly readVersions = new Map<string, number>();
+  private readonly writes: Array<() => void> = [];
+
+  constructor(private readonly db: FakeFirestore) {}
+
+  private track(snapshot: FakeDocumentSnapshot): FakeDocumentSnapshot {
+    if (this.writes.length > 0) {
+      throw new Error("Firestore exige todas las lecturas antes de escribir");
+    }
+    const { path } = snapshot.ref;
+    this.readVersions.set(path, this.db.version(path));
+    return snapshot;
+  }
+
+  async get(
+    target: FakeDocumentReference | FakeQuery,
+  ): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+    await tick();
+
+    if (target instanceof FakeDocumentReference) {
+      return this.track(this.db.snapshot(target));
+    }
+
+    const snapshot = target.run();
+    snapshot.docs.forEach((doc) => this.track(doc));
+    return snapshot;
+  }
+
+  async getAll(
+    ...refs: FakeDocumentReference[]
+  ): Promise<FakeDocumentSnapshot[]> {
+    await tick();
+    return refs.map((ref) => this.track(this.db.snapshot(ref)));
+  }
+
+  set(
+    ref: FakeDocumentReference,
+    data: DocumentData,
+    options?: SetOptions,
+  ): this {
+    this.writes.push(() =>
+      this.db.write(ref.path, this.db.setData(ref.path, data, options)),
+    );
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, changes: DocumentData): this {
+    this.writes.push(() =>
+      this.db.write(ref.path, this.db.updatedData(ref.path, changes)),
+    );
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push(() => this.db.write(ref.path, undefined));
+    return this;
+  }
+
+  commit(): void {
+    for (const [path, version] of this.readVersions) {
+      if (this.db.version(path) !== version) {
+        throw new TransactionConflictError(path);
+      }
+    }
+    this.writes.forEach((write) => write());
+  }
+}
+
+export class FakeFirestore {
+  private readonly documents = new Map<string, StoredDocument>();
+  private idCounter = 0;
+  transactionRetries = 0;
+
+  generateId(): string {
+    this.idCounter++;
+    return `doc${String(this.idCounter).padStart(6, "0")}`;
+  }
+
+  collection(path: string): FakeQuery {
+    return new FakeQuery(this, path);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  async runTransaction<T>(
+    updateFunction: (transaction: FakeTransaction) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const transaction = new FakeTransaction(this);
+      const result = await updateFunction(transaction);
+      await tick();
+
+      try {
+        transaction.commit();
+        return result;
+      } catch (error) {
+        if (
+          !(error instanceof TransactionConflictError) ||
+          attempt >= MAX_TRANSACTION_ATTEMPTS
+        ) {
+          throw error;
+        }
+        this.transactionRetries++;
+      }
+    }
+  }
+
+  snapshot(ref: FakeDocumentReference): FakeDocumentSnapshot {
+    return new FakeDocumentSnapshot(ref, this.documents.get(ref.path)?.data);
+  }
+
+  version(path: string): number {
+    return this.documents.get(path)?.version ?? 0;
+  }
+
+  updatedData(path: string, changes: DocumentData): DocumentData {
+    const current = this.documents.get(path)?.data;
+    if (!current) {
+      throw new Error(`NOT_FOUND: ${path}`);
+    }
+    return applyUpdate(current, changes);
+  }
+
+  // Con merge solo se pisan los campos recibidos
+  setData(
+    path: string,
+    data: DocumentData,
+    options?: SetOptions,
+  ): DocumentData {
+    const current = this.documents.get(path)?.data;
+    return options?.merge && current
+      ? { ...clone(current), ...clone(data) }
+      : clone(data);
+  }
+
+  write(path: string, data: DocumentData | undefined): void {
+    this.documents.set(path, { data, version: this.version(path) + 1 });
+  }
+
+  listCollection(path: string): string[] {
+    const depth = path.split("/").length + 1;
+    return [...this.documents.entries()]
+      .filter(
+        ([docPath, stored]) =>
+          stored.data !== undefined &&
+          docPath.startsWith(`${path}/`) &&
+          docPath.split("/").length === depth,
+      )
+      .map(([docPath]) => docPath)
+      .sort();
+  }
+
+  /**
+   * Datos guardados de un documento (undefined si no existe)
+   */
+  read(path: string): DocumentData | undefined {
+    const data = this.documents.get(path)?.data;
+    return data ? clone(data) : undefined;
+  }
+
+  asFirestore(): Firestore {
+    return this as unknown as Firestore;
+  }
+}
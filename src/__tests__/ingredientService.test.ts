@@ -0,0 +1,121 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import {
+  bulkUpdateStock,
+  createIngredient,
+  getIngredientById,
+  updateStock,
+} from "../services/ingredientService";
+import { HttpError } from "../utils/httpError";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const MOVEMENTS_PATH = `tenants/${TENANT_ID}/stockMovements`;
+
+let db: FakeFirestore;
+
+const createTestIngredient = async (name: string, stock: number) =>
+  createIngredient({
+    tenantId: TENANT_ID,
+    name,
+    unit: "unidades",
+    stock,
+    minStock: 0,
+    costPerUnit: 100,
+  });
+
+const countMovements = (): number => db.listCollection(MOVEMENTS_PATH).length;
+
+describe("ingredientService - stock concurrente", () => {
+  beforeEach(() => {
+    db = new FakeFirestore();
+    setFirestore(db.asFirestore());
+  });
+
+  it("no pierde actualizaciones con updateStock en paralelo", async () => {
+    const bun = await createTestIngredient("Pan", 50);
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, index) =>
+        updateStock(
+          TENANT_ID,
+          bun.id,
+          1,
+          index % 2 === 0 ? "salida" : "entrada",
+          `Movimiento ${index}`,
+        ),
+      ),
+    );
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        updateStock(TENANT_ID, bun.id, 3, "salida", "Pedido"),
+      ),
+    );
+
+    assert.equal((await getIngredientById(TENANT_ID, bun.id)).stock, 20);
+    assert.equal(countMovements(), 30);
+    assert.ok(db.transactionRetries > 0, "Las transacciones no compitieron");
+  });
+
+  it("no pierde actualizaciones mezclando bulkUpdateStock y updateStock", async () => {
+    const bun = await createTestIngredient("Pan", 100);
+    const cheese = await createTestIngredient("Cheddar", 100);
+
+    await Promise.all([
+      ...Array.from({ length: 10 }, (_, index) =>
+        bulkUpdateStock(
+          TENANT_ID,
+          [
+            { ingredientId: bun.id, quantity: 2 },
+            { ingredientId: cheese.id, quantity: 1 },
+            { ingredientId: cheese.id, quantity: 1 },
+          ],
+          "salida",
+          `Pedido #${index}`,
+          `order${index}`,
+        ),
+      ),
+      ...Array.from({ length: 10 }, () =>
+        updateStock(TENANT_ID, cheese.id, 1, "entrada", "Compra"),
+      ),
+    ]);
+
+    assert.equal((await getIngredientById(TENANT_ID, bun.id)).stock, 80);
+    assert.equal((await getIngredientById(TENANT_ID, cheese.id)).stock, 90);
+    // Un movimiento por ingrediente de cada pedido + uno por compra
+    assert.equal(countMovements(), 10 * 2 + 10);
+  });
+
+  it("rechaza las salidas que dejarían el stock negativo", async () => {
+    const bun = await createTestIngredient("Pan", 20);
+    const cheese = await createTestIngredient("Cheddar", 100);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 15 }, () =>
+        bulkUpdateStock(
+          TENANT_ID,
+          [
+            { ingredientId: bun.id, quantity: 2 },
+            { ingredientId: cheese.id, quantity: 1 },
+          ],
+          "salida",
+          "Pedido",
+        ),
+      ),
+    );
+
+    const rejected = results.filter((r) => r.status === "rejected");
+    assert.equal(rejected.length, 5);
+    rejected.forEach((r) => {
+      const { reason } = r as PromiseRejectedResult;
+      assert.ok(reason instanceof HttpError);
+      assert.equal(reason.statusCode, 400);
+    });
+
+    // Todo o nada: los pedidos rechazados no descuentan el cheddar
+    assert.equal((await getIngredientById(TENANT_ID, bun.id)).stock, 0);
+    assert.equal((await getIngredientById(TENANT_ID, cheese.id)).stock, 90);
+    assert.equal(countMovements(), 20);
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import type { Firestore } from "firebase-admin/firestore";
+import { setFirestore } from "../config/firebase";
+import {
+  MemoryIdempotencyStore,
+  setIdempotencyStore,
+} from "../services/idempotencyService";
+import { handlePaymentWebhook } from "../controllers/mercadoPagoController";
+
+const PAYMENT_ID = "123456";
+const PAYMENT_KEY = `mercadopago:${PAYMENT_ID}`;
+const TTL_MS = 5 * 60 * 1000;
+
+// Firestore caído: cualquier acceso a una colección falla
+const failingFirestore = {
+  collection: () => {
+    throw new Error("Firestore no disponible");
+  },
+} as unknown as Firestore;
+
+const buildRequest = (): Request =>
+  ({
+    body: { type: "payment", data: { id: PAYMENT_ID } },
+    query: {},
+  }) as unknown as Request;
+
+const buildResponse = (): Response =>
+  ({ sendStatus: () => undefined }) as unknown as Response;
+
+describe("mercadoPagoController - webhook de pagos", () => {
+  let store: MemoryIdempotencyStore;
+
+  beforeEach(() => {
+    store = new MemoryIdempotencyStore();
+    setIdempotencyStore(store);
+  });
+
+  it("libera el registro del pago si el procesamiento falla", async () => {
+    setFirestore(failingFirestore);
+
+    await handlePaymentWebhook(buildRequest(), buildResponse());
+
+    assert.equal(await store.claim(PAYMENT_KEY, TTL_MS), true);
+  });
+});
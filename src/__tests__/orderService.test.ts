@@ -0,0 +1,277 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import type { CreateOrderInput } from "../models/order";
+import type { Product } from "../models/product";
+import {
+  createIngredient,
+  getIngredientById,
+} from "../services/ingredientService";
+import { createProduct } from "../services/productService";
+import { createExtra } from "../services/extraService";
+import {
+  cancelOrder,
+  confirmOrder,
+  createOrder,
+  getOrderById,
+} from "../services/orderService";
+import { HttpError } from "../utils/httpError";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+
+let db: FakeFirestore;
+let ingredientId: string;
+let product: Product;
+
+const buildOrderInput = (quantity: number): CreateOrderInput => ({
+  tenantId: TENANT_ID,
+  customerName: "Juan",
+  customerPhone: "5491155550000",
+  orderType: "pickup",
+  paymentMethod: "efectivo",
+  items: [
+    {
+      productId: product.id,
+      productName: product.name,
+      quantity,
+      unitPrice: product.price,
+      customizations: [],
+      itemTotal: product.price * quantity,
+    },
+  ],
+});
+
+const getStock = async () => {
+  const ingredient = await getIngredientById(TENANT_ID, ingredientId);
+  return { stock: ingredient.stock, reserved: ingredient.reservedStock };
+};
+
+// Firestore vacío con un pan (stock 10) y una hamburguesa que lleva 2
+const setupCatalog = async (): Promise<void> => {
+  db = new FakeFirestore();
+  setFirestore(db.asFirestore());
+
+  const bun = await createIngredient({
+    tenantId: TENANT_ID,
+    name: "Pan",
+    unit: "unidades",
+    stock: 10,
+    minStock: 0,
+    costPerUnit: 100,
+  });
+  ingredientId = bun.id;
+
+  product = await createProduct({
+    tenantId: TENANT_ID,
+    name: "Doble",
+    price: 5000,
+    category: "doble",
+    ingredients: [
+      {
+        ingredientId,
+        ingredientName: "Pan",
+        quantity: 2,
+        unit: "unidades",
+        isRemovable: false,
+        isExtra: false,
+        extraPrice: 0,
+      },
+    ],
+  });
+};
+
+describe("orderService - reservas de stock concurrentes", () => {
+  beforeEach(setupCatalog);
+
+  it("no reserva más stock que el disponible con pedidos en paralelo", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 4 }, () => createOrder(buildOrderInput(2))),
+    );
+
+    assert.equal(results.filter((r) => r.status === "fulfilled").length, 2);
+    assert.deepEqual(await getStock(), { stock: 10, reserved: 8 });
+    assert.equal(db.listCollection(`tenants/${TENANT_ID}/orders`).length, 2);
+  });
+
+  it("libera la reserva una sola vez con cancelaciones en paralelo", async () => {
+    const order = await createOrder(buildOrderInput(2));
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => cancelOrder(TENANT_ID, order.id)),
+    );
+
+    assert.equal(results.filter((r) => r.status === "fulfilled").length, 1);
+    assert.deepEqual(await getStock(), { stock: 10, reserved: 0 });
+
+    const cancelled = await getOrderById(TENANT_ID, order.id);
+    assert.equal(cancelled.status, "cancelado");
+    assert.equal(cancelled.reservedStock, undefined);
+  });
+
+  it("no descuenta ni devuelve stock de más al confirmar y cancelar a la vez", async () => {
+    const order = await createOrder(buildOrderInput(2));
+
+    const [confirmed, cancelled] = await Promise.allSettled([
+      confirmOrder(TENANT_ID, order.id),
+      cancelOrder(TENANT_ID, order.id),
+    ]);
+
+    // Cancelar un pedido confirmado devuelve el stock descontado
+    assert.equal(cancelled.status, "fulfilled");
+    assert.equal((await getOrderById(TENANT_ID, order.id)).status, "cancelado");
+    assert.deepEqual(await getStock(), { stock: 10, reserved: 0 });
+    assert.equal(
+      db.listCollection(`tenants/${TENANT_ID}/stockMovements`).length,
+      confirmed.status === "fulfilled" ? 2 : 0,
+    );
+  });
+});
+
+describe("orderService - capacidad de franjas programadas", () => {
+  const SLOT_MS = 30 * 60 * 1000;
+  // Inicio de una franja dentro de un par de horas
+  const scheduledFor = new Date(
+    Math.ceil((Date.now() + 2 * 60 * 60 * 1000) / SLOT_MS) * SLOT_MS,
+  ).toISOString();
+  const slotPath = `tenants/${TENANT_ID}/scheduleSlots/${scheduledFor}_30`;
+
+  const createScheduledOrder = () =>
+    createOrder({ ...buildOrderInput(1), scheduledFor });
+
+  beforeEach(async () => {
+    await setupCatalog();
+    db.write(`tenants/${TENANT_ID}`, {
+      name: "Burger Test",
+      scheduledOrders: {
+        enabled: true,
+        slotMinutes: 30,
+        capacityPerSlot: 2,
+        leadTimeMinutes: 0,
+      },
+    });
+  });
+
+  it("no sobrevende la franja con pedidos en paralelo", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 4 }, createScheduledOrder),
+    );
+
+    const rejected = results.filter((r) => r.status === "rejected");
+    assert.equal(rejected.length, 2);
+    rejected.forEach((r) => {
+      const { reason } = r as PromiseRejectedResult;
+      assert.ok(reason instanceof HttpError);
+      assert.equal(reason.statusCode, 409);
+    });
+    assert.equal(db.read(slotPath)?.count, 2);
+  });
+
+  it("libera el lugar de la franja al cancelar", async () => {
+    const [first] = await Promise.all([
+      createScheduledOrder(),
+      createScheduledOrder(),
+    ]);
+
+    await cancelOrder(TENANT_ID, first.id);
+    assert.equal(db.read(slotPath)?.count, 1);
+
+    await createScheduledOrder();
+    assert.equal(db.read(slotPath)?.count, 2);
+  });
+
+  it("libera el lugar de pedidos guardados sin contador de franja", async () => {
+    const order = await createScheduledOrder();
+    const orderPath = `tenants/${TENANT_ID}/orders/${order.id}`;
+    const { scheduledSlotId, ...legacyOrder } = db.read(orderPath)!;
+    db.write(orderPath, legacyOrder);
+
+    await cancelOrder(TENANT_ID, order.id);
+
+    assert.equal(scheduledSlotId, `${scheduledFor}_30`);
+    assert.equal(db.read(slotPath)?.count, 0);
+  });
+});
+
+describe("orderService - ingredientes agregados", () => {
+  let cheddarId: string;
+
+  // Cheddar con stock en kg; la receta lo lleva en gramos
+  beforeEach(async () => {
+    await setupCatalog();
+
+    const cheddar = await createIngredient({
+      tenantId: TENANT_ID,
+      name: "Cheddar",
+      unit: "kg",
+      stock: 1,
+      minStock: 0,
+      costPerUnit: 10000,
+    });
+    cheddarId = cheddar.id;
+
+    product = await createProduct({
+      tenantId: TENANT_ID,
+      name: "Cheese",
+      price: 6000,
+      category: "simple",
+      ingredients: [
+        {
+          ingredientId: cheddarId,
+          ingredientName: "Cheddar",
+          quantity: 20,
+          unit: "gramos",
+          isRemovable: true,
+          isExtra: true,
+          extraPrice: 500,
+        },
+      ],
+    });
+  });
+
+  const createOrderWithCheddar = () => {
+    const input = buildOrderInput(2);
+    input.items[0].customizations = [
+      {
+        ingredientId: cheddarId,
+        ingredientName: "Cheddar",
+        type: "agregar",
+        extraPrice: 500,
+      },
+    ];
+    return createOrder(input);
+  };
+
+  const getReservedCheddar = async () =>
+    (await getIngredientById(TENANT_ID, cheddarId)).reservedStock;
+
+  it("convierte el consumo del extra vinculado a la unidad de stock", async () => {
+    await createExtra({
+      tenantId: TENANT_ID,
+      name: "Cheddar extra",
+      price: 500,
+      linkedProductId: cheddarId,
+      stockConsumption: 50,
+      consumptionUnit: "gramos",
+    });
+
+    await createOrderWithCheddar();
+
+    // Receta 2 x 20 g + agregado 2 x 50 g
+    assert.equal(await getReservedCheddar(), 0.14);
+  });
+
+  it("usa la porción de la receta si el extra no declara consumo", async () => {
+    await createExtra({
+      tenantId: TENANT_ID,
+      name: "Cheddar extra",
+      price: 500,
+      linkedProductId: cheddarId,
+    });
+
+    await createOrderWithCheddar();
+
+    // Receta 2 x 20 g + agregado 2 x 20 g
+    assert.equal(await getReservedCheddar(), 0.08);
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import {
+  applyMessageStatusUpdate,
+  getOutboundMessageById,
+  recordOutboundMessage,
+} from "../services/outboundMessageService";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const META_MESSAGE_ID = "wamid.TEST";
+
+const recordSentMessage = () =>
+  recordOutboundMessage({
+    tenantId: TENANT_ID,
+    recipient: "5491155550000",
+    type: "text",
+    body: "Tu pedido está en camino",
+    context: { orderId: "order1", sentBy: "admin1" },
+    metaMessageId: META_MESSAGE_ID,
+  });
+
+const applyStatus = (status: "delivered" | "read") =>
+  applyMessageStatusUpdate(TENANT_ID, {
+    metaMessageId: META_MESSAGE_ID,
+    status,
+    timestamp: new Date().toISOString(),
+  });
+
+describe("outboundMessageService - estados de entrega", () => {
+  beforeEach(() => {
+    setFirestore(new FakeFirestore().asFirestore());
+  });
+
+  it("guarda quién envió el mensaje", async () => {
+    const message = await recordSentMessage();
+
+    assert.equal(message?.sentBy, "admin1");
+    const stored = await getOutboundMessageById(TENANT_ID, message!.id);
+    assert.equal(stored.sentBy, "admin1");
+  });
+
+  it("aplica el estado recibido después del registro", async () => {
+    const message = await recordSentMessage();
+
+    assert.equal(await applyStatus("delivered"), true);
+    const stored = await getOutboundMessageById(TENANT_ID, message!.id);
+    assert.equal(stored.status, "delivered");
+  });
+
+  it("no pierde el estado que llega antes que el registro", async () => {
+    assert.equal(await applyStatus("read"), false);
+    const message = await recordSentMessage();
+
+    assert.equal(message?.status, "read");
+    const stored = await getOutboundMessageById(TENANT_ID, message!.id);
+    assert.equal(stored.status, "read");
+    assert.equal(stored.body, "Tu pedido está en camino");
+  });
+
+  it("resuelve un estado y un registro simultáneos", async () => {
+    await Promise.all([applyStatus("delivered"), recordSentMessage()]);
+
+    const stored = await getOutboundMessageById(TENANT_ID, META_MESSAGE_ID);
+    assert.equal(stored.status, "delivered");
+    assert.equal(stored.recipient, "5491155550000");
+  });
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import type { Tenant } from "../models/tenant";
+import {
+  assertScheduledSlotAvailable,
+  getAvailableSlots,
+} from "../services/scheduleService";
+import { createTenant } from "../services/tenantService";
+import { HttpError } from "../utils/httpError";
+import { FakeFirestore } from "./fakeFirestore";
+
+const buildTenant = (slotMinutes: number, enabled = true): Tenant =>
+  ({
+    id: "tenant1",
+    name: "Burger Test",
+    timezone: "America/Argentina/Buenos_Aires",
+    scheduledOrders: {
+      enabled,
+      slotMinutes,
+      capacityPerSlot: 5,
+      leadTimeMinutes: 0,
+      maxDaysAhead: 2,
+    },
+  }) as Tenant;
+
+const isBadRequest = (error: unknown): boolean =>
+  error instanceof HttpError && error.statusCode === 400;
+
+const NOW = new Date("2026-03-10T13:07:00.000Z");
+
+let db: FakeFirestore;
+
+describe("scheduleService - franjas horarias", () => {
+  beforeEach(() => {
+    db = new FakeFirestore();
+    setFirestore(db.asFirestore());
+  });
+
+  it("arma las franjas desde la medianoche local del tenant", async () => {
+    // 10:07 en Buenos Aires (UTC-3). Franjas de 2 horas en hora local:
+    // 12:00, 14:00, 16:00
+    const slots = await getAvailableSlots(buildTenant(120), 3, NOW);
+
+    assert.deepEqual(
+      slots.map((slot) => slot.toISOString()),
+      [
+        "2026-03-10T15:00:00.000Z",
+        "2026-03-10T17:00:00.000Z",
+        "2026-03-10T19:00:00.000Z",
+      ],
+    );
+  });
+
+  it("rechaza franjas que no dividen el día", async () => {
+    await assert.rejects(
+      createTenant({
+        name: "Burger Test",
+        ownerId: "owner1",
+        scheduledOrders: { enabled: true, slotMinutes: 7 },
+      }),
+      isBadRequest,
+    );
+  });
+
+  it("rechaza horarios si el tenant no programa pedidos", async () => {
+    await assert.rejects(
+      assertScheduledSlotAvailable(
+        buildTenant(30, false),
+        "2026-03-10T18:00:00.000Z",
+        NOW,
+      ),
+      isBadRequest,
+    );
+  });
+
+  it("rechaza horarios más allá de los días que se pueden programar", async () => {
+    await assert.rejects(
+      assertScheduledSlotAvailable(
+        buildTenant(30),
+        "2026-03-13T18:00:00.000Z",
+        NOW,
+      ),
+      isBadRequest,
+    );
+    await assertScheduledSlotAvailable(
+      buildTenant(30),
+      "2026-03-11T18:00:00.000Z",
+      NOW,
+    );
+  });
+
+  it("usa el contador de la franja para ofrecerla y validarla", async () => {
+    const tenant = buildTenant(30);
+    const fullSlot = "2026-03-10T14:00:00.000Z";
+    const freeSlot = "2026-03-10T14:30:00.000Z";
+
+    // Contador completo sin pedidos y contador con lugar con la franja
+    // llena de pedidos: manda el contador, igual que en la reserva
+    db.write(`tenants/tenant1/scheduleSlots/${fullSlot}_30`, {
+      slotStart: fullSlot,
+      slotMinutes: 30,
+      count: 5,
+      updatedAt: NOW.toISOString(),
+    });
+    db.write(`tenants/tenant1/scheduleSlots/${freeSlot}_30`, {
+      slotStart: freeSlot,
+      slotMinutes: 30,
+      count: 4,
+      updatedAt: NOW.toISOString(),
+    });
+    for (let i = 0; i < 5; i++) {
+      db.write(`tenants/tenant1/orders/order${i}`, {
+        status: "pendiente",
+        scheduledFor: freeSlot,
+      });
+    }
+
+    const slots = await getAvailableSlots(tenant, 2, NOW);
+
+    assert.deepEqual(
+      slots.map((slot) => slot.toISOString()),
+      ["2026-03-10T13:30:00.000Z", freeSlot],
+    );
+    await assert.rejects(
+      assertScheduledSlotAvailable(tenant, fullSlot, NOW),
+      (error: unknown) =>
+        error instanceof HttpError && error.statusCode === 409,
+    );
+    await assertScheduledSlotAvailable(tenant, freeSlot, NOW);
+  });
+});
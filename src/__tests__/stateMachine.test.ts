@@ -0,0 +1,85 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import { StateMachine, StaleStateError } from "../bot/stateMachine";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const PHONE = "5491155550000";
+const CONVERSATION_PATH = `bot_conversations/${TENANT_ID}:${PHONE}`;
+
+let db: FakeFirestore;
+let stateMachine: StateMachine;
+
+// Otra instancia que avanzó la conversación (ej: tomó el lease vencido)
+const bumpStoredVersion = (): void => {
+  const stored = db.read(CONVERSATION_PATH)!;
+  db.write(CONVERSATION_PATH, {
+    ...stored,
+    version: (stored.version as number) + 1,
+  });
+};
+
+describe("StateMachine - versión del estado", () => {
+  beforeEach(() => {
+    db = new FakeFirestore();
+    setFirestore(db.asFirestore());
+    stateMachine = new StateMachine(true);
+  });
+
+  it("encadena varias escrituras del mismo handler", async () => {
+    await stateMachine.runExclusive(PHONE, TENANT_ID, async () => {
+      await stateMachine.getState(PHONE, TENANT_ID);
+      await stateMachine.transitionTo(PHONE, TENANT_ID, "askingMoreProducts");
+      await stateMachine.setState(PHONE, TENANT_ID, {
+        paymentMethod: "efectivo",
+      });
+    });
+
+    const stored = db.read(CONVERSATION_PATH)!;
+    assert.equal(stored.version, 2);
+    assert.equal(stored.step, "askingMoreProducts");
+    assert.equal(stored.paymentMethod, "efectivo");
+    assert.equal(stored.leaseOwner, undefined);
+  });
+
+  it("rechaza la escritura de un handler que leyó un estado viejo", async () => {
+    await stateMachine.runExclusive(PHONE, TENANT_ID, () =>
+      stateMachine.transitionTo(PHONE, TENANT_ID, "askingMoreProducts"),
+    );
+
+    await stateMachine.runExclusive(PHONE, TENANT_ID, async () => {
+      const state = await stateMachine.getState(PHONE, TENANT_ID);
+      assert.equal(state.version, 1);
+
+      bumpStoredVersion();
+
+      await assert.rejects(
+        stateMachine.transitionTo(PHONE, TENANT_ID, "awaitingAddress"),
+        StaleStateError,
+      );
+    });
+
+    assert.equal(db.read(CONVERSATION_PATH)!.step, "askingMoreProducts");
+  });
+
+  it("rechaza crear la conversación si otra instancia ya la creó", async () => {
+    await stateMachine.runExclusive(PHONE, TENANT_ID, async () => {
+      await stateMachine.getState(PHONE, TENANT_ID);
+
+      db.write(CONVERSATION_PATH, {
+        ...db.read(CONVERSATION_PATH),
+        step: "askingMoreProducts",
+        tenantId: TENANT_ID,
+        cart: [],
+        generalExtras: [],
+        version: 1,
+      });
+
+      await assert.rejects(
+        stateMachine.transitionTo(PHONE, TENANT_ID, "awaitingAddress"),
+        StaleStateError,
+      );
+    });
+  });
+});
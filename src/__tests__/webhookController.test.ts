@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { setFirestore } from "../config/firebase";
+import {
+  ConversationBusyError,
+  StateMachine,
+  setStateMachine,
+} from "../bot/stateMachine";
+import {
+  MemoryIdempotencyStore,
+  setIdempotencyStore,
+} from "../services/idempotencyService";
+import { isCustomerServiceWindowOpen } from "../services/conversationService";
+import { processWebhookPayload } from "../controllers/webhookController";
+import { FakeFirestore } from "./fakeFirestore";
+
+const TENANT_ID = "tenant1";
+const PHONE_NUMBER_ID = "phone1";
+const PHONE = "5491155550000";
+const MESSAGE_ID = "wamid.TEST";
+const MESSAGE_KEY = `meta:${MESSAGE_ID}`;
+const RETRY_DELAY_MS = 15 * 1000;
+
+/**
+ * StateMachine cuya conversación está ocupada los primeros busyCalls
+ * intentos; después "procesa" el mensaje sin correr el bot
+ */
+class BusyStateMachine extends StateMachine {
+  calls = 0;
+
+  constructor(private readonly busyCalls: number) {
+    super(false);
+  }
+
+  override async runExclusive<T>(): Promise<T> {
+    this.calls++;
+    if (this.calls <= this.busyCalls) {
+      throw new ConversationBusyError(`${TENANT_ID}:${PHONE}`);
+    }
+    return undefined as T;
+  }
+}
+
+/**
+ * StateMachine que en lugar del bot revisa la ventana de 24 hs, como
+ * hace la respuesta al elegir texto libre o plantilla
+ */
+class WindowCheckStateMachine extends StateMachine {
+  windowOpen?: boolean;
+
+  constructor() {
+    super(false);
+  }
+
+  override async runExclusive<T>(): Promise<T> {
+    this.windowOpen = await isCustomerServiceWindowOpen(TENANT_ID, PHONE);
+    return undefined as T;
+  }
+}
+
+let db: FakeFirestore;
+let store: MemoryIdempotencyStore;
+
+const buildPayload = (): Parameters<typeof processWebhookPayload>[0] => ({
+  object: "whatsapp_business_account",
+  entry: [
+    {
+      id: "waba1",
+      changes: [
+        {
+          field: "messages",
+          value: {
+            messaging_product: "whatsapp",
+            metadata: {
+              display_phone_number: "5491100000000",
+              phone_number_id: PHONE_NUMBER_ID,
+            },
+            messages: [
+              {
+                from: PHONE,
+                id: MESSAGE_ID,
+                timestamp: String(Math.floor(Date.now() / 1000)),
+                type: "text",
+                text: { body: "Hola" },
+              },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+});
+
+// Deja correr el reintento que disparó el timer
+const flush = async (): Promise<void> => {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+const retryLater = async (): Promise<void> => {
+  mock.timers.tick(RETRY_DELAY_MS);
+  await flush();
+};
+
+const countRecordedMessages = (): number =>
+  db.listCollection(`tenants/${TENANT_ID}/conversations/${PHONE}/messages`)
+    .length;
+
+const setupTenant = (): void => {
+  db = new FakeFirestore();
+  setFirestore(db.asFirestore());
+  db.write(`tenants/${TENANT_ID}`, {
+    name: "Burger Test",
+    metaPhoneNumberId: PHONE_NUMBER_ID,
+    isActive: true,
+  });
+
+  store = new MemoryIdempotencyStore();
+  setIdempotencyStore(store);
+};
+
+describe("webhookController - ventana de atención", () => {
+  beforeEach(setupTenant);
+
+  it("registra el mensaje entrante antes de que responda el bot", async () => {
+    const stateMachine = new WindowCheckStateMachine();
+    setStateMachine(stateMachine);
+
+    await processWebhookPayload(buildPayload());
+
+    assert.equal(stateMachine.windowOpen, true);
+  });
+});
+
+describe("webhookController - conversación ocupada", () => {
+  beforeEach(() => {
+    setupTenant();
+    mock.timers.enable({ apis: ["setTimeout"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it("libera el registro del mensaje para que un reenvío no se descarte", async () => {
+    setStateMachine(new BusyStateMachine(Infinity));
+
+    await processWebhookPayload(buildPayload());
+
+    assert.equal(await store.claim(MESSAGE_KEY, RETRY_DELAY_MS), true);
+  });
+
+  it("reintenta el mensaje y lo registra una sola vez", async () => {
+    const stateMachine = new BusyStateMachine(1);
+    setStateMachine(stateMachine);
+
+    await processWebhookPayload(buildPayload());
+    assert.equal(stateMachine.calls, 1);
+
+    await retryLater();
+
+    assert.equal(stateMachine.calls, 2);
+    // Procesado: el registro queda y un reenvío se descarta
+    assert.equal(await store.claim(MESSAGE_KEY, RETRY_DELAY_MS), false);
+    assert.equal(countRecordedMessages(), 1);
+  });
+
+  it("deja de reintentar si la conversación sigue ocupada", async () => {
+    const stateMachine = new BusyStateMachine(Infinity);
+    setStateMachine(stateMachine);
+
+    await processWebhookPayload(buildPayload());
+    await retryLater();
+    await retryLater();
+    await retryLater();
+
+    assert.equal(stateMachine.calls, 3);
+    assert.equal(await store.claim(MESSAGE_KEY, RETRY_DELAY_MS), true);
+  });
+});
@@ -5,12 +5,58 @@
 /** Palabra clave para cancelar el flujo */
 export const CANCEL_KEYWORD = "cancelar";
 
-/** Nombre por defecto para clientes sin nombre */
-export const CUSTOMER_FALLBACK_NAME = "Cliente WhatsApp";
-
 /** Tiempo de expiración del estado en milisegundos (30 minutos) */
 export const STATE_TTL_MS = 30 * 60 * 1000;
 
+/** Duración del lease de una conversación mientras se procesa un mensaje */
+export const CONVERSATION_LEASE_TTL_MS = 30 * 1000;
+
+/** Tiempo máximo de espera para tomar el lease de una conversación */
+export const CONVERSATION_LEASE_WAIT_MS = 10 * 1000;
+
+/** Cada cuánto se renueva el lease mientras se procesa un mensaje */
+export const CONVERSATION_LEASE_RENEW_MS = 10 * 1000;
+
+/** Veces que se encola un mensaje mientras otra instancia tiene el lease */
+export const CONVERSATION_LEASE_ATTEMPTS = 3;
+
+/** Cantidad máxima de un mismo extra por selección */
+export const MAX_EXTRA_QUANTITY = 10;
+
+/** Franjas horarias ofrecidas para programar (WhatsApp permite 10 filas por lista, una es "lo antes posible") */
+export const MAX_SCHEDULE_SLOTS = 9;
+
+/** Prefijo de los IDs de fila de franjas horarias */
+export const SCHEDULE_SLOT_PREFIX = "slot_";
+
+/** Productos del carrito que entran en la lista de edición (WhatsApp permite 10 filas, dos son acciones) */
+export const MAX_CART_LIST_ITEMS = 8;
+
+/** Cantidad máxima de un mismo producto al editar el carrito */
+export const MAX_CART_ITEM_QUANTITY = 20;
+
+/** Prefijo de los IDs de fila de productos del carrito */
+export const CART_ITEM_PREFIX = "cart_item_";
+
+/** Productos por categoría en la lista del menú (WhatsApp permite 10 filas, una es "volver") */
+export const MAX_MENU_PRODUCTS = 9;
+
+/** Prefijo de los IDs de fila de categorías del menú */
+export const MENU_CATEGORY_PREFIX = "menu_cat_";
+
+/** Prefijo de los IDs de fila de productos del menú */
+export const MENU_PRODUCT_PREFIX = "menu_prod_";
+
+/** Etiquetas de categorías de producto para el menú */
+export const CATEGORY_LABELS: Record<string, string> = {
+  simple: "🍔 Simples",
+  doble: "🍔🍔 Dobles",
+  triple: "🍔🍔🍔 Triples",
+  especial: "⭐ Especiales",
+  vegetariana: "🥗 Vegetarianas",
+  combo: "🍟 Combos",
+};
+
 /** Etiquetas de estado para mostrar al usuario */
 export const STATUS_LABELS: Record<string, string> = {
   pendiente_pago: "⏳ Esperando pago",
@@ -35,6 +81,23 @@ export const BUTTON_IDS = {
   CONTACT_RESTAURANT: "btn_contact_restaurant",
   OK: "btn_ok",
 
+  // Repetir último pedido
+  REORDER: "btn_repetir_pedido",
+
+  // Menú por listas (tenants sin catálogo)
+  VIEW_MENU: "btn_ver_menu",
+  MENU_BACK: "btn_volver_menu",
+  MENU_ADD_MORE: "btn_agregar_mas",
+  MENU_CHECKOUT: "btn_terminar_pedido",
+
+  // Edición del carrito
+  EDIT_CART: "btn_editar_pedido",
+  CART_ADD: "btn_agregar_productos",
+  CART_DONE: "btn_carrito_listo",
+  CART_ITEM_REMOVE: "btn_sacar_producto",
+  CART_ITEM_QUANTITY: "btn_cambiar_cantidad",
+  CART_ITEM_BACK: "btn_volver_carrito",
+
   // Personalización
   CUSTOM_YES: "btn_custom_si",
   CUSTOM_NO: "btn_custom_no",
@@ -52,6 +115,13 @@ export const BUTTON_IDS = {
   DELIVERY: "btn_delivery",
   PICKUP: "btn_pickup",
 
+  // Dirección guardada
+  SAVED_ADDRESS_YES: "btn_misma_direccion",
+  SAVED_ADDRESS_NO: "btn_otra_direccion",
+
+  // Programación
+  SCHEDULE_ASAP: "btn_lo_antes_posible",
+
   // Pago
   CASH: "btn_efectivo",
   TRANSFER: "btn_transferencia",
@@ -71,4 +141,5 @@ export const INTENT_PATTERNS = {
   problem: /(problema|error|reclamo|queja)/i,
   contact: /(contactar|llamar|hablar)/i,
   thanks: /(gracias|bien|ok|nada)/i,
+  menu: /^(pedir|ordenar|men[uú]|hamburguesas|carta)$/i,
 } as const;
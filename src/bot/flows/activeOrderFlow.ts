@@ -8,6 +8,8 @@ import {
   sendOrderIssueNotification,
   sendContactRequestNotification,
 } from "../../services/notificationService";
+import { startHandoff } from "../../services/handoffService";
+import type { HandoffReason } from "../../models/conversation";
 import { getStateMachine } from "../stateMachine";
 import { BUTTON_IDS, INTENT_PATTERNS } from "../constants";
 import * as templates from "../templates";
@@ -103,6 +105,26 @@ const showOrderStatus = async (
   );
 };
 
+/**
+ * Pausa el bot para que el local atienda al cliente por este chat
+ * Si falla, el bot sigue respondiendo (el local igual fue notificado)
+ */
+const handOffToRestaurant = async (
+  phoneNumber: string,
+  order: Order,
+  tenant: Tenant,
+  reason: HandoffReason,
+): Promise<void> => {
+  try {
+    await startHandoff(tenant.id, phoneNumber, { reason, orderId: order.id });
+  } catch (error) {
+    logger.error(
+      `Error al pasar la conversación de ${phoneNumber} al local`,
+      error,
+    );
+  }
+};
+
 /**
  * Reporta un problema con el pedido
  */
@@ -112,6 +134,7 @@ const handleOrderIssue = async (
   tenant: Tenant,
 ): Promise<void> => {
   await sendOrderIssueNotification(order, phoneNumber);
+  await handOffToRestaurant(phoneNumber, order, tenant, "issue");
   await sendMessage(
     phoneNumber,
     templates.getOrderIssueReportedMessage(order.id),
@@ -129,6 +152,7 @@ const handleContactRequest = async (
   tenant: Tenant,
 ): Promise<void> => {
   await sendContactRequestNotification(order, phoneNumber);
+  await handOffToRestaurant(phoneNumber, order, tenant, "contact");
   await sendMessage(
     phoneNumber,
     templates.getContactRequestSentMessage(order.id),
@@ -0,0 +1,430 @@
+import {
+  sendMessage,
+  sendInteractiveButtons,
+  sendInteractiveList,
+} from "../../services/metaService";
+import type { ListSection } from "../../services/metaService";
+import { hasCatalogConfigured } from "../../services/whatsappCatalogService";
+import {
+  calculateMakeableUnits,
+  getIngredientsById,
+} from "../../services/productService";
+import { logger } from "../../utils/logger";
+import { getStateMachine } from "../stateMachine";
+import {
+  BUTTON_IDS,
+  CART_ITEM_PREFIX,
+  MAX_CART_ITEM_QUANTITY,
+  MAX_CART_LIST_ITEMS,
+} from "../constants";
+import * as templates from "../templates";
+import { isBackCommand, isDoneCommand, parseSelectionNumber } from "../utils";
+import { formatCart } from "../utils/formatters";
+import { askCustomization } from "./customizationFlow";
+import { showMenuCategories } from "./menuFlow";
+import { showOrderSummary } from "./paymentFlow";
+import type {
+  CartItem,
+  ConversationState,
+  FlowContext,
+  FlowResult,
+} from "../types";
+
+const stateMachine = getStateMachine();
+
+/**
+ * Arma las secciones de la lista: productos del carrito y acciones
+ */
+const buildCartSections = (cart: CartItem[]): ListSection[] => [
+  {
+    title: "Tu pedido",
+    rows: cart.slice(0, MAX_CART_LIST_ITEMS).map((item, index) => ({
+      id: `${CART_ITEM_PREFIX}${index}`,
+      title: `${item.quantity}x ${item.product.name}`,
+      description: templates.getCartItemRowDescription(item),
+    })),
+  },
+  {
+    title: "Opciones",
+    rows: [
+      {
+        id: BUTTON_IDS.CART_ADD,
+        title: "➕ Agregar productos",
+        description: "Elegí más desde el catálogo",
+      },
+      {
+        id: BUTTON_IDS.CART_DONE,
+        title: "✅ Listo",
+        description: "Seguir con el pedido",
+      },
+    ],
+  },
+];
+
+/**
+ * Muestra el carrito actualizado y la lista para editarlo
+ */
+const showCartEditor = async (
+  ctx: FlowContext,
+  cart: CartItem[],
+): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+
+  await sendMessage(
+    phoneNumber,
+    formatCart(cart, 0, state.generalExtras),
+    tenant,
+  );
+
+  await sendInteractiveList(
+    phoneNumber,
+    templates.getCartEditMessage(),
+    "Editar pedido",
+    buildCartSections(cart),
+    tenant,
+  );
+};
+
+/**
+ * Entra a la edición del carrito desde la personalización o la confirmación
+ */
+export const startCartEdit = async (
+  ctx: FlowContext,
+  returnStep: NonNullable<ConversationState["cartEditReturnStep"]>,
+): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "editingCart", {
+    cartEditReturnStep: returnStep,
+    editingCartIndex: undefined,
+  });
+
+  await showCartEditor(ctx, state.cart);
+};
+
+/**
+ * Guarda el carrito editado y vuelve a mostrar la lista
+ * Si quedó vacío, se termina la conversación para empezar de nuevo
+ */
+const saveCartAndShowEditor = async (
+  ctx: FlowContext,
+  requestedCart: CartItem[],
+): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const cart = await limitCartToStock(ctx, requestedCart);
+
+  if (cart.length === 0) {
+    await stateMachine.reset(phoneNumber, tenant.id);
+    await sendMessage(phoneNumber, templates.getCartEmptyMessage(), tenant);
+    return;
+  }
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "editingCart", {
+    cart,
+    editingCartIndex: undefined,
+  });
+
+  await showCartEditor({ ...ctx, state: { ...state, cart } }, cart);
+};
+
+/**
+ * Ajusta las cantidades a lo que se puede preparar con el stock actual
+ * (sumando todas las líneas del mismo producto) y avisa qué cambió
+ * Devuelve el mismo carrito si no hubo que ajustar nada
+ */
+export const limitCartToStock = async (
+  ctx: FlowContext,
+  cart: CartItem[],
+): Promise<CartItem[]> => {
+  const { phoneNumber, tenant } = ctx;
+
+  let ingredients;
+  try {
+    ingredients = await getIngredientsById(tenant.id);
+  } catch (error) {
+    // El stock se vuelve a validar al crear el pedido
+    logger.error("Error al consultar el stock para el carrito", error);
+    return cart;
+  }
+
+  const requested = new Map<string, number>();
+  cart.forEach(({ product, quantity }) => {
+    requested.set(product.id, (requested.get(product.id) ?? 0) + quantity);
+  });
+
+  const limits = new Map<
+    string,
+    { productName: string; maxQuantity: number }
+  >();
+  cart.forEach(({ product }) => {
+    if (limits.has(product.id)) return;
+
+    const maxQuantity = calculateMakeableUnits(product, ingredients);
+    if (requested.get(product.id)! > maxQuantity) {
+      limits.set(product.id, { productName: product.name, maxQuantity });
+    }
+  });
+
+  if (limits.size === 0) {
+    return cart;
+  }
+
+  await sendMessage(
+    phoneNumber,
+    templates.getCartLimitedByStockMessage([...limits.values()]),
+    tenant,
+  );
+
+  // Se conservan las primeras líneas de cada producto hasta el máximo
+  const remaining = new Map(
+    [...limits].map(([productId, { maxQuantity }]) => [productId, maxQuantity]),
+  );
+
+  return cart.flatMap((item) => {
+    const available = remaining.get(item.product.id);
+    if (available === undefined) return [item];
+
+    const quantity = Math.min(item.quantity, available);
+    remaining.set(item.product.id, available - quantity);
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
+};
+
+/**
+ * Suma productos nuevos al carrito
+ * (mismo producto sin personalizar = se suma la cantidad)
+ */
+export const mergeCartItems = (
+  current: CartItem[],
+  items: CartItem[],
+): CartItem[] => {
+  const cart = current.map((item) => ({ ...item }));
+
+  for (const newItem of items) {
+    const existing = cart.find(
+      (item) =>
+        item.product.id === newItem.product.id &&
+        item.customizations.length === 0 &&
+        item.extras.length === 0,
+    );
+
+    if (existing) {
+      existing.quantity += newItem.quantity;
+    } else {
+      cart.push(newItem);
+    }
+  }
+
+  return cart;
+};
+
+/**
+ * Suma al carrito los productos de una orden del catálogo
+ */
+export const addCatalogItemsToCart = async (
+  ctx: FlowContext,
+  items: CartItem[],
+): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const cart = mergeCartItems(state.cart, items);
+
+  await sendMessage(
+    phoneNumber,
+    templates.getCartProductsAddedMessage(items.length),
+    tenant,
+  );
+
+  await saveCartAndShowEditor(ctx, cart);
+};
+
+/**
+ * Termina la edición y vuelve al paso desde el que se entró
+ */
+export const finishCartEdit = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+
+  await stateMachine.setState(phoneNumber, tenant.id, {
+    cartEditReturnStep: undefined,
+  });
+
+  if (state.cartEditReturnStep === "confirmingOrder") {
+    await showOrderSummary(ctx, state.paymentMethod || "efectivo");
+    return;
+  }
+
+  await askCustomization(ctx);
+};
+
+/**
+ * Índice del producto elegido (fila de la lista o número escrito)
+ */
+const parseCartItemIndex = (text: string, cart: CartItem[]): number => {
+  const index = text.startsWith(CART_ITEM_PREFIX)
+    ? parseInt(text.slice(CART_ITEM_PREFIX.length), 10)
+    : parseSelectionNumber(text);
+
+  return Number.isInteger(index) && index >= 0 && index < cart.length
+    ? index
+    : -1;
+};
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Handler: Lista del carrito (elegir producto, agregar o terminar)
+ */
+export const handleCartEditSelection = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+
+  if (text === BUTTON_IDS.CART_DONE || isDoneCommand(text)) {
+    await finishCartEdit(ctx);
+    return { handled: true };
+  }
+
+  if (text === BUTTON_IDS.CART_ADD) {
+    // Sin catálogo de WhatsApp se eligen desde el menú del bot
+    if (!hasCatalogConfigured(tenant)) {
+      await showMenuCategories(ctx);
+      return { handled: true };
+    }
+
+    await sendMessage(
+      phoneNumber,
+      templates.getCartAddProductsMessage(),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  const index = parseCartItemIndex(text, state.cart);
+
+  if (index < 0) {
+    await showCartEditor(ctx, state.cart);
+    return { handled: true };
+  }
+
+  const item = state.cart[index];
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "editingCartItem", {
+    editingCartIndex: index,
+  });
+
+  await sendInteractiveButtons(
+    phoneNumber,
+    templates.getCartItemActionsMessage(item),
+    [
+      { id: BUTTON_IDS.CART_ITEM_REMOVE, title: "🗑️ Sacar" },
+      { id: BUTTON_IDS.CART_ITEM_QUANTITY, title: "🔢 Cambiar cantidad" },
+      { id: BUTTON_IDS.CART_ITEM_BACK, title: "↩️ Volver" },
+    ],
+    tenant,
+  );
+
+  return { handled: true };
+};
+
+/**
+ * Handler: Acción sobre un producto del carrito
+ */
+export const handleCartItemAction = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+  const index = state.editingCartIndex ?? -1;
+  const item = state.cart[index];
+
+  if (!item || text === BUTTON_IDS.CART_ITEM_BACK || isBackCommand(text)) {
+    await saveCartAndShowEditor(ctx, state.cart);
+    return { handled: true };
+  }
+
+  if (text === BUTTON_IDS.CART_ITEM_REMOVE) {
+    const cart = state.cart.filter((_, i) => i !== index);
+
+    await sendMessage(
+      phoneNumber,
+      templates.getCartItemRemovedMessage(item.product.name),
+      tenant,
+    );
+    await saveCartAndShowEditor(ctx, cart);
+    return { handled: true };
+  }
+
+  if (text === BUTTON_IDS.CART_ITEM_QUANTITY) {
+    await stateMachine.transitionTo(
+      phoneNumber,
+      tenant.id,
+      "changingCartItemQuantity",
+    );
+
+    await sendMessage(
+      phoneNumber,
+      templates.getCartItemQuantityMessage(item),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  // Respuesta no reconocida
+  await sendInteractiveButtons(
+    phoneNumber,
+    templates.getCartItemActionsMessage(item),
+    [
+      { id: BUTTON_IDS.CART_ITEM_REMOVE, title: "🗑️ Sacar" },
+      { id: BUTTON_IDS.CART_ITEM_QUANTITY, title: "🔢 Cambiar cantidad" },
+      { id: BUTTON_IDS.CART_ITEM_BACK, title: "↩️ Volver" },
+    ],
+    tenant,
+  );
+
+  return { handled: true };
+};
+
+/**
+ * Handler: Nueva cantidad de un producto (0 lo saca)
+ */
+export const handleCartItemQuantity = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+  const index = state.editingCartIndex ?? -1;
+  const item = state.cart[index];
+
+  if (!item) {
+    await saveCartAndShowEditor(ctx, state.cart);
+    return { handled: true };
+  }
+
+  const quantity = /^\d+$/.test(text.trim()) ? parseInt(text, 10) : -1;
+
+  if (quantity < 0 || quantity > MAX_CART_ITEM_QUANTITY) {
+    await sendMessage(
+      phoneNumber,
+      templates.getInvalidCartQuantityMessage(),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  const cart =
+    quantity === 0
+      ? state.cart.filter((_, i) => i !== index)
+      : state.cart.map((cartItem, i) =>
+          i === index ? { ...cartItem, quantity } : cartItem,
+        );
+
+  if (quantity === 0) {
+    await sendMessage(
+      phoneNumber,
+      templates.getCartItemRemovedMessage(item.product.name),
+      tenant,
+    );
+  }
+
+  await saveCartAndShowEditor(ctx, cart);
+  return { handled: true };
+};
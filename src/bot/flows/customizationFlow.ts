@@ -13,12 +13,14 @@ import {
   isNegative,
   isAddIntent,
   isRemoveIntent,
+  isEditCartIntent,
   isDoneCommand,
   isBackCommand,
   parseSelectionNumber,
 } from "../utils";
 import { formatCart } from "../utils/formatters";
-import { askOrderType } from "./deliveryFlow";
+import { askExtras } from "./extrasFlow";
+import { startCartEdit } from "./cartFlow";
 import type { FlowContext, FlowResult, OrderCustomization } from "../types";
 import type { Ingredient } from "../../models/ingredient";
 import type { Extra } from "../../models/extra";
@@ -32,7 +34,11 @@ export const askCustomization = async (ctx: FlowContext): Promise<void> => {
   const { phoneNumber, tenant, state } = ctx;
 
   // Mostrar el carrito actual
-  await sendMessage(phoneNumber, formatCart(state.cart), tenant);
+  await sendMessage(
+    phoneNumber,
+    formatCart(state.cart, 0, state.generalExtras),
+    tenant,
+  );
 
   await stateMachine.transitionTo(
     phoneNumber,
@@ -46,6 +52,7 @@ export const askCustomization = async (ctx: FlowContext): Promise<void> => {
     [
       { id: BUTTON_IDS.CUSTOM_YES, title: "✅ Sí, personalizar" },
       { id: BUTTON_IDS.CUSTOM_NO, title: "❌ No, continuar" },
+      { id: BUTTON_IDS.EDIT_CART, title: "🛒 Editar pedido" },
     ],
     tenant,
   );
@@ -116,7 +123,7 @@ const showIngredientsToAdd = async (ctx: FlowContext): Promise<void> => {
 
     // Filtrar ingredientes con stock y que tienen un Extra vinculado
     const ingredientsWithExtras = allIngredients
-      .filter((ing) => ing.stock > 0)
+      .filter((ing) => ing.availableStock > 0)
       .map((ing) => {
         const linkedExtra = allExtras.find(
           (extra) => extra.linkedProductId === ing.id,
@@ -243,7 +250,7 @@ const askForAnotherBurgerCustomization = async (
       tenant,
     );
   } else {
-    await askOrderType(ctx);
+    await askExtras(ctx);
   }
 };
 
@@ -259,6 +266,11 @@ export const handleCustomizationQuestion = async (
 ): Promise<FlowResult> => {
   const { phoneNumber, text, tenant, state } = ctx;
 
+  if (isEditCartIntent(text)) {
+    await startCartEdit(ctx, "askingCustomization");
+    return { handled: true };
+  }
+
   if (isAffirmative(text) || text.toLowerCase().includes("personalizar")) {
     if (state.cart.length === 1) {
       // Solo hay una hamburguesa, ir directo
@@ -270,7 +282,7 @@ export const handleCustomizationQuestion = async (
   }
 
   if (isNegative(text)) {
-    await askOrderType(ctx);
+    await askExtras(ctx);
     return { handled: true };
   }
 
@@ -281,6 +293,7 @@ export const handleCustomizationQuestion = async (
     [
       { id: BUTTON_IDS.CUSTOM_YES, title: "✅ Sí, personalizar" },
       { id: BUTTON_IDS.CUSTOM_NO, title: "❌ No, continuar" },
+      { id: BUTTON_IDS.EDIT_CART, title: "🛒 Editar pedido" },
     ],
     tenant,
   );
@@ -4,21 +4,33 @@ import {
   sendInteractiveButtons,
 } from "../../services/metaService";
 import {
+  calculateZoneDeliveryQuote,
+  findZoneContainingLocation,
   listActiveDeliveryZones,
   listDeliveryZones,
 } from "../../services/deliveryZoneService";
+import { findCustomerByPhone } from "../../services/customerService";
 import { getStateMachine } from "../stateMachine";
 import { BUTTON_IDS } from "../constants";
 import * as templates from "../templates";
 import {
+  calculateCartSubtotal,
   isDeliveryIntent,
+  isNewAddressIntent,
   isPickupIntent,
+  isSavedAddressIntent,
   isValidAddress,
   parseSelectionNumber,
 } from "../utils";
 import { askPaymentMethod } from "./paymentFlow";
-import type { FlowContext, FlowResult } from "../types";
-import type { DeliveryZone } from "../../models/deliveryZone";
+import { askScheduleTime } from "./scheduleFlow";
+import type { FlowContext, FlowResult, SharedLocation } from "../types";
+import type {
+  DeliveryQuote,
+  DeliveryZone,
+  GeoPoint,
+} from "../../models/deliveryZone";
+import type { CustomerAddress } from "../../models/customer";
 
 const stateMachine = getStateMachine();
 
@@ -36,6 +48,20 @@ const getActiveZonesWithFallback = async (
   }
 };
 
+/**
+ * Cotiza el envío a la zona con el carrito actual
+ */
+const quoteZone = (
+  ctx: FlowContext,
+  zone: DeliveryZone,
+  location?: GeoPoint,
+): DeliveryQuote =>
+  calculateZoneDeliveryQuote(zone, {
+    subtotal: calculateCartSubtotal(ctx.state.cart, ctx.state.generalExtras),
+    location,
+    storeLocation: ctx.tenant.storeLocation,
+  });
+
 /**
  * Inicia el flujo de tipo de entrega
  */
@@ -75,20 +101,81 @@ export const askOrderType = async (ctx: FlowContext): Promise<void> => {
     );
   } else if (hasDelivery) {
     await sendMessage(phoneNumber, templates.getOnlyDeliveryMessage(), tenant);
-    await handleDeliveryFlow(ctx);
+    await askScheduleTime({
+      ...ctx,
+      state: { ...state, orderType: "delivery" },
+    });
   } else {
     await sendMessage(phoneNumber, templates.getOnlyPickupMessage(), tenant);
-    await askPaymentMethod({
+    await askScheduleTime({
       ...ctx,
       state: { ...state, orderType: "pickup" },
     });
   }
 };
 
+/**
+ * Última dirección guardada del cliente (null si no tiene o falla la consulta)
+ */
+const getLastSavedAddress = async (
+  phoneNumber: string,
+  tenantId: string,
+): Promise<CustomerAddress | null> => {
+  try {
+    const customer = await findCustomerByPhone(tenantId, phoneNumber);
+    return customer?.addresses[0] ?? null;
+  } catch (error) {
+    logger.error(`Error al obtener direcciones de ${phoneNumber}`, error);
+    return null;
+  }
+};
+
+/**
+ * Pregunta si enviamos a la dirección guardada
+ */
+const askSavedAddress = async (
+  ctx: FlowContext,
+  savedAddress: CustomerAddress,
+): Promise<void> => {
+  const { phoneNumber, tenant } = ctx;
+
+  await sendInteractiveButtons(
+    phoneNumber,
+    templates.getSavedAddressQuestionMessage(savedAddress),
+    [
+      { id: BUTTON_IDS.SAVED_ADDRESS_YES, title: "✅ Sí, a esa" },
+      { id: BUTTON_IDS.SAVED_ADDRESS_NO, title: "📍 Otra dirección" },
+    ],
+    tenant,
+  );
+};
+
 /**
  * Inicia el flujo de delivery
+ * Si el cliente ya pidió antes, ofrece su última dirección
  */
-const handleDeliveryFlow = async (ctx: FlowContext): Promise<void> => {
+export const handleDeliveryFlow = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant } = ctx;
+  const savedAddress = await getLastSavedAddress(phoneNumber, tenant.id);
+
+  if (savedAddress) {
+    await stateMachine.transitionTo(
+      phoneNumber,
+      tenant.id,
+      "confirmingSavedAddress",
+      { orderType: "delivery", savedAddress },
+    );
+    await askSavedAddress(ctx, savedAddress);
+    return;
+  }
+
+  await askDeliveryZone(ctx);
+};
+
+/**
+ * Pide la zona (o la dirección, si el local no tiene zonas)
+ */
+const askDeliveryZone = async (ctx: FlowContext): Promise<void> => {
   const { phoneNumber, tenant, state } = ctx;
 
   try {
@@ -135,6 +222,177 @@ const handleDeliveryFlow = async (ctx: FlowContext): Promise<void> => {
   }
 };
 
+/**
+ * Procesa la ubicación compartida en la zona o la dirección
+ * - Si hay zonas con área, detecta la zona (o rechaza si queda afuera)
+ * - Si la ubicación trae dirección, pasa directo a las referencias
+ */
+const handleSharedLocation = async (
+  ctx: FlowContext,
+  location: SharedLocation,
+): Promise<FlowResult> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const point = { lat: location.lat, lng: location.lng };
+
+  const zones = await getActiveZonesWithFallback(state.tenantId);
+  let selectedZone = state.selectedZone;
+
+  if (zones.some((zone) => zone.area)) {
+    const zone = findZoneContainingLocation(
+      zones,
+      point,
+      tenant.storeLocation,
+    );
+
+    if (!zone) {
+      await sendMessage(
+        phoneNumber,
+        templates.getLocationOutsideZonesMessage(),
+        tenant,
+      );
+      return { handled: true };
+    }
+
+    selectedZone = zone;
+  } else if (zones.length > 0 && !selectedZone) {
+    // Hay zonas pero sin área: el cliente tiene que elegirla
+    await sendMessage(
+      phoneNumber,
+      templates.getLocationZoneNotDetectedMessage(),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  const quote = selectedZone ? quoteZone(ctx, selectedZone, point) : undefined;
+
+  if (quote && !quote.meetsMinimumOrder) {
+    await sendMessage(
+      phoneNumber,
+      templates.getMinimumOrderNotMetMessage(quote),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  await sendMessage(
+    phoneNumber,
+    templates.getLocationReceivedMessage(quote),
+    tenant,
+  );
+
+  const address = location.address?.trim();
+
+  if (address && isValidAddress(address)) {
+    await stateMachine.transitionTo(
+      phoneNumber,
+      tenant.id,
+      "awaitingDeliveryNotes",
+      { selectedZone, deliveryLocation: point, deliveryAddress: address },
+    );
+
+    await sendMessage(
+      phoneNumber,
+      templates.getDeliveryNotesRequestMessage(address),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "awaitingAddress", {
+    selectedZone,
+    deliveryLocation: point,
+  });
+
+  await sendMessage(
+    phoneNumber,
+    templates.getAddressAfterLocationMessage(),
+    tenant,
+  );
+  return { handled: true };
+};
+
+/**
+ * Usa la dirección guardada: recupera la zona (por ubicación o por ID)
+ * y pasa a las referencias, o directo al pago si ya las tenía
+ */
+const useSavedAddress = async (
+  ctx: FlowContext,
+  savedAddress: CustomerAddress,
+): Promise<FlowResult> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const zones = await getActiveZonesWithFallback(state.tenantId);
+  let selectedZone: DeliveryZone | undefined;
+
+  if (zones.length > 0) {
+    const detectedZone = savedAddress.location
+      ? findZoneContainingLocation(
+          zones,
+          savedAddress.location,
+          tenant.storeLocation,
+        )
+      : null;
+
+    selectedZone =
+      detectedZone ?? zones.find((zone) => zone.id === savedAddress.zoneId);
+
+    if (!selectedZone) {
+      // La zona ya no existe o cambió: se pide de nuevo
+      await sendMessage(
+        phoneNumber,
+        templates.getSavedAddressZoneUnavailableMessage(),
+        tenant,
+      );
+      await askDeliveryZone(ctx);
+      return { handled: true };
+    }
+
+    const quote = quoteZone(ctx, selectedZone, savedAddress.location);
+
+    if (!quote.meetsMinimumOrder) {
+      await sendMessage(
+        phoneNumber,
+        templates.getMinimumOrderNotMetMessage(quote),
+        tenant,
+      );
+      return { handled: true };
+    }
+  }
+
+  const updates = {
+    selectedZone,
+    deliveryAddress: savedAddress.address,
+    deliveryLocation: savedAddress.location,
+  };
+
+  if (savedAddress.notes) {
+    const deliveryNotes = savedAddress.notes;
+    await stateMachine.setState(phoneNumber, tenant.id, {
+      ...updates,
+      deliveryNotes,
+    });
+    await askPaymentMethod({
+      ...ctx,
+      state: { ...state, ...updates, deliveryNotes },
+    });
+    return { handled: true };
+  }
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "awaitingDeliveryNotes",
+    updates,
+  );
+
+  await sendMessage(
+    phoneNumber,
+    templates.getDeliveryNotesRequestMessage(savedAddress.address),
+    tenant,
+  );
+  return { handled: true };
+};
+
 // ============================================================================
 // HANDLERS
 // ============================================================================
@@ -148,12 +406,15 @@ export const handleOrderTypeSelection = async (
   const { phoneNumber, text, tenant, state } = ctx;
 
   if (isDeliveryIntent(text)) {
-    await handleDeliveryFlow(ctx);
+    await askScheduleTime({
+      ...ctx,
+      state: { ...state, orderType: "delivery" },
+    });
     return { handled: true };
   }
 
   if (isPickupIntent(text)) {
-    await askPaymentMethod({
+    await askScheduleTime({
       ...ctx,
       state: { ...state, orderType: "pickup" },
     });
@@ -174,15 +435,56 @@ export const handleOrderTypeSelection = async (
   return { handled: true };
 };
 
+/**
+ * Handler: ¿Enviamos a la dirección guardada?
+ */
+export const handleSavedAddressConfirmation = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state, location } = ctx;
+  const savedAddress = state.savedAddress;
+
+  try {
+    if (location) {
+      return await handleSharedLocation(ctx, location);
+    }
+
+    if (!savedAddress || isNewAddressIntent(text)) {
+      await askDeliveryZone(ctx);
+      return { handled: true };
+    }
+
+    if (isSavedAddressIntent(text)) {
+      return await useSavedAddress(ctx, savedAddress);
+    }
+  } catch (error) {
+    logger.error("Error al usar la dirección guardada", error);
+    await sendMessage(
+      phoneNumber,
+      templates.getDeliveryZoneErrorMessage(),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  // Respuesta no reconocida
+  await askSavedAddress(ctx, savedAddress);
+  return { handled: true };
+};
+
 /**
  * Handler: Selección de zona de delivery
  */
 export const handleDeliveryZoneSelection = async (
   ctx: FlowContext,
 ): Promise<FlowResult> => {
-  const { phoneNumber, text, tenant, state } = ctx;
+  const { phoneNumber, text, tenant, state, location } = ctx;
 
   try {
+    if (location) {
+      return await handleSharedLocation(ctx, location);
+    }
+
     const zones = await getActiveZonesWithFallback(state.tenantId);
     const index = parseSelectionNumber(text);
 
@@ -196,6 +498,16 @@ export const handleDeliveryZoneSelection = async (
     }
 
     const selectedZone = zones[index];
+    const quote = quoteZone(ctx, selectedZone);
+
+    if (!quote.meetsMinimumOrder) {
+      await sendMessage(
+        phoneNumber,
+        templates.getMinimumOrderNotMetMessage(quote),
+        tenant,
+      );
+      return { handled: true };
+    }
 
     await stateMachine.transitionTo(phoneNumber, tenant.id, "awaitingAddress", {
       selectedZone,
@@ -224,7 +536,22 @@ export const handleDeliveryZoneSelection = async (
 export const handleAddressInput = async (
   ctx: FlowContext,
 ): Promise<FlowResult> => {
-  const { phoneNumber, text, tenant, state } = ctx;
+  const { phoneNumber, text, tenant, location } = ctx;
+
+  if (location) {
+    try {
+      return await handleSharedLocation(ctx, location);
+    } catch (error) {
+      logger.error("Error al procesar la ubicación", error);
+      await sendMessage(
+        phoneNumber,
+        templates.getDeliveryZoneErrorMessage(),
+        tenant,
+      );
+      return { handled: true };
+    }
+  }
+
   const address = text.trim();
 
   if (!isValidAddress(address)) {
@@ -0,0 +1,339 @@
+import { logger } from "../../utils/logger";
+import {
+  sendMessage,
+  sendInteractiveButtons,
+} from "../../services/metaService";
+import { listActiveExtras } from "../../services/extraService";
+import { listAvailableProducts } from "../../services/productService";
+import { getStateMachine } from "../stateMachine";
+import { BUTTON_IDS, MAX_EXTRA_QUANTITY } from "../constants";
+import * as templates from "../templates";
+import {
+  isAffirmative,
+  isNegative,
+  isDoneCommand,
+  isBackCommand,
+  parseQuantitySelection,
+} from "../utils";
+import { formatPrice } from "../utils/formatters";
+import { askCustomization } from "./customizationFlow";
+import { askOrderType } from "./deliveryFlow";
+import type {
+  CartItem,
+  FlowContext,
+  FlowResult,
+  SelectedExtra,
+} from "../types";
+import type { Extra } from "../../models/extra";
+import type { Product } from "../../models/product";
+
+const stateMachine = getStateMachine();
+
+/**
+ * Opción de la lista de extras
+ * Si tiene burgerIndex, el extra se agrega a esa hamburguesa del carrito
+ */
+interface ExtraOption {
+  extra: Extra;
+  burgerIndex?: number;
+}
+
+/**
+ * Filtra los extras que se pueden ofrecer para el carrito:
+ * - Compatibles con alguna hamburguesa del carrito (Product.compatibleExtras)
+ * - Generales: no están asociados a ninguna hamburguesa del menú
+ */
+const filterOfferableExtras = (
+  cart: CartItem[],
+  extras: Extra[],
+  products: Product[],
+): Extra[] => {
+  const cartCompatibleIds = new Set(
+    cart.flatMap((item) => item.product.compatibleExtras ?? []),
+  );
+
+  return extras.filter(
+    (extra) =>
+      cartCompatibleIds.has(extra.id) || !isBurgerExtra(products, extra),
+  );
+};
+
+/**
+ * Un extra está asociado a una hamburguesa si algún producto lo declara
+ * compatible o si está vinculado a un ingrediente de alguna receta
+ * (esos se ofrecen al personalizar)
+ */
+const isBurgerExtra = (products: Product[], extra: Extra): boolean => {
+  return products.some(
+    (product) =>
+      (product.compatibleExtras ?? []).includes(extra.id) ||
+      product.ingredients.some(
+        (ing) => ing.ingredientId === extra.linkedProductId,
+      ),
+  );
+};
+
+/**
+ * Arma las opciones numeradas de la lista de extras
+ * Primero los extras por hamburguesa, luego los generales
+ */
+const buildExtraOptions = (
+  cart: CartItem[],
+  extras: Extra[],
+): ExtraOption[] => {
+  const burgerOptions: ExtraOption[] = [];
+  const generalOptions: ExtraOption[] = [];
+
+  for (const extra of extras) {
+    const compatibleIndexes = cart
+      .map((item, index) =>
+        (item.product.compatibleExtras ?? []).includes(extra.id) ? index : -1,
+      )
+      .filter((index) => index >= 0);
+
+    if (compatibleIndexes.length === 0) {
+      generalOptions.push({ extra });
+      continue;
+    }
+
+    for (const burgerIndex of compatibleIndexes) {
+      burgerOptions.push({ extra, burgerIndex });
+    }
+  }
+
+  return [...burgerOptions, ...generalOptions];
+};
+
+/**
+ * Suma un extra a una lista, acumulando cantidades si ya estaba
+ */
+const addSelectedExtra = (
+  selected: SelectedExtra[],
+  extra: Extra,
+  quantity: number,
+): SelectedExtra[] => {
+  const existing = selected.find((e) => e.extra.id === extra.id);
+
+  if (existing) {
+    return selected.map((e) =>
+      e.extra.id === extra.id ? { ...e, quantity: e.quantity + quantity } : e,
+    );
+  }
+
+  return [...selected, { extra, quantity }];
+};
+
+/**
+ * Muestra la lista de extras disponibles
+ */
+const showExtrasList = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const options = buildExtraOptions(state.cart, state.availableExtras ?? []);
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "selectingExtras");
+
+  await sendMessage(
+    phoneNumber,
+    templates.getExtrasListMessage(
+      options.map(({ extra, burgerIndex }) => ({
+        extra,
+        burgerName:
+          burgerIndex !== undefined
+            ? state.cart[burgerIndex].product.name
+            : undefined,
+      })),
+    ),
+    tenant,
+  );
+};
+
+/**
+ * Pregunta si desea agregar extras
+ * Si no hay extras para ofrecer, continúa con el tipo de entrega
+ */
+export const askExtras = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+
+  let availableExtras: Extra[];
+  try {
+    const [activeExtras, products] = await Promise.all([
+      listActiveExtras(state.tenantId),
+      listAvailableProducts(state.tenantId),
+    ]);
+    availableExtras = filterOfferableExtras(
+      state.cart,
+      activeExtras,
+      products,
+    );
+  } catch (error) {
+    logger.error("Error al obtener extras", error);
+    await sendMessage(
+      phoneNumber,
+      templates.getExtrasLoadErrorMessage(),
+      tenant,
+    );
+    await askOrderType(ctx);
+    return;
+  }
+
+  if (availableExtras.length === 0) {
+    await askOrderType(ctx);
+    return;
+  }
+
+  await stateMachine.transitionTo(phoneNumber, tenant.id, "askingExtras", {
+    availableExtras,
+    currentBurgerIndex: undefined,
+  });
+
+  await sendInteractiveButtons(
+    phoneNumber,
+    templates.getExtrasQuestionMessage(),
+    [
+      { id: BUTTON_IDS.EXTRAS_YES, title: "✅ Sí, ver extras" },
+      { id: BUTTON_IDS.EXTRAS_NO, title: "❌ No, continuar" },
+    ],
+    tenant,
+  );
+};
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Handler: ¿Desea agregar extras?
+ */
+export const handleExtrasQuestion = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant } = ctx;
+
+  if (isNegative(text)) {
+    await askOrderType(ctx);
+    return { handled: true };
+  }
+
+  if (isAffirmative(text) || text.toLowerCase().includes("extra")) {
+    await showExtrasList(ctx);
+    return { handled: true };
+  }
+
+  if (isBackCommand(text)) {
+    await askCustomization(ctx);
+    return { handled: true };
+  }
+
+  // Respuesta no reconocida
+  await sendInteractiveButtons(
+    phoneNumber,
+    "Por favor, seleccioná una opción:",
+    [
+      { id: BUTTON_IDS.EXTRAS_YES, title: "✅ Sí, ver extras" },
+      { id: BUTTON_IDS.EXTRAS_NO, title: "❌ No, continuar" },
+    ],
+    tenant,
+  );
+
+  return { handled: true };
+};
+
+/**
+ * Handler: Selección de extras (número o número x cantidad)
+ */
+export const handleExtraSelection = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+
+  // "0" cuenta como listo, por eso se evalúa antes que volver
+  if (isDoneCommand(text)) {
+    await askOrderType(ctx);
+    return { handled: true };
+  }
+
+  if (isBackCommand(text)) {
+    await askCustomization(ctx);
+    return { handled: true };
+  }
+
+  const options = buildExtraOptions(state.cart, state.availableExtras ?? []);
+  const { index, quantity } = parseQuantitySelection(text);
+
+  if (index < 0 || index >= options.length) {
+    await sendMessage(
+      phoneNumber,
+      templates.getInvalidSelectionMessage(options.length),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  if (quantity < 1 || quantity > MAX_EXTRA_QUANTITY) {
+    await sendMessage(
+      phoneNumber,
+      templates.getInvalidExtraQuantityMessage(MAX_EXTRA_QUANTITY),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  const { extra, burgerIndex } = options[index];
+
+  // El máximo vale para la cantidad acumulada, no solo para este mensaje
+  const selected =
+    burgerIndex !== undefined
+      ? state.cart[burgerIndex].extras
+      : (state.generalExtras ?? []);
+  const selectedQuantity =
+    selected.find((e) => e.extra.id === extra.id)?.quantity ?? 0;
+
+  if (selectedQuantity + quantity > MAX_EXTRA_QUANTITY) {
+    await sendMessage(
+      phoneNumber,
+      templates.getExtraQuantityLimitMessage(
+        extra.name,
+        selectedQuantity,
+        MAX_EXTRA_QUANTITY,
+      ),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  let updates: { cart?: CartItem[]; generalExtras?: SelectedExtra[] };
+  let addedPrice = extra.price * quantity;
+
+  if (burgerIndex !== undefined) {
+    // Extra de hamburguesa: la cantidad es por unidad del producto
+    const cart = state.cart.map((item, i) =>
+      i === burgerIndex
+        ? { ...item, extras: addSelectedExtra(item.extras, extra, quantity) }
+        : item,
+    );
+    addedPrice *= state.cart[burgerIndex].quantity;
+    updates = { cart };
+  } else {
+    updates = {
+      generalExtras: addSelectedExtra(
+        state.generalExtras ?? [],
+        extra,
+        quantity,
+      ),
+    };
+  }
+
+  await stateMachine.setState(phoneNumber, tenant.id, updates);
+
+  logger.info(
+    `Extra agregado: ${extra.name} x${quantity} (${formatPrice(addedPrice)})`,
+  );
+
+  await sendMessage(
+    phoneNumber,
+    templates.getExtraAddedMessage(extra.name, addedPrice, quantity),
+    tenant,
+  );
+
+  return { handled: true };
+};
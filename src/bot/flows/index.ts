@@ -4,11 +4,22 @@ import type { FlowHandlerMap } from "../types";
 export * from "./welcomeFlow";
 export * from "./activeOrderFlow";
 export * from "./customizationFlow";
+export * from "./extrasFlow";
 export * from "./deliveryFlow";
+export * from "./scheduleFlow";
 export * from "./paymentFlow";
+export * from "./reorderFlow";
+export * from "./cartFlow";
+export * from "./menuFlow";
 
 // Importaciones para el mapa de handlers
 import { handleActiveOrderMenu } from "./activeOrderFlow";
+import {
+  handleMenuCategorySelection,
+  handleMenuProductSelection,
+  handleMenuQuantity,
+  handleMoreProductsQuestion,
+} from "./menuFlow";
 import {
   handleCustomizationQuestion,
   handleBurgerSelection,
@@ -16,13 +27,21 @@ import {
   handleIngredientToAdd,
   handleIngredientToRemove,
 } from "./customizationFlow";
+import { handleExtrasQuestion, handleExtraSelection } from "./extrasFlow";
 import {
   handleOrderTypeSelection,
+  handleSavedAddressConfirmation,
   handleDeliveryZoneSelection,
   handleAddressInput,
   handleDeliveryNotesInput,
 } from "./deliveryFlow";
+import { handleScheduleSelection } from "./scheduleFlow";
 import { handlePaymentSelection, handleOrderConfirmation } from "./paymentFlow";
+import {
+  handleCartEditSelection,
+  handleCartItemAction,
+  handleCartItemQuantity,
+} from "./cartFlow";
 
 /**
  * Mapa de handlers por estado de conversación
@@ -30,15 +49,26 @@ import { handlePaymentSelection, handleOrderConfirmation } from "./paymentFlow";
  */
 export const flowHandlers: FlowHandlerMap = {
   activeOrderMenu: handleActiveOrderMenu,
+  browsingMenuCategories: handleMenuCategorySelection,
+  browsingMenuProducts: handleMenuProductSelection,
+  selectingMenuQuantity: handleMenuQuantity,
+  askingMoreProducts: handleMoreProductsQuestion,
   askingCustomization: handleCustomizationQuestion,
   selectingBurgerToCustomize: handleBurgerSelection,
   selectingCustomizationAction: handleCustomizationAction,
   selectingIngredientToAdd: handleIngredientToAdd,
   selectingIngredientToRemove: handleIngredientToRemove,
+  askingExtras: handleExtrasQuestion,
+  selectingExtras: handleExtraSelection,
   selectingOrderType: handleOrderTypeSelection,
+  selectingScheduleTime: handleScheduleSelection,
+  confirmingSavedAddress: handleSavedAddressConfirmation,
   selectingDeliveryZone: handleDeliveryZoneSelection,
   awaitingAddress: handleAddressInput,
   awaitingDeliveryNotes: handleDeliveryNotesInput,
   selectingPayment: handlePaymentSelection,
   confirmingOrder: handleOrderConfirmation,
+  editingCart: handleCartEditSelection,
+  editingCartItem: handleCartItemAction,
+  changingCartItemQuantity: handleCartItemQuantity,
 };
@@ -0,0 +1,383 @@
+import { logger } from "../../utils/logger";
+import {
+  sendMessage,
+  sendInteractiveButtons,
+  sendInteractiveList,
+} from "../../services/metaService";
+import type { ListSection } from "../../services/metaService";
+import { listAvailableProducts } from "../../services/productService";
+import { getStateMachine } from "../stateMachine";
+import {
+  BUTTON_IDS,
+  CATEGORY_LABELS,
+  MAX_CART_ITEM_QUANTITY,
+  MAX_MENU_PRODUCTS,
+  MENU_CATEGORY_PREFIX,
+  MENU_PRODUCT_PREFIX,
+} from "../constants";
+import * as templates from "../templates";
+import {
+  isAffirmative,
+  isNegative,
+  isBackCommand,
+  isDoneCommand,
+  parseSelectionNumber,
+} from "../utils";
+import { askCustomization } from "./customizationFlow";
+import {
+  limitCartToStock,
+  mergeCartItems,
+  startCartEdit,
+} from "./cartFlow";
+import type { FlowContext, FlowResult } from "../types";
+import type { Product, ProductCategory } from "../../models/product";
+
+const stateMachine = getStateMachine();
+
+/**
+ * Categorías con productos disponibles, en el orden de CATEGORY_LABELS
+ */
+const getMenuCategories = (products: Product[]): ProductCategory[] =>
+  (Object.keys(CATEGORY_LABELS) as ProductCategory[]).filter((category) =>
+    products.some((product) => product.category === category),
+  );
+
+const getCategoryLabel = (category: ProductCategory): string =>
+  CATEGORY_LABELS[category] ?? category;
+
+/**
+ * Productos disponibles del tenant (vacío si falla la consulta)
+ */
+const loadMenuProducts = async (tenantId: string): Promise<Product[]> => {
+  try {
+    return await listAvailableProducts(tenantId);
+  } catch (error) {
+    logger.error("Error al cargar los productos del menú", error);
+    return [];
+  }
+};
+
+/**
+ * Pregunta si quiere agregar más productos o terminar
+ */
+const askMoreProducts = async (
+  ctx: FlowContext,
+  message: string,
+): Promise<void> => {
+  await sendInteractiveButtons(
+    ctx.phoneNumber,
+    message,
+    [
+      { id: BUTTON_IDS.MENU_ADD_MORE, title: "➕ Agregar más" },
+      { id: BUTTON_IDS.MENU_CHECKOUT, title: "✅ Terminar pedido" },
+    ],
+    ctx.tenant,
+  );
+};
+
+/**
+ * Sigue con el pedido: vuelve a la edición del carrito si se entró desde
+ * ahí, si no pasa a la personalización
+ */
+const checkoutMenu = async (ctx: FlowContext): Promise<void> => {
+  const { cartEditReturnStep } = ctx.state;
+
+  if (cartEditReturnStep) {
+    await startCartEdit(ctx, cartEditReturnStep);
+    return;
+  }
+
+  await askCustomization(ctx);
+};
+
+/**
+ * Muestra la lista de productos de una categoría
+ */
+const showMenuProducts = async (
+  ctx: FlowContext,
+  category: ProductCategory,
+  products: Product[],
+): Promise<void> => {
+  const { phoneNumber, tenant } = ctx;
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "browsingMenuProducts",
+    { menuCategory: category, menuProduct: undefined },
+  );
+
+  const sections: ListSection[] = [
+    {
+      title: getCategoryLabel(category),
+      rows: products.slice(0, MAX_MENU_PRODUCTS).map((product) => ({
+        id: `${MENU_PRODUCT_PREFIX}${product.id}`,
+        title: product.name,
+        description: templates.getMenuProductRowDescription(product),
+      })),
+    },
+    {
+      title: "Opciones",
+      rows: [{ id: BUTTON_IDS.MENU_BACK, title: "↩️ Ver categorías" }],
+    },
+  ];
+
+  await sendInteractiveList(
+    phoneNumber,
+    templates.getMenuProductsMessage(getCategoryLabel(category)),
+    "Ver productos",
+    sections,
+    tenant,
+  );
+};
+
+/**
+ * Muestra las categorías del menú (con una sola, va directo a los productos)
+ */
+export const showMenuCategories = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+
+  const products = await loadMenuProducts(tenant.id);
+  const categories = getMenuCategories(products);
+
+  if (categories.length === 0) {
+    await sendMessage(
+      phoneNumber,
+      templates.getMenuUnavailableMessage(),
+      tenant,
+    );
+    return;
+  }
+
+  if (categories.length === 1) {
+    await showMenuProducts(
+      ctx,
+      categories[0],
+      products.filter((product) => product.category === categories[0]),
+    );
+    return;
+  }
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "browsingMenuCategories",
+    { menuCategory: undefined, menuProduct: undefined },
+  );
+
+  const sections: ListSection[] = [
+    {
+      title: "Categorías",
+      rows: categories.map((category) => ({
+        id: `${MENU_CATEGORY_PREFIX}${category}`,
+        title: getCategoryLabel(category),
+        description: `${
+          products.filter((product) => product.category === category).length
+        } producto(s)`,
+      })),
+    },
+  ];
+
+  if (state.cart.length > 0) {
+    sections.push({
+      title: "Tu pedido",
+      rows: [{ id: BUTTON_IDS.MENU_CHECKOUT, title: "✅ Terminar pedido" }],
+    });
+  }
+
+  await sendInteractiveList(
+    phoneNumber,
+    templates.getMenuCategoriesMessage(),
+    "Ver menú",
+    sections,
+    tenant,
+  );
+};
+
+/**
+ * Empieza un pedido desde el menú por listas (sin catálogo de WhatsApp)
+ */
+export const startMenu = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, contactName } = ctx;
+
+  const state = await stateMachine.setState(phoneNumber, tenant.id, {
+    cart: [],
+    generalExtras: [],
+    customerName: contactName,
+  });
+
+  await showMenuCategories({ ...ctx, state });
+};
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Handler: Selección de categoría
+ */
+export const handleMenuCategorySelection = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { text, tenant, state } = ctx;
+
+  if (
+    state.cart.length > 0 &&
+    (text === BUTTON_IDS.MENU_CHECKOUT || isDoneCommand(text))
+  ) {
+    await checkoutMenu(ctx);
+    return { handled: true };
+  }
+
+  const products = await loadMenuProducts(tenant.id);
+  const categories = getMenuCategories(products);
+
+  const category = text.startsWith(MENU_CATEGORY_PREFIX)
+    ? categories.find((c) => `${MENU_CATEGORY_PREFIX}${c}` === text)
+    : categories[parseSelectionNumber(text)];
+
+  if (!category) {
+    await showMenuCategories(ctx);
+    return { handled: true };
+  }
+
+  await showMenuProducts(
+    ctx,
+    category,
+    products.filter((product) => product.category === category),
+  );
+  return { handled: true };
+};
+
+/**
+ * Handler: Selección de producto
+ */
+export const handleMenuProductSelection = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+
+  if (text === BUTTON_IDS.MENU_BACK || isBackCommand(text)) {
+    await showMenuCategories(ctx);
+    return { handled: true };
+  }
+
+  const products = (await loadMenuProducts(tenant.id))
+    .filter((product) => product.category === state.menuCategory)
+    .slice(0, MAX_MENU_PRODUCTS);
+
+  const product = text.startsWith(MENU_PRODUCT_PREFIX)
+    ? products.find((p) => `${MENU_PRODUCT_PREFIX}${p.id}` === text)
+    : products[parseSelectionNumber(text)];
+
+  if (!product) {
+    if (text.startsWith(MENU_PRODUCT_PREFIX)) {
+      await sendMessage(
+        phoneNumber,
+        templates.getMenuProductUnavailableMessage(),
+        tenant,
+      );
+    }
+
+    if (state.menuCategory && products.length > 0) {
+      await showMenuProducts(ctx, state.menuCategory, products);
+    } else {
+      await showMenuCategories(ctx);
+    }
+    return { handled: true };
+  }
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "selectingMenuQuantity",
+    { menuProduct: product },
+  );
+
+  await sendMessage(
+    phoneNumber,
+    templates.getMenuQuantityMessage(product),
+    tenant,
+  );
+  return { handled: true };
+};
+
+/**
+ * Handler: Cantidad del producto elegido
+ */
+export const handleMenuQuantity = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+  const product = state.menuProduct;
+
+  if (!product || isBackCommand(text)) {
+    await showMenuCategories(ctx);
+    return { handled: true };
+  }
+
+  const quantity = /^\d+$/.test(text.trim()) ? parseInt(text, 10) : 0;
+
+  if (quantity < 1 || quantity > MAX_CART_ITEM_QUANTITY) {
+    await sendMessage(
+      phoneNumber,
+      templates.getInvalidMenuQuantityMessage(),
+      tenant,
+    );
+    return { handled: true };
+  }
+
+  const requestedCart = mergeCartItems(state.cart, [
+    { product, quantity, customizations: [], extras: [] },
+  ]);
+  const cart = await limitCartToStock(ctx, requestedCart);
+
+  // Sin stock para nada de lo elegido: volver al menú
+  if (cart.length === 0) {
+    await showMenuCategories({ ...ctx, state: { ...state, cart } });
+    return { handled: true };
+  }
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "askingMoreProducts",
+    { cart, menuProduct: undefined },
+  );
+
+  // Si se ajustó al stock, el aviso ya se envió
+  await askMoreProducts(
+    ctx,
+    cart === requestedCart
+      ? templates.getMenuProductAddedMessage(product, quantity)
+      : "¿Querés agregar algo más?",
+  );
+  return { handled: true };
+};
+
+/**
+ * Handler: ¿Agregar más productos o terminar?
+ */
+export const handleMoreProductsQuestion = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { text } = ctx;
+
+  if (text === BUTTON_IDS.MENU_ADD_MORE || isAffirmative(text)) {
+    await showMenuCategories(ctx);
+    return { handled: true };
+  }
+
+  if (
+    text === BUTTON_IDS.MENU_CHECKOUT ||
+    isNegative(text) ||
+    isDoneCommand(text)
+  ) {
+    await checkoutMenu(ctx);
+    return { handled: true };
+  }
+
+  // Respuesta no reconocida
+  await askMoreProducts(ctx, "Por favor, seleccioná una opción:");
+  return { handled: true };
+};
@@ -9,20 +9,54 @@ import {
   hasMercadoPagoConfigured,
 } from "../../services/mercadoPagoService";
 import { getStateMachine } from "../stateMachine";
-import { BUTTON_IDS, CUSTOMER_FALLBACK_NAME } from "../constants";
+import { BUTTON_IDS } from "../constants";
+import { CUSTOMER_FALLBACK_NAME } from "../../utils/customer";
 import * as templates from "../templates";
+import { calculateZoneDeliveryQuote } from "../../services/deliveryZoneService";
 import {
+  calculateCartSubtotal,
   isCashPaymentIntent,
   isTransferPaymentIntent,
   isConfirmIntent,
   isCancelConfirmIntent,
+  isEditCartIntent,
 } from "../utils";
 import { isHttpError } from "../../utils/httpError";
-import type { FlowContext, FlowResult } from "../types";
-import type { CreateOrderInput, OrderItem } from "../../models/order";
+import { formatScheduledFor } from "./scheduleFlow";
+import { startCartEdit } from "./cartFlow";
+import type {
+  CartItem,
+  FlowContext,
+  FlowResult,
+  SelectedExtra,
+} from "../types";
+import type {
+  CreateOrderInput,
+  OrderExtra,
+  OrderItem,
+} from "../../models/order";
+import type { DeliveryQuote } from "../../models/deliveryZone";
 
 const stateMachine = getStateMachine();
 
+/**
+ * Cotización del envío con el carrito actual (solo delivery con zona)
+ * El costo definitivo lo vuelve a calcular el servidor al crear el pedido
+ */
+const getDeliveryQuote = (ctx: FlowContext): DeliveryQuote | undefined => {
+  const { tenant, state } = ctx;
+
+  if (state.orderType !== "delivery" || !state.selectedZone) {
+    return undefined;
+  }
+
+  return calculateZoneDeliveryQuote(state.selectedZone, {
+    subtotal: calculateCartSubtotal(state.cart, state.generalExtras),
+    location: state.deliveryLocation,
+    storeLocation: tenant.storeLocation,
+  });
+};
+
 /**
  * Pregunta el método de pago
  */
@@ -47,7 +81,7 @@ export const askPaymentMethod = async (ctx: FlowContext): Promise<void> => {
 /**
  * Muestra el resumen del pedido
  */
-const showOrderSummary = async (
+export const showOrderSummary = async (
   ctx: FlowContext,
   paymentMethod: "efectivo" | "transferencia",
 ): Promise<void> => {
@@ -65,8 +99,11 @@ const showOrderSummary = async (
       state.orderType || "pickup",
       paymentMethod,
       state.deliveryAddress,
-      state.selectedZone,
+      getDeliveryQuote(ctx),
       state.deliveryNotes,
+      state.scheduledFor
+        ? formatScheduledFor(state.scheduledFor, tenant)
+        : undefined,
     ),
     tenant,
   );
@@ -77,28 +114,50 @@ const showOrderSummary = async (
     [
       { id: BUTTON_IDS.CONFIRM, title: "✅ Confirmar" },
       { id: BUTTON_IDS.CANCEL, title: "❌ Cancelar" },
+      { id: BUTTON_IDS.EDIT_CART, title: "🛒 Editar pedido" },
     ],
     tenant,
   );
 };
 
+/**
+ * Convierte un extra seleccionado en una línea de extra del pedido
+ */
+const toOrderExtra = ({ extra, quantity }: SelectedExtra): OrderExtra => ({
+  extraId: extra.id,
+  extraName: extra.name,
+  quantity,
+  unitPrice: extra.price,
+  totalPrice: extra.price * quantity,
+});
+
+/**
+ * Precio unitario de un item: producto + ingredientes agregados + extras
+ */
+const getCartItemUnitPrice = (cartItem: CartItem): number => {
+  const customizationsTotal = cartItem.customizations
+    .filter((c) => c.type === "agregar")
+    .reduce((sum, c) => sum + c.extraPrice, 0);
+  const extrasTotal = cartItem.extras.reduce(
+    (sum, e) => sum + e.extra.price * e.quantity,
+    0,
+  );
+
+  return cartItem.product.price + customizationsTotal + extrasTotal;
+};
+
 /**
  * Crea el pedido y envía confirmación
  */
 const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
   const { phoneNumber, tenant, state } = ctx;
-  const deliveryCost = state.selectedZone?.price ?? 0;
+  const deliveryCost = getDeliveryQuote(ctx)?.cost ?? 0;
 
   const items: OrderItem[] = state.cart.map((cartItem) => {
-    let unitPrice = cartItem.product.price;
-    const customizationsTotal = cartItem.customizations
-      .filter((c) => c.type === "agregar")
-      .reduce((sum, c) => sum + c.extraPrice, 0);
-    unitPrice += customizationsTotal;
-
+    const unitPrice = getCartItemUnitPrice(cartItem);
     const itemTotal = unitPrice * cartItem.quantity;
 
-    return {
+    const item: OrderItem = {
       productId: cartItem.product.id,
       productName: cartItem.product.name,
       quantity: cartItem.quantity,
@@ -106,8 +165,16 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
       customizations: cartItem.customizations,
       itemTotal,
     };
+
+    if (cartItem.extras.length > 0) {
+      item.extras = cartItem.extras.map(toOrderExtra);
+    }
+
+    return item;
   });
 
+  const generalExtras = state.generalExtras ?? [];
+
   const useMercadoPago =
     state.paymentMethod === "transferencia" && hasMercadoPagoConfigured(tenant);
 
@@ -123,6 +190,9 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
   };
 
   // Agregar campos opcionales
+  if (generalExtras.length > 0) {
+    orderInput.extras = generalExtras.map(toOrderExtra);
+  }
   if (state.paymentMethod === "transferencia") {
     orderInput.paymentStatus = "pendiente";
   }
@@ -138,6 +208,13 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
       orderInput.deliveryZoneName = state.selectedZone.name;
     }
     if (state.deliveryNotes) orderInput.deliveryNotes = state.deliveryNotes;
+    if (state.deliveryLocation) {
+      orderInput.deliveryLocation = state.deliveryLocation;
+    }
+  }
+
+  if (state.scheduledFor) {
+    orderInput.scheduledFor = state.scheduledFor;
   }
 
   const order = await createOrder(orderInput);
@@ -150,20 +227,26 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
         id: `item-${index}`,
         title: cartItem.product.name,
         quantity: cartItem.quantity,
-        unit_price:
-          cartItem.product.price +
-          cartItem.customizations
-            .filter((c) => c.type === "agregar")
-            .reduce((sum, c) => sum + c.extraPrice, 0),
+        unit_price: getCartItemUnitPrice(cartItem),
         currency_id: "ARS",
       }));
 
-      if (deliveryCost > 0) {
+      generalExtras.forEach(({ extra, quantity }, index) => {
+        mpItems.push({
+          id: `extra-${index}`,
+          title: extra.name,
+          quantity,
+          unit_price: extra.price,
+          currency_id: "ARS",
+        });
+      });
+
+      if (order.deliveryCost) {
         mpItems.push({
           id: "delivery",
           title: "Costo de delivery",
           quantity: 1,
-          unit_price: deliveryCost,
+          unit_price: order.deliveryCost,
           currency_id: "ARS",
         });
       }
@@ -174,16 +257,18 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
         mpItems,
         phoneNumber,
         state.customerName || CUSTOMER_FALLBACK_NAME,
+        order.paymentExpiresAt,
       );
 
       await sendMessage(
         phoneNumber,
         templates.getOrderWithPaymentLinkMessage(
-          order.id,
+          order,
           preference.initPoint,
-          state.orderType || "pickup",
+          tenant,
         ),
         tenant,
+        { orderId: order.id },
       );
       return;
     } catch (mpError) {
@@ -196,6 +281,7 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
           tenant.name,
         ),
         tenant,
+        { orderId: order.id },
       );
       return;
     }
@@ -205,12 +291,31 @@ const createAndConfirmOrder = async (ctx: FlowContext): Promise<void> => {
   await sendMessage(
     phoneNumber,
     templates.getOrderReceivedMessage(
-      order.id,
-      state.orderType || "pickup",
-      tenant.name,
+      order,
+      tenant,
+      order.scheduledFor
+        ? formatScheduledFor(order.scheduledFor, tenant)
+        : undefined,
     ),
     tenant,
+    { orderId: order.id },
   );
+
+  // Transferencia sin MP: datos de la cuenta y pedido del comprobante
+  if (order.paymentMethod === "transferencia") {
+    await sendMessage(
+      phoneNumber,
+      tenant.bankTransfer
+        ? templates.getBankTransferInstructionsMessage(
+            tenant.bankTransfer,
+            order.total,
+            tenant,
+          )
+        : templates.getBankTransferDetailsMissingMessage(tenant.name),
+      tenant,
+      { orderId: order.id },
+    );
+  }
 };
 
 // ============================================================================
@@ -261,12 +366,17 @@ export const handleOrderConfirmation = async (
     await stateMachine.reset(phoneNumber, tenant.id);
     await sendMessage(
       phoneNumber,
-      templates.getCancellationMessage(tenant.name),
+      templates.getCancellationMessage(tenant),
       tenant,
     );
     return { handled: true };
   }
 
+  if (isEditCartIntent(text)) {
+    await startCartEdit(ctx, "confirmingOrder");
+    return { handled: true };
+  }
+
   if (!isConfirmIntent(text)) {
     await sendInteractiveButtons(
       phoneNumber,
@@ -274,6 +384,7 @@ export const handleOrderConfirmation = async (
       [
         { id: BUTTON_IDS.CONFIRM, title: "✅ Confirmar" },
         { id: BUTTON_IDS.CANCEL, title: "❌ Cancelar" },
+        { id: BUTTON_IDS.EDIT_CART, title: "🛒 Editar pedido" },
       ],
       tenant,
     );
@@ -0,0 +1,209 @@
+import { logger } from "../../utils/logger";
+import {
+  sendMessage,
+  sendInteractiveButtons,
+} from "../../services/metaService";
+import { getLastDeliveredOrderByPhone } from "../../services/orderService";
+import { getProductById } from "../../services/productService";
+import { listActiveExtras } from "../../services/extraService";
+import { getStateMachine } from "../stateMachine";
+import { BUTTON_IDS } from "../constants";
+import * as templates from "../templates";
+import { askOrderType } from "./deliveryFlow";
+import { limitCartToStock } from "./cartFlow";
+import type {
+  CartItem,
+  FlowContext,
+  OrderCustomization,
+  SelectedExtra,
+} from "../types";
+import type { Extra } from "../../models/extra";
+import type { Order, OrderExtra } from "../../models/order";
+import type { Tenant } from "../../models/tenant";
+
+const stateMachine = getStateMachine();
+
+interface RebuiltCart {
+  cart: CartItem[];
+  generalExtras: SelectedExtra[];
+  unavailable: string[]; // Nombres de lo que se sacó del pedido
+}
+
+/**
+ * Último pedido entregado (null si no hay o falla la consulta)
+ */
+const findLastDeliveredOrder = async (
+  phoneNumber: string,
+  tenantId: string,
+): Promise<Order | null> => {
+  try {
+    return await getLastDeliveredOrderByPhone(tenantId, phoneNumber);
+  } catch (error) {
+    logger.error(`Error al buscar el último pedido de ${phoneNumber}`, error);
+    return null;
+  }
+};
+
+/**
+ * Extras del pedido con su precio actual (los inactivos se descartan)
+ */
+const toSelectedExtras = (
+  orderExtras: OrderExtra[],
+  activeExtras: Extra[],
+  unavailable: string[],
+): SelectedExtra[] =>
+  orderExtras.flatMap(({ extraId, extraName, quantity }) => {
+    const extra = activeExtras.find((e) => e.id === extraId);
+
+    if (!extra) {
+      unavailable.push(extraName);
+      return [];
+    }
+
+    return [{ extra, quantity }];
+  });
+
+/**
+ * Arma el carrito a partir de un pedido anterior con los precios actuales
+ * Descarta productos no disponibles, extras inactivos e ingredientes
+ * agregados que ya no tienen un extra vinculado
+ */
+const rebuildCartFromOrder = async (
+  order: Order,
+  tenantId: string,
+): Promise<RebuiltCart> => {
+  const activeExtras = await listActiveExtras(tenantId);
+  const unavailable: string[] = [];
+  const cart: CartItem[] = [];
+
+  for (const item of order.items) {
+    const product = await getProductById(tenantId, item.productId).catch(
+      () => null,
+    );
+
+    if (!product || !product.available) {
+      unavailable.push(item.productName);
+      continue;
+    }
+
+    const customizations = item.customizations.flatMap(
+      (customization): OrderCustomization[] => {
+        if (customization.type === "quitar") {
+          return [customization];
+        }
+
+        const linkedExtra = activeExtras.find(
+          (extra) => extra.linkedProductId === customization.ingredientId,
+        );
+
+        if (!linkedExtra) {
+          unavailable.push(`Extra ${customization.ingredientName}`);
+          return [];
+        }
+
+        return [{ ...customization, extraPrice: linkedExtra.price }];
+      },
+    );
+
+    cart.push({
+      product,
+      quantity: item.quantity,
+      customizations,
+      extras: toSelectedExtras(item.extras ?? [], activeExtras, unavailable),
+    });
+  }
+
+  return {
+    cart,
+    generalExtras: toSelectedExtras(
+      order.extras ?? [],
+      activeExtras,
+      unavailable,
+    ),
+    unavailable,
+  };
+};
+
+/**
+ * Ofrece repetir el último pedido entregado (después de la bienvenida)
+ */
+export const offerReorder = async (
+  phoneNumber: string,
+  tenant: Tenant,
+): Promise<void> => {
+  const lastOrder = await findLastDeliveredOrder(phoneNumber, tenant.id);
+
+  if (!lastOrder) {
+    return;
+  }
+
+  await sendInteractiveButtons(
+    phoneNumber,
+    templates.getReorderOfferMessage(lastOrder),
+    [{ id: BUTTON_IDS.REORDER, title: "🔁 Repetir pedido" }],
+    tenant,
+  );
+};
+
+/**
+ * Repite el último pedido entregado: arma el carrito con precios actuales
+ * y pasa directo al tipo de entrega (sin catálogo ni personalización)
+ */
+export const startReorder = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, contactName } = ctx;
+
+  const lastOrder = await findLastDeliveredOrder(phoneNumber, tenant.id);
+
+  if (!lastOrder) {
+    await sendMessage(
+      phoneNumber,
+      templates.getNoPreviousOrderMessage(),
+      tenant,
+    );
+    return;
+  }
+
+  try {
+    const rebuilt = await rebuildCartFromOrder(lastOrder, tenant.id);
+    const { generalExtras, unavailable } = rebuilt;
+    const cart = await limitCartToStock(ctx, rebuilt.cart);
+
+    if (cart.length === 0) {
+      await sendMessage(
+        phoneNumber,
+        templates.getReorderNothingAvailableMessage(),
+        tenant,
+      );
+      return;
+    }
+
+    const state = await stateMachine.setState(phoneNumber, tenant.id, {
+      cart,
+      generalExtras,
+      customerName: contactName || lastOrder.customerName,
+    });
+
+    if (unavailable.length > 0) {
+      await sendMessage(
+        phoneNumber,
+        templates.getReorderUnavailableItemsMessage(unavailable),
+        tenant,
+      );
+    }
+
+    await sendMessage(
+      phoneNumber,
+      templates.getReorderCartMessage(cart, generalExtras),
+      tenant,
+    );
+
+    await askOrderType({ ...ctx, state });
+  } catch (error) {
+    logger.error("Error al repetir el último pedido", error);
+    await sendMessage(
+      phoneNumber,
+      "Hubo un error al repetir tu pedido. Por favor, intenta nuevamente.",
+      tenant,
+    );
+  }
+};
@@ -0,0 +1,229 @@
+import { logger } from "../../utils/logger";
+import {
+  sendMessage,
+  sendInteractiveList,
+} from "../../services/metaService";
+import type { ListSection } from "../../services/metaService";
+import { getOpeningStatus } from "../../services/tenantService";
+import {
+  getAvailableSlots,
+  getScheduleSettings,
+} from "../../services/scheduleService";
+import { getBusinessDayConfig } from "../../utils/businessDay";
+import { getStateMachine } from "../stateMachine";
+import {
+  BUTTON_IDS,
+  ESTIMATED_TIMES,
+  MAX_SCHEDULE_SLOTS,
+  SCHEDULE_SLOT_PREFIX,
+} from "../constants";
+import * as templates from "../templates";
+import { isBackCommand } from "../utils";
+import {
+  formatOpeningTime,
+  formatSlotDay,
+  formatSlotRange,
+} from "../utils/formatters";
+import { askOrderType, handleDeliveryFlow } from "./deliveryFlow";
+import { askPaymentMethod } from "./paymentFlow";
+import type { FlowContext, FlowResult } from "../types";
+import type { Tenant } from "../../models/tenant";
+
+const stateMachine = getStateMachine();
+
+/**
+ * Con el local cerrado (y aceptando pedidos programados) no se ofrece
+ * "lo antes posible": el pedido tiene que ir a una franja
+ */
+const isScheduleRequired = (tenant: Tenant): boolean => {
+  const status = getOpeningStatus(tenant);
+  return !status.isOpen && status.acceptsScheduledOrders;
+};
+
+/**
+ * Horario programado legible para el cliente. Ej: "hoy a las 20:30"
+ */
+export const formatScheduledFor = (
+  scheduledFor: string,
+  tenant: Tenant,
+): string =>
+  formatOpeningTime(
+    new Date(scheduledFor),
+    getBusinessDayConfig(tenant).timezone,
+  );
+
+/**
+ * Continúa el pedido según el tipo de entrega elegido
+ */
+const continueAfterSchedule = async (ctx: FlowContext): Promise<void> => {
+  if (ctx.state.orderType === "delivery") {
+    await handleDeliveryFlow(ctx);
+    return;
+  }
+
+  await askPaymentMethod({
+    ...ctx,
+    state: { ...ctx.state, orderType: "pickup" },
+  });
+};
+
+/**
+ * Arma las secciones de la lista: "lo antes posible" y franjas por día
+ */
+const buildScheduleSections = (
+  tenant: Tenant,
+  slots: Date[],
+  orderType: "delivery" | "pickup",
+  includeAsap: boolean,
+): ListSection[] => {
+  const { timezone } = getBusinessDayConfig(tenant);
+  const { slotMinutes } = getScheduleSettings(tenant);
+  const sections: ListSection[] = [];
+
+  if (includeAsap) {
+    sections.push({
+      title: "Ahora",
+      rows: [
+        {
+          id: BUTTON_IDS.SCHEDULE_ASAP,
+          title: "⚡ Lo antes posible",
+          description: `Tiempo estimado: ${ESTIMATED_TIMES[orderType]}`,
+        },
+      ],
+    });
+  }
+
+  for (const slot of slots) {
+    const title = formatSlotDay(slot, timezone);
+    let section = sections.find((s) => s.title === title);
+
+    if (!section) {
+      section = { title, rows: [] };
+      sections.push(section);
+    }
+
+    section.rows.push({
+      id: `${SCHEDULE_SLOT_PREFIX}${slot.toISOString()}`,
+      title: formatSlotRange(slot, slotMinutes, timezone),
+    });
+  }
+
+  return sections;
+};
+
+/**
+ * Pregunta para cuándo es el pedido (después del tipo de entrega)
+ * Si el tenant no programa pedidos y está abierto, se saltea el paso
+ */
+export const askScheduleTime = async (ctx: FlowContext): Promise<void> => {
+  const { phoneNumber, tenant, state } = ctx;
+  const orderType = state.orderType || "pickup";
+  const scheduleRequired = isScheduleRequired(tenant);
+
+  if (!getScheduleSettings(tenant).enabled && !scheduleRequired) {
+    await continueAfterSchedule(ctx);
+    return;
+  }
+
+  let slots: Date[] = [];
+  try {
+    slots = await getAvailableSlots(tenant, MAX_SCHEDULE_SLOTS);
+  } catch (error) {
+    logger.error("Error al obtener franjas horarias", error);
+  }
+
+  if (slots.length === 0) {
+    if (scheduleRequired) {
+      await sendMessage(
+        phoneNumber,
+        templates.getNoScheduleSlotsClosedMessage(tenant.name),
+        tenant,
+      );
+      await stateMachine.reset(phoneNumber, tenant.id);
+      return;
+    }
+
+    await sendMessage(
+      phoneNumber,
+      templates.getNoScheduleSlotsMessage(),
+      tenant,
+    );
+    await continueAfterSchedule({
+      ...ctx,
+      state: { ...state, scheduledFor: undefined },
+    });
+    return;
+  }
+
+  await stateMachine.transitionTo(
+    phoneNumber,
+    tenant.id,
+    "selectingScheduleTime",
+    {
+      orderType,
+      scheduledFor: undefined,
+      availableSlots: slots.map((slot) => slot.toISOString()),
+    },
+  );
+
+  await sendInteractiveList(
+    phoneNumber,
+    templates.getScheduleQuestionMessage(scheduleRequired),
+    "Ver horarios",
+    buildScheduleSections(tenant, slots, orderType, !scheduleRequired),
+    tenant,
+  );
+};
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Handler: Selección de horario (lo antes posible o franja)
+ */
+export const handleScheduleSelection = async (
+  ctx: FlowContext,
+): Promise<FlowResult> => {
+  const { phoneNumber, text, tenant, state } = ctx;
+
+  if (isBackCommand(text)) {
+    await askOrderType(ctx);
+    return { handled: true };
+  }
+
+  if (text === BUTTON_IDS.SCHEDULE_ASAP && !isScheduleRequired(tenant)) {
+    await stateMachine.setState(phoneNumber, tenant.id, {
+      scheduledFor: undefined,
+    });
+    await continueAfterSchedule({
+      ...ctx,
+      state: { ...state, scheduledFor: undefined },
+    });
+    return { handled: true };
+  }
+
+  const scheduledFor = text.startsWith(SCHEDULE_SLOT_PREFIX)
+    ? text.slice(SCHEDULE_SLOT_PREFIX.length)
+    : undefined;
+
+  if (!scheduledFor || !(state.availableSlots ?? []).includes(scheduledFor)) {
+    // Respuesta no reconocida: volver a mostrar franjas actualizadas
+    await askScheduleTime(ctx);
+    return { handled: true };
+  }
+
+  await stateMachine.setState(phoneNumber, tenant.id, { scheduledFor });
+
+  await sendMessage(
+    phoneNumber,
+    templates.getScheduleSelectedMessage(
+      formatScheduledFor(scheduledFor, tenant),
+    ),
+    tenant,
+  );
+
+  await continueAfterSchedule({ ...ctx, state: { ...state, scheduledFor } });
+
+  return { handled: true };
+};
@@ -1,32 +1,92 @@
-import { sendMessage } from "../../services/metaService";
+import {
+  sendMessage,
+  sendInteractiveButtons,
+} from "../../services/metaService";
+import { getOpeningStatus } from "../../services/tenantService";
+import { hasCatalogConfigured } from "../../services/whatsappCatalogService";
+import { getBusinessDayConfig } from "../../utils/businessDay";
+import { BUTTON_IDS } from "../constants";
 import * as templates from "../templates";
+import { formatOpeningTime } from "../utils/formatters";
+import { offerReorder } from "./reorderFlow";
 import type { Tenant } from "../../models/tenant";
 
 /**
  * Envía el mensaje de bienvenida
+ * Sin catálogo de WhatsApp ofrece el menú por listas. A clientes que ya
+ * recibieron un pedido les ofrece repetirlo
  */
 export const sendWelcomeMessage = async (
   phoneNumber: string,
   tenant: Tenant,
   contactName?: string,
+): Promise<void> => {
+  if (hasCatalogConfigured(tenant)) {
+    await sendMessage(
+      phoneNumber,
+      templates.getWelcomeMessage(contactName, tenant),
+      tenant,
+    );
+  } else {
+    await sendInteractiveButtons(
+      phoneNumber,
+      templates.getMenuWelcomeMessage(contactName, tenant),
+      [{ id: BUTTON_IDS.VIEW_MENU, title: "📋 Ver menú" }],
+      tenant,
+    );
+  }
+  await offerReorder(phoneNumber, tenant);
+};
+
+/**
+ * Envía mensaje de pedido cancelado
+ */
+export const sendCancellationMessage = async (
+  phoneNumber: string,
+  tenant: Tenant,
 ): Promise<void> => {
   await sendMessage(
     phoneNumber,
-    templates.getWelcomeMessage(contactName, tenant.name),
+    templates.getCancellationMessage(tenant),
     tenant,
   );
 };
 
 /**
- * Envía mensaje de pedido cancelado
+ * Verifica el horario de atención antes de empezar un pedido
+ * Si está cerrado avisa la próxima apertura. Devuelve true si el pedido
+ * puede continuar (abierto, o cerrado aceptando pedidos programados)
  */
-export const sendCancellationMessage = async (
+export const checkOpeningHours = async (
   phoneNumber: string,
   tenant: Tenant,
-): Promise<void> => {
+): Promise<boolean> => {
+  const status = getOpeningStatus(tenant);
+
+  if (status.isOpen) {
+    return true;
+  }
+
+  const nextOpening = status.nextOpening
+    ? formatOpeningTime(
+        status.nextOpening,
+        getBusinessDayConfig(tenant).timezone,
+      )
+    : undefined;
+
+  if (status.acceptsScheduledOrders) {
+    await sendMessage(
+      phoneNumber,
+      templates.getClosedScheduledOrderMessage(nextOpening),
+      tenant,
+    );
+    return true;
+  }
+
   await sendMessage(
     phoneNumber,
-    templates.getCancellationMessage(tenant.name),
+    templates.getClosedMessage(tenant, nextOpening),
     tenant,
   );
+  return false;
 };
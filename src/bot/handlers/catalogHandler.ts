@@ -1,12 +1,16 @@
 import { logger } from "../../utils/logger";
 import { sendMessage } from "../../services/metaService";
 import { getProductById } from "../../services/productService";
+import { getActiveHandoff } from "../../services/handoffService";
 import { getStateMachine } from "../stateMachine";
 import * as templates from "../templates";
 import {
   checkActiveOrder,
   showActiveOrderMenu,
   askCustomization,
+  addCatalogItemsToCart,
+  checkOpeningHours,
+  limitCartToStock,
 } from "../flows";
 import type { CatalogOrderPayload, CartItem, FlowContext } from "../types";
 import type { Tenant } from "../../models/tenant";
@@ -26,6 +30,14 @@ export const handleCatalogOrder = async (
     `Procesando orden de catálogo de ${phoneNumber}: ${productItems.length} producto(s)`,
   );
 
+  // Conversación atendida por el local: el bot no responde
+  if (await getActiveHandoff(tenant.id, phoneNumber)) {
+    logger.info(
+      `Conversación con ${phoneNumber} en atención humana: bot en pausa`,
+    );
+    return;
+  }
+
   // Verificar si hay pedido activo
   const activeOrder = await checkActiveOrder(phoneNumber, tenant.id);
 
@@ -39,6 +51,11 @@ export const handleCatalogOrder = async (
     return;
   }
 
+  // Verificar horario de atención
+  if (!(await checkOpeningHours(phoneNumber, tenant))) {
+    return;
+  }
+
   if (productItems.length === 0) {
     await sendMessage(
       phoneNumber,
@@ -88,13 +105,6 @@ export const handleCatalogOrder = async (
       return;
     }
 
-    // Guardar estado con el carrito
-    const state = await stateMachine.setState(phoneNumber, tenant.id, {
-      cart,
-      generalExtras: [],
-      customerName: contactName,
-    });
-
     // Notificar si hubo productos no disponibles
     if (productsNotFound.length > 0) {
       await sendMessage(
@@ -104,15 +114,39 @@ export const handleCatalogOrder = async (
       );
     }
 
-    // Crear contexto y avanzar al flujo de personalización
-    const ctx: FlowContext = {
+    const currentState = await stateMachine.getState(phoneNumber, tenant.id);
+    const currentCtx: FlowContext = {
       phoneNumber,
       text: "",
       tenant,
-      state,
+      state: currentState,
       contactName,
     };
 
+    // Editando el carrito: sumar los productos al pedido actual
+    // (el carrito completo se ajusta al stock al guardarlo)
+    if (currentState.step === "editingCart") {
+      await addCatalogItemsToCart(currentCtx, cart);
+      return;
+    }
+
+    // Ajustar las cantidades a lo que se puede preparar con el stock
+    const stockCart = await limitCartToStock(currentCtx, cart);
+
+    if (stockCart.length === 0) {
+      return;
+    }
+
+    // Guardar estado con el carrito
+    const state = await stateMachine.setState(phoneNumber, tenant.id, {
+      cart: stockCart,
+      generalExtras: [],
+      customerName: contactName,
+    });
+
+    // Crear contexto y avanzar al flujo de personalización
+    const ctx: FlowContext = { ...currentCtx, state };
+
     await askCustomization(ctx);
   } catch (error) {
     logger.error("Error procesando orden de catálogo", error);
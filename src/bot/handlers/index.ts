@@ -1,2 +1,3 @@
 export { handleTextMessage } from "./textHandler";
 export { handleCatalogOrder } from "./catalogHandler";
+export { handleMediaMessage } from "./mediaHandler";
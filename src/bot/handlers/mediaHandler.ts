@@ -0,0 +1,68 @@
+import { logger } from "../../utils/logger";
+import { sendMessage } from "../../services/metaService";
+import { getActiveHandoff } from "../../services/handoffService";
+import {
+  attachPaymentReceipt,
+  findOrderAwaitingPaymentReceipt,
+} from "../../services/orderService";
+import * as templates from "../templates";
+import type { IncomingMediaPayload } from "../types";
+import type { Tenant } from "../../models/tenant";
+
+/**
+ * Procesa imágenes y documentos entrantes
+ * Se toman como comprobante de transferencia del pedido que lo espera
+ */
+export const handleMediaMessage = async (
+  payload: IncomingMediaPayload,
+  tenant: Tenant,
+): Promise<void> => {
+  const { from: phoneNumber, mediaId, mediaType } = payload;
+
+  // Conversación atendida por el local: el bot no responde
+  if (await getActiveHandoff(tenant.id, phoneNumber)) {
+    logger.info(
+      `Conversación con ${phoneNumber} en atención humana: bot en pausa`,
+    );
+    return;
+  }
+
+  try {
+    const order = await findOrderAwaitingPaymentReceipt(tenant.id, phoneNumber);
+
+    if (!order) {
+      await sendMessage(
+        phoneNumber,
+        templates.getPaymentReceiptNotExpectedMessage(),
+        tenant,
+      );
+      return;
+    }
+
+    await attachPaymentReceipt(tenant.id, order.id, {
+      mediaId,
+      mediaType,
+      ...(payload.mimeType ? { mimeType: payload.mimeType } : {}),
+      ...(payload.filename ? { filename: payload.filename } : {}),
+      ...(payload.caption ? { caption: payload.caption } : {}),
+    });
+
+    logger.info(
+      `Comprobante recibido de ${phoneNumber} para el pedido #${order.id}`,
+    );
+
+    await sendMessage(
+      phoneNumber,
+      templates.getPaymentReceiptReceivedMessage(order.id, tenant),
+      tenant,
+      { orderId: order.id },
+    );
+  } catch (error) {
+    logger.error("Error procesando comprobante de pago", error);
+    await sendMessage(
+      phoneNumber,
+      "Hubo un error al recibir tu comprobante. Por favor, intenta nuevamente.",
+      tenant,
+    );
+  }
+};
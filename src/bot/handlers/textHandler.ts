@@ -1,13 +1,17 @@
 import { logger } from "../../utils/logger";
-import { getStateMachine } from "../stateMachine";
+import { getStateMachine, isStaleStateError } from "../stateMachine";
 import { CANCEL_KEYWORD } from "../constants";
-import { isCancelCommand } from "../utils";
+import { isCancelCommand, isMenuIntent, isReorderIntent } from "../utils";
+import { getActiveHandoff } from "../../services/handoffService";
 import {
   flowHandlers,
   sendWelcomeMessage,
   sendCancellationMessage,
   checkActiveOrder,
   showActiveOrderMenu,
+  checkOpeningHours,
+  startReorder,
+  startMenu,
 } from "../flows";
 import type { IncomingMessagePayload, FlowContext } from "../types";
 import type { Tenant } from "../../models/tenant";
@@ -21,13 +25,21 @@ export const handleTextMessage = async (
   payload: IncomingMessagePayload,
   tenant: Tenant,
 ): Promise<void> => {
-  const { from: phoneNumber, text, contactName } = payload;
+  const { from: phoneNumber, text, contactName, location } = payload;
 
   // Ignorar mensajes vacíos
   if (!text || text.trim().length === 0) {
     return;
   }
 
+  // Conversación atendida por el local: el bot no responde
+  if (await getActiveHandoff(tenant.id, phoneNumber)) {
+    logger.info(
+      `Conversación con ${phoneNumber} en atención humana: bot en pausa`,
+    );
+    return;
+  }
+
   // Comando cancelar siempre funciona
   if (isCancelCommand(text) || text.trim().toLowerCase() === CANCEL_KEYWORD) {
     await stateMachine.reset(phoneNumber, tenant.id);
@@ -45,6 +57,7 @@ export const handleTextMessage = async (
     tenant,
     state,
     contactName,
+    location,
   };
 
   // Si hay un handler para el paso actual, usarlo
@@ -55,17 +68,29 @@ export const handleTextMessage = async (
       await handler(ctx);
       return;
     } catch (error) {
+      if (isStaleStateError(error)) {
+        // Otra escritura avanzó la conversación: descartar este mensaje
+        logger.warn(`Mensaje descartado por estado desactualizado (${phoneNumber})`);
+        return;
+      }
       logger.error(`Error en handler ${state.step}`, error);
       // No resetear - dejar que el usuario reintente
     }
   }
 
-  // Estado idle o sin handler -> verificar pedido activo o enviar bienvenida
+  // Estado idle o sin handler -> verificar pedido activo, repetir pedido,
+  // abrir el menú o enviar bienvenida
   const activeOrder = await checkActiveOrder(phoneNumber, tenant.id);
 
   if (activeOrder) {
     await showActiveOrderMenu(phoneNumber, activeOrder, tenant);
-  } else {
-    await sendWelcomeMessage(phoneNumber, tenant, contactName);
+  } else if (await checkOpeningHours(phoneNumber, tenant)) {
+    if (isReorderIntent(text)) {
+      await startReorder(ctx);
+    } else if (isMenuIntent(text)) {
+      await startMenu(ctx);
+    } else {
+      await sendWelcomeMessage(phoneNumber, tenant, contactName);
+    }
   }
 };
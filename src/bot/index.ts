@@ -13,23 +13,38 @@
  * 1. Cliente saluda → Bot invita a usar el catálogo
  * 2. Cliente selecciona productos del catálogo
  * 3. Bot pregunta si desea personalizar
- * 4. Seleccionar tipo de entrega (delivery/pickup)
- * 5. Seleccionar método de pago
- * 6. Confirmar pedido
+ * 4. Bot ofrece extras (por hamburguesa o generales)
+ * 5. Seleccionar tipo de entrega (delivery/pickup)
+ * 6. Elegir horario (lo antes posible o franja programada)
+ * 7. Seleccionar método de pago
+ * 8. Confirmar pedido
+ * 9. Transferencia sin Mercado Pago: el cliente envía el comprobante
  */
 
-import { handleTextMessage, handleCatalogOrder } from "./handlers";
-import type { IncomingMessagePayload, CatalogOrderPayload } from "./types";
+import {
+  handleTextMessage,
+  handleCatalogOrder,
+  handleMediaMessage,
+} from "./handlers";
+import { getStateMachine } from "./stateMachine";
+import type {
+  IncomingMessagePayload,
+  IncomingMediaPayload,
+  CatalogOrderPayload,
+} from "./types";
 import type { Tenant } from "../models/tenant";
 
 /**
  * Procesa un mensaje de texto entrante
+ * Los mensajes de una misma conversación se procesan de a uno y en orden
  */
 export const processIncomingMessage = async (
   messagePayload: IncomingMessagePayload,
   tenant: Tenant,
 ): Promise<void> => {
-  await handleTextMessage(messagePayload, tenant);
+  await getStateMachine().runExclusive(messagePayload.from, tenant.id, () =>
+    handleTextMessage(messagePayload, tenant),
+  );
 };
 
 /**
@@ -39,12 +54,30 @@ export const processCatalogOrder = async (
   orderPayload: CatalogOrderPayload,
   tenant: Tenant,
 ): Promise<void> => {
-  await handleCatalogOrder(orderPayload, tenant);
+  await getStateMachine().runExclusive(orderPayload.from, tenant.id, () =>
+    handleCatalogOrder(orderPayload, tenant),
+  );
+};
+
+/**
+ * Procesa una imagen o documento (comprobante de transferencia)
+ */
+export const processIncomingMedia = async (
+  mediaPayload: IncomingMediaPayload,
+  tenant: Tenant,
+): Promise<void> => {
+  await getStateMachine().runExclusive(mediaPayload.from, tenant.id, () =>
+    handleMediaMessage(mediaPayload, tenant),
+  );
 };
 
+export { isConversationBusyError } from "./stateMachine";
+
 // Re-exportar tipos para uso externo
 export type {
   IncomingMessagePayload,
+  IncomingMediaPayload,
   CatalogOrderPayload,
   CatalogOrderItem,
+  SharedLocation,
 } from "./types";
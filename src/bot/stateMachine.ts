@@ -1,7 +1,47 @@
-import { getFirestore } from "firebase-admin/firestore";
+import os from "os";
+import crypto from "crypto";
+import { getFirestore } from "../config/firebase";
 import { logger } from "../utils/logger";
 import type { ConversationState, ConversationStep } from "./types";
-import { STATE_TTL_MS } from "./constants";
+import {
+  CONVERSATION_LEASE_ATTEMPTS,
+  CONVERSATION_LEASE_RENEW_MS,
+  CONVERSATION_LEASE_TTL_MS,
+  CONVERSATION_LEASE_WAIT_MS,
+  STATE_TTL_MS,
+} from "./constants";
+
+/**
+ * Error lanzado cuando se intenta guardar un estado calculado sobre una
+ * versión vieja de la conversación (otra escritura ganó la carrera)
+ */
+export class StaleStateError extends Error {
+  constructor(key: string) {
+    super(`Estado desactualizado para la conversación ${key}`);
+    Object.setPrototypeOf(this, StaleStateError.prototype);
+  }
+}
+
+export const isStaleStateError = (error: unknown): error is StaleStateError => {
+  return error instanceof StaleStateError;
+};
+
+/**
+ * Error lanzado cuando otra instancia sigue procesando la conversación y
+ * no se pudo tomar su lease. El mensaje no se procesó: se puede reintentar
+ */
+export class ConversationBusyError extends Error {
+  constructor(key: string) {
+    super(`La conversación ${key} está ocupada por otra instancia`);
+    Object.setPrototypeOf(this, ConversationBusyError.prototype);
+  }
+}
+
+export const isConversationBusyError = (
+  error: unknown,
+): error is ConversationBusyError => {
+  return error instanceof ConversationBusyError;
+};
 
 /**
  * Interfaz para el almacenamiento de estados
@@ -9,12 +49,24 @@ import { STATE_TTL_MS } from "./constants";
  */
 interface StateStorage {
   get(key: string): Promise<ConversationState | null>;
-  set(key: string, state: ConversationState): Promise<void>;
+  /**
+   * Guarda el estado si su versión coincide con la almacenada
+   * Devuelve el estado guardado (con su nueva versión) o null si falló
+   * @throws StaleStateError si otra escritura modificó la conversación
+   */
+  set(key: string, state: ConversationState): Promise<ConversationState | null>;
   delete(key: string): Promise<void>;
+  /**
+   * Toma o renueva el lease de la conversación
+   * Devuelve false si otro dueño lo tiene
+   */
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLease(key: string, owner: string): Promise<void>;
 }
 
 /**
  * Almacenamiento en memoria (para desarrollo/testing)
+ * Un solo proceso: la cola en memoria alcanza, el lease siempre se otorga
  */
 class MemoryStorage implements StateStorage {
   private store = new Map<string, ConversationState>();
@@ -32,18 +84,50 @@ class MemoryStorage implements StateStorage {
     return state;
   }
 
-  async set(key: string, state: ConversationState): Promise<void> {
-    this.store.set(key, { ...state, lastUpdated: Date.now() });
+  async set(
+    key: string,
+    state: ConversationState,
+  ): Promise<ConversationState | null> {
+    const currentVersion = this.store.get(key)?.version ?? 0;
+    if ((state.version ?? 0) !== currentVersion) {
+      throw new StaleStateError(key);
+    }
+
+    const saved: ConversationState = {
+      ...state,
+      version: currentVersion + 1,
+      lastUpdated: Date.now(),
+    };
+    this.store.set(key, saved);
+    return saved;
   }
 
   async delete(key: string): Promise<void> {
     this.store.delete(key);
   }
+
+  async acquireLease(): Promise<boolean> {
+    return true;
+  }
+
+  async releaseLease(): Promise<void> {
+    // Sin lease en memoria
+  }
+}
+
+/**
+ * Campos de control guardados junto al estado en bot_conversations
+ */
+interface ConversationDocument extends Partial<ConversationState> {
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
 }
 
 /**
  * Almacenamiento en Firestore (para producción)
  * Persiste el estado entre reinicios del servidor
+ * Cada escritura verifica la versión dentro de una transacción y
+ * respeta el lease de otra instancia que esté procesando la conversación
  */
 class FirestoreStorage implements StateStorage {
   private collectionName = "bot_conversations";
@@ -57,7 +141,11 @@ class FirestoreStorage implements StateStorage {
       const doc = await this.collection.doc(key).get();
       if (!doc.exists) return null;
 
-      const data = doc.data() as ConversationState;
+      const { leaseOwner, leaseExpiresAt, ...data } =
+        doc.data() as ConversationDocument;
+
+      // Documento con solo datos de control (conversación reseteada)
+      if (!data.step) return null;
 
       // Verificar TTL
       if (data.lastUpdated && Date.now() - data.lastUpdated > STATE_TTL_MS) {
@@ -65,35 +153,141 @@ class FirestoreStorage implements StateStorage {
         return null;
       }
 
-      return data;
+      return data as ConversationState;
     } catch (error) {
       logger.error("Error al obtener estado de Firestore", error);
       return null;
     }
   }
 
-  async set(key: string, state: ConversationState): Promise<void> {
+  async set(
+    key: string,
+    state: ConversationState,
+  ): Promise<ConversationState | null> {
+    const docRef = this.collection.doc(key);
+
     try {
-      // Limpiar campos undefined antes de guardar (Firestore no los acepta)
-      const cleanState = this.cleanUndefined({
-        ...state,
-        lastUpdated: Date.now(),
-      });
+      return await getFirestore().runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        const current = doc.exists
+          ? (doc.data() as ConversationDocument)
+          : undefined;
+        const currentVersion = current?.version ?? 0;
+
+        // Un estado nuevo (sin versión) solo puede crear la conversación
+        const isNewConversation =
+          !current?.step && state.version === undefined;
+
+        if (!isNewConversation && (state.version ?? 0) !== currentVersion) {
+          throw new StaleStateError(key);
+        }
+
+        const saved: ConversationState = {
+          ...state,
+          version: currentVersion + 1,
+          lastUpdated: Date.now(),
+        };
 
-      await this.collection.doc(key).set(cleanState);
+        // Limpiar campos undefined antes de guardar (Firestore no los acepta)
+        const cleanState = this.cleanUndefined({
+          ...saved,
+          leaseOwner: current?.leaseOwner,
+          leaseExpiresAt: current?.leaseExpiresAt,
+        });
+
+        transaction.set(docRef, cleanState);
+        return saved;
+      });
     } catch (error) {
+      if (isStaleStateError(error)) {
+        throw error;
+      }
       logger.error("Error al guardar estado en Firestore", error);
+      return null;
     }
   }
 
   async delete(key: string): Promise<void> {
+    const docRef = this.collection.doc(key);
+
     try {
-      await this.collection.doc(key).delete();
+      // Conservar el lease y avanzar la versión para invalidar escrituras viejas
+      await getFirestore().runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) return;
+
+        const current = doc.data() as ConversationDocument;
+        if (current.leaseOwner && (current.leaseExpiresAt ?? 0) > Date.now()) {
+          transaction.set(docRef, {
+            version: (current.version ?? 0) + 1,
+            leaseOwner: current.leaseOwner,
+            leaseExpiresAt: current.leaseExpiresAt,
+          });
+        } else {
+          transaction.delete(docRef);
+        }
+      });
     } catch (error) {
       logger.error("Error al eliminar estado de Firestore", error);
     }
   }
 
+  async acquireLease(
+    key: string,
+    owner: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const docRef = this.collection.doc(key);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const current = doc.exists
+        ? (doc.data() as ConversationDocument)
+        : undefined;
+      const now = Date.now();
+
+      if (
+        current?.leaseOwner &&
+        current.leaseOwner !== owner &&
+        (current.leaseExpiresAt ?? 0) > now
+      ) {
+        return false;
+      }
+
+      transaction.set(
+        docRef,
+        { leaseOwner: owner, leaseExpiresAt: now + ttlMs },
+        { merge: true },
+      );
+      return true;
+    });
+  }
+
+  async releaseLease(key: string, owner: string): Promise<void> {
+    const docRef = this.collection.doc(key);
+
+    try {
+      await getFirestore().runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) return;
+
+        const current = doc.data() as ConversationDocument;
+        if (current.leaseOwner !== owner) return;
+
+        if (!current.step) {
+          // Solo quedaban datos de control
+          transaction.delete(docRef);
+          return;
+        }
+
+        const { leaseOwner, leaseExpiresAt, ...data } = current;
+        transaction.set(docRef, data);
+      });
+    } catch (error) {
+      logger.error("Error al liberar lease de conversación", error);
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private cleanUndefined(obj: Record<string, any>): Record<string, any> {
     const cleaned: Record<string, unknown> = {};
@@ -116,6 +310,13 @@ class FirestoreStorage implements StateStorage {
  */
 export class StateMachine {
   private storage: StateStorage;
+  // Cola en memoria por conversación: cada clave apunta al final de su cola
+  private queues = new Map<string, Promise<void>>();
+  // Último estado leído o guardado de cada conversación mientras se procesa
+  // un mensaje. setState escribe sobre él con la versión que vio el handler
+  private snapshots = new Map<string, ConversationState>();
+  // Identificador de esta instancia para los leases de Firestore
+  private instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
 
   constructor(useFirestore = true) {
     this.storage = useFirestore ? new FirestoreStorage() : new MemoryStorage();
@@ -141,21 +342,23 @@ export class StateMachine {
     const key = this.getKey(phoneNumber, tenantId);
     const existing = await this.storage.get(key);
 
-    if (existing) {
-      return existing;
-    }
-
     // Estado inicial
-    return {
+    const state: ConversationState = existing ?? {
       step: "idle",
       tenantId,
       cart: [],
       generalExtras: [],
     };
+
+    this.snapshots.set(key, state);
+    return state;
   }
 
   /**
    * Actualiza el estado de la conversación
+   * Parte del último estado que leyó o guardó el handler (sin volver a
+   * leer): si otra escritura avanzó la conversación desde entonces, la
+   * versión no coincide y se lanza StaleStateError
    */
   async setState(
     phoneNumber: string,
@@ -163,11 +366,20 @@ export class StateMachine {
     updates: Partial<ConversationState>,
   ): Promise<ConversationState> {
     const key = this.getKey(phoneNumber, tenantId);
-    const current = await this.getState(phoneNumber, tenantId);
+    const current =
+      this.snapshots.get(key) ?? (await this.getState(phoneNumber, tenantId));
     const newState: ConversationState = { ...current, ...updates };
 
-    await this.storage.set(key, newState);
-    return newState;
+    const saved = await this.storage.set(key, newState);
+
+    // Si no se pudo guardar, la próxima escritura vuelve a leer
+    if (saved) {
+      this.snapshots.set(key, saved);
+    } else {
+      this.snapshots.delete(key);
+    }
+
+    return saved ?? newState;
   }
 
   /**
@@ -191,9 +403,137 @@ export class StateMachine {
   async reset(phoneNumber: string, tenantId: string): Promise<void> {
     const key = this.getKey(phoneNumber, tenantId);
     await this.storage.delete(key);
+    this.snapshots.delete(key);
     logger.debug(`Conversación reseteada: ${phoneNumber}`);
   }
 
+  /**
+   * Ejecuta una tarea con acceso exclusivo a la conversación
+   * - En el proceso: los mensajes del mismo tenantId:phone se encolan
+   *   y se procesan en orden de llegada
+   * - Entre instancias: se toma un lease en bot_conversations y se renueva
+   *   mientras la tarea corre. Sin lease la tarea no se ejecuta: se vuelve
+   *   a encolar y, si sigue ocupada, se lanza ConversationBusyError
+   */
+  async runExclusive<T>(
+    phoneNumber: string,
+    tenantId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const key = this.getKey(phoneNumber, tenantId);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runQueued(key, task);
+      } catch (error) {
+        if (
+          !isConversationBusyError(error) ||
+          attempt >= CONVERSATION_LEASE_ATTEMPTS
+        ) {
+          throw error;
+        }
+        logger.warn(
+          `Conversación ${key} ocupada, mensaje reencolado (intento ${attempt})`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Espera su turno en la cola de la conversación y ejecuta la tarea
+   * con el lease tomado
+   * @throws ConversationBusyError si no se pudo tomar el lease
+   */
+  private async runQueued<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+
+    let releaseQueue!: () => void;
+    const current = new Promise<void>((resolve) => {
+      releaseQueue = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.queues.set(key, tail);
+
+    await previous;
+
+    try {
+      if (!(await this.acquireLease(key))) {
+        throw new ConversationBusyError(key);
+      }
+
+      // Renovar el lease para que no venza con handlers lentos
+      let renewal: Promise<void> = Promise.resolve();
+      const renewTimer = setInterval(() => {
+        renewal = renewal.then(() => this.renewLease(key));
+      }, CONVERSATION_LEASE_RENEW_MS);
+
+      // Cada mensaje parte del estado que lea su handler
+      this.snapshots.delete(key);
+
+      try {
+        return await task();
+      } finally {
+        clearInterval(renewTimer);
+        // Una renovación en curso no debe volver a tomar el lease liberado
+        await renewal;
+        this.snapshots.delete(key);
+        await this.storage.releaseLease(key, this.instanceId);
+      }
+    } finally {
+      releaseQueue();
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Espera el lease de la conversación hasta CONVERSATION_LEASE_WAIT_MS
+   * Devuelve false si no se obtiene (otra instancia lo tiene o Firestore
+   * falla): en ese caso el mensaje no se procesa
+   */
+  private async acquireLease(key: string): Promise<boolean> {
+    const deadline = Date.now() + CONVERSATION_LEASE_WAIT_MS;
+
+    while (Date.now() < deadline) {
+      try {
+        const acquired = await this.storage.acquireLease(
+          key,
+          this.instanceId,
+          CONVERSATION_LEASE_TTL_MS,
+        );
+        if (acquired) return true;
+      } catch (error) {
+        logger.error(`Error al tomar lease de conversación ${key}`, error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    logger.warn(`No se pudo obtener el lease de la conversación ${key}`);
+    return false;
+  }
+
+  /**
+   * Extiende el lease mientras se procesa un mensaje. Si se perdió (otra
+   * instancia lo tomó al vencer) solo se avisa: la verificación de versión
+   * rechaza las escrituras que queden desactualizadas
+   */
+  private async renewLease(key: string): Promise<void> {
+    try {
+      const renewed = await this.storage.acquireLease(
+        key,
+        this.instanceId,
+        CONVERSATION_LEASE_TTL_MS,
+      );
+      if (!renewed) {
+        logger.warn(`Se perdió el lease de la conversación ${key}`);
+      }
+    } catch (error) {
+      logger.error(`Error al renovar lease de conversación ${key}`, error);
+    }
+  }
+
   /**
    * Verifica si la conversación está en un estado específico
    */
@@ -221,3 +561,10 @@ export const getStateMachine = (): StateMachine => {
   }
   return stateMachineInstance;
 };
+
+/**
+ * Permite reemplazar el StateMachine (tests u otra implementación)
+ */
+export const setStateMachine = (stateMachine: StateMachine): void => {
+  stateMachineInstance = stateMachine;
+};
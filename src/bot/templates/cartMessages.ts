@@ -0,0 +1,106 @@
+import { MAX_CART_ITEM_QUANTITY } from "../constants";
+import { calculateItemTotal, formatPrice } from "../utils/formatters";
+import type { CartItem } from "../types";
+
+/**
+ * Templates de edición del carrito
+ */
+
+/**
+ * Cuerpo de la lista para editar el carrito
+ */
+export const getCartEditMessage = (): string => {
+  return (
+    `🛒 *Editar pedido*\n\n` +
+    `Elegí un producto para sacarlo o cambiar la cantidad, ` +
+    `o agregá más productos desde el catálogo.`
+  );
+};
+
+/**
+ * Detalle de un producto del carrito para la fila de la lista
+ */
+export const getCartItemRowDescription = (item: CartItem): string => {
+  const changes = item.customizations.map((c) =>
+    c.type === "agregar" ? `+${c.ingredientName}` : `sin ${c.ingredientName}`,
+  );
+  const extras = item.extras.map((e) => `+${e.quantity} ${e.extra.name}`);
+  const details = [...changes, ...extras].join(", ");
+
+  return details
+    ? `${formatPrice(calculateItemTotal(item))} · ${details}`
+    : formatPrice(calculateItemTotal(item));
+};
+
+/**
+ * Opciones para un producto del carrito
+ */
+export const getCartItemActionsMessage = (item: CartItem): string => {
+  return `*${item.quantity}x ${item.product.name}*\n\n¿Qué querés hacer?`;
+};
+
+/**
+ * Pide la nueva cantidad de un producto
+ */
+export const getCartItemQuantityMessage = (item: CartItem): string => {
+  return (
+    `¿Cuántas *${item.product.name}* querés?\n` +
+    `_Escribí un número del 1 al ${MAX_CART_ITEM_QUANTITY} (0 para sacarla)_`
+  );
+};
+
+/**
+ * Cantidad inválida
+ */
+export const getInvalidCartQuantityMessage = (): string => {
+  return `Por favor, escribí un número del 0 al ${MAX_CART_ITEM_QUANTITY}.`;
+};
+
+/**
+ * Producto sacado del carrito
+ */
+export const getCartItemRemovedMessage = (productName: string): string => {
+  return `🗑️ Sacamos *${productName}* del pedido.`;
+};
+
+/**
+ * Indicaciones para sumar productos desde el catálogo
+ */
+export const getCartAddProductsMessage = (): string => {
+  return (
+    `📋 Elegí los productos desde el *catálogo* y envialos.\n` +
+    `Los sumamos a tu pedido actual.`
+  );
+};
+
+/**
+ * Productos del catálogo sumados al carrito
+ */
+export const getCartProductsAddedMessage = (count: number): string => {
+  return `✅ Sumamos ${count} producto(s) a tu pedido.`;
+};
+
+/**
+ * El carrito quedó vacío después de editar
+ */
+export const getCartEmptyMessage = (): string => {
+  return (
+    `Tu pedido quedó vacío. 🛒\n\n` +
+    `Elegí productos desde el *catálogo* 📋 para empezar de nuevo.`
+  );
+};
+
+/**
+ * Productos que se ajustaron al stock disponible
+ */
+export const getCartLimitedByStockMessage = (
+  limits: { productName: string; maxQuantity: number }[],
+): string => {
+  const lines = limits.map(({ productName, maxQuantity }) =>
+    maxQuantity === 0
+      ? `• *${productName}*: se agotó y lo sacamos del pedido`
+      : `• *${productName}*: solo podemos preparar ${maxQuantity}`,
+  );
+
+  return `⚠️ Ajustamos tu pedido al stock disponible:\n\n${lines.join("\n")}`;
+};
@@ -166,18 +166,22 @@ export const getExtrasQuestionMessage = (): string => {
 
 /**
  * Lista de extras disponibles
+ * Los extras de una hamburguesa indican para cuál se agregan
  */
-export const getExtrasListMessage = (extras: Extra[]): string => {
-  const extrasList = extras.map(
-    (extra, index) =>
-      `*${index + 1}.* ${extra.name} - ${formatPrice(extra.price)}`,
-  );
+export const getExtrasListMessage = (
+  options: { extra: Extra; burgerName?: string }[],
+): string => {
+  const extrasList = options.map(({ extra, burgerName }, index) => {
+    const target = burgerName ? ` _(para ${burgerName})_` : "";
+    return `*${index + 1}.* ${extra.name}${target} - ${formatPrice(extra.price)}`;
+  });
 
   return (
     `🍟 *Extras disponibles:*\n\n` +
     `${extrasList.join("\n")}\n\n` +
     `Escribí el *número* del extra que querés agregar.\n` +
-    `Escribí *listo* cuando termines.`
+    `Para más de uno escribí número x cantidad _(ej: *2x3*)_.\n` +
+    `Escribí *listo* cuando termines o *volver* para personalizar.`
   );
 };
 
@@ -187,9 +191,40 @@ export const getExtrasListMessage = (extras: Extra[]): string => {
 export const getExtraAddedMessage = (
   extraName: string,
   price: number,
+  quantity = 1,
 ): string => {
+  const quantityText = quantity > 1 ? `${quantity}x ` : "";
   return (
-    `✅ Agregaste *${extraName}* (+${formatPrice(price)})\n\n` +
+    `✅ Agregaste *${quantityText}${extraName}* (+${formatPrice(price)})\n\n` +
     `Escribí otro número para más extras o *listo* para continuar.`
   );
 };
+
+/**
+ * Mensaje de cantidad de extra inválida
+ */
+export const getInvalidExtraQuantityMessage = (max: number): string => {
+  return `La cantidad debe ser un número entre 1 y ${max}.`;
+};
+
+/**
+ * Mensaje cuando la cantidad sumada de un extra supera el máximo
+ */
+export const getExtraQuantityLimitMessage = (
+  extraName: string,
+  selectedQuantity: number,
+  max: number,
+): string => {
+  const remaining = max - selectedQuantity;
+  return remaining > 0
+    ? `Ya agregaste ${selectedQuantity}x ${extraName}. ` +
+        `Podés sumar hasta ${remaining} más.`
+    : `Ya agregaste el máximo de ${max}x ${extraName}.`;
+};
+
+/**
+ * Mensaje de error al cargar extras
+ */
+export const getExtrasLoadErrorMessage = (): string => {
+  return "Hubo un error al cargar los extras. Continuamos con tu pedido.";
+};
@@ -1,6 +1,10 @@
 import { formatPrice, formatCart } from "../utils/formatters";
 import type { CartItem, SelectedExtra } from "../types";
-import type { DeliveryZone } from "../../models/deliveryZone";
+import type { CustomerAddress } from "../../models/customer";
+import type {
+  DeliveryQuote,
+  DeliveryZone,
+} from "../../models/deliveryZone";
 
 /**
  * Mensaje para seleccionar zona de delivery
@@ -9,11 +13,15 @@ export const getDeliveryZoneSelectionMessage = (
   zones: DeliveryZone[],
 ): string => {
   const zonesList = zones.map((zone, index) => `*${index + 1}.* ${zone.name}`);
+  const locationHint = zones.some((zone) => zone.area)
+    ? `\n\n📍 O compartí tu *ubicación* y detectamos la zona.`
+    : "";
 
   return (
     `🚗 *Seleccioná tu zona de delivery:*\n\n` +
     `${zonesList.join("\n")}\n\n` +
-    `Escribí el *número* de tu zona.`
+    `Escribí el *número* de tu zona.` +
+    locationHint
   );
 };
 
@@ -26,17 +34,41 @@ export const getAddressRequestMessage = (zoneName?: string): string => {
   return (
     `${zoneInfo}` +
     `Por favor, escribí tu *dirección completa*.\n` +
-    `_(Calle, número, piso/depto)_`
+    `_(Calle, número, piso/depto)_\n\n` +
+    `📍 También podés compartir tu *ubicación*.`
+  );
+};
+
+/**
+ * Ofrece la última dirección usada por el cliente
+ */
+export const getSavedAddressQuestionMessage = (
+  address: CustomerAddress,
+): string => {
+  const zoneInfo = address.zoneName ? `\nZona: ${address.zoneName}` : "";
+  const notesInfo = address.notes ? `\n📝 ${address.notes}` : "";
+
+  return (
+    `🏠 ¿Enviamos a la misma dirección de siempre?\n\n` +
+    `📍 *${address.address}*${zoneInfo}${notesInfo}`
   );
 };
 
+/**
+ * La zona de la dirección guardada ya no está disponible
+ */
+export const getSavedAddressZoneUnavailableMessage = (): string => {
+  return "Ya no hacemos envíos a la zona de esa dirección. Elegí tu zona, por favor.";
+};
+
 /**
  * Mensaje para pedir dirección sin zonas
  */
 export const getAddressRequestNoZonesMessage = (): string => {
   return (
     `Por favor, escribí tu *dirección completa* para el envío.\n\n` +
-    `_(Calle, número, piso/depto, barrio)_`
+    `_(Calle, número, piso/depto, barrio)_\n\n` +
+    `📍 También podés compartir tu *ubicación*.`
   );
 };
 
@@ -60,28 +92,35 @@ export const getOrderSummaryMessage = (
   orderType: "delivery" | "pickup",
   paymentMethod: "efectivo" | "transferencia",
   deliveryAddress?: string,
-  selectedZone?: DeliveryZone,
+  deliveryQuote?: DeliveryQuote,
   deliveryNotes?: string,
+  scheduledTime?: string,
 ): string => {
-  const deliveryCost = selectedZone?.price ?? 0;
+  const deliveryCost = deliveryQuote?.cost ?? 0;
   const paymentText =
     paymentMethod === "efectivo" ? "💵 Efectivo" : "💳 Transferencia";
 
   let orderTypeText = "🏪 Retiro en local";
   if (orderType === "delivery") {
     orderTypeText = `🚗 Delivery a: ${deliveryAddress}`;
-    if (selectedZone) {
-      orderTypeText += `\n📍 Zona: ${selectedZone.name}`;
+    if (deliveryQuote) {
+      orderTypeText += `\n📍 Zona: ${deliveryQuote.zoneName}`;
+      if (deliveryQuote.freeDelivery) {
+        orderTypeText += ` (envío gratis 🎉)`;
+      }
     }
     if (deliveryNotes) {
       orderTypeText += `\n📝 Referencia: ${deliveryNotes}`;
     }
   }
 
+  const scheduleText = scheduledTime ? `🕐 Programado: ${scheduledTime}\n` : "";
+
   return (
     `📋 *Resumen de tu pedido*\n\n` +
     `${formatCart(cart, deliveryCost, generalExtras)}\n\n` +
     `${orderTypeText}\n` +
+    scheduleText +
     `Pago: ${paymentText}`
   );
 };
@@ -106,3 +145,93 @@ export const getInvalidAddressMessage = (): string => {
 export const getInvalidZoneSelectionMessage = (maxZones: number): string => {
   return `Por favor, escribí un número válido entre 1 y ${maxZones}.`;
 };
+
+/**
+ * Texto del costo de envío cotizado
+ */
+const formatDeliveryCost = (quote: DeliveryQuote): string =>
+  quote.freeDelivery ? "envío gratis" : `envío ${formatPrice(quote.cost)}`;
+
+/**
+ * Ubicación recibida (con la zona detectada, si corresponde)
+ */
+export const getLocationReceivedMessage = (quote?: DeliveryQuote): string => {
+  const zoneInfo = quote
+    ? `\nZona: *${quote.zoneName}* (${formatDeliveryCost(quote)})`
+    : "";
+
+  return `📍 *Ubicación recibida*${zoneInfo}`;
+};
+
+/**
+ * El carrito no llega al pedido mínimo de la zona
+ */
+export const getMinimumOrderNotMetMessage = (quote: DeliveryQuote): string => {
+  return (
+    `El pedido mínimo para enviar a *${quote.zoneName}* es de ` +
+    `*${formatPrice(quote.minimumOrderAmount ?? 0)}*. 😔\n\n` +
+    `Podés probar con otra zona o escribir *cancelar* para armar el pedido de nuevo.`
+  );
+};
+
+/**
+ * Pide la dirección escrita después de recibir la ubicación
+ */
+export const getAddressAfterLocationMessage = (): string => {
+  return (
+    `Ahora escribí tu *dirección* para que el repartidor te encuentre.\n` +
+    `_(Calle, número, piso/depto)_`
+  );
+};
+
+/**
+ * Ubicación fuera de todas las zonas de delivery
+ */
+export const getLocationOutsideZonesMessage = (): string => {
+  return (
+    `📍 Lo sentimos, tu ubicación está *fuera de nuestras zonas de delivery*. 😔\n\n` +
+    `Podés compartir otra ubicación o escribir *cancelar* para salir.`
+  );
+};
+
+/**
+ * Ubicación recibida pero sin zonas con área para detectarla
+ */
+export const getLocationZoneNotDetectedMessage = (): string => {
+  return `📍 Recibimos tu ubicación, pero no pudimos detectar la zona. Escribí el *número* de tu zona.`;
+};
+
+/**
+ * Pregunta por el horario del pedido
+ */
+export const getScheduleQuestionMessage = (onlyScheduled: boolean): string => {
+  if (onlyScheduled) {
+    return "🕐 ¿Para qué horario querés programar tu pedido?";
+  }
+
+  return "🕐 ¿Cuándo querés recibir tu pedido?\n\nPodés pedirlo para ahora o programarlo para más tarde.";
+};
+
+/**
+ * Confirmación de la franja elegida
+ */
+export const getScheduleSelectedMessage = (scheduledTime: string): string => {
+  return `✅ Pedido programado para *${scheduledTime}*.`;
+};
+
+/**
+ * Sin franjas disponibles: se continúa con "lo antes posible"
+ */
+export const getNoScheduleSlotsMessage = (): string => {
+  return "No hay horarios disponibles para programar. Preparamos tu pedido lo antes posible.";
+};
+
+/**
+ * Sin franjas disponibles estando cerrado
+ */
+export const getNoScheduleSlotsClosedMessage = (tenantName: string): string => {
+  return (
+    `Lo sentimos, no hay horarios disponibles para programar pedidos en *${tenantName}*. 😔\n\n` +
+    `Escribinos nuevamente cuando estemos abiertos.`
+  );
+};
@@ -2,3 +2,5 @@ export * from "./welcomeMessages";
 export * from "./orderMessages";
 export * from "./deliveryMessages";
 export * from "./customizationMessages";
+export * from "./cartMessages";
+export * from "./menuMessages";
@@ -0,0 +1,96 @@
+import { MAX_CART_ITEM_QUANTITY } from "../constants";
+import { formatPrice } from "../utils/formatters";
+import { renderMessage } from "../../utils/messageTemplates";
+import { getGreeting } from "./welcomeMessages";
+import type { Product } from "../../models/product";
+import type { Tenant } from "../../models/tenant";
+
+/**
+ * Templates del menú por listas (tenants sin catálogo de WhatsApp)
+ */
+
+/**
+ * Bienvenida para tenants que toman pedidos por el menú del bot
+ */
+export const getMenuWelcomeMessage = (
+  contactName: string | undefined,
+  tenant: Tenant,
+): string => {
+  return renderMessage(tenant, "welcomeMenu", {
+    greeting: getGreeting(contactName),
+    customerName: contactName,
+    tenantName: tenant.name,
+  });
+};
+
+/**
+ * Cuerpo de la lista de categorías
+ */
+export const getMenuCategoriesMessage = (): string => {
+  return `📋 *Nuestro menú*\n\nElegí una categoría para ver los productos.`;
+};
+
+/**
+ * Cuerpo de la lista de productos de una categoría
+ */
+export const getMenuProductsMessage = (categoryLabel: string): string => {
+  return `*${categoryLabel}*\n\nElegí el producto que querés agregar.`;
+};
+
+/**
+ * Detalle de un producto para la fila de la lista
+ */
+export const getMenuProductRowDescription = (product: Product): string => {
+  return product.description
+    ? `${formatPrice(product.price)} · ${product.description}`
+    : formatPrice(product.price);
+};
+
+/**
+ * Pide la cantidad del producto elegido
+ */
+export const getMenuQuantityMessage = (product: Product): string => {
+  const description = product.description ? `_${product.description}_\n` : "";
+
+  return (
+    `*${product.name}* - ${formatPrice(product.price)}\n${description}\n` +
+    `¿Cuántas querés? _Escribí un número del 1 al ${MAX_CART_ITEM_QUANTITY}_`
+  );
+};
+
+/**
+ * Cantidad inválida en el menú
+ */
+export const getInvalidMenuQuantityMessage = (): string => {
+  return `Por favor, escribí un número del 1 al ${MAX_CART_ITEM_QUANTITY}.`;
+};
+
+/**
+ * Producto agregado desde el menú
+ */
+export const getMenuProductAddedMessage = (
+  product: Product,
+  quantity: number,
+): string => {
+  return (
+    `✅ Agregamos *${quantity}x ${product.name}* a tu pedido.\n\n` +
+    `¿Querés agregar algo más?`
+  );
+};
+
+/**
+ * El producto elegido dejó de estar disponible
+ */
+export const getMenuProductUnavailableMessage = (): string => {
+  return `Ese producto ya no está disponible. 😔 Elegí otro del menú.`;
+};
+
+/**
+ * No hay productos disponibles para mostrar
+ */
+export const getMenuUnavailableMessage = (): string => {
+  return (
+    `Lo sentimos, en este momento no hay productos disponibles. 😔\n\n` +
+    `Por favor, intentá más tarde.`
+  );
+};
@@ -1,6 +1,9 @@
 import { STATUS_LABELS, ESTIMATED_TIMES } from "../constants";
-import { formatPrice, formatOrderId } from "../utils/formatters";
+import { formatPrice, formatOrderId, formatCart } from "../utils/formatters";
+import { renderMessage } from "../../utils/messageTemplates";
+import type { CartItem, SelectedExtra } from "../types";
 import type { Order } from "../../models/order";
+import type { BankTransferDetails, Tenant } from "../../models/tenant";
 
 /**
  * Mensaje con información del pedido activo
@@ -73,7 +76,7 @@ export const getOrderIssueReportedMessage = (orderId: string): string => {
   return (
     `⚠️ *Problema reportado*\n\n` +
     `Hemos notificado al restaurante sobre tu inconveniente con el pedido *#${formatOrderId(orderId)}*.\n\n` +
-    `Un representante se comunicará contigo lo antes posible.\n\n` +
+    `Un representante te va a responder por este chat lo antes posible.\n\n` +
     `¡Gracias por tu paciencia! 🙏`
   );
 };
@@ -85,7 +88,7 @@ export const getContactRequestSentMessage = (orderId: string): string => {
   return (
     `📞 *Solicitud de contacto enviada*\n\n` +
     `Hemos notificado al restaurante que deseas comunicarte sobre el pedido *#${formatOrderId(orderId)}*.\n\n` +
-    `Un representante se comunicará contigo pronto.\n\n` +
+    `Un representante te va a responder por este chat pronto.\n\n` +
     `¡Gracias por tu paciencia! 🙏`
   );
 };
@@ -127,41 +130,38 @@ export const getAlreadyHasActiveOrderMessage = (): string => {
  * Mensaje de pedido recibido (efectivo)
  */
 export const getOrderReceivedMessage = (
-  orderId: string,
-  orderType: "delivery" | "pickup",
-  tenantName: string,
+  order: Order,
+  tenant: Tenant,
+  scheduledTime?: string,
 ): string => {
-  const estimatedTime = ESTIMATED_TIMES[orderType];
+  const eta = ESTIMATED_TIMES[order.orderType];
+  const timeText = scheduledTime
+    ? `🕐 Programado para: *${scheduledTime}*`
+    : `Tiempo estimado después de la confirmación: ${eta}`;
 
-  return (
-    `📋 *¡Pedido recibido!*\n\n` +
-    `Número de pedido: *#${formatOrderId(orderId)}*\n\n` +
-    `⏳ *Esperando confirmación del restaurante...*\n\n` +
-    `Te notificaremos cuando tu pedido sea confirmado y comience a prepararse.\n\n` +
-    `Tiempo estimado después de la confirmación: ${estimatedTime}\n\n` +
-    `¡Gracias por elegir *${tenantName}*! 🍔`
-  );
+  return renderMessage(tenant, "orderReceived", {
+    orderNumber: formatOrderId(order.id),
+    tenantName: tenant.name,
+    total: formatPrice(order.total),
+    eta,
+    timeInfo: timeText,
+  });
 };
 
 /**
  * Mensaje de pedido con link de pago
  */
 export const getOrderWithPaymentLinkMessage = (
-  orderId: string,
+  order: Order,
   paymentUrl: string,
-  orderType: "delivery" | "pickup",
+  tenant: Tenant,
 ): string => {
-  const estimatedTime = ESTIMATED_TIMES[orderType];
-
-  return (
-    `⏳ *Pedido pendiente de pago*\n\n` +
-    `Número de pedido: *#${formatOrderId(orderId)}*\n\n` +
-    `💳 *Para confirmar tu pedido, realizá el pago:*\n\n` +
-    `👉 ${paymentUrl}\n\n` +
-    `⚠️ *Tu pedido NO será preparado hasta confirmar el pago.*\n\n` +
-    `Una vez recibido el pago, el restaurante confirmará tu pedido.\n\n` +
-    `Tiempo estimado después de la confirmación: ${estimatedTime}`
-  );
+  return renderMessage(tenant, "orderWithPaymentLink", {
+    orderNumber: formatOrderId(order.id),
+    total: formatPrice(order.total),
+    paymentLink: paymentUrl,
+    eta: ESTIMATED_TIMES[order.orderType],
+  });
 };
 
 /**
@@ -186,6 +186,63 @@ export const getPaymentLinkFailedMessage = (
   );
 };
 
+/**
+ * Datos para pagar por transferencia (sin Mercado Pago)
+ */
+export const getBankTransferInstructionsMessage = (
+  details: BankTransferDetails,
+  total: number,
+  tenant: Tenant,
+): string => {
+  const lines = [
+    details.alias ? `Alias: *${details.alias}*` : "",
+    details.cbu ? `CBU/CVU: *${details.cbu}*` : "",
+    `Titular: ${details.holderName}`,
+    details.cuit ? `CUIT: ${details.cuit}` : "",
+    details.bankName ? `Banco: ${details.bankName}` : "",
+  ].filter(Boolean);
+
+  return renderMessage(tenant, "bankTransferInstructions", {
+    transferDetails: lines.join("\n"),
+    total: formatPrice(total),
+  });
+};
+
+/**
+ * Transferencia sin datos configurados por el local
+ */
+export const getBankTransferDetailsMissingMessage = (
+  tenantName: string,
+): string => {
+  return (
+    `💳 *${tenantName}* te va a enviar los datos para la transferencia.\n\n` +
+    `📎 Cuando transfieras, envianos por acá la *foto o PDF del comprobante*.`
+  );
+};
+
+/**
+ * Comprobante recibido, queda en verificación
+ */
+export const getPaymentReceiptReceivedMessage = (
+  orderId: string,
+  tenant: Tenant,
+): string => {
+  return renderMessage(tenant, "paymentReceiptReceived", {
+    orderNumber: formatOrderId(orderId),
+  });
+};
+
+/**
+ * Llegó un archivo pero no hay pedido esperando comprobante
+ */
+export const getPaymentReceiptNotExpectedMessage = (): string => {
+  return (
+    `Recibimos tu archivo, pero no tenés pedidos esperando un comprobante ` +
+    `de transferencia. 🤔\n\n` +
+    `Si necesitás ayuda, escribinos por acá.`
+  );
+};
+
 /**
  * Mensaje de error al crear pedido
  */
@@ -195,3 +252,47 @@ export const getOrderCreationErrorMessage = (errorMessage?: string): string => {
   }
   return "Hubo un problema al procesar tu pedido. Por favor, intenta nuevamente.";
 };
+
+/**
+ * Carrito armado a partir del último pedido (con precios actuales)
+ */
+export const getReorderCartMessage = (
+  cart: CartItem[],
+  generalExtras: SelectedExtra[],
+): string => {
+  return (
+    `🔁 *Repetimos tu último pedido*\n\n` +
+    `${formatCart(cart, 0, generalExtras)}\n\n` +
+    `_Los precios son los de hoy._`
+  );
+};
+
+/**
+ * Aviso de productos/adicionales del último pedido que ya no están
+ */
+export const getReorderUnavailableItemsMessage = (names: string[]): string => {
+  return (
+    `⚠️ Estos productos ya no están disponibles y los sacamos del pedido:\n` +
+    names.map((name) => `• ${name}`).join("\n")
+  );
+};
+
+/**
+ * El cliente no tiene pedidos entregados para repetir
+ */
+export const getNoPreviousOrderMessage = (): string => {
+  return (
+    `Todavía no tenés pedidos entregados para repetir. 🙂\n\n` +
+    `Elegí tus productos desde nuestro *catálogo* 📋`
+  );
+};
+
+/**
+ * Nada del último pedido está disponible hoy
+ */
+export const getReorderNothingAvailableMessage = (): string => {
+  return (
+    `Lo sentimos, los productos de tu último pedido no están disponibles hoy. 😔\n\n` +
+    `Revisá el catálogo para ver las opciones disponibles.`
+  );
+};
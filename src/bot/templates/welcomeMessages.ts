@@ -1,30 +1,77 @@
+import { renderMessage } from "../../utils/messageTemplates";
+import type { Order } from "../../models/order";
+import type { Tenant } from "../../models/tenant";
+
 /**
  * Templates de mensajes de bienvenida
  */
 
+/**
+ * Saludo con el nombre del contacto (si lo conocemos)
+ */
+export const getGreeting = (contactName?: string): string =>
+  contactName ? `¡Hola ${contactName}! 👋` : "¡Hola! 👋";
+
 /**
  * Mensaje de bienvenida para nuevos clientes
  */
 export const getWelcomeMessage = (
   contactName: string | undefined,
-  tenantName: string,
+  tenant: Tenant,
+): string => {
+  return renderMessage(tenant, "welcome", {
+    greeting: getGreeting(contactName),
+    customerName: contactName,
+    tenantName: tenant.name,
+  });
+};
+
+/**
+ * Ofrece repetir el último pedido entregado
+ */
+export const getReorderOfferMessage = (order: Order): string => {
+  const items = order.items.map(
+    (item) => `• ${item.quantity}x ${item.productName}`,
+  );
+
+  return `🔁 ¿Querés repetir tu último pedido?\n\n${items.join("\n")}`;
+};
+
+/**
+ * Mensaje cuando el local está cerrado
+ */
+export const getClosedMessage = (
+  tenant: Tenant,
+  nextOpening?: string,
 ): string => {
-  const greeting = contactName ? `¡Hola ${contactName}! 👋` : "¡Hola! 👋";
+  const reopen = nextOpening
+    ? `Volvemos a abrir *${nextOpening}*. ¡Te esperamos!`
+    : `Por el momento no tenemos próximos horarios de atención.`;
+
+  return renderMessage(tenant, "closed", {
+    tenantName: tenant.name,
+    nextOpening,
+    reopenInfo: reopen,
+  });
+};
+
+/**
+ * Aviso cuando el local está cerrado pero acepta pedidos programados
+ */
+export const getClosedScheduledOrderMessage = (nextOpening?: string): string => {
+  const reopen = nextOpening ? ` Abrimos *${nextOpening}*.` : "";
 
   return (
-    `${greeting}\n\n` +
-    `Bienvenido a *${tenantName}* 🍔\n\n` +
-    `Para hacer tu pedido, seleccioná las hamburguesas que quieras desde nuestro *catálogo* 📋\n\n` +
-    `👉 Tocá el ícono del catálogo en este chat para ver todas nuestras opciones.\n\n` +
-    `Una vez que elijas tus productos, te ayudo a completar el pedido. ¡Gracias por elegirnos!`
+    `🕐 Ahora estamos cerrados.${reopen}\n\n` +
+    `Podés dejar tu pedido programado y lo preparamos cuando abramos.`
   );
 };
 
 /**
  * Mensaje de despedida al cancelar
  */
-export const getCancellationMessage = (tenantName: string): string => {
-  return `Pedido cancelado. ¡Esperamos verte pronto en *${tenantName}*! 🍔`;
+export const getCancellationMessage = (tenant: Tenant): string => {
+  return renderMessage(tenant, "cancellation", { tenantName: tenant.name });
 };
 
 /**
@@ -1,9 +1,10 @@
 import type { Tenant } from "../models/tenant";
-import type { Product } from "../models/product";
-import type { DeliveryZone } from "../models/deliveryZone";
+import type { Product, ProductCategory } from "../models/product";
+import type { DeliveryZone, GeoPoint } from "../models/deliveryZone";
 import type { Ingredient } from "../models/ingredient";
 import type { Extra } from "../models/extra";
 import type { Order } from "../models/order";
+import type { CustomerAddress } from "../models/customer";
 
 /**
  * Estados posibles de la conversación
@@ -11,14 +12,23 @@ import type { Order } from "../models/order";
 export type ConversationStep =
   | "idle"
   | "activeOrderMenu" // Menú para clientes con pedido activo
+  | "browsingMenuCategories" // Menú por listas: elegir categoría
+  | "browsingMenuProducts" // Menú por listas: elegir producto
+  | "selectingMenuQuantity" // Cantidad del producto elegido
+  | "askingMoreProducts" // ¿Agregar más productos o terminar?
   | "askingCustomization" // ¿Deseas personalizar?
   | "selectingBurgerToCustomize" // ¿Cuál hamburguesa personalizar?
   | "selectingCustomizationAction" // Agregar/Quitar/Continuar
   | "selectingIngredientToAdd" // Seleccionar ingrediente para agregar
   | "selectingIngredientToRemove" // Seleccionar ingrediente para quitar
+  | "editingCart" // Lista del carrito: elegir producto, agregar o terminar
+  | "editingCartItem" // Sacar o cambiar cantidad de un producto
+  | "changingCartItemQuantity" // Nueva cantidad del producto
   | "askingExtras" // ¿Deseas agregar extras?
   | "selectingExtras" // Seleccionando extras
   | "selectingOrderType" // Delivery o Pickup
+  | "selectingScheduleTime" // Lo antes posible o franja programada
+  | "confirmingSavedAddress" // ¿Misma dirección de siempre?
   | "selectingDeliveryZone" // Zona de delivery
   | "awaitingAddress" // Dirección de entrega
   | "awaitingDeliveryNotes" // Referencias de entrega
@@ -62,17 +72,34 @@ export interface ConversationState {
   cart: CartItem[];
   generalExtras: SelectedExtra[];
   currentBurgerIndex?: number;
+  menuCategory?: ProductCategory; // Categoría abierta en el menú por listas
+  menuProduct?: Product; // Producto elegido en el menú (falta la cantidad)
+  editingCartIndex?: number; // Producto del carrito que se está editando
+  cartEditReturnStep?: "askingCustomization" | "confirmingOrder"; // Paso al terminar de editar
   availableIngredients?: Ingredient[];
   ingredientExtrasMap?: { ingredient: Ingredient; extra: Extra }[];
   availableExtras?: Extra[];
   orderType?: "delivery" | "pickup";
+  scheduledFor?: string; // ISO - franja elegida (sin valor = lo antes posible)
+  availableSlots?: string[]; // Franjas ofrecidas (ISO)
+  savedAddress?: CustomerAddress; // Última dirección del cliente (ofrecida)
   selectedZone?: DeliveryZone;
   deliveryAddress?: string;
+  deliveryLocation?: GeoPoint; // Ubicación compartida por el cliente
   deliveryNotes?: string;
   paymentMethod?: "efectivo" | "transferencia";
   customerName?: string;
   activeOrder?: Order;
   lastUpdated?: number; // Timestamp para TTL
+  version?: number; // Versión para rechazar escrituras desactualizadas
+}
+
+/**
+ * Ubicación compartida desde WhatsApp
+ */
+export interface SharedLocation extends GeoPoint {
+  name?: string;
+  address?: string;
 }
 
 /**
@@ -84,6 +111,7 @@ export interface FlowContext {
   tenant: Tenant;
   state: ConversationState;
   contactName?: string;
+  location?: SharedLocation; // Solo en mensajes de ubicación
 }
 
 /**
@@ -123,6 +151,22 @@ export interface IncomingMessagePayload {
   text: string;
   timestamp: string;
   contactName?: string;
+  location?: SharedLocation;
+}
+
+/**
+ * Payload de archivo entrante (imagen o documento)
+ */
+export interface IncomingMediaPayload {
+  from: string;
+  messageId: string;
+  timestamp: string;
+  contactName?: string;
+  mediaId: string;
+  mediaType: "image" | "document";
+  mimeType?: string;
+  filename?: string;
+  caption?: string;
 }
 
 /**
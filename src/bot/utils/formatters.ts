@@ -1,4 +1,5 @@
 import type { CartItem, SelectedExtra } from "../types";
+import { addDays, getLocalDateTime } from "../../utils/businessDay";
 
 /**
  * Formatea un precio en pesos argentinos
@@ -127,3 +128,77 @@ export const formatNumberedList = (
 export const formatOrderId = (orderId: string): string => {
   return orderId.slice(-6).toUpperCase();
 };
+
+/**
+ * Hora local "HH:mm" de un instante en la zona del tenant
+ */
+export const formatLocalTime = (instant: Date, timezone: string): string =>
+  instant.toLocaleTimeString("es-AR", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+/**
+ * Día relativo a hoy en la zona del tenant: "hoy", "mañana" o "viernes 20/02"
+ */
+const getRelativeDay = (instant: Date, timezone: string, now: Date): string => {
+  const target = getLocalDateTime(instant, timezone).date;
+  const today = getLocalDateTime(now, timezone).date;
+
+  if (target === today) {
+    return "hoy";
+  }
+
+  if (target === addDays(today, 1)) {
+    return "mañana";
+  }
+
+  const weekday = instant.toLocaleDateString("es-AR", {
+    timeZone: timezone,
+    weekday: "long",
+  });
+  const [, month, day] = target.split("-");
+
+  return `${weekday} ${day}/${month}`;
+};
+
+/**
+ * Formatea un horario futuro relativo a hoy en la zona del tenant
+ * Ej: "hoy a las 19:00", "mañana a las 12:30", "el viernes 20/02 a las 19:00"
+ */
+export const formatOpeningTime = (
+  instant: Date,
+  timezone: string,
+  now: Date = new Date(),
+): string => {
+  const day = getRelativeDay(instant, timezone, now);
+  const prefix = day === "hoy" || day === "mañana" ? day : `el ${day}`;
+
+  return `${prefix} a las ${formatLocalTime(instant, timezone)}`;
+};
+
+/**
+ * Título del día de una franja horaria. Ej: "Hoy", "Mañana", "Viernes 20/02"
+ */
+export const formatSlotDay = (
+  instant: Date,
+  timezone: string,
+  now: Date = new Date(),
+): string => {
+  const day = getRelativeDay(instant, timezone, now);
+  return day.charAt(0).toUpperCase() + day.slice(1);
+};
+
+/**
+ * Rango de una franja horaria. Ej: "20:00 - 20:30"
+ */
+export const formatSlotRange = (
+  start: Date,
+  slotMinutes: number,
+  timezone: string,
+): string => {
+  const end = new Date(start.getTime() + slotMinutes * 60 * 1000);
+  return `${formatLocalTime(start, timezone)} - ${formatLocalTime(end, timezone)}`;
+};
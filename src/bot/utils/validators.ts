@@ -80,6 +80,22 @@ export const parseSelectionNumber = (text: string): number => {
   return isNaN(index) ? -1 : index - 1; // Convertir a 0-based
 };
 
+/**
+ * Parsea una selección con cantidad opcional ("2" o "2x3")
+ * Retorna index -1 si no es una selección válida
+ */
+export const parseQuantitySelection = (
+  text: string,
+): { index: number; quantity: number } => {
+  const match = normalizeText(text).match(/^(\d+)(?:\s*[x*]\s*(\d+))?$/);
+  if (!match) {
+    return { index: -1, quantity: 0 };
+  }
+
+  const quantity = match[2] ? parseInt(match[2], 10) : 1;
+  return { index: parseInt(match[1], 10) - 1, quantity };
+};
+
 /**
  * Valida si un texto parece ser una dirección válida
  */
@@ -122,6 +138,50 @@ export const isPickupIntent = (text: string): boolean => {
   return matchesButton(text, BUTTON_IDS.PICKUP, "2", "retiro", "local");
 };
 
+/**
+ * Detecta intención de repetir el último pedido
+ */
+export const isReorderIntent = (text: string): boolean => {
+  return matchesButton(text, BUTTON_IDS.REORDER, "repetir");
+};
+
+/**
+ * Detecta intención de ver el menú por listas ("pedir", "menu", ...)
+ */
+export const isMenuIntent = (text: string): boolean => {
+  const normalized = normalizeText(text);
+  return (
+    normalized === BUTTON_IDS.VIEW_MENU || INTENT_PATTERNS.menu.test(normalized)
+  );
+};
+
+/**
+ * Detecta intención de editar el carrito
+ */
+export const isEditCartIntent = (text: string): boolean => {
+  return matchesButton(text, BUTTON_IDS.EDIT_CART, "editar");
+};
+
+/**
+ * Detecta que el cliente quiere usar su dirección guardada
+ */
+export const isSavedAddressIntent = (text: string): boolean => {
+  return (
+    matchesButton(text, BUTTON_IDS.SAVED_ADDRESS_YES, "1", "misma") ||
+    INTENT_PATTERNS.yes.test(normalizeText(text))
+  );
+};
+
+/**
+ * Detecta que el cliente quiere indicar otra dirección
+ */
+export const isNewAddressIntent = (text: string): boolean => {
+  return (
+    matchesButton(text, BUTTON_IDS.SAVED_ADDRESS_NO, "2", "otra") ||
+    INTENT_PATTERNS.no.test(normalizeText(text))
+  );
+};
+
 /**
  * Detecta intención de pago en efectivo
  */
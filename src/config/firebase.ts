@@ -75,3 +75,10 @@ export const getFirestore = (): admin.firestore.Firestore => {
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   return firestoreInstance!;
 };
+
+/**
+ * Reemplaza la instancia de Firestore (tests con un Firestore en memoria)
+ */
+export const setFirestore = (instance: admin.firestore.Firestore): void => {
+  firestoreInstance = instance;
+};
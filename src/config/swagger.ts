@@ -23,6 +23,12 @@ const swaggerDocument = {
     { name: "Deliveries", description: "Repartidores" },
     { name: "Delivery Zones", description: "Zonas y costos de envío" },
     { name: "Cash Register", description: "Cierres de caja y reportes" },
+    { name: "Conversations", description: "Historial de mensajes de WhatsApp" },
+    { name: "Customers", description: "Perfiles de clientes e historial" },
+    {
+      name: "Message Templates",
+      description: "Mensajes del bot personalizables por tenant",
+    },
   ],
   components: {
     securitySchemes: {
@@ -46,13 +52,148 @@ const swaggerDocument = {
           id: { type: "string", example: "tenant_123" },
           name: { type: "string", example: "Burger Palace" },
           address: { type: "string", example: "Av. Corrientes 1234" },
+          storeLocation: {
+            $ref: "#/components/schemas/GeoPoint",
+            description:
+              "Ubicación del local: centro por defecto de las zonas por radio y origen del precio por km",
+          },
           phone: { type: "string", example: "+54 11 5555-5555" },
           logo: { type: "string", example: "https://example.com/logo.png" },
           whatsappNumber: { type: "string", example: "+5491155555555" },
+          timezone: {
+            type: "string",
+            example: "America/Argentina/Buenos_Aires",
+          },
+          businessDayCutoffHour: {
+            type: "number",
+            minimum: 0,
+            maximum: 23,
+            example: 5,
+            description:
+              "Hora local en la que empieza el día comercial (pedidos previos cuentan para el día anterior)",
+          },
+          openingHours: {
+            type: "object",
+            description: "Sin configurar = siempre abierto",
+            properties: {
+              weekly: {
+                type: "object",
+                description:
+                  "Turnos por día (domingo..sabado). Si close <= open el turno termina al día siguiente",
+                additionalProperties: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/OpeningShift" },
+                },
+                example: {
+                  lunes: [
+                    { open: "12:00", close: "15:00" },
+                    { open: "20:00", close: "02:00" },
+                  ],
+                },
+              },
+              exceptions: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    date: { type: "string", format: "date" },
+                    closed: { type: "boolean" },
+                    shifts: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/OpeningShift" },
+                    },
+                    reason: { type: "string", example: "Feriado" },
+                  },
+                },
+              },
+              acceptScheduledOrdersWhileClosed: { type: "boolean" },
+            },
+          },
+          scheduledOrders: {
+            type: "object",
+            properties: {
+              enabled: { type: "boolean" },
+              slotMinutes: {
+                type: "number",
+                example: 30,
+                description:
+                  "Duración de cada franja; debe dividir el día (franjas desde la medianoche local)",
+              },
+              capacityPerSlot: { type: "number", example: 5 },
+              leadTimeMinutes: { type: "number", example: 45 },
+              maxDaysAhead: {
+                type: "number",
+                example: 2,
+                description: "Días hacia adelante que se pueden programar",
+              },
+            },
+          },
+          bankTransfer: {
+            $ref: "#/components/schemas/BankTransferDetails",
+            description:
+              "Datos que el bot envía para pagar por transferencia (sin Mercado Pago)",
+          },
+          minMarginPercent: {
+            type: "number",
+            example: 60,
+            description:
+              "Margen bruto mínimo (0-100). Si un cambio de costo de un " +
+              "ingrediente deja productos por debajo, se avisa al " +
+              "teléfono de notificaciones",
+          },
+          whatsappTemplates: {
+            type: "object",
+            description:
+              "Plantillas aprobadas (HSM) que se usan cuando pasaron más de 24 hs " +
+              "desde el último mensaje del cliente. Eventos: orderStatus " +
+              "(nombre, pedido, estado), paymentApproved (pedido), " +
+              "paymentRejected (pedido)",
+            additionalProperties: {
+              $ref: "#/components/schemas/WhatsappTemplateConfig",
+            },
+            example: {
+              orderStatus: { name: "order_status_update", language: "es_AR" },
+            },
+          },
           isActive: { type: "boolean", example: true },
           createdAt: { type: "string", format: "date-time" },
         },
       },
+      BankTransferDetails: {
+        type: "object",
+        required: ["holderName"],
+        description: "Requiere alias o CBU/CVU",
+        properties: {
+          holderName: { type: "string", example: "Burger Palace SRL" },
+          alias: { type: "string", example: "burger.palace.mp" },
+          cbu: {
+            type: "string",
+            pattern: "^\\d{22}$",
+            example: "0000003100012345678901",
+          },
+          bankName: { type: "string", example: "Banco Nación" },
+          cuit: { type: "string", example: "30-12345678-9" },
+        },
+      },
+      WhatsappTemplateConfig: {
+        type: "object",
+        required: ["name"],
+        properties: {
+          name: {
+            type: "string",
+            pattern: "^[a-z0-9_]+$",
+            example: "order_status_update",
+          },
+          language: { type: "string", example: "es_AR" },
+        },
+      },
+      OpeningShift: {
+        type: "object",
+        properties: {
+          open: { type: "string", example: "20:00" },
+          close: { type: "string", example: "23:30" },
+        },
+      },
       Product: {
         type: "object",
         properties: {
@@ -82,16 +223,77 @@ const swaggerDocument = {
             items: { $ref: "#/components/schemas/ProductIngredient" },
           },
           available: { type: "boolean", example: true },
+          costing: {
+            $ref: "#/components/schemas/ProductCosting",
+            description: "Solo en GET /products y GET /products/{id}",
+          },
+          disabledByStock: {
+            type: "boolean",
+            description:
+              "true si se desactivó automáticamente por falta de stock de " +
+              "algún ingrediente. Se reactiva sola al reponer stock",
+          },
           createdAt: { type: "string", format: "date-time" },
         },
       },
+      ProductCosting: {
+        type: "object",
+        description:
+          "Costo de la receta con los costos actuales de los ingredientes " +
+          "(convertidos a la unidad de stock)",
+        properties: {
+          recipeCost: { type: "number", example: 1850 },
+          grossMargin: { type: "number", example: 4650 },
+          marginPercent: { type: "number", example: 71.54 },
+          foodCostPercent: { type: "number", example: 28.46 },
+          missingCosts: {
+            type: "array",
+            description:
+              "Ingredientes sin costo, borrados o con unidades incompatibles",
+            items: { type: "string" },
+          },
+          addOns: {
+            type: "array",
+            description:
+              "Ingredientes que se pueden agregar (extra vinculado activo)",
+            items: {
+              type: "object",
+              properties: {
+                ingredientId: { type: "string" },
+                ingredientName: { type: "string", example: "Cheddar" },
+                price: { type: "number", example: 800 },
+                cost: { type: "number", example: 250 },
+                grossMargin: { type: "number", example: 550 },
+              },
+            },
+          },
+        },
+      },
+      MarginAlert: {
+        type: "object",
+        properties: {
+          productId: { type: "string" },
+          productName: { type: "string" },
+          price: { type: "number" },
+          recipeCost: { type: "number" },
+          marginPercent: { type: "number", example: 52.3 },
+          minMarginPercent: { type: "number", example: 60 },
+        },
+      },
       ProductIngredient: {
         type: "object",
         properties: {
           ingredientId: { type: "string" },
           ingredientName: { type: "string", example: "Queso cheddar" },
           quantity: { type: "number", example: 50 },
-          unit: { type: "string", example: "gramos" },
+          unit: {
+            type: "string",
+            description:
+              "Unidad de la receta. Debe poder convertirse a la unidad de " +
+              "stock del ingrediente (ej: gramos si el stock está en kg). " +
+              'Acepta abreviaturas ("g", "lts") y se guarda normalizada',
+            example: "gramos",
+          },
           isRemovable: { type: "boolean", example: true },
           isExtra: { type: "boolean", example: true },
           extraPrice: { type: "number", example: 300 },
@@ -109,6 +311,19 @@ const swaggerDocument = {
             example: "unidades",
           },
           stock: { type: "number", example: 100 },
+          reservedStock: {
+            type: "number",
+            readOnly: true,
+            description:
+              "Reservado por pedidos pendientes (todavía sin confirmar)",
+            example: 5,
+          },
+          availableStock: {
+            type: "number",
+            readOnly: true,
+            description: "Stock libre para nuevos pedidos (stock - reservado)",
+            example: 95,
+          },
           minStock: { type: "number", example: 20 },
           costPerUnit: { type: "number", example: 50 },
           createdAt: { type: "string", format: "date-time" },
@@ -121,6 +336,11 @@ const swaggerDocument = {
           tenantId: { type: "string" },
           customerName: { type: "string", example: "Juan Pérez" },
           customerPhone: { type: "string", example: "+54 11 5555-5555" },
+          customerId: {
+            type: "string",
+            example: "541155555555",
+            description: "Perfil del cliente (teléfono normalizado)",
+          },
           items: {
             type: "array",
             items: { $ref: "#/components/schemas/OrderItem" },
@@ -149,18 +369,216 @@ const swaggerDocument = {
           },
           deliveryId: { type: "string" },
           deliveryCost: { type: "number", example: 500 },
+          deliveryLocation: {
+            $ref: "#/components/schemas/GeoPoint",
+            description: "Ubicación compartida por WhatsApp",
+          },
+          scheduledFor: {
+            type: "string",
+            format: "date-time",
+            description: "Franja programada (sin valor = lo antes posible)",
+          },
+          scheduledSlotId: {
+            type: "string",
+            description:
+              "Contador de capacidad de la franja programada. Se libera " +
+              "al cancelar el pedido",
+          },
           paymentMethod: {
             type: "string",
             enum: ["efectivo", "transferencia"],
             example: "efectivo",
           },
+          paymentStatus: {
+            type: "string",
+            enum: [
+              "pendiente",
+              "en_verificacion",
+              "pagado",
+              "rechazado",
+              "reembolsado",
+            ],
+            description:
+              "en_verificacion = el cliente envió el comprobante de transferencia",
+          },
+          paymentReceipt: { $ref: "#/components/schemas/PaymentReceipt" },
+          paymentExpiresAt: {
+            type: "string",
+            format: "date-time",
+            description:
+              "Vencimiento del link de pago (pendiente_pago). Al vencer, " +
+              "el pedido se cancela y libera su stock",
+          },
+          reservedStock: {
+            type: "array",
+            description:
+              "Stock reservado al crear el pedido. Se libera al cancelar " +
+              "y se descuenta al confirmar",
+            items: {
+              type: "object",
+              properties: {
+                ingredientId: { type: "string" },
+                quantity: { type: "number", example: 2 },
+              },
+            },
+          },
           subtotal: { type: "number", example: 5000 },
           total: { type: "number", example: 5500 },
           notes: { type: "string" },
+          notificationFailures: {
+            type: "array",
+            description: "Notificaciones de WhatsApp que no llegaron",
+            items: { $ref: "#/components/schemas/OrderNotificationFailure" },
+          },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      PaymentReceipt: {
+        type: "object",
+        description: "Comprobante de transferencia enviado por WhatsApp",
+        properties: {
+          mediaId: { type: "string", description: "ID del archivo en Meta" },
+          mediaType: { type: "string", enum: ["image", "document"] },
+          mimeType: { type: "string", example: "application/pdf" },
+          filename: { type: "string", example: "comprobante.pdf" },
+          caption: { type: "string" },
+          receivedAt: { type: "string", format: "date-time" },
+          reviewedAt: { type: "string", format: "date-time" },
+          reviewedBy: { type: "string" },
+          rejectionReason: { type: "string", example: "Monto incorrecto" },
+        },
+      },
+      OrderNotificationFailure: {
+        type: "object",
+        properties: {
+          messageId: { type: "string" },
+          recipient: { type: "string", example: "5491155555555" },
+          orderStatus: { type: "string", example: "en_camino" },
+          error: {
+            type: "string",
+            example: "Message undeliverable (131026)",
+          },
+          failedAt: { type: "string", format: "date-time" },
+        },
+      },
+      OutboundMessage: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          tenantId: { type: "string" },
+          recipient: { type: "string", example: "5491155555555" },
+          type: { type: "string", enum: ["text", "buttons", "list", "template"] },
+          body: { type: "string" },
+          status: {
+            type: "string",
+            enum: ["sent", "delivered", "read", "failed"],
+          },
+          metaMessageId: { type: "string", example: "wamid.HBgL..." },
+          orderId: { type: "string" },
+          orderStatus: { type: "string" },
+          retryOf: {
+            type: "string",
+            description: "Mensaje fallido que se reintentó con este envío",
+          },
+          sentBy: {
+            type: "string",
+            description: "UID del usuario que respondió desde el panel",
+          },
+          error: { type: "string" },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      CustomerAddress: {
+        type: "object",
+        required: ["address"],
+        properties: {
+          address: { type: "string", example: "Av. Siempre Viva 742" },
+          zoneId: { type: "string" },
+          zoneName: { type: "string", example: "Zona Centro" },
+          location: { $ref: "#/components/schemas/GeoPoint" },
+          notes: { type: "string", example: "Portón negro" },
+          lastUsedAt: { type: "string", format: "date-time" },
+        },
+      },
+      Customer: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            example: "5491155555555",
+            description: "Teléfono normalizado",
+          },
+          tenantId: { type: "string" },
+          phone: { type: "string", example: "5491155555555" },
+          name: { type: "string", example: "Juan Pérez" },
+          addresses: {
+            type: "array",
+            description: "Hasta 5, la usada más recientemente primero",
+            items: { $ref: "#/components/schemas/CustomerAddress" },
+          },
+          orderCount: { type: "number", example: 12 },
+          totalSpent: { type: "number", example: 98500 },
+          lastOrderAt: { type: "string", format: "date-time" },
+          notes: { type: "string", example: "Pide sin sal" },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            example: ["vip"],
+          },
           createdAt: { type: "string", format: "date-time" },
           updatedAt: { type: "string", format: "date-time" },
         },
       },
+      Conversation: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "5491155555555" },
+          tenantId: { type: "string" },
+          phone: { type: "string", example: "5491155555555" },
+          customerName: { type: "string", example: "Juan Pérez" },
+          orderIds: { type: "array", items: { type: "string" } },
+          messageCount: { type: "number", example: 12 },
+          lastMessagePreview: { type: "string" },
+          lastDirection: { type: "string", enum: ["inbound", "outbound"] },
+          lastMessageAt: { type: "string", format: "date-time" },
+          handoff: { $ref: "#/components/schemas/ConversationHandoff" },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      ConversationHandoff: {
+        type: "object",
+        description: "Conversación atendida por el local (el bot no responde)",
+        properties: {
+          reason: { type: "string", enum: ["issue", "contact", "agent"] },
+          orderId: { type: "string" },
+          startedBy: { type: "string" },
+          startedAt: { type: "string", format: "date-time" },
+          lastAgentActivityAt: {
+            type: "string",
+            format: "date-time",
+            description:
+              "El bot retoma tras 30 minutos sin respuestas del local",
+          },
+        },
+      },
+      ConversationMessage: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          direction: { type: "string", enum: ["inbound", "outbound"] },
+          type: { type: "string", example: "text" },
+          body: { type: "string", example: "Hola, quiero hacer un pedido" },
+          metaMessageId: { type: "string" },
+          orderId: { type: "string" },
+          sentBy: {
+            type: "string",
+            description: "Usuario que respondió desde el panel",
+          },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
       OrderItem: {
         type: "object",
         properties: {
@@ -206,13 +624,101 @@ const swaggerDocument = {
           id: { type: "string", example: "zone_123" },
           tenantId: { type: "string" },
           name: { type: "string", example: "Zona Centro" },
-          minDistance: { type: "number", example: 0 },
-          maxDistance: { type: "number", example: 3 },
-          cost: { type: "number", example: 300 },
+          price: {
+            type: "number",
+            example: 300,
+            description: "Costo base de envío",
+          },
+          area: { $ref: "#/components/schemas/DeliveryZoneArea" },
+          pricing: { $ref: "#/components/schemas/DeliveryZonePricing" },
           isActive: { type: "boolean", example: true },
           createdAt: { type: "string", format: "date-time" },
         },
       },
+      GeoPoint: {
+        type: "object",
+        required: ["lat", "lng"],
+        properties: {
+          lat: { type: "number", example: -34.6037 },
+          lng: { type: "number", example: -58.3816 },
+        },
+      },
+      DeliveryZoneArea: {
+        type: "object",
+        description:
+          "Área de la zona para detectarla con la ubicación del cliente: polígono (points) o radio (center + radiusMeters, con minRadiusMeters arma un anillo). Sin center se usa la ubicación del local. Al crear/editar también se acepta un Polygon GeoJSON, que se guarda como polygon",
+        required: ["type"],
+        properties: {
+          type: { type: "string", enum: ["polygon", "radius"] },
+          points: {
+            type: "array",
+            minItems: 3,
+            items: { $ref: "#/components/schemas/GeoPoint" },
+          },
+          center: { $ref: "#/components/schemas/GeoPoint" },
+          radiusMeters: { type: "number", example: 5000 },
+          minRadiusMeters: { type: "number", example: 2000 },
+        },
+      },
+      GeoJsonPolygon: {
+        type: "object",
+        required: ["type", "coordinates"],
+        properties: {
+          type: { type: "string", enum: ["Polygon"] },
+          coordinates: {
+            type: "array",
+            description: "Anillos de posiciones [lng, lat] (se usa el exterior)",
+            items: {
+              type: "array",
+              items: { type: "array", items: { type: "number" } },
+            },
+            example: [
+              [
+                [-58.39, -34.6],
+                [-58.37, -34.6],
+                [-58.37, -34.62],
+                [-58.39, -34.6],
+              ],
+            ],
+          },
+        },
+      },
+      DeliveryZonePricing: {
+        type: "object",
+        description: "Reglas de precio de la zona (el precio base es price)",
+        properties: {
+          perKm: {
+            type: "number",
+            example: 150,
+            description:
+              "Adicional por km en línea recta desde el local (requiere storeLocation)",
+          },
+          freeDeliveryThreshold: {
+            type: "number",
+            example: 20000,
+            description: "Subtotal desde el que el envío es gratis",
+          },
+          minimumOrderAmount: {
+            type: "number",
+            example: 8000,
+            description: "Subtotal mínimo para enviar a la zona",
+          },
+        },
+      },
+      DeliveryQuote: {
+        type: "object",
+        properties: {
+          zoneId: { type: "string", example: "zone_123" },
+          zoneName: { type: "string", example: "Zona Centro" },
+          distanceKm: { type: "number", example: 3.42 },
+          baseFee: { type: "number", example: 300 },
+          distanceFee: { type: "number", example: 513 },
+          cost: { type: "number", example: 813 },
+          freeDelivery: { type: "boolean", example: false },
+          minimumOrderAmount: { type: "number", example: 8000 },
+          meetsMinimumOrder: { type: "boolean", example: true },
+        },
+      },
       CashRegister: {
         type: "object",
         properties: {
@@ -238,10 +744,66 @@ const swaggerDocument = {
           cancelledCount: { type: "number", example: 2 },
         },
       },
+      CostReport: {
+        type: "object",
+        description:
+          "CMV teórico de los pedidos entregados, con las recetas y los " +
+          "costos actuales de los ingredientes",
+        properties: {
+          period: {
+            type: "string",
+            enum: ["daily", "weekly", "monthly", "custom"],
+          },
+          startDate: { type: "string", format: "date" },
+          endDate: { type: "string", format: "date" },
+          deliveredOrders: { type: "number" },
+          revenue: {
+            type: "number",
+            description: "Productos y extras (sin envío)",
+          },
+          costOfGoodsSold: { type: "number" },
+          grossMargin: { type: "number" },
+          marginPercent: { type: "number", example: 68.2 },
+          foodCostPercent: { type: "number", example: 31.8 },
+          missingCosts: {
+            type: "array",
+            description:
+              "Ingredientes y extras sin costo, borrados o con unidades " +
+              "incompatibles (no suman al CMV)",
+            items: { type: "string" },
+          },
+          products: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                productId: { type: "string" },
+                productName: { type: "string" },
+                quantity: { type: "number" },
+                revenue: { type: "number" },
+                cost: { type: "number" },
+                grossMargin: { type: "number" },
+                marginPercent: { type: "number" },
+                missingCosts: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+          marginAlerts: {
+            type: "array",
+            description:
+              "Productos del menú bajo el margen mínimo del tenant " +
+              "(vacío si no está configurado)",
+            items: { $ref: "#/components/schemas/MarginAlert" },
+          },
+        },
+      },
       SalesReport: {
         type: "object",
         properties: {
-          period: { type: "string", enum: ["daily", "weekly", "monthly"] },
+          period: {
+            type: "string",
+            enum: ["daily", "weekly", "monthly", "custom"],
+          },
           startDate: { type: "string", format: "date" },
           endDate: { type: "string", format: "date" },
           totalSales: { type: "number" },
@@ -250,6 +812,93 @@ const swaggerDocument = {
           totalTransfer: { type: "number" },
           totalDeliveryCost: { type: "number" },
           averageOrderValue: { type: "number" },
+          topProducts: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                productId: { type: "string" },
+                productName: { type: "string" },
+                quantity: { type: "number" },
+                revenue: { type: "number" },
+              },
+            },
+          },
+          revenueByCategory: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                category: { type: "string", example: "hamburguesa" },
+                quantity: { type: "number" },
+                revenue: { type: "number" },
+              },
+            },
+          },
+          topAddedIngredients: {
+            type: "array",
+            items: { $ref: "#/components/schemas/CustomizationStat" },
+          },
+          topRemovedIngredients: {
+            type: "array",
+            items: { $ref: "#/components/schemas/CustomizationStat" },
+          },
+          extras: {
+            type: "object",
+            properties: {
+              ordersWithExtras: { type: "number" },
+              attachRate: { type: "number", example: 35.5 },
+              extrasQuantity: { type: "number" },
+              extrasRevenue: { type: "number" },
+            },
+          },
+          orderTypeSplit: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                orderType: { type: "string", enum: ["delivery", "pickup"] },
+                orders: { type: "number" },
+                revenue: { type: "number" },
+                percentage: { type: "number", example: 60 },
+              },
+            },
+          },
+        },
+      },
+      CustomizationStat: {
+        type: "object",
+        properties: {
+          ingredientId: { type: "string" },
+          ingredientName: { type: "string" },
+          count: { type: "number" },
+        },
+      },
+      MessageTemplate: {
+        type: "object",
+        properties: {
+          key: { type: "string", example: "orderReceived" },
+          description: { type: "string" },
+          placeholders: {
+            type: "object",
+            description: "Variables disponibles ({{nombre}}) con un ejemplo",
+            additionalProperties: { type: "string" },
+            example: { orderNumber: "A1B2C3", total: "$5.500" },
+          },
+          defaultBody: { type: "string" },
+          body: {
+            type: "string",
+            description: "Texto vigente (personalizado o el de fábrica)",
+          },
+          isCustom: { type: "boolean" },
+        },
+      },
+      MessageTemplatePreview: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          body: { type: "string" },
+          rendered: { type: "string" },
         },
       },
       Error: {
@@ -297,6 +946,8 @@ const swaggerDocument = {
                   phone: { type: "string" },
                   logo: { type: "string" },
                   whatsappNumber: { type: "string" },
+                  timezone: { type: "string" },
+                  businessDayCutoffHour: { type: "number" },
                 },
               },
             },
@@ -449,7 +1100,19 @@ const swaggerDocument = {
             in: "query",
             schema: { type: "string", format: "date" },
           },
-          { name: "pending", in: "query", schema: { type: "boolean" } },
+          {
+            name: "pending",
+            in: "query",
+            description:
+              "Cola activa de cocina (los programados aparecen al llegar su tiempo de preparación)",
+            schema: { type: "boolean" },
+          },
+          {
+            name: "scheduled",
+            in: "query",
+            description: "Pedidos programados que aún no entraron a cocina",
+            schema: { type: "boolean" },
+          },
         ],
         responses: {
           200: {
@@ -468,6 +1131,8 @@ const swaggerDocument = {
       post: {
         tags: ["Orders"],
         summary: "Crear pedido",
+        description:
+          "En pedidos delivery con ubicación o zona, el costo de envío se calcula en el servidor con las reglas de la zona (ver /delivery-zones/quote) y se rechaza si no llega al pedido mínimo. También se rechaza (400) si el stock libre de ingredientes no alcanza para preparar el pedido. El stock queda reservado hasta que el pedido se confirma o se cancela",
         requestBody: {
           required: true,
           content: {
@@ -487,6 +1152,11 @@ const swaggerDocument = {
                   items: { type: "array" },
                   orderType: { type: "string", enum: ["delivery", "pickup"] },
                   deliveryAddress: { type: "string" },
+                  deliveryLocation: {
+                    $ref: "#/components/schemas/GeoPoint",
+                  },
+                  deliveryZoneId: { type: "string" },
+                  scheduledFor: { type: "string", format: "date-time" },
                   paymentMethod: {
                     type: "string",
                     enum: ["efectivo", "transferencia"],
@@ -570,35 +1240,147 @@ const swaggerDocument = {
         responses: { 200: { description: "Estado actualizado" } },
       },
     },
-    "/deliveries": {
+    "/orders/{id}/messages": {
       get: {
-        tags: ["Deliveries"],
-        summary: "Listar repartidores",
+        tags: ["Orders"],
+        summary: "Mensajes de WhatsApp enviados por el pedido",
         parameters: [
-          { name: "active", in: "query", schema: { type: "boolean" } },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
         ],
         responses: {
           200: {
-            description: "Lista de repartidores",
+            description: "Mensajes con su estado de entrega",
             content: {
               "application/json": {
                 schema: {
                   type: "array",
-                  items: { $ref: "#/components/schemas/Delivery" },
+                  items: { $ref: "#/components/schemas/OutboundMessage" },
                 },
               },
             },
           },
         },
       },
+    },
+    "/orders/{id}/notifications/{messageId}/retry": {
       post: {
-        tags: ["Deliveries"],
-        summary: "Crear repartidor",
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
+        tags: ["Orders"],
+        summary: "Reintentar una notificación fallida",
+        description:
+          "Las notificaciones de estado se reenvían como texto dentro de la " +
+          "ventana de 24 hs y con la plantilla aprobada fuera de ella. Si el " +
+          "reenvío falla, queda marcado en lugar de la notificación original",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "messageId",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: { description: "Notificación reenviada (devuelve el pedido)" },
+          409: { description: "El mensaje no está fallido" },
+          502: { description: "WhatsApp rechazó el reenvío" },
+        },
+      },
+    },
+    "/orders/{id}/payment-receipt": {
+      get: {
+        tags: ["Orders"],
+        summary: "Descargar el comprobante de transferencia del pedido",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: { description: "Archivo del comprobante (imagen o PDF)" },
+          404: { description: "El pedido no tiene comprobante" },
+        },
+      },
+    },
+    "/orders/{id}/payment-receipt/review": {
+      post: {
+        tags: ["Orders"],
+        summary: "Aprobar o rechazar el comprobante de transferencia",
+        description:
+          "Aprobado: el pago pasa a pagado. Rechazado: pasa a rechazado y el cliente puede enviar otro comprobante. Se le avisa al cliente por WhatsApp.",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["approved"],
+                properties: {
+                  approved: { type: "boolean", example: false },
+                  rejectionReason: {
+                    type: "string",
+                    example: "El monto no coincide",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: "Pedido actualizado" },
+          409: { description: "No hay comprobante pendiente de verificación" },
+        },
+      },
+    },
+    "/deliveries": {
+      get: {
+        tags: ["Deliveries"],
+        summary: "Listar repartidores",
+        parameters: [
+          { name: "active", in: "query", schema: { type: "boolean" } },
+        ],
+        responses: {
+          200: {
+            description: "Lista de repartidores",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Delivery" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ["Deliveries"],
+        summary: "Crear repartidor",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
                 type: "object",
                 required: ["name", "phone"],
                 properties: {
@@ -639,12 +1421,19 @@ const swaggerDocument = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["name", "minDistance", "maxDistance", "cost"],
+                required: ["name", "price"],
                 properties: {
                   name: { type: "string" },
-                  minDistance: { type: "number" },
-                  maxDistance: { type: "number" },
-                  cost: { type: "number" },
+                  price: { type: "number" },
+                  area: {
+                    oneOf: [
+                      { $ref: "#/components/schemas/DeliveryZoneArea" },
+                      { $ref: "#/components/schemas/GeoJsonPolygon" },
+                    ],
+                  },
+                  pricing: {
+                    $ref: "#/components/schemas/DeliveryZonePricing",
+                  },
                 },
               },
             },
@@ -653,19 +1442,39 @@ const swaggerDocument = {
         responses: { 201: { description: "Zona creada" } },
       },
     },
-    "/delivery-zones/calculate": {
+    "/delivery-zones/quote": {
       get: {
         tags: ["Delivery Zones"],
-        summary: "Calcular costo de envío",
+        summary: "Cotizar costo de envío",
+        description:
+          "Detecta la zona por ubicación (o usa zoneId) y aplica precio base, adicional por km, envío gratis y pedido mínimo. Es el mismo cálculo que usan el bot y POST /orders",
         parameters: [
+          { name: "lat", in: "query", schema: { type: "number" } },
+          { name: "lng", in: "query", schema: { type: "number" } },
           {
-            name: "distance",
+            name: "zoneId",
+            in: "query",
+            schema: { type: "string" },
+            description: "Zona elegida (tiene prioridad sobre la detectada)",
+          },
+          {
+            name: "subtotal",
             in: "query",
-            required: true,
             schema: { type: "number" },
+            description: "Subtotal del pedido para envío gratis y mínimo",
           },
         ],
-        responses: { 200: { description: "Costo calculado" } },
+        responses: {
+          200: {
+            description: "Cotización",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/DeliveryQuote" },
+              },
+            },
+          },
+          400: { description: "Ubicación fuera de las zonas de delivery" },
+        },
       },
     },
     "/cash-register": {
@@ -732,7 +1541,51 @@ const swaggerDocument = {
           {
             name: "period",
             in: "query",
-            required: true,
+            description: "Requerido si no se envía startDate/endDate",
+            schema: { type: "string", enum: ["daily", "weekly", "monthly"] },
+          },
+          {
+            name: "date",
+            in: "query",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "startDate",
+            in: "query",
+            description: "Inicio de rango personalizado (junto con endDate)",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "endDate",
+            in: "query",
+            description: "Fin de rango personalizado (junto con startDate)",
+            schema: { type: "string", format: "date" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Reporte generado",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SalesReport" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/cash-register/cost-report": {
+      get: {
+        tags: ["Cash Register"],
+        summary: "Generar reporte de costos y márgenes",
+        description:
+          "Mismos filtros que /cash-register/report. Solo cuenta pedidos " +
+          "entregados",
+        parameters: [
+          {
+            name: "period",
+            in: "query",
+            description: "Requerido si no se envía startDate/endDate",
             schema: { type: "string", enum: ["daily", "weekly", "monthly"] },
           },
           {
@@ -740,8 +1593,501 @@ const swaggerDocument = {
             in: "query",
             schema: { type: "string", format: "date" },
           },
+          {
+            name: "startDate",
+            in: "query",
+            description: "Inicio de rango personalizado (junto con endDate)",
+            schema: { type: "string", format: "date" },
+          },
+          {
+            name: "endDate",
+            in: "query",
+            description: "Fin de rango personalizado (junto con startDate)",
+            schema: { type: "string", format: "date" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Reporte generado",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/CostReport" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/conversations": {
+      get: {
+        tags: ["Conversations"],
+        summary: "Listar conversaciones (más recientes primero)",
+        parameters: [
+          {
+            name: "phone",
+            in: "query",
+            description: "Buscar por teléfono (prefijo)",
+            schema: { type: "string" },
+          },
+          {
+            name: "orderId",
+            in: "query",
+            description: "Buscar conversaciones de un pedido",
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", default: 50, maximum: 200 },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Lista de conversaciones",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Conversation" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/conversations/{phone}/messages": {
+      get: {
+        tags: ["Conversations"],
+        summary: "Transcripción de la conversación con un cliente",
+        parameters: [
+          {
+            name: "phone",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", default: 50, maximum: 200 },
+          },
+          {
+            name: "before",
+            in: "query",
+            description: "Mensajes anteriores a esta fecha (paginación)",
+            schema: { type: "string", format: "date-time" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Conversación y mensajes en orden cronológico",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    conversation: {
+                      $ref: "#/components/schemas/Conversation",
+                    },
+                    messages: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/ConversationMessage",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: "No hay conversación con ese teléfono" },
+        },
+      },
+      post: {
+        tags: ["Conversations"],
+        summary: "Responder al cliente desde el panel",
+        description:
+          "Envía el mensaje por WhatsApp y pausa el bot para esta conversación",
+        parameters: [
+          {
+            name: "phone",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["text"],
+                properties: { text: { type: "string", maxLength: 4096 } },
+              },
+            },
+          },
+        },
+        responses: {
+          201: { description: "Mensaje enviado (devuelve el handoff)" },
+          502: { description: "WhatsApp rechazó el envío" },
+        },
+      },
+    },
+    "/conversations/{phone}/handoff": {
+      post: {
+        tags: ["Conversations"],
+        summary: "Tomar la conversación (pausa el bot)",
+        parameters: [
+          {
+            name: "phone",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Handoff activo",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ConversationHandoff" },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ["Conversations"],
+        summary: "Devolver la conversación al bot",
+        parameters: [
+          {
+            name: "phone",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          204: { description: "El bot retoma la conversación" },
+          404: { description: "No hay conversación con ese teléfono" },
+        },
+      },
+    },
+    "/customers": {
+      get: {
+        tags: ["Customers"],
+        summary: "Listar clientes (actualizados más recientemente primero)",
+        parameters: [
+          {
+            name: "search",
+            in: "query",
+            description: "Prefijo del teléfono o del nombre",
+            schema: { type: "string" },
+          },
+          { name: "tag", in: "query", schema: { type: "string" } },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", default: 50, maximum: 200 },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Lista de clientes",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Customer" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ["Customers"],
+        summary: "Crear cliente",
+        description:
+          "Los clientes también se crean y actualizan solos con cada pedido",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["phone", "name"],
+                properties: {
+                  phone: { type: "string" },
+                  name: { type: "string" },
+                  addresses: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/CustomerAddress" },
+                  },
+                  notes: { type: "string" },
+                  tags: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          201: { description: "Cliente creado" },
+          409: { description: "Ya existe un cliente con ese teléfono" },
+        },
+      },
+    },
+    "/customers/{id}": {
+      get: {
+        tags: ["Customers"],
+        summary: "Obtener cliente",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Cliente",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Customer" },
+              },
+            },
+          },
+          404: { description: "El cliente no existe" },
+        },
+      },
+      put: {
+        tags: ["Customers"],
+        summary: "Actualizar cliente (nombre, direcciones, notas, etiquetas)",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  addresses: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/CustomerAddress" },
+                  },
+                  notes: { type: "string" },
+                  tags: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+        responses: { 200: { description: "Cliente actualizado" } },
+      },
+      delete: {
+        tags: ["Customers"],
+        summary: "Eliminar cliente",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: { 204: { description: "Cliente eliminado" } },
+      },
+    },
+    "/customers/{id}/orders": {
+      get: {
+        tags: ["Customers"],
+        summary: "Historial de pedidos del cliente",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Pedidos, los más recientes primero",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Order" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/message-templates": {
+      get: {
+        tags: ["Message Templates"],
+        summary: "Listar mensajes del bot",
+        responses: {
+          200: {
+            description: "Mensajes con su texto vigente y variables",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/MessageTemplate" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/message-templates/{key}": {
+      get: {
+        tags: ["Message Templates"],
+        summary: "Obtener mensaje",
+        parameters: [
+          {
+            name: "key",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Mensaje",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/MessageTemplate" },
+              },
+            },
+          },
+          404: { description: "El mensaje no existe" },
+        },
+      },
+      put: {
+        tags: ["Message Templates"],
+        summary: "Personalizar el texto de un mensaje",
+        parameters: [
+          {
+            name: "key",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["body"],
+                properties: {
+                  body: {
+                    type: "string",
+                    maxLength: 4096,
+                    example:
+                      "¡Gracias {{customerName}}! Tu pedido #{{orderNumber}} ya está en marcha.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: "Mensaje",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/MessageTemplate" },
+              },
+            },
+          },
+          400: { description: "Texto vacío o con variables desconocidas" },
+        },
+      },
+      delete: {
+        tags: ["Message Templates"],
+        summary: "Volver al texto de fábrica",
+        parameters: [
+          {
+            name: "key",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
         ],
-        responses: { 200: { description: "Reporte generado" } },
+        responses: {
+          200: {
+            description: "Mensaje",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/MessageTemplate" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/message-templates/{key}/preview": {
+      post: {
+        tags: ["Message Templates"],
+        summary: "Previsualizar un mensaje con valores de ejemplo",
+        parameters: [
+          {
+            name: "key",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  body: {
+                    type: "string",
+                    description: "Texto a probar sin guardar",
+                  },
+                  variables: {
+                    type: "object",
+                    description: "Reemplazan los valores de ejemplo",
+                    additionalProperties: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: "Mensaje renderizado",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/MessageTemplatePreview",
+                },
+              },
+            },
+          },
+        },
       },
     },
   },
@@ -1,16 +1,25 @@
 import { NextFunction, Request, Response } from "express";
 import {
   closeCashRegister,
+  generateCustomSalesReport,
   generateSalesReport,
   getCashRegisterByDate,
   getCashRegisterById,
   getDailySummary,
   listCashRegisters,
 } from "../services/cashRegisterService";
+import {
+  generateCostReport,
+  generateCustomCostReport,
+} from "../services/costingService";
 import { ReportPeriod } from "../models/cashRegister";
 import { HttpError } from "../utils/httpError";
 import { logger } from "../utils/logger";
 import { getTenantIdFromRequest } from "../utils/tenantUtils";
+import { getCurrentBusinessDate } from "../utils/businessDay";
+import { getTenantBusinessDayConfig } from "../services/tenantService";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
 export const handleListCashRegisters = async (
   req: Request,
@@ -82,7 +91,9 @@ export const handleGetDailySummary = async (
     const { date } = req.query;
 
     const targetDate =
-      typeof date === "string" ? date : new Date().toISOString().split("T")[0];
+      typeof date === "string"
+        ? date
+        : getCurrentBusinessDate(await getTenantBusinessDayConfig(tenantId));
 
     const summary = await getDailySummary(tenantId, targetDate);
     res.json({ date: targetDate, ...summary });
@@ -116,38 +127,112 @@ export const handleCloseCashRegister = async (
   }
 };
 
-export const handleGenerateSalesReport = async (
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): Promise<void> => {
-  try {
-    const tenantId = getTenantIdFromRequest(req);
-    const { period, date } = req.query;
+type ReportQuery =
+  | { period: "custom"; startDate: string; endDate: string }
+  | { period: Exclude<ReportPeriod, "custom">; referenceDate: string };
 
-    if (!period || typeof period !== "string") {
+/**
+ * Período de un reporte a partir del query string
+ * ?period=daily|weekly|monthly&date=2026-02-03 (por defecto, el día actual)
+ * o rango personalizado ?startDate=2026-02-01&endDate=2026-02-15
+ */
+const parseReportQuery = async (
+  req: Request,
+  tenantId: string,
+): Promise<ReportQuery> => {
+  const { period, date, startDate, endDate } = req.query;
+
+  // Rango personalizado: ?startDate=2026-02-01&endDate=2026-02-15
+  if (startDate !== undefined || endDate !== undefined) {
+    if (
+      typeof startDate !== "string" ||
+      typeof endDate !== "string" ||
+      !DATE_REGEX.test(startDate) ||
+      !DATE_REGEX.test(endDate)
+    ) {
       throw new HttpError(
         400,
-        "Se requiere el período del reporte (daily, weekly, monthly).",
+        "Se requieren startDate y endDate con formato YYYY-MM-DD.",
       );
     }
 
-    const validPeriods: ReportPeriod[] = ["daily", "weekly", "monthly"];
-    if (!validPeriods.includes(period as ReportPeriod)) {
-      throw new HttpError(
-        400,
-        `Período inválido. Debe ser: ${validPeriods.join(", ")}`,
-      );
-    }
+    return { period: "custom", startDate, endDate };
+  }
 
-    const referenceDate =
-      typeof date === "string" ? date : new Date().toISOString().split("T")[0];
+  if (!period || typeof period !== "string") {
+    throw new HttpError(
+      400,
+      "Se requiere el período del reporte (daily, weekly, monthly).",
+    );
+  }
 
-    const report = await generateSalesReport(
-      tenantId,
-      period as ReportPeriod,
-      referenceDate,
+  const validPeriods: Exclude<ReportPeriod, "custom">[] = [
+    "daily",
+    "weekly",
+    "monthly",
+  ];
+  if (!validPeriods.includes(period as Exclude<ReportPeriod, "custom">)) {
+    throw new HttpError(
+      400,
+      `Período inválido. Debe ser: ${validPeriods.join(", ")}`,
     );
+  }
+
+  const referenceDate =
+    typeof date === "string"
+      ? date
+      : getCurrentBusinessDate(await getTenantBusinessDayConfig(tenantId));
+
+  return {
+    period: period as Exclude<ReportPeriod, "custom">,
+    referenceDate,
+  };
+};
+
+export const handleGenerateSalesReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const query = await parseReportQuery(req, tenantId);
+
+    const report =
+      query.period === "custom"
+        ? await generateCustomSalesReport(
+            tenantId,
+            query.startDate,
+            query.endDate,
+          )
+        : await generateSalesReport(
+            tenantId,
+            query.period,
+            query.referenceDate,
+          );
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleGenerateCostReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const query = await parseReportQuery(req, tenantId);
+
+    const report =
+      query.period === "custom"
+        ? await generateCustomCostReport(
+            tenantId,
+            query.startDate,
+            query.endDate,
+          )
+        : await generateCostReport(tenantId, query.period, query.referenceDate);
     res.json(report);
   } catch (error) {
     next(error);
@@ -0,0 +1,141 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  getConversationTranscript,
+  listConversations,
+} from "../services/conversationService";
+import {
+  releaseHandoff,
+  sendAgentReply,
+  startHandoff,
+} from "../services/handoffService";
+import { getTenantById } from "../services/tenantService";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+import { getTenantIdFromRequest } from "../utils/tenantUtils";
+import { parseLimit } from "../utils/queryParams";
+
+export const handleListConversations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { phone, orderId, limit } = req.query;
+
+    const conversations = await listConversations(tenantId, {
+      phone: typeof phone === "string" && phone ? phone : undefined,
+      orderId: typeof orderId === "string" && orderId ? orderId : undefined,
+      limit: parseLimit(limit),
+    });
+
+    res.json(conversations);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleGetConversationTranscript = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { phone } = req.params;
+    const { limit, before } = req.query;
+
+    if (!phone) {
+      throw new HttpError(400, "Se requiere el teléfono del cliente.");
+    }
+
+    if (
+      before !== undefined &&
+      (typeof before !== "string" || Number.isNaN(Date.parse(before)))
+    ) {
+      throw new HttpError(400, "El parámetro before debe ser una fecha ISO.");
+    }
+
+    const transcript = await getConversationTranscript(tenantId, phone, {
+      limit: parseLimit(limit),
+      before: before ? new Date(before).toISOString() : undefined,
+    });
+
+    res.json(transcript);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleSendAgentReply = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { phone } = req.params;
+    const { text } = req.body as { text?: string };
+
+    if (!phone) {
+      throw new HttpError(400, "Se requiere el teléfono del cliente.");
+    }
+
+    if (typeof text !== "string") {
+      throw new HttpError(400, "Se requiere el texto del mensaje.");
+    }
+
+    const tenant = await getTenantById(tenantId);
+    const handoff = await sendAgentReply(tenant, phone, text, req.user?.uid);
+
+    logger.info(`Respuesta del local enviada a ${phone}`);
+    res.status(201).json({ handoff });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleStartHandoff = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { phone } = req.params;
+
+    if (!phone) {
+      throw new HttpError(400, "Se requiere el teléfono del cliente.");
+    }
+
+    const handoff = await startHandoff(tenantId, phone, {
+      reason: "agent",
+      startedBy: req.user?.uid,
+    });
+
+    logger.info(`Conversación con ${phone} tomada por el local`);
+    res.json(handoff);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleReleaseHandoff = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { phone } = req.params;
+
+    if (!phone) {
+      throw new HttpError(400, "Se requiere el teléfono del cliente.");
+    }
+
+    await releaseHandoff(tenantId, phone);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,164 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  createCustomer,
+  deleteCustomer,
+  getCustomerById,
+  listCustomers,
+  updateCustomer,
+} from "../services/customerService";
+import { listOrdersByCustomer } from "../services/orderService";
+import {
+  CreateCustomerInput,
+  UpdateCustomerInput,
+} from "../models/customer";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+import { getTenantIdFromRequest } from "../utils/tenantUtils";
+import { parseLimit } from "../utils/queryParams";
+
+export const handleListCustomers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { search, tag, limit } = req.query;
+
+    const customers = await listCustomers(tenantId, {
+      search: typeof search === "string" && search ? search : undefined,
+      tag: typeof tag === "string" && tag ? tag : undefined,
+      limit: parseLimit(limit),
+    });
+
+    res.json(customers);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleGetCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del cliente.");
+    }
+
+    const customer = await getCustomerById(tenantId, id);
+    res.json(customer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleListCustomerOrders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del cliente.");
+    }
+
+    const customer = await getCustomerById(tenantId, id);
+    const orders = await listOrdersByCustomer(tenantId, customer.id);
+    res.json(orders);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleCreateCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const payload: CreateCustomerInput = {
+      ...req.body,
+      tenantId,
+    };
+
+    if (!payload.phone) {
+      throw new HttpError(400, "El cliente debe tener un teléfono.");
+    }
+
+    if (!payload.name) {
+      throw new HttpError(400, "El cliente debe tener un nombre.");
+    }
+
+    const customer = await createCustomer(payload);
+    logger.info(`Cliente creado: ${customer.name} (${customer.id})`);
+    res.status(201).json(customer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleUpdateCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del cliente.");
+    }
+
+    const { name, addresses, notes, tags } = req.body as UpdateCustomerInput;
+    const payload: UpdateCustomerInput = {
+      ...(name !== undefined ? { name } : {}),
+      ...(addresses !== undefined ? { addresses } : {}),
+      ...(notes !== undefined ? { notes } : {}),
+      ...(tags !== undefined ? { tags } : {}),
+    };
+
+    if (Object.keys(payload).length === 0) {
+      throw new HttpError(
+        400,
+        "Se requiere al menos un campo para actualizar.",
+      );
+    }
+
+    const customer = await updateCustomer(tenantId, id, payload);
+    logger.info(`Cliente actualizado: ${customer.name} (${customer.id})`);
+    res.json(customer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleDeleteCustomer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del cliente.");
+    }
+
+    await deleteCustomer(tenantId, id);
+    logger.info(`Cliente eliminado (${id})`);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
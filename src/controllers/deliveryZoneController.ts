@@ -6,6 +6,7 @@ import {
   getDeliveryZoneById,
   listActiveDeliveryZones,
   listDeliveryZones,
+  quoteDelivery,
   updateDeliveryZone,
 } from "../services/deliveryZoneService";
 import {
@@ -76,6 +77,55 @@ export const handleCalculateDeliveryCost = async (
   }
 };
 
+/**
+ * Parsea un número opcional de la query (undefined si no vino)
+ */
+const parseOptionalNumber = (
+  value: unknown,
+  field: string,
+): number | undefined => {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = typeof value === "string" ? Number(value) : NaN;
+
+  if (!Number.isFinite(parsed)) {
+    throw new HttpError(400, `El parámetro ${field} debe ser numérico.`);
+  }
+
+  return parsed;
+};
+
+export const handleQuoteDelivery = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const lat = parseOptionalNumber(req.query.lat, "lat");
+    const lng = parseOptionalNumber(req.query.lng, "lng");
+    const subtotal = parseOptionalNumber(req.query.subtotal, "subtotal");
+    const { zoneId } = req.query;
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      throw new HttpError(400, "Se requieren lat y lng juntos.");
+    }
+
+    const quote = await quoteDelivery(tenantId, {
+      location:
+        lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+      zoneId: typeof zoneId === "string" && zoneId ? zoneId : undefined,
+      subtotal,
+    });
+
+    res.json(quote);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const handleCreateDeliveryZone = async (
   req: Request,
   res: Response,
@@ -8,6 +8,8 @@ import {
   updateIngredient,
   updateStock,
 } from "../services/ingredientService";
+import { syncStockAvailability } from "../services/productService";
+import { checkIngredientCostAlerts } from "../services/costingService";
 import {
   CreateIngredientInput,
   UpdateIngredientInput,
@@ -104,10 +106,26 @@ export const handleUpdateIngredient = async (
       );
     }
 
+    // Costo anterior, para detectar productos que quedan bajo el margen
+    const previousCostPerUnit =
+      payload.costPerUnit !== undefined
+        ? (await getIngredientById(tenantId, id)).costPerUnit
+        : undefined;
+
     const ingredient = await updateIngredient(tenantId, id, payload);
     logger.info(
       `Ingrediente actualizado: ${ingredient.name} (${ingredient.id})`,
     );
+
+    // Alertar si el nuevo costo baja el margen de algún producto (no bloqueante)
+    if (previousCostPerUnit !== undefined) {
+      void checkIngredientCostAlerts(tenantId, id, previousCostPerUnit);
+    }
+
+    // Activar/desactivar los productos que lo usan (no bloqueante)
+    if (payload.stock !== undefined || payload.unit !== undefined) {
+      void syncStockAvailability(tenantId, [id]);
+    }
     res.json(ingredient);
   } catch (error) {
     next(error);
@@ -129,6 +147,9 @@ export const handleDeleteIngredient = async (
 
     await deleteIngredient(tenantId, id);
     logger.info(`Ingrediente eliminado (${id})`);
+
+    // Los productos que lo usaban ya no se pueden preparar
+    void syncStockAvailability(tenantId, [id]);
     res.status(204).send();
   } catch (error) {
     next(error);
@@ -168,6 +189,9 @@ export const handleUpdateStock = async (
 
     const ingredient = await updateStock(tenantId, id, quantity, type, reason);
     logger.info(`Stock actualizado: ${ingredient.name} (${type}: ${quantity})`);
+
+    // Activar/desactivar los productos que lo usan (no bloqueante)
+    void syncStockAvailability(tenantId, [id]);
     res.json(ingredient);
   } catch (error) {
     logger.error(`Error al actualizar stock:`, error);
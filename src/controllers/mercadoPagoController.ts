@@ -12,8 +12,10 @@ import {
   hasMercadoPagoConfigured,
 } from "../services/mercadoPagoService";
 import { updateOrder, getOrderById } from "../services/orderService";
-import { sendMessage } from "../services/metaService";
+import { sendMessageOrTemplate } from "../services/metaService";
 import { sendNewOrderNotification } from "../services/notificationService";
+import { getIdempotencyStore } from "../services/idempotencyService";
+import { buildTemplateMessage } from "../utils/whatsappTemplates";
 
 /**
  * Controlador para la integración con Mercado Pago
@@ -142,9 +144,8 @@ export const handleGetStatus = async (
   }
 };
 
-// Set para rastrear pagos ya procesados (en memoria, para evitar duplicados en ráfagas)
-// En producción con múltiples instancias, usar Redis u otra solución distribuida
-const processedPayments = new Set<string>();
+// Ventana de deduplicación de notificaciones de pago (evita duplicados en ráfagas)
+// Se registra en el store de idempotencia, compartido entre instancias
 const PROCESSED_PAYMENT_TTL = 5 * 60 * 1000; // 5 minutos
 
 /**
@@ -261,6 +262,9 @@ export const handlePaymentWebhook = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
+  // Clave reclamada, para liberarla si el procesamiento falla
+  let claimedKey: string | undefined;
+
   try {
     logger.info("Webhook de Mercado Pago recibido", {
       body: req.body,
@@ -290,19 +294,19 @@ export const handlePaymentWebhook = async (
     paymentId = String(paymentId);
 
     // Verificar si este pago ya fue procesado recientemente (deduplicación)
-    if (processedPayments.has(paymentId)) {
+    // El claim marca el pago como procesado de forma atómica
+    const isFirstDelivery = await getIdempotencyStore().claim(
+      `mercadopago:${paymentId}`,
+      PROCESSED_PAYMENT_TTL,
+    );
+
+    if (!isFirstDelivery) {
       logger.info(
         `Pago ${paymentId} ya fue procesado recientemente, ignorando webhook duplicado`,
       );
       return;
     }
-
-    // Marcar como procesado
-    processedPayments.add(paymentId);
-    // Limpiar después del TTL
-    setTimeout(() => {
-      processedPayments.delete(paymentId);
-    }, PROCESSED_PAYMENT_TTL);
+    claimedKey = `mercadopago:${paymentId}`;
 
     logger.info(`Procesando pago ${paymentId}`);
 
@@ -385,13 +389,18 @@ export const handlePaymentWebhook = async (
               order.orderType === "delivery"
                 ? "40-50 minutos"
                 : "20-30 minutos";
-            await sendMessage(
+            // Puede llegar tarde: fuera de las 24 hs va como plantilla
+            await sendMessageOrTemplate(
               order.whatsappChatId,
               `✅ *¡Pago recibido!*\n\n` +
                 `Tu pedido *#${orderId.slice(-6).toUpperCase()}* ha sido confirmado y está siendo preparado.\n\n` +
                 `⏱️ Tiempo estimado: ${estimatedTime}\n\n` +
                 `¡Gracias por tu compra! 🍔`,
+              buildTemplateMessage(tenant, "paymentApproved", {
+                orderNumber: orderId.slice(-6).toUpperCase(),
+              }),
               tenant,
+              { orderId },
             );
           }
 
@@ -406,12 +415,16 @@ export const handlePaymentWebhook = async (
 
           // Notificar al cliente
           if (order.whatsappChatId) {
-            await sendMessage(
+            await sendMessageOrTemplate(
               order.whatsappChatId,
               `❌ *Pago no procesado*\n\n` +
                 `El pago para tu pedido *#${orderId.slice(-6).toUpperCase()}* no pudo ser procesado.\n\n` +
                 `Por favor, intentá nuevamente o contactate con el local.`,
+              buildTemplateMessage(tenant, "paymentRejected", {
+                orderNumber: orderId.slice(-6).toUpperCase(),
+              }),
               tenant,
+              { orderId },
             );
           }
 
@@ -421,6 +434,8 @@ export const handlePaymentWebhook = async (
           logger.info(
             `Pago ${paymentId} en estado ${paymentStatus.status}, esperando...`,
           );
+          // Liberar para procesar la próxima notificación del mismo pago
+          await getIdempotencyStore().release(`mercadopago:${paymentId}`);
         }
 
         return; // Pago procesado exitosamente
@@ -436,9 +451,20 @@ export const handlePaymentWebhook = async (
     logger.warn(
       `No se pudo procesar el pago ${paymentId} - no encontrado en ningún tenant`,
     );
+    await getIdempotencyStore().release(`mercadopago:${paymentId}`);
   } catch (error) {
     logger.error("Error procesando webhook de Mercado Pago", error);
-    // No fallar, ya respondimos 200
+    // No fallar, ya respondimos 200; liberar para que el reintento se procese
+    if (claimedKey) {
+      try {
+        await getIdempotencyStore().release(claimedKey);
+      } catch (releaseError) {
+        logger.error(
+          `Error liberando el registro del pago (${claimedKey})`,
+          releaseError,
+        );
+      }
+    }
   }
 };
 
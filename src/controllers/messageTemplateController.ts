@@ -0,0 +1,89 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  getMessageTemplate,
+  listMessageTemplates,
+  previewMessageTemplate,
+  resetMessageTemplate,
+  updateMessageTemplate,
+} from "../services/messageTemplateService";
+import { PreviewMessageTemplateInput } from "../models/messageTemplate";
+import { getTenantIdFromRequest } from "../utils/tenantUtils";
+
+export const handleListMessageTemplates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const templates = await listMessageTemplates(tenantId);
+    res.json(templates);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleGetMessageTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const template = await getMessageTemplate(tenantId, req.params.key);
+    res.json(template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleUpdateMessageTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const template = await updateMessageTemplate(
+      tenantId,
+      req.params.key,
+      req.body?.body,
+    );
+    res.json(template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleResetMessageTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const template = await resetMessageTemplate(tenantId, req.params.key);
+    res.json(template);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handlePreviewMessageTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const payload = (req.body ?? {}) as PreviewMessageTemplateInput;
+    const preview = await previewMessageTemplate(
+      tenantId,
+      req.params.key,
+      payload,
+    );
+    res.json(preview);
+  } catch (error) {
+    next(error);
+  }
+};
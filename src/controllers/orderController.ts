@@ -10,12 +10,19 @@ import {
   listOrdersByStatus,
   listPendingOrders,
   listAllPendingOrders,
+  listUpcomingScheduledOrders,
+  reviewPaymentReceipt,
   updateOrder,
 } from "../services/orderService";
+import { listOrderMessages } from "../services/outboundMessageService";
+import { retryOrderNotification } from "../services/notificationService";
+import { downloadMedia } from "../services/metaService";
+import { getTenantById } from "../services/tenantService";
 import {
   CreateOrderInput,
   UpdateOrderInput,
   OrderStatus,
+  ReviewPaymentReceiptInput,
 } from "../models/order";
 import { HttpError } from "../utils/httpError";
 import { logger } from "../utils/logger";
@@ -32,7 +39,7 @@ export const handleListOrders = async (
   try {
     // SEGURIDAD: El tenantId se obtiene del usuario autenticado
     const tenantId = getOptionalTenantId(req);
-    const { status, date, pending } = req.query;
+    const { status, date, pending, scheduled } = req.query;
 
     // Solo usuarios owner/admin pueden ver todos los pedidos sin tenant específico
     const isAdminWithoutTenant = !tenantId && req.user?.role === "owner";
@@ -49,6 +56,8 @@ export const handleListOrders = async (
     } else if (tenantId) {
       if (pending === "true") {
         orders = await listPendingOrders(tenantId);
+      } else if (scheduled === "true") {
+        orders = await listUpcomingScheduledOrders(tenantId);
       } else if (status && typeof status === "string") {
         orders = await listOrdersByStatus(tenantId, status as OrderStatus);
       } else if (date && typeof date === "string") {
@@ -174,6 +183,116 @@ export const handleCancelOrder = async (
   }
 };
 
+export const handleListOrderMessages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del pedido.");
+    }
+
+    // Verifica que el pedido exista
+    await getOrderById(tenantId, id);
+
+    const messages = await listOrderMessages(tenantId, id);
+    res.json(messages);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleRetryOrderNotification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id, messageId } = req.params;
+
+    if (!id || !messageId) {
+      throw new HttpError(400, "Se requiere el id del pedido y del mensaje.");
+    }
+
+    await retryOrderNotification(await getOrderById(tenantId, id), messageId);
+    logger.info(`Notificación reintentada: pedido #${id}, mensaje ${messageId}`);
+
+    const order = await getOrderById(tenantId, id);
+    res.json(order);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleGetPaymentReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del pedido.");
+    }
+
+    const order = await getOrderById(tenantId, id);
+
+    if (!order.paymentReceipt) {
+      throw new HttpError(404, "El pedido no tiene comprobante de pago.");
+    }
+
+    const tenant = await getTenantById(tenantId);
+    const media = await downloadMedia(order.paymentReceipt.mediaId, tenant);
+
+    res.setHeader("Content-Type", media.mimeType);
+    if (order.paymentReceipt.filename) {
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${order.paymentReceipt.filename}"`,
+      );
+    }
+    res.send(media.data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const handleReviewPaymentReceipt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const tenantId = getTenantIdFromRequest(req);
+    const { id } = req.params;
+    const payload = req.body as ReviewPaymentReceiptInput;
+
+    if (!id) {
+      throw new HttpError(400, "Se requiere el id del pedido.");
+    }
+
+    const order = await reviewPaymentReceipt(
+      tenantId,
+      id,
+      payload,
+      req.user?.uid,
+    );
+    logger.info(
+      `Comprobante ${payload.approved ? "aprobado" : "rechazado"}: pedido #${order.id}`,
+    );
+    res.json(order);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const handleUpdateOrderStatus = async (
   req: Request,
   res: Response,
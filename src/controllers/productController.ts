@@ -22,6 +22,7 @@ import {
   hasCatalogConfigured,
 } from "../services/whatsappCatalogService";
 import { getTenantIdFromRequest } from "../utils/tenantUtils";
+import { addProductCosting } from "../services/costingService";
 
 const sanitizeProductPayload = (
   payload: Partial<CreateProductInput>,
@@ -111,7 +112,7 @@ export const handleListProducts = async (
       products = await listProducts(tenantId);
     }
 
-    res.json(products);
+    res.json(await addProductCosting(tenantId, products));
   } catch (error) {
     next(error);
   }
@@ -131,7 +132,8 @@ export const handleGetProduct = async (
     }
 
     const product = await getProductById(tenantId, id);
-    res.json(product);
+    const [productWithCosting] = await addProductCosting(tenantId, [product]);
+    res.json(productWithCosting);
   } catch (error) {
     next(error);
   }
@@ -3,10 +3,16 @@ import crypto from "crypto";
 import env from "../config/env";
 import { logger } from "../utils/logger";
 import { getTenantByPhoneNumberId } from "../services/tenantService";
+import { getIdempotencyStore } from "../services/idempotencyService";
+import { applyMessageStatusUpdate } from "../services/outboundMessageService";
+import { recordConversationMessage } from "../services/conversationService";
 import {
   processIncomingMessage as processBurgerBotMessage,
   processCatalogOrder as processBurgerBotCatalogOrder,
+  processIncomingMedia as processBurgerBotMedia,
+  isConversationBusyError,
 } from "../bot";
+import type { SharedLocation } from "../bot";
 import type { Tenant } from "../models/tenant";
 
 /**
@@ -15,19 +21,53 @@ import type { Tenant } from "../models/tenant";
  */
 
 /**
- * Cache de mensajes procesados para deduplicación
+ * Deduplicación de mensajes
  * Meta puede reenviar webhooks que fallaron previamente
- * Almacenamos los message IDs procesados para evitar duplicados
+ * Los message IDs procesados se registran en el store de idempotencia
+ * (compartido entre instancias y persistente entre reinicios)
  */
-const processedMessageIds = new Set<string>();
-const MESSAGE_CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutos
+const MESSAGE_IDEMPOTENCY_TTL_MS = 30 * 60 * 1000; // 30 minutos
 const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000; // 5 minutos - rechazar mensajes más viejos
 
-// Limpiar cache periódicamente (cada 10 minutos)
-setInterval(() => {
-  processedMessageIds.clear();
-  logger.debug("Cache de mensajes procesados limpiado");
-}, 10 * 60 * 1000);
+/**
+ * Reintentos de un mensaje cuya conversación sigue ocupada por otra
+ * instancia. Meta ya recibió el 200 y no lo vuelve a enviar
+ */
+const BUSY_MESSAGE_RETRIES = 2;
+const BUSY_MESSAGE_RETRY_DELAY_MS = 15 * 1000;
+
+/**
+ * Registra el mensaje como procesado. Devuelve false si es un duplicado
+ * Si el store falla, se procesa igual para no perder el mensaje
+ */
+const claimMessage = async (messageId: string): Promise<boolean> => {
+  try {
+    return await getIdempotencyStore().claim(
+      `meta:${messageId}`,
+      MESSAGE_IDEMPOTENCY_TTL_MS,
+    );
+  } catch (error) {
+    logger.error(
+      `Error al registrar mensaje ${messageId} en el store de idempotencia`,
+      error,
+    );
+    return true;
+  }
+};
+
+/**
+ * Libera el registro del mensaje para que se pueda volver a procesar
+ */
+const releaseMessage = async (messageId: string): Promise<void> => {
+  try {
+    await getIdempotencyStore().release(`meta:${messageId}`);
+  } catch (error) {
+    logger.error(
+      `Error al liberar mensaje ${messageId} del store de idempotencia`,
+      error,
+    );
+  }
+};
 
 /**
  * Estructura del webhook de Meta para mensajes entrantes
@@ -61,6 +101,28 @@ interface MetaOrder {
   text?: string; // Mensaje opcional del usuario
 }
 
+/**
+ * Ubicación compartida por el usuario
+ */
+interface MetaLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+/**
+ * Archivo enviado por el usuario (imagen o documento)
+ */
+interface MetaMedia {
+  id: string;
+  mime_type?: string;
+  sha256?: string;
+  caption?: string;
+  filename?: string; // Solo documentos
+}
+
 interface MetaMessage {
   from: string;
   id: string;
@@ -69,7 +131,10 @@ interface MetaMessage {
     body: string;
   };
   interactive?: MetaInteractiveReply;
+  location?: MetaLocation;
   order?: MetaOrder; // Productos seleccionados del catálogo
+  image?: MetaMedia;
+  document?: MetaMedia;
   type:
     | "text"
     | "image"
@@ -88,11 +153,21 @@ interface MetaContact {
   wa_id: string;
 }
 
+interface MetaStatusError {
+  code: number;
+  title: string;
+  message?: string;
+  error_data?: {
+    details: string;
+  };
+}
+
 interface MetaStatus {
   id: string;
   status: "sent" | "delivered" | "read" | "failed";
   timestamp: string;
   recipient_id: string;
+  errors?: MetaStatusError[]; // Solo en estado "failed"
 }
 
 interface MetaWebhookEntry {
@@ -190,7 +265,7 @@ export const receiveWebhook = async (
 /**
  * Procesa el payload del webhook de forma asíncrona
  */
-async function processWebhookPayload(
+export async function processWebhookPayload(
   payload: MetaWebhookPayload,
 ): Promise<void> {
   logger.info(`Procesando webhook con ${payload.entry.length} entrada(s)`);
@@ -206,17 +281,10 @@ async function processWebhookPayload(
       const { metadata, messages, statuses, contacts } = change.value;
       const phoneNumberId = metadata.phone_number_id;
 
-      // Procesar actualizaciones de estado (opcional)
-      if (statuses && statuses.length > 0) {
-        logger.debug(
-          `Recibido ${statuses.length} actualización(es) de estado para phoneNumberId: ${phoneNumberId}`,
-        );
-        // TODO: Implementar lógica de actualización de estado si es necesario
-        continue;
-      }
-
-      // Procesar mensajes entrantes
-      if (!messages || messages.length === 0) {
+      if (
+        (!statuses || statuses.length === 0) &&
+        (!messages || messages.length === 0)
+      ) {
         continue;
       }
 
@@ -230,6 +298,23 @@ async function processWebhookPayload(
         continue;
       }
 
+      // Procesar actualizaciones de estado de mensajes salientes
+      if (statuses && statuses.length > 0) {
+        logger.debug(
+          `Recibido ${statuses.length} actualización(es) de estado para tenant: ${tenant.name}`,
+        );
+
+        for (const status of statuses) {
+          await processStatusUpdate(status, tenant);
+        }
+        continue;
+      }
+
+      // Procesar mensajes entrantes
+      if (!messages || messages.length === 0) {
+        continue;
+      }
+
       logger.info(
         `Mensajes entrantes para tenant: ${tenant.name} (${tenant.id})`,
       );
@@ -242,14 +327,85 @@ async function processWebhookPayload(
   }
 }
 
+/**
+ * Actualiza el registro de un mensaje saliente según el webhook de estado
+ */
+async function processStatusUpdate(
+  status: MetaStatus,
+  tenant: Tenant,
+): Promise<void> {
+  try {
+    const statusError = status.errors?.[0];
+    const error = statusError
+      ? `${statusError.title} (${statusError.code})${statusError.error_data?.details ? `: ${statusError.error_data.details}` : ""}`
+      : undefined;
+
+    const found = await applyMessageStatusUpdate(tenant.id, {
+      metaMessageId: status.id,
+      status: status.status,
+      timestamp: new Date(parseInt(status.timestamp, 10) * 1000).toISOString(),
+      error,
+    });
+
+    if (!found) {
+      logger.debug(
+        `Estado ${status.status} recibido para mensaje no registrado: ${status.id}`,
+      );
+    }
+  } catch (error) {
+    logger.error(`Error procesando estado del mensaje ${status.id}`, error);
+  }
+}
+
+/**
+ * Texto legible de un mensaje entrante para el historial de la conversación
+ * En respuestas interactivas se guarda lo que el cliente vio (el título)
+ */
+function describeInboundMessage(message: MetaMessage): string {
+  const { type, text, interactive, order } = message;
+
+  if (type === "text" && text) {
+    return text.body;
+  }
+
+  if (type === "interactive" && interactive) {
+    return (
+      interactive.button_reply?.title ?? interactive.list_reply?.title ?? ""
+    );
+  }
+
+  if (type === "location" && message.location) {
+    const { latitude, longitude, address, name } = message.location;
+    const label = address ?? name;
+    return `📍 Ubicación${label ? `: ${label}` : ""} (${latitude}, ${longitude})`;
+  }
+
+  if (type === "order" && order) {
+    const items = order.product_items
+      .map((item) => `${item.quantity}x ${item.product_retailer_id}`)
+      .join(", ");
+    return `🛒 Pedido del catálogo: ${items}${order.text ? `\n${order.text}` : ""}`;
+  }
+
+  if (type === "image" || type === "document") {
+    const media = message.image ?? message.document;
+    const label = media?.filename ?? media?.caption;
+    return `📎 ${type === "image" ? "Imagen" : "Documento"}${label ? `: ${label}` : ""}`;
+  }
+
+  return `[${type}]`;
+}
+
 /**
  * Procesa un mensaje entrante individual
  * Conecta el webhook con el bot refactorizado
+ * attempt > 1: reintento de un mensaje que encontró la conversación ocupada
  */
 async function processIncomingMessage(
   message: MetaMessage,
   contacts: MetaContact[] | undefined,
   tenant: Tenant,
+  attempt = 1,
 ): Promise<void> {
   try {
     const {
@@ -259,22 +415,15 @@ async function processIncomingMessage(
       text,
       interactive,
       order,
+      location,
       timestamp,
     } = message;
 
     // === DEDUPLICACIÓN ===
-    // Verificar si este mensaje ya fue procesado
-    if (processedMessageIds.has(messageId)) {
-      logger.warn(
-        `Mensaje duplicado ignorado: ${messageId} (ya fue procesado anteriormente)`,
-      );
-      return;
-    }
-
     // Verificar si el mensaje es muy viejo (posible reenvío de Meta)
     const messageTimestamp = parseInt(timestamp, 10) * 1000; // Convertir a milisegundos
     const messageAge = Date.now() - messageTimestamp;
-    
+
     if (messageAge > MAX_MESSAGE_AGE_MS) {
       logger.warn(
         `Mensaje viejo ignorado: ${messageId} (edad: ${Math.round(messageAge / 1000)}s, máximo: ${MAX_MESSAGE_AGE_MS / 1000}s)`,
@@ -282,8 +431,13 @@ async function processIncomingMessage(
       return;
     }
 
-    // Marcar mensaje como procesado
-    processedMessageIds.add(messageId);
+    // Marcar mensaje como procesado (atómico entre instancias)
+    if (!(await claimMessage(messageId))) {
+      logger.warn(
+        `Mensaje duplicado ignorado: ${messageId} (ya fue procesado anteriormente)`,
+      );
+      return;
+    }
 
     logger.info(
       `Procesando mensaje ${messageId} de ${from} (tipo: ${type}, tenant: ${tenant.name})`,
@@ -292,6 +446,23 @@ async function processIncomingMessage(
     // Buscar el nombre del contacto si está disponible
     const contactName = contacts?.find((c) => c.wa_id === from)?.profile?.name;
 
+    // Guardar en el historial de la conversación antes de responder:
+    // la respuesta decide texto libre o plantilla según este mensaje
+    // (recordConversationMessage nunca lanza error)
+    // Un reintento ya quedó registrado en el primer intento
+    if (attempt === 1) {
+      await recordConversationMessage({
+      tenantId: tenant.id,
+      phone: from,
+      direction: "inbound",
+      type,
+      body: describeInboundMessage(message),
+      metaMessageId: messageId,
+        customerName: contactName,
+        createdAt: new Date(messageTimestamp).toISOString(),
+      });
+    }
+
     // Procesar mensajes de tipo "order" (selección de catálogo)
     if (type === "order" && order) {
       logger.info(
@@ -322,7 +493,38 @@ async function processIncomingMessage(
       return;
     }
 
+    // Imágenes y documentos (comprobantes de transferencia)
+    const media =
+      type === "image"
+        ? message.image
+        : type === "document"
+          ? message.document
+          : undefined;
+
+    if (media) {
+      await processBurgerBotMedia(
+        {
+          from,
+          messageId,
+          timestamp,
+          contactName,
+          mediaId: media.id,
+          mediaType: type === "image" ? "image" : "document",
+          mimeType: media.mime_type,
+          filename: media.filename,
+          caption: media.caption,
+        },
+        tenant,
+      );
+
+      logger.info(
+        `Archivo procesado exitosamente (tipo: ${type}, de: ${from}, id: ${messageId})`,
+      );
+      return;
+    }
+
     let messageText: string | undefined;
+    let sharedLocation: SharedLocation | undefined;
 
     // Procesar según el tipo de mensaje
     if (type === "text" && text) {
@@ -342,6 +544,18 @@ async function processIncomingMessage(
           `Item de lista seleccionado: "${interactive.list_reply.title}" (id: ${interactive.list_reply.id})`,
         );
       }
+    } else if (type === "location" && location) {
+      // Ubicación compartida (dirección de entrega / detección de zona)
+      sharedLocation = {
+        lat: location.latitude,
+        lng: location.longitude,
+        name: location.name,
+        address: location.address,
+      };
+      messageText = location.address || location.name || "📍 Ubicación";
+      logger.info(
+        `Ubicación recibida de ${from}: ${location.latitude}, ${location.longitude}`,
+      );
     }
 
     if (!messageText) {
@@ -359,6 +573,7 @@ async function processIncomingMessage(
         text: messageText,
         timestamp,
         contactName,
+        location: sharedLocation,
       },
       tenant,
     );
@@ -367,11 +582,43 @@ async function processIncomingMessage(
       `Mensaje procesado exitosamente: "${messageText}" (de: ${from}, id: ${messageId})`,
     );
   } catch (error) {
+    if (isConversationBusyError(error)) {
+      await retryBusyMessage(message, contacts, tenant, attempt);
+      return;
+    }
     logger.error(`Error procesando mensaje individual ${message.id}`);
     // No lanzar error para no afectar el procesamiento de otros mensajes
   }
 }
 
+/**
+ * El bot no llegó a procesar el mensaje (otra instancia tiene la
+ * conversación): se libera su registro y se reintenta más tarde, para
+ * que ni el reintento ni un reenvío de Meta se descarten como duplicado
+ */
+async function retryBusyMessage(
+  message: MetaMessage,
+  contacts: MetaContact[] | undefined,
+  tenant: Tenant,
+  attempt: number,
+): Promise<void> {
+  await releaseMessage(message.id);
+
+  if (attempt > BUSY_MESSAGE_RETRIES) {
+    logger.error(
+      `Mensaje ${message.id} sin procesar: la conversación con ${message.from} sigue ocupada`,
+    );
+    return;
+  }
+
+  logger.warn(
+    `Conversación con ${message.from} ocupada, mensaje ${message.id} reintentado en ${BUSY_MESSAGE_RETRY_DELAY_MS / 1000}s`,
+  );
+  setTimeout(() => {
+    void processIncomingMessage(message, contacts, tenant, attempt + 1);
+  }, BUSY_MESSAGE_RETRY_DELAY_MS);
+}
+
 /**
  * Validación de firma del webhook usando APP_SECRET
  * Meta firma cada webhook con tu App Secret usando HMAC SHA256
@@ -2,6 +2,9 @@ import app from "./app";
 import env from "./config/env";
 import { getFirestore } from "./config/firebase";
 import { startAutoCloseScheduler } from "./services/autoCloseService";
+import {
+  startPaymentExpirationScheduler,
+} from "./services/paymentExpirationService";
 
 import { logger } from "./utils/logger";
 
@@ -17,6 +20,9 @@ const start = async (): Promise<void> => {
 
     // Iniciar scheduler de cierre automático de cajas (a las 3 AM)
     startAutoCloseScheduler(3);
+
+    // Cancelar pedidos con el link de pago vencido (libera el stock reservado)
+    startPaymentExpirationScheduler();
    
   } catch (error) {
     logger.error("No se pudo iniciar el servidor");
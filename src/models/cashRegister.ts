@@ -1,3 +1,6 @@
+import type { MarginAlert, ProductCategory } from "./product";
+import type { OrderType } from "./order";
+
 export interface CashRegisterSummary {
   cashTotal: number;
   transferTotal: number;
@@ -22,7 +25,40 @@ export interface CashRegister extends CreateCashRegisterInput {
   createdAt: string;
 }
 
-export type ReportPeriod = "daily" | "weekly" | "monthly";
+export type ReportPeriod = "daily" | "weekly" | "monthly" | "custom";
+
+export interface ProductSalesStat {
+  productId: string;
+  productName: string;
+  quantity: number;
+  revenue: number;
+}
+
+export interface CategorySalesStat {
+  category: ProductCategory | "sin_categoria"; // Producto eliminado del menú
+  quantity: number;
+  revenue: number;
+}
+
+export interface CustomizationStat {
+  ingredientId: string;
+  ingredientName: string;
+  count: number; // Unidades de producto con la personalización
+}
+
+export interface ExtrasStats {
+  ordersWithExtras: number;
+  attachRate: number; // Porcentaje de pedidos con al menos un extra (0-100)
+  extrasQuantity: number;
+  extrasRevenue: number;
+}
+
+export interface OrderTypeStat {
+  orderType: OrderType;
+  orders: number;
+  revenue: number;
+  percentage: number; // Porcentaje sobre el total de pedidos (0-100)
+}
 
 export interface SalesReport {
   period: ReportPeriod;
@@ -34,10 +70,40 @@ export interface SalesReport {
   totalTransfer: number;
   totalDeliveryCost: number;
   averageOrderValue: number;
-  topProducts: Array<{
-    productId: string;
-    productName: string;
-    quantity: number;
-    revenue: number;
-  }>;
+  topProducts: ProductSalesStat[];
+  revenueByCategory: CategorySalesStat[];
+  topAddedIngredients: CustomizationStat[];
+  topRemovedIngredients: CustomizationStat[];
+  extras: ExtrasStats;
+  orderTypeSplit: OrderTypeStat[];
+}
+
+export interface ProductCostStat {
+  productId: string;
+  productName: string;
+  quantity: number;
+  revenue: number;
+  cost: number; // Receta, personalizaciones y extras de las unidades vendidas
+  grossMargin: number;
+  marginPercent: number; // 0-100
+  missingCosts: string[]; // Ingredientes y extras que no se pudieron costear
+}
+
+/**
+ * Costo teórico de la mercadería vendida (pedidos entregados)
+ * Se calcula con las recetas y los costos actuales de los ingredientes
+ */
+export interface CostReport {
+  period: ReportPeriod;
+  startDate: string;
+  endDate: string;
+  deliveredOrders: number;
+  revenue: number; // Productos y extras (sin envío)
+  costOfGoodsSold: number;
+  grossMargin: number;
+  marginPercent: number; // 0-100
+  foodCostPercent: number; // 0-100
+  missingCosts: string[]; // Ingredientes y extras que no se pudieron costear
+  products: ProductCostStat[];
+  marginAlerts: MarginAlert[]; // Productos del menú bajo el margen mínimo
 }
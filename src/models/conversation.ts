@@ -0,0 +1,51 @@
+export type ConversationMessageDirection = "inbound" | "outbound";
+
+/**
+ * Motivo por el que una persona tomó la conversación
+ * issue/contact: el cliente lo pidió desde el menú de pedido activo
+ * agent: alguien del local respondió o la tomó desde el panel
+ */
+export type HandoffReason = "issue" | "contact" | "agent";
+
+/**
+ * Conversación atendida por una persona: el bot no responde mientras esté activa
+ */
+export interface ConversationHandoff {
+  reason: HandoffReason;
+  orderId?: string;
+  startedBy?: string; // UID del usuario (si se tomó desde el panel)
+  startedAt: string;
+  lastAgentActivityAt: string; // El bot retoma tras un tiempo sin respuestas del local
+}
+
+/**
+ * Mensaje de una conversación de WhatsApp (entrante o saliente)
+ */
+export interface ConversationMessage {
+  id: string;
+  direction: ConversationMessageDirection;
+  type: string; // Tipo de mensaje de Meta ("text", "interactive", "order", etc.)
+  body: string;
+  metaMessageId?: string;
+  orderId?: string;
+  sentBy?: string; // UID del usuario que respondió desde el panel
+  createdAt: string;
+}
+
+/**
+ * Resumen de la conversación con un cliente (ID = teléfono)
+ */
+export interface Conversation {
+  id: string;
+  tenantId: string;
+  phone: string;
+  customerName?: string;
+  orderIds: string[]; // Pedidos mencionados en la conversación
+  messageCount: number;
+  lastMessagePreview: string;
+  lastDirection: ConversationMessageDirection;
+  lastMessageAt: string;
+  lastInboundAt?: string; // Último mensaje del cliente (ventana de 24 hs de Meta)
+  handoff?: ConversationHandoff;
+  createdAt: string;
+}
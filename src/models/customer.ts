@@ -0,0 +1,48 @@
+import type { GeoPoint } from "./deliveryZone";
+
+/**
+ * Dirección guardada del cliente (se arma con sus pedidos de delivery)
+ */
+export interface CustomerAddress {
+  address: string;
+  zoneId?: string;
+  zoneName?: string;
+  location?: GeoPoint;
+  notes?: string; // Referencias para el repartidor
+  lastUsedAt: string;
+}
+
+export interface CreateCustomerInput {
+  tenantId: string;
+  phone: string;
+  name: string;
+  addresses?: CustomerAddress[];
+  notes?: string; // Notas internas del local (no las ve el cliente)
+  tags?: string[]; // Ej: "vip", "sin tacc"
+}
+
+export interface UpdateCustomerInput {
+  name?: string;
+  addresses?: CustomerAddress[];
+  notes?: string;
+  tags?: string[];
+}
+
+/**
+ * Cliente del tenant. El ID es el teléfono normalizado
+ */
+export interface Customer {
+  id: string;
+  tenantId: string;
+  phone: string;
+  name: string;
+  searchName: string; // Nombre normalizado para búsqueda por prefijo
+  addresses: CustomerAddress[]; // La usada más recientemente primero
+  orderCount: number; // Pedidos no cancelados
+  totalSpent: number; // Suma de totales de pedidos no cancelados
+  lastOrderAt?: string;
+  notes?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,17 +1,79 @@
+/**
+ * Coordenadas en grados decimales
+ */
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Área geográfica de una zona: polígono o radio alrededor de un punto
+ * Permite detectar la zona a partir de la ubicación que comparte el cliente
+ */
+export type DeliveryZoneArea =
+  | {
+      type: "polygon";
+      points: GeoPoint[]; // Vértices en orden (mínimo 3)
+    }
+  | {
+      type: "radius";
+      center?: GeoPoint; // Sin centro = ubicación del local (tenant.storeLocation)
+      radiusMeters: number;
+      minRadiusMeters?: number; // Radio interno: arma un anillo (ej: 2 a 5 km)
+    };
+
+/**
+ * Polígono GeoJSON (RFC 7946): coordenadas [lng, lat], primer anillo exterior
+ * Se acepta como entrada y se guarda como área "polygon"
+ */
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+/**
+ * Reglas de precio de la zona (el precio base es `price`)
+ */
+export interface DeliveryZonePricing {
+  perKm?: number; // Adicional por km desde el local
+  freeDeliveryThreshold?: number; // Subtotal desde el que el envío es gratis
+  minimumOrderAmount?: number; // Subtotal mínimo para enviar a la zona
+}
+
 export interface CreateDeliveryZoneInput {
   tenantId: string;
   name: string; // ej: "Burzaco", "Centro", "Zona Norte"
-  price: number; // Costo fijo de envío a esta zona
+  price: number; // Costo base de envío a esta zona
+  area?: DeliveryZoneArea | GeoJsonPolygon;
+  pricing?: DeliveryZonePricing;
 }
 
 export interface UpdateDeliveryZoneInput {
   name?: string;
   price?: number;
   isActive?: boolean;
+  area?: DeliveryZoneArea | GeoJsonPolygon | null; // null elimina el área
+  pricing?: DeliveryZonePricing | null; // null elimina las reglas
 }
 
-export interface DeliveryZone extends CreateDeliveryZoneInput {
+export interface DeliveryZone extends Omit<CreateDeliveryZoneInput, "area"> {
   id: string;
+  area?: DeliveryZoneArea;
   isActive: boolean;
   createdAt: string;
 }
+
+/**
+ * Cotización de envío para una zona (y opcionalmente una ubicación)
+ */
+export interface DeliveryQuote {
+  zoneId: string;
+  zoneName: string;
+  distanceKm?: number; // Solo si se conoce la ubicación y la del local
+  baseFee: number;
+  distanceFee: number;
+  cost: number; // Costo final (0 si aplica envío gratis)
+  freeDelivery: boolean;
+  minimumOrderAmount?: number;
+  meetsMinimumOrder: boolean;
+}
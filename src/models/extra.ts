@@ -1,3 +1,5 @@
+import type { IngredientUnit } from "./ingredient";
+
 export interface Extra {
   id: string;
   tenantId: string;
@@ -5,7 +7,8 @@ export interface Extra {
   price: number;
   image?: string;
   linkedProductId?: string;
-  stockConsumption: number;
+  stockConsumption: number; // Consumo del ingrediente vinculado por unidad
+  consumptionUnit?: IngredientUnit; // Sin unidad: la del stock
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -18,6 +21,7 @@ export interface CreateExtraInput {
   image?: string;
   linkedProductId?: string;
   stockConsumption?: number;
+  consumptionUnit?: IngredientUnit;
 }
 
 export interface UpdateExtraInput {
@@ -26,5 +30,6 @@ export interface UpdateExtraInput {
   image?: string;
   linkedProductId?: string;
   stockConsumption?: number;
+  consumptionUnit?: IngredientUnit;
   isActive?: boolean;
 }
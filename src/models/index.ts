@@ -24,3 +24,18 @@ export * from "./deliveryZone";
 
 // Cash Register
 export * from "./cashRegister";
+
+// Mensajes salientes de WhatsApp
+export * from "./outboundMessage";
+
+// Conversaciones (historial de mensajes)
+export * from "./conversation";
+
+// Clientes (perfil, direcciones e historial)
+export * from "./customer";
+
+// Mensajes del bot personalizables por tenant
+export * from "./messageTemplate";
+
+// Plantillas de WhatsApp (fuera de la ventana de 24 hs)
+export * from "./whatsappTemplate";
@@ -19,6 +19,8 @@ export interface UpdateIngredientInput {
 
 export interface Ingredient extends CreateIngredientInput {
   id: string;
+  reservedStock: number; // Reservado por pedidos todavía sin confirmar
+  availableStock: number; // stock - reservedStock (se calcula, no se guarda)
   createdAt: string;
 }
 
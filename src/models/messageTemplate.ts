@@ -0,0 +1,49 @@
+/**
+ * Mensajes del bot que cada tenant puede personalizar
+ * Los textos usan variables con el formato {{nombre}}
+ */
+export type MessageTemplateKey =
+  | "welcome" // Bienvenida (catálogo de WhatsApp)
+  | "welcomeMenu" // Bienvenida (menú por listas)
+  | "closed" // Local cerrado
+  | "cancellation" // Pedido cancelado por el cliente
+  | "orderReceived" // Pedido recibido
+  | "orderWithPaymentLink" // Pedido con link de Mercado Pago
+  | "bankTransferInstructions" // Datos para transferir
+  | "paymentReceiptReceived" // Comprobante recibido
+  | "status_pendiente_pago"
+  | "status_pendiente"
+  | "status_confirmado"
+  | "status_en_preparacion"
+  | "status_listo_delivery"
+  | "status_listo_pickup"
+  | "status_en_camino"
+  | "status_entregado_delivery"
+  | "status_entregado_pickup"
+  | "status_cancelado";
+
+export interface MessageTemplateDefinition {
+  key: MessageTemplateKey;
+  description: string;
+  placeholders: Record<string, string>; // Variable -> valor de ejemplo
+  defaultBody: string;
+}
+
+/**
+ * Mensaje vigente para el tenant (personalizado o el de fábrica)
+ */
+export interface MessageTemplate extends MessageTemplateDefinition {
+  body: string;
+  isCustom: boolean;
+}
+
+export interface PreviewMessageTemplateInput {
+  body?: string; // Texto a probar (sin guardar); por defecto el vigente
+  variables?: Record<string, string>; // Reemplazan los valores de ejemplo
+}
+
+export interface MessageTemplatePreview {
+  key: MessageTemplateKey;
+  body: string;
+  rendered: string;
+}
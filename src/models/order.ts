@@ -1,3 +1,6 @@
+import type { OrderNotificationFailure } from "./outboundMessage";
+import type { GeoPoint } from "./deliveryZone";
+
 export type OrderStatus =
   | "pendiente_pago" // Orden creada pero esperando confirmación de pago (MP)
   | "pendiente"
@@ -14,6 +17,7 @@ export type PaymentMethod = "efectivo" | "transferencia";
 
 export type PaymentStatus =
   | "pendiente"
+  | "en_verificacion" // Comprobante de transferencia recibido, falta revisarlo
   | "pagado"
   | "rechazado"
   | "reembolsado";
@@ -28,9 +32,9 @@ export interface OrderCustomization {
 export interface OrderExtra {
   extraId: string;
   extraName: string;
-  quantity: number;
+  quantity: number; // En items: cantidad por unidad del producto
   unitPrice: number;
-  totalPrice: number;
+  totalPrice: number; // unitPrice * quantity
 }
 
 export interface OrderItem {
@@ -44,19 +48,41 @@ export interface OrderItem {
   notes?: string;
 }
 
+// Comprobante de transferencia enviado por WhatsApp (imagen o PDF)
+export interface PaymentReceipt {
+  mediaId: string; // ID del archivo en Meta
+  mediaType: "image" | "document";
+  mimeType?: string;
+  filename?: string;
+  caption?: string;
+  receivedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string; // UID de quien aprobó o rechazó
+  rejectionReason?: string;
+}
+
+export interface ReviewPaymentReceiptInput {
+  approved: boolean;
+  rejectionReason?: string;
+}
+
 export interface CreateOrderInput {
   tenantId: string;
   customerName: string;
   customerPhone: string;
+  customerId?: string; // Perfil del cliente (se asigna al crear el pedido)
   whatsappChatId?: string; // ID de chat de WhatsApp para notificaciones
   items: OrderItem[];
+  extras?: OrderExtra[]; // Extras generales, no asociados a un producto
   orderType: OrderType;
   deliveryAddress?: string;
   deliveryZoneId?: string;
   deliveryZoneName?: string;
   deliveryNotes?: string; // Referencias para el delivery (ej: "Casa portón negro")
+  deliveryLocation?: GeoPoint; // Ubicación compartida por WhatsApp
   deliveryId?: string;
   deliveryCost?: number;
+  scheduledFor?: string; // ISO - inicio de la franja programada (sin valor = lo antes posible)
   paymentMethod: PaymentMethod;
   paymentStatus?: PaymentStatus; // Estado inicial del pago (pendiente para transferencias)
   status?: OrderStatus; // Estado inicial de la orden (si no se especifica, es "pendiente")
@@ -73,12 +99,25 @@ export interface UpdateOrderInput {
   deliveryNotes?: string;
 }
 
+/**
+ * Stock de un ingrediente reservado por un pedido, en su unidad de stock
+ */
+export interface StockReservationItem {
+  ingredientId: string;
+  quantity: number;
+}
+
 export interface Order extends CreateOrderInput {
   id: string;
   status: OrderStatus;
   paymentStatus?: PaymentStatus;
+  paymentReceipt?: PaymentReceipt; // Último comprobante de transferencia
+  paymentExpiresAt?: string; // ISO - vence el link de pago (pendiente_pago)
+  reservedStock?: StockReservationItem[]; // Se libera al cancelar o se descuenta al confirmar
+  scheduledSlotId?: string; // Contador de capacidad de la franja programada (se libera al cancelar)
   subtotal: number;
   total: number;
+  notificationFailures?: OrderNotificationFailure[]; // Notificaciones que no llegaron (reintentables)
   createdAt: string;
   updatedAt: string;
 }
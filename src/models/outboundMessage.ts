@@ -0,0 +1,43 @@
+import type { OrderStatus } from "./order";
+
+/**
+ * Estado de entrega de un mensaje saliente según los webhooks de Meta
+ * "failed" también se usa cuando la API de Meta rechaza el envío
+ */
+export type OutboundMessageStatus = "sent" | "delivered" | "read" | "failed";
+
+export type OutboundMessageType = "text" | "buttons" | "list" | "template";
+
+/**
+ * Contexto opcional de un envío (para asociarlo a un pedido)
+ */
+export interface OutboundMessageContext {
+  orderId?: string;
+  orderStatus?: OrderStatus; // Estado notificado (solo notificaciones de estado)
+  retryOf?: string; // ID del mensaje fallido que se reintenta
+  sentBy?: string; // UID del usuario que respondió desde el panel
+}
+
+export interface OutboundMessage extends OutboundMessageContext {
+  id: string;
+  tenantId: string;
+  recipient: string;
+  type: OutboundMessageType;
+  body: string;
+  status: OutboundMessageStatus;
+  metaMessageId?: string; // Sin valor si la API de Meta rechazó el envío
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Notificación de un pedido que no le llegó al destinatario
+ */
+export interface OrderNotificationFailure {
+  messageId: string;
+  recipient: string;
+  orderStatus?: OrderStatus;
+  error?: string;
+  failedAt: string;
+}
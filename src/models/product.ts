@@ -55,7 +55,47 @@ export interface Product extends Omit<
   stock: number;
   unit: ProductUnit;
   available: boolean;
+  disabledByStock?: boolean; // Desactivado automáticamente por falta de stock
   compatibleExtras: string[]; // IDs de extras compatibles
   metaCatalogItemId?: string; // ID del producto en el catálogo de WhatsApp
   createdAt: string;
 }
+
+/**
+ * Costo de agregar un ingrediente como personalización
+ */
+export interface AddOnCosting {
+  ingredientId: string;
+  ingredientName: string;
+  price: number; // Precio del extra vinculado
+  cost: number;
+  grossMargin: number;
+}
+
+/**
+ * Costo de la receta con los costos actuales de los ingredientes
+ */
+export interface ProductCosting {
+  recipeCost: number;
+  grossMargin: number; // price - recipeCost
+  marginPercent: number; // Margen bruto sobre el precio (0-100)
+  foodCostPercent: number; // Costo de la receta sobre el precio (0-100)
+  missingCosts: string[]; // Ingredientes de la receta que no se pudieron costear
+  addOns: AddOnCosting[]; // Ingredientes que el cliente puede agregar
+}
+
+export interface ProductWithCosting extends Product {
+  costing: ProductCosting;
+}
+
+/**
+ * Producto del menú por debajo del margen mínimo del tenant
+ */
+export interface MarginAlert {
+  productId: string;
+  productName: string;
+  price: number;
+  recipeCost: number;
+  marginPercent: number;
+  minMarginPercent: number;
+}
@@ -1,13 +1,80 @@
+import type { GeoPoint } from "./deliveryZone";
+import type { MessageTemplateKey } from "./messageTemplate";
+import type {
+  WhatsappTemplateConfig,
+  WhatsappTemplateEvent,
+} from "./whatsappTemplate";
+
+export type Weekday =
+  | "domingo"
+  | "lunes"
+  | "martes"
+  | "miercoles"
+  | "jueves"
+  | "viernes"
+  | "sabado";
+
+// Turno de atención en hora local del tenant ("HH:mm")
+// Si close <= open, el turno termina al día siguiente (ej: 20:00 - 02:00)
+export interface OpeningShift {
+  open: string;
+  close: string;
+}
+
+// Excepción para una fecha puntual (feriados, eventos)
+export interface OpeningHoursException {
+  date: string; // YYYY-MM-DD
+  closed?: boolean; // Cerrado todo el día
+  shifts?: OpeningShift[]; // Horario especial (reemplaza al semanal)
+  reason?: string; // Ej: "Feriado de Carnaval"
+}
+
+export interface OpeningHours {
+  weekly: Partial<Record<Weekday, OpeningShift[]>>; // Día sin turnos = cerrado
+  exceptions?: OpeningHoursException[];
+  acceptScheduledOrdersWhileClosed?: boolean; // Tomar pedidos programados estando cerrado
+}
+
+// Pedidos programados: el cliente elige una franja horaria de entrega/retiro
+export interface ScheduledOrdersSettings {
+  enabled: boolean; // Ofrecer programar pedidos en el bot
+  slotMinutes?: number; // Duración de cada franja (default 30)
+  capacityPerSlot?: number; // Pedidos máximos que la cocina toma por franja (default 5)
+  leadTimeMinutes?: number; // Minutos antes de la franja en que el pedido pasa a cocina (default 45)
+  maxDaysAhead?: number; // Días hacia adelante que se pueden programar (default 2)
+}
+
+// Datos para que el cliente pague por transferencia (sin Mercado Pago)
+export interface BankTransferDetails {
+  holderName: string; // Titular de la cuenta
+  alias?: string;
+  cbu?: string; // CBU o CVU (22 dígitos)
+  bankName?: string;
+  cuit?: string;
+}
+
 export interface CreateTenantInput {
   name: string;
   ownerId: string; // Firebase Auth UID del dueño
   address?: string;
+  storeLocation?: GeoPoint; // Ubicación del local (zonas por radio y precio por km)
   phone?: string;
   logo?: string;
   whatsappNumber?: string;
   notificationPhone?: string; // Teléfono para notificaciones de pedidos nuevos
   hasPickup?: boolean; // Retiro en local activado/desactivado
   hasDelivery?: boolean; // Delivery activado/desactivado
+  // Día comercial
+  timezone?: string; // Zona horaria IANA (ej: America/Argentina/Buenos_Aires)
+  businessDayCutoffHour?: number; // Hora local (0-23) en la que empieza el día comercial
+  openingHours?: OpeningHours; // Sin configurar = siempre abierto
+  scheduledOrders?: ScheduledOrdersSettings;
+  bankTransfer?: BankTransferDetails; // Datos de transferencia enviados por el bot
+  minMarginPercent?: number; // Margen bruto mínimo (0-100) para alertas de costos
+  messageTemplates?: Partial<Record<MessageTemplateKey, string>>; // Textos propios (ver /message-templates)
+  whatsappTemplates?: Partial<
+    Record<WhatsappTemplateEvent, WhatsappTemplateConfig>
+  >; // Plantillas aprobadas para avisos fuera de la ventana de 24 hs
   // Redes sociales
   instagramUsername?: string; // Usuario de Instagram (sin @)
   // Meta WhatsApp Business API credentials
@@ -26,6 +93,7 @@ export interface CreateTenantInput {
 export interface UpdateTenantInput {
   name?: string;
   address?: string;
+  storeLocation?: GeoPoint;
   phone?: string;
   logo?: string;
   whatsappNumber?: string;
@@ -33,6 +101,16 @@ export interface UpdateTenantInput {
   hasPickup?: boolean;
   hasDelivery?: boolean;
   isActive?: boolean;
+  // Día comercial
+  timezone?: string;
+  businessDayCutoffHour?: number;
+  openingHours?: OpeningHours;
+  scheduledOrders?: ScheduledOrdersSettings;
+  bankTransfer?: BankTransferDetails;
+  minMarginPercent?: number;
+  whatsappTemplates?: Partial<
+    Record<WhatsappTemplateEvent, WhatsappTemplateConfig>
+  >;
   // Redes sociales
   instagramUsername?: string;
   // Meta WhatsApp Business API credentials
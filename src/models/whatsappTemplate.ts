@@ -0,0 +1,33 @@
+/**
+ * Eventos que se avisan con plantillas aprobadas de WhatsApp (HSM)
+ * Se usan cuando la ventana de 24 hs de atención al cliente está cerrada
+ */
+export type WhatsappTemplateEvent =
+  | "orderStatus" // Cambio de estado del pedido
+  | "paymentApproved" // Pago confirmado (Mercado Pago o transferencia)
+  | "paymentRejected"; // Pago rechazado
+
+/**
+ * Plantilla aprobada en el WhatsApp Business Manager del tenant
+ */
+export interface WhatsappTemplateConfig {
+  name: string; // Nombre de la plantilla (ej: order_status_update)
+  language?: string; // Código de idioma (ej: es_AR)
+}
+
+export interface WhatsappTemplateDefinition {
+  event: WhatsappTemplateEvent;
+  description: string;
+  name: string; // Nombre por defecto si el tenant no configuró otro
+  language: string;
+  parameters: string[]; // Variables del cuerpo en orden ({{1}}, {{2}}, ...)
+}
+
+/**
+ * Mensaje de plantilla listo para enviar
+ */
+export interface WhatsappTemplateMessage {
+  name: string;
+  language: string;
+  parameters: string[];
+}
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import {
   handleCloseCashRegister,
+  handleGenerateCostReport,
   handleGenerateSalesReport,
   handleGetCashRegister,
   handleGetCashRegisterByDate,
@@ -18,8 +19,13 @@ router.get("/", authorize("admin"), handleListCashRegisters);
 router.get("/summary", authorize("admin"), handleGetDailySummary);
 
 // Generar reporte de ventas - ?period=daily|weekly|monthly&date=2026-02-03
+// o rango personalizado - ?startDate=2026-02-01&endDate=2026-02-15
 router.get("/report", authorize("admin"), handleGenerateSalesReport);
 
+// Reporte de costos (CMV teórico y márgenes por producto), mismos filtros
+// que el reporte de ventas
+router.get("/cost-report", authorize("admin"), handleGenerateCostReport);
+
 // Obtener cierre por fecha (date en formato YYYY-MM-DD)
 router.get("/date/:date", authorize("admin"), handleGetCashRegisterByDate);
 
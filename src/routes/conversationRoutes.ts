@@ -0,0 +1,40 @@
+import { Router } from "express";
+import {
+  handleGetConversationTranscript,
+  handleListConversations,
+  handleReleaseHandoff,
+  handleSendAgentReply,
+  handleStartHandoff,
+} from "../controllers/conversationController";
+import { authorize } from "../middlewares/authorize";
+
+const router = Router();
+
+// Listar conversaciones (búsqueda: ?phone=54911&orderId=xxx&limit=50)
+router.get("/", authorize("admin", "user"), handleListConversations);
+
+// Transcripción de la conversación con un cliente (?limit=50&before=ISO)
+router.get(
+  "/:phone/messages",
+  authorize("admin", "user"),
+  handleGetConversationTranscript,
+);
+
+// Responder al cliente desde el panel (pausa el bot para esa conversación)
+router.post(
+  "/:phone/messages",
+  authorize("admin", "user"),
+  handleSendAgentReply,
+);
+
+// Tomar la conversación (el bot deja de responder)
+router.post("/:phone/handoff", authorize("admin", "user"), handleStartHandoff);
+
+// Devolver la conversación al bot
+router.delete(
+  "/:phone/handoff",
+  authorize("admin", "user"),
+  handleReleaseHandoff,
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  handleCreateCustomer,
+  handleDeleteCustomer,
+  handleGetCustomer,
+  handleListCustomerOrders,
+  handleListCustomers,
+  handleUpdateCustomer,
+} from "../controllers/customerController";
+import { authorize } from "../middlewares/authorize";
+
+const router = Router();
+
+// Listar clientes (búsqueda: ?search=juan|54911&tag=vip&limit=50)
+router.get("/", authorize("admin", "user"), handleListCustomers);
+
+// Obtener cliente por ID (teléfono normalizado)
+router.get("/:id", authorize("admin", "user"), handleGetCustomer);
+
+// Historial de pedidos del cliente
+router.get("/:id/orders", authorize("admin", "user"), handleListCustomerOrders);
+
+// Crear cliente
+router.post("/", authorize("admin", "user"), handleCreateCustomer);
+
+// Actualizar cliente (nombre, direcciones, notas, etiquetas)
+router.put("/:id", authorize("admin", "user"), handleUpdateCustomer);
+
+// Eliminar cliente
+router.delete("/:id", authorize("admin"), handleDeleteCustomer);
+
+export default router;
@@ -4,6 +4,7 @@ import {
   handleDeleteDeliveryZone,
   handleGetDeliveryZone,
   handleListDeliveryZones,
+  handleQuoteDelivery,
   handleUpdateDeliveryZone,
 } from "../controllers/deliveryZoneController";
 import { authorize } from "../middlewares/authorize";
@@ -13,6 +14,9 @@ const router = Router();
 // Listar zonas de delivery (con filtro: ?active=true)
 router.get("/", authorize("admin", "user"), handleListDeliveryZones);
 
+// Cotizar envío (?lat=&lng= y/o ?zoneId=, opcional &subtotal=)
+router.get("/quote", authorize("admin", "user"), handleQuoteDelivery);
+
 // Obtener zona por ID
 router.get("/:id", authorize("admin", "user"), handleGetDeliveryZone);
 
@@ -11,6 +11,9 @@ import cashRegisterRoutes from "./cashRegisterRoutes";
 import extraRoutes from "./extraRoutes";
 import serviceRoutes from "./serviceRoutes";
 import bookingRoutes from "./bookingRoutes";
+import conversationRoutes from "./conversationRoutes";
+import customerRoutes from "./customerRoutes";
+import messageTemplateRoutes from "./messageTemplateRoutes";
 import { authenticate } from "../middlewares/authenticate";
 
 const router = Router();
@@ -45,6 +48,9 @@ router.use("/extras", extraRoutes);
 // Rutas de pedidos
 router.use("/orders", orderRoutes);
 
+// Rutas de clientes (perfiles e historial)
+router.use("/customers", customerRoutes);
+
 // Rutas de deliverys (repartidores)
 router.use("/deliveries", deliveryRoutes);
 
@@ -54,4 +60,10 @@ router.use("/delivery-zones", deliveryZoneRoutes);
 // Rutas de caja y reportes
 router.use("/cash-register", cashRegisterRoutes);
 
+// Rutas de conversaciones de WhatsApp (bandeja de entrada)
+router.use("/conversations", conversationRoutes);
+
+// Rutas de mensajes personalizables del bot
+router.use("/message-templates", messageTemplateRoutes);
+
 export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  handleGetMessageTemplate,
+  handleListMessageTemplates,
+  handlePreviewMessageTemplate,
+  handleResetMessageTemplate,
+  handleUpdateMessageTemplate,
+} from "../controllers/messageTemplateController";
+import { authorize } from "../middlewares/authorize";
+
+const router = Router();
+
+// Listar mensajes del bot (texto vigente, variables y texto de fábrica)
+router.get("/", authorize("admin", "user"), handleListMessageTemplates);
+
+// Obtener un mensaje por clave
+router.get("/:key", authorize("admin", "user"), handleGetMessageTemplate);
+
+// Previsualizar un mensaje con valores de ejemplo (opcional: texto sin guardar)
+router.post(
+  "/:key/preview",
+  authorize("admin", "user"),
+  handlePreviewMessageTemplate,
+);
+
+// Personalizar el texto de un mensaje
+router.put("/:key", authorize("admin"), handleUpdateMessageTemplate);
+
+// Volver al texto de fábrica
+router.delete("/:key", authorize("admin"), handleResetMessageTemplate);
+
+export default router;
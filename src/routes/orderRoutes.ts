@@ -8,6 +8,10 @@ import {
   handleUpdateOrder,
   handleUpdateOrderStatus,
   handleGetDeliverySettlements,
+  handleListOrderMessages,
+  handleRetryOrderNotification,
+  handleGetPaymentReceipt,
+  handleReviewPaymentReceipt,
 } from "../controllers/orderController";
 import { authorize } from "../middlewares/authorize";
 
@@ -37,4 +41,28 @@ router.post("/:id/cancel", authorize("admin"), handleCancelOrder);
 // Actualizar estado del pedido
 router.patch("/:id/status", authorize("admin"), handleUpdateOrderStatus);
 
+// Mensajes de WhatsApp enviados por el pedido (con estado de entrega)
+router.get("/:id/messages", authorize("admin", "user"), handleListOrderMessages);
+
+// Reintentar una notificación que no le llegó al destinatario
+router.post(
+  "/:id/notifications/:messageId/retry",
+  authorize("admin"),
+  handleRetryOrderNotification,
+);
+
+// Comprobante de transferencia enviado por el cliente (imagen o PDF)
+router.get(
+  "/:id/payment-receipt",
+  authorize("admin", "user"),
+  handleGetPaymentReceipt,
+);
+
+// Aprobar o rechazar el comprobante de transferencia
+router.post(
+  "/:id/payment-receipt/review",
+  authorize("admin"),
+  handleReviewPaymentReceipt,
+);
+
 export default router;
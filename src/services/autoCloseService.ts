@@ -5,19 +5,36 @@ import {
   getCashRegisterByDate,
 } from "./cashRegisterService";
 import { getPendingOrdersByDate, cancelOrder } from "./orderService";
+import type { Tenant } from "../models/tenant";
+import {
+  addDays,
+  getBusinessDayConfig,
+  getCurrentBusinessDate,
+  getLocalHour,
+} from "../utils/businessDay";
 
 /**
  * Servicio de cierre automático de caja
- * Verifica y cierra cajas del día anterior si:
+ * Verifica y cierra cajas del día comercial anterior si:
  * - No hay pedidos pendientes
  * - La caja no fue cerrada manualmente
+ *
+ * Cada tenant se evalúa en su zona horaria y con su hora de corte
  */
 
-const getYesterdayDate = (): string => {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return yesterday.toISOString().split("T")[0];
-};
+const getPreviousBusinessDate = (tenant: Tenant): string =>
+  addDays(getCurrentBusinessDate(getBusinessDayConfig(tenant)), -1);
+
+/**
+ * Hora local del tenant en la que corresponde el cierre automático.
+ * Nunca antes de la hora de corte: hasta ese momento el día comercial
+ * anterior sigue abierto
+ */
+const getTenantCloseHour = (tenant: Tenant, checkHour: number): number =>
+  Math.max(checkHour, getBusinessDayConfig(tenant).cutoffHour);
+
+const getTenantLocalHour = (tenant: Tenant): number =>
+  getLocalHour(new Date(), getBusinessDayConfig(tenant).timezone);
 
 /**
  * Intenta cerrar la caja del día anterior para un tenant específico
@@ -71,15 +88,23 @@ export const autoCloseCashRegisterForTenant = async (
 };
 
 /**
- * Ejecuta el cierre automático para todos los tenants activos
+ * Ejecuta el cierre automático para los tenants activos
+ * Opcionalmente filtra qué tenants deben procesarse en esta ejecución
  */
-export const runAutoCloseCashRegisters = async (): Promise<void> => {
-  const yesterdayDate = getYesterdayDate();
-  logger.info(`Iniciando cierre automático de cajas para ${yesterdayDate}`);
+export const runAutoCloseCashRegisters = async (
+  shouldProcess: (tenant: Tenant) => boolean = () => true,
+): Promise<void> => {
+  logger.info("Iniciando cierre automático de cajas");
 
   try {
     const tenants = await listTenants();
-    const activeTenants = tenants.filter((t) => t.isActive);
+    const activeTenants = tenants.filter(
+      (t) => t.isActive && shouldProcess(t),
+    );
+
+    if (activeTenants.length === 0) {
+      return;
+    }
 
     logger.info(
       `Procesando ${activeTenants.length} tenants activos para cierre automático`,
@@ -87,7 +112,10 @@ export const runAutoCloseCashRegisters = async (): Promise<void> => {
 
     const results = await Promise.allSettled(
       activeTenants.map((tenant) =>
-        autoCloseCashRegisterForTenant(tenant.id, yesterdayDate),
+        autoCloseCashRegisterForTenant(
+          tenant.id,
+          getPreviousBusinessDate(tenant),
+        ),
       ),
     );
 
@@ -106,12 +134,13 @@ export const runAutoCloseCashRegisters = async (): Promise<void> => {
 
 /**
  * Configura un intervalo para ejecutar el cierre automático
- * Se ejecuta cada hora y verifica si es hora de cierre (configurable)
+ * Se ejecuta cada hora y cierra los tenants cuya hora local coincide
+ * con la hora de cierre (configurable, respetando la hora de corte)
  */
 let autoCloseInterval: NodeJS.Timeout | null = null;
 
 export const startAutoCloseScheduler = (
-  checkHour: number = 3, // 3 AM por defecto
+  checkHour: number = 3, // 3 AM (hora local de cada tenant) por defecto
 ): void => {
   if (autoCloseInterval) {
     logger.warn("Auto-close scheduler ya está corriendo");
@@ -119,31 +148,30 @@ export const startAutoCloseScheduler = (
   }
 
   logger.info(
-    `Iniciando scheduler de cierre automático (revisión a las ${checkHour}:00 hs)`,
+    `Iniciando scheduler de cierre automático (revisión a las ${checkHour}:00 hs de cada tenant)`,
   );
 
   // Verificar cada hora
   autoCloseInterval = setInterval(
     async () => {
-      const currentHour = new Date().getHours();
-
-      if (currentHour === checkHour) {
-        await runAutoCloseCashRegisters();
-      }
+      await runAutoCloseCashRegisters(
+        (tenant) =>
+          getTenantLocalHour(tenant) === getTenantCloseHour(tenant, checkHour),
+      );
     },
     60 * 60 * 1000, // Cada hora
   );
 
-  // También verificar al iniciar (si ya pasó la hora de cierre hoy)
-  const currentHour = new Date().getHours();
-  if (currentHour >= checkHour) {
-    // Ejecutar después de 5 segundos para dar tiempo al servidor de iniciar
-    setTimeout(() => {
-      runAutoCloseCashRegisters().catch((error) => {
-        logger.error("Error en cierre automático inicial", error);
-      });
-    }, 5000);
-  }
+  // También verificar al iniciar (tenants que ya pasaron su hora de cierre hoy)
+  // Ejecutar después de 5 segundos para dar tiempo al servidor de iniciar
+  setTimeout(() => {
+    runAutoCloseCashRegisters(
+      (tenant) =>
+        getTenantLocalHour(tenant) >= getTenantCloseHour(tenant, checkHour),
+    ).catch((error) => {
+      logger.error("Error en cierre automático inicial", error);
+    });
+  }, 5000);
 };
 
 export const stopAutoCloseScheduler = (): void => {
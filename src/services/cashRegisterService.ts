@@ -9,11 +9,26 @@ import {
   CashRegisterSummary,
   SalesReport,
   ReportPeriod,
+  ProductSalesStat,
+  CategorySalesStat,
+  CustomizationStat,
+  ExtrasStats,
+  OrderTypeStat,
 } from "../models/cashRegister";
-import { getOrderStats, getPendingOrdersByDate } from "./orderService";
+import type { Order, OrderType } from "../models/order";
+import type { Product } from "../models/product";
+import {
+  calculateOrderStats,
+  getOrderStats,
+  getPendingOrdersByDate,
+  listOrdersByDateRange,
+} from "./orderService";
+import { listProducts } from "./productService";
 import { HttpError } from "../utils/httpError";
+import { addDays, getDayOfWeek } from "../utils/businessDay";
 
 const CASH_REGISTERS_COLLECTION = "cashRegisters";
+const REPORT_RANKING_LIMIT = 10;
 
 type CashRegisterDocument = Omit<CashRegister, "id">;
 
@@ -155,12 +170,10 @@ export const getDailySummary = async (
   };
 };
 
-const getDateRange = (
-  period: ReportPeriod,
+export const getDateRange = (
+  period: Exclude<ReportPeriod, "custom">,
   referenceDate: string,
 ): { startDate: string; endDate: string } => {
-  const date = new Date(referenceDate);
-
   switch (period) {
     case "daily":
       return {
@@ -169,44 +182,173 @@ const getDateRange = (
       };
 
     case "weekly": {
-      const dayOfWeek = date.getDay();
-      const startOfWeek = new Date(date);
-      startOfWeek.setDate(date.getDate() - dayOfWeek);
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
+      const startOfWeek = addDays(referenceDate, -getDayOfWeek(referenceDate));
 
       return {
-        startDate: startOfWeek.toISOString().split("T")[0],
-        endDate: endOfWeek.toISOString().split("T")[0],
+        startDate: startOfWeek,
+        endDate: addDays(startOfWeek, 6),
       };
     }
 
     case "monthly": {
-      const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
-      const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+      const startOfMonth = `${referenceDate.slice(0, 7)}-01`;
+      const startOfNextMonth = addDays(startOfMonth, 32).slice(0, 7) + "-01";
 
       return {
-        startDate: startOfMonth.toISOString().split("T")[0],
-        endDate: endOfMonth.toISOString().split("T")[0],
+        startDate: startOfMonth,
+        endDate: addDays(startOfNextMonth, -1),
       };
     }
   }
 };
 
-export const generateSalesReport = async (
+export const toPercentage = (value: number, total: number): number =>
+  total > 0 ? Math.round((value / total) * 10000) / 100 : 0;
+
+const getTopProducts = (orders: Order[]): ProductSalesStat[] => {
+  const byProduct = new Map<string, ProductSalesStat>();
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      const stat = byProduct.get(item.productId) ?? {
+        productId: item.productId,
+        productName: item.productName,
+        quantity: 0,
+        revenue: 0,
+      };
+      stat.quantity += item.quantity;
+      stat.revenue += item.itemTotal;
+      byProduct.set(item.productId, stat);
+    }
+  }
+
+  return [...byProduct.values()]
+    .sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+    .slice(0, REPORT_RANKING_LIMIT);
+};
+
+const getRevenueByCategory = (
+  orders: Order[],
+  products: Product[],
+): CategorySalesStat[] => {
+  const categoryByProductId = new Map(products.map((p) => [p.id, p.category]));
+  const byCategory = new Map<CategorySalesStat["category"], CategorySalesStat>();
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      const category =
+        categoryByProductId.get(item.productId) ?? "sin_categoria";
+      const stat = byCategory.get(category) ?? {
+        category,
+        quantity: 0,
+        revenue: 0,
+      };
+      stat.quantity += item.quantity;
+      stat.revenue += item.itemTotal;
+      byCategory.set(category, stat);
+    }
+  }
+
+  return [...byCategory.values()].sort((a, b) => b.revenue - a.revenue);
+};
+
+const getTopCustomizations = (
+  orders: Order[],
+  type: "agregar" | "quitar",
+): CustomizationStat[] => {
+  const byIngredient = new Map<string, CustomizationStat>();
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      for (const customization of item.customizations) {
+        if (customization.type !== type) continue;
+
+        const stat = byIngredient.get(customization.ingredientId) ?? {
+          ingredientId: customization.ingredientId,
+          ingredientName: customization.ingredientName,
+          count: 0,
+        };
+        stat.count += item.quantity;
+        byIngredient.set(customization.ingredientId, stat);
+      }
+    }
+  }
+
+  return [...byIngredient.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, REPORT_RANKING_LIMIT);
+};
+
+const getExtrasStats = (orders: Order[]): ExtrasStats => {
+  let ordersWithExtras = 0;
+  let extrasQuantity = 0;
+  let extrasRevenue = 0;
+
+  for (const order of orders) {
+    // Extras por producto (cantidad por unidad) y extras generales
+    const lines = [
+      ...order.items.flatMap((item) =>
+        (item.extras ?? []).map((e) => ({
+          quantity: e.quantity * item.quantity,
+          total: e.totalPrice * item.quantity,
+        })),
+      ),
+      ...(order.extras ?? []).map((e) => ({
+        quantity: e.quantity,
+        total: e.totalPrice,
+      })),
+    ];
+
+    if (lines.length > 0) {
+      ordersWithExtras++;
+    }
+
+    for (const line of lines) {
+      extrasQuantity += line.quantity;
+      extrasRevenue += line.total;
+    }
+  }
+
+  return {
+    ordersWithExtras,
+    attachRate: toPercentage(ordersWithExtras, orders.length),
+    extrasQuantity,
+    extrasRevenue,
+  };
+};
+
+const getOrderTypeSplit = (orders: Order[]): OrderTypeStat[] => {
+  const orderTypes: OrderType[] = ["delivery", "pickup"];
+
+  return orderTypes.map((orderType) => {
+    const ordersOfType = orders.filter((o) => o.orderType === orderType);
+    return {
+      orderType,
+      orders: ordersOfType.length,
+      revenue: ordersOfType.reduce((sum, o) => sum + o.total, 0),
+      percentage: toPercentage(ordersOfType.length, orders.length),
+    };
+  });
+};
+
+const buildSalesReport = async (
   tenantId: string,
   period: ReportPeriod,
-  referenceDate: string,
+  startDate: string,
+  endDate: string,
 ): Promise<SalesReport> => {
-  const { startDate, endDate } = getDateRange(period, referenceDate);
-  const stats = await getOrderStats(tenantId, startDate, endDate);
+  const [orders, products] = await Promise.all([
+    listOrdersByDateRange(tenantId, startDate, endDate),
+    listProducts(tenantId),
+  ]);
+  const stats = calculateOrderStats(orders);
+
+  // Las métricas de mix de productos se calculan sobre pedidos entregados
+  const deliveredOrders = orders.filter((o) => o.status === "entregado");
 
   const averageOrderValue =
     stats.totalOrders > 0 ? stats.totalSales / stats.totalOrders : 0;
 
-  // TODO: Implementar top products cuando tengamos los datos necesarios
-  const topProducts: SalesReport["topProducts"] = [];
-
   return {
     period,
     startDate,
@@ -217,6 +359,35 @@ export const generateSalesReport = async (
     totalTransfer: stats.totalTransfer,
     totalDeliveryCost: stats.totalDeliveryCost,
     averageOrderValue,
-    topProducts,
+    topProducts: getTopProducts(deliveredOrders),
+    revenueByCategory: getRevenueByCategory(deliveredOrders, products),
+    topAddedIngredients: getTopCustomizations(deliveredOrders, "agregar"),
+    topRemovedIngredients: getTopCustomizations(deliveredOrders, "quitar"),
+    extras: getExtrasStats(deliveredOrders),
+    orderTypeSplit: getOrderTypeSplit(deliveredOrders),
   };
 };
+
+export const generateSalesReport = async (
+  tenantId: string,
+  period: Exclude<ReportPeriod, "custom">,
+  referenceDate: string,
+): Promise<SalesReport> => {
+  const { startDate, endDate } = getDateRange(period, referenceDate);
+  return buildSalesReport(tenantId, period, startDate, endDate);
+};
+
+export const generateCustomSalesReport = async (
+  tenantId: string,
+  startDate: string,
+  endDate: string,
+): Promise<SalesReport> => {
+  if (startDate > endDate) {
+    throw new HttpError(
+      400,
+      "La fecha de inicio no puede ser posterior a la fecha de fin.",
+    );
+  }
+
+  return buildSalesReport(tenantId, "custom", startDate, endDate);
+};
@@ -0,0 +1,269 @@
+import type { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationMessageDirection,
+} from "../models/conversation";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+import { sanitizePhone } from "../utils/phone";
+
+/**
+ * Historial de conversaciones de WhatsApp por tenant y cliente
+ * Guarda cada mensaje entrante y saliente, y un resumen por conversación
+ * (último mensaje, pedidos relacionados) para la bandeja de entrada
+ */
+
+const CONVERSATIONS_COLLECTION = "conversations";
+const MESSAGES_SUBCOLLECTION = "messages";
+
+// Meta solo permite mensajes libres hasta 24 hs después del último mensaje
+// del cliente; fuera de esa ventana hay que usar plantillas aprobadas
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const PREVIEW_LENGTH = 100;
+
+type ConversationDocument = Omit<Conversation, "id">;
+type ConversationMessageDocument = Omit<ConversationMessage, "id">;
+
+export interface RecordConversationMessageInput {
+  tenantId: string;
+  phone: string;
+  direction: ConversationMessageDirection;
+  type: string;
+  body: string;
+  metaMessageId?: string;
+  orderId?: string;
+  sentBy?: string;
+  customerName?: string;
+  createdAt?: string; // ISO - por defecto, ahora
+}
+
+export interface ListConversationsFilters {
+  phone?: string; // Búsqueda por prefijo del teléfono
+  orderId?: string;
+  limit?: number;
+}
+
+export interface TranscriptOptions {
+  limit?: number;
+  before?: string; // ISO - para paginar hacia atrás
+}
+
+export interface ConversationTranscript {
+  conversation: Conversation;
+  messages: ConversationMessage[]; // Más antiguos primero
+}
+
+const getCollection = (tenantId: string) =>
+  getFirestore().collection(`tenants/${tenantId}/${CONVERSATIONS_COLLECTION}`);
+
+const mapSnapshotToConversation = (
+  doc: QueryDocumentSnapshot,
+): Conversation => ({
+  id: doc.id,
+  ...(doc.data() as ConversationDocument),
+});
+
+const mapSnapshotToMessage = (
+  doc: QueryDocumentSnapshot,
+): ConversationMessage => ({
+  id: doc.id,
+  ...(doc.data() as ConversationMessageDocument),
+});
+
+const resolvePageSize = (limit?: number): number => {
+  if (limit === undefined) return DEFAULT_PAGE_SIZE;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, "El límite debe ser un número entero positivo.");
+  }
+
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+/**
+ * Registra un mensaje en la conversación y actualiza su resumen
+ * Nunca lanza error: un problema al registrar no debe cortar el bot
+ */
+export const recordConversationMessage = async (
+  input: RecordConversationMessageInput,
+): Promise<void> => {
+  try {
+    const phone = sanitizePhone(input.phone);
+    const createdAt = input.createdAt ?? new Date().toISOString();
+    const conversationRef = getCollection(input.tenantId).doc(phone);
+    const messageRef = conversationRef.collection(MESSAGES_SUBCOLLECTION).doc();
+
+    const message: ConversationMessageDocument = {
+      direction: input.direction,
+      type: input.type,
+      body: input.body,
+      ...(input.metaMessageId ? { metaMessageId: input.metaMessageId } : {}),
+      ...(input.orderId ? { orderId: input.orderId } : {}),
+      ...(input.sentBy ? { sentBy: input.sentBy } : {}),
+      createdAt,
+    };
+
+    await getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(conversationRef);
+      const current = doc.exists
+        ? (doc.data() as ConversationDocument)
+        : undefined;
+
+      const orderIds = current?.orderIds ?? [];
+      const isLatest = !current || createdAt >= current.lastMessageAt;
+
+      const summary: Omit<ConversationDocument, "handoff"> = {
+        tenantId: input.tenantId,
+        phone,
+        orderIds:
+          input.orderId && !orderIds.includes(input.orderId)
+            ? [...orderIds, input.orderId]
+            : orderIds,
+        messageCount: (current?.messageCount ?? 0) + 1,
+        lastMessagePreview: isLatest
+          ? input.body.slice(0, PREVIEW_LENGTH)
+          : current.lastMessagePreview,
+        lastDirection: isLatest ? input.direction : current.lastDirection,
+        lastMessageAt: isLatest ? createdAt : current.lastMessageAt,
+        createdAt: current?.createdAt ?? createdAt,
+      };
+
+      const lastInboundAt =
+        input.direction === "inbound" &&
+        (!current?.lastInboundAt || createdAt > current.lastInboundAt)
+          ? createdAt
+          : current?.lastInboundAt;
+      if (lastInboundAt) {
+        summary.lastInboundAt = lastInboundAt;
+      }
+
+      const customerName = input.customerName ?? current?.customerName;
+      if (customerName) {
+        summary.customerName = customerName;
+      }
+
+      transaction.set(messageRef, message);
+      // merge: conserva el handoff y otros campos de control
+      transaction.set(conversationRef, summary, { merge: true });
+    });
+  } catch (error) {
+    logger.error(
+      `Error al registrar mensaje de conversación con ${input.phone}`,
+      error,
+    );
+  }
+};
+
+/**
+ * Indica si la ventana de 24 hs de atención al cliente sigue abierta
+ * Sin mensajes del cliente o si no se puede consultar, se asume cerrada:
+ * la plantilla llega dentro y fuera de la ventana, el texto libre no
+ */
+export const isCustomerServiceWindowOpen = async (
+  tenantId: string,
+  phone: string,
+): Promise<boolean> => {
+  try {
+    const doc = await getCollection(tenantId).doc(sanitizePhone(phone)).get();
+    const lastInboundAt = doc.exists
+      ? (doc.data() as ConversationDocument).lastInboundAt
+      : undefined;
+
+    if (!lastInboundAt) return false;
+
+    return (
+      Date.now() - new Date(lastInboundAt).getTime() <
+      CUSTOMER_SERVICE_WINDOW_MS
+    );
+  } catch (error) {
+    logger.error(
+      `Error al consultar la ventana de atención de ${phone}`,
+      error,
+    );
+    return false;
+  }
+};
+
+/**
+ * Conversaciones del tenant, las más recientes primero
+ * Permite buscar por teléfono (prefijo) o por ID de pedido
+ */
+export const listConversations = async (
+  tenantId: string,
+  filters: ListConversationsFilters = {},
+): Promise<Conversation[]> => {
+  const pageSize = resolvePageSize(filters.limit);
+  const collection = getCollection(tenantId);
+
+  if (filters.orderId) {
+    const snapshot = await collection
+      .where("orderIds", "array-contains", filters.orderId)
+      .get();
+
+    return snapshot.docs
+      .map(mapSnapshotToConversation)
+      .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt))
+      .slice(0, pageSize);
+  }
+
+  if (filters.phone) {
+    const prefix = sanitizePhone(filters.phone);
+    const snapshot = await collection
+      .where("phone", ">=", prefix)
+      .where("phone", "<=", `${prefix}\uf8ff`)
+      .get();
+
+    return snapshot.docs
+      .map(mapSnapshotToConversation)
+      .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt))
+      .slice(0, pageSize);
+  }
+
+  const snapshot = await collection
+    .orderBy("lastMessageAt", "desc")
+    .limit(pageSize)
+    .get();
+
+  return snapshot.docs.map(mapSnapshotToConversation);
+};
+
+/**
+ * Transcripción de la conversación con un cliente
+ * Devuelve los últimos mensajes (o los anteriores a "before") en orden cronológico
+ */
+export const getConversationTranscript = async (
+  tenantId: string,
+  phone: string,
+  options: TranscriptOptions = {},
+): Promise<ConversationTranscript> => {
+  const pageSize = resolvePageSize(options.limit);
+  const conversationRef = getCollection(tenantId).doc(sanitizePhone(phone));
+  const doc = await conversationRef.get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "No hay conversación con ese teléfono.");
+  }
+
+  let query = conversationRef
+    .collection(MESSAGES_SUBCOLLECTION)
+    .orderBy("createdAt", "desc");
+
+  if (options.before) {
+    query = query.where("createdAt", "<", options.before);
+  }
+
+  const snapshot = await query.limit(pageSize).get();
+
+  return {
+    conversation: {
+      id: doc.id,
+      ...(doc.data() as ConversationDocument),
+    },
+    messages: snapshot.docs.map(mapSnapshotToMessage).reverse(),
+  };
+};
@@ -0,0 +1,474 @@
+import type { Extra } from "../models/extra";
+import type { Order, OrderExtra, OrderItem } from "../models/order";
+import type {
+  AddOnCosting,
+  MarginAlert,
+  Product,
+  ProductCosting,
+  ProductWithCosting,
+} from "../models/product";
+import type {
+  CostReport,
+  ProductCostStat,
+  ReportPeriod,
+} from "../models/cashRegister";
+import {
+  getAddOnStockQuantity,
+  getIngredientsById,
+  getRecipeStockQuantity,
+  listProducts,
+  type IngredientsById,
+} from "./productService";
+import {
+  findLinkedExtra,
+  getExtraStockQuantity,
+  listExtras,
+} from "./extraService";
+import { listOrdersByDateRange } from "./orderService";
+import { getTenantById } from "./tenantService";
+import { getDateRange, toPercentage } from "./cashRegisterService";
+import { sendMarginAlertNotification } from "./notificationService";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+
+/**
+ * Servicio de costeo de recetas
+ * Calcula el costo de cada producto con los costos actuales de los
+ * ingredientes (costPerUnit está expresado en la unidad de stock)
+ */
+
+interface CostingData {
+  ingredients: IngredientsById;
+  extras: Map<string, Extra>;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const loadCostingData = async (tenantId: string): Promise<CostingData> => {
+  const [ingredients, extras] = await Promise.all([
+    getIngredientsById(tenantId),
+    listExtras(tenantId),
+  ]);
+
+  return {
+    ingredients,
+    extras: new Map(extras.map((extra) => [extra.id, extra])),
+  };
+};
+
+/**
+ * Costo de una cantidad de ingrediente expresada en su unidad de stock
+ */
+const getIngredientCost = (
+  ingredients: IngredientsById,
+  ingredientId: string,
+  quantity: number,
+): number => quantity * (ingredients.get(ingredientId)?.costPerUnit ?? 0);
+
+/**
+ * Cantidad en unidad de stock, o 0 si las unidades no se pueden convertir
+ */
+const getCostableQuantity = (getQuantity: () => number): number => {
+  try {
+    return getQuantity();
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Costo de la receta de una unidad del producto
+ * missingCosts: ingredientes borrados, sin costo o con unidades que no
+ * se pueden convertir a la unidad de stock
+ */
+const getRecipeCost = (
+  product: Product,
+  ingredients: IngredientsById,
+): { cost: number; missingCosts: string[] } => {
+  let cost = 0;
+  const missingCosts: string[] = [];
+
+  for (const recipeItem of product.ingredients) {
+    const ingredient = ingredients.get(recipeItem.ingredientId);
+
+    if (!ingredient?.costPerUnit) {
+      missingCosts.push(recipeItem.ingredientName);
+      continue;
+    }
+
+    try {
+      const quantity = getRecipeStockQuantity(product, recipeItem, ingredient);
+      cost += quantity * ingredient.costPerUnit;
+    } catch {
+      missingCosts.push(recipeItem.ingredientName);
+    }
+  }
+
+  return { cost, missingCosts };
+};
+
+/**
+ * Costo de agregar un ingrediente a una unidad del producto (misma
+ * cantidad que descuenta del stock el pedido)
+ */
+const getAddOnCost = (
+  product: Product | undefined,
+  ingredientId: string,
+  data: CostingData,
+): number =>
+  getIngredientCost(
+    data.ingredients,
+    ingredientId,
+    getCostableQuantity(() =>
+      getAddOnStockQuantity(
+        product,
+        ingredientId,
+        data.ingredients.get(ingredientId),
+        findLinkedExtra(data.extras.values(), ingredientId),
+      ),
+    ),
+  );
+
+/**
+ * Ingredientes que el bot ofrece agregar al producto (los que tienen un
+ * extra activo vinculado) con su precio y su costo
+ */
+const getAddOnCostings = (
+  product: Product,
+  data: CostingData,
+): AddOnCosting[] => {
+  const addOns: AddOnCosting[] = [];
+
+  for (const extra of data.extras.values()) {
+    if (!extra.isActive || !extra.linkedProductId) continue;
+
+    const ingredient = data.ingredients.get(extra.linkedProductId);
+    if (!ingredient) continue;
+
+    const cost = getAddOnCost(product, ingredient.id, data);
+
+    addOns.push({
+      ingredientId: ingredient.id,
+      ingredientName: ingredient.name,
+      price: extra.price,
+      cost: roundMoney(cost),
+      grossMargin: roundMoney(extra.price - cost),
+    });
+  }
+
+  return addOns;
+};
+
+const buildProductCosting = (
+  product: Product,
+  data: CostingData,
+): ProductCosting => {
+  const { cost, missingCosts } = getRecipeCost(product, data.ingredients);
+
+  return {
+    recipeCost: roundMoney(cost),
+    grossMargin: roundMoney(product.price - cost),
+    marginPercent: toPercentage(product.price - cost, product.price),
+    foodCostPercent: toPercentage(cost, product.price),
+    missingCosts,
+    addOns: getAddOnCostings(product, data),
+  };
+};
+
+/**
+ * Agrega el costeo de la receta a cada producto
+ */
+export const addProductCosting = async (
+  tenantId: string,
+  products: Product[],
+): Promise<ProductWithCosting[]> => {
+  const data = await loadCostingData(tenantId);
+
+  return products.map((product) => ({
+    ...product,
+    costing: buildProductCosting(product, data),
+  }));
+};
+
+/**
+ * Productos con precio cuyo margen quedó por debajo del mínimo
+ */
+const getMarginAlerts = (
+  products: Product[],
+  ingredients: IngredientsById,
+  minMarginPercent: number,
+): MarginAlert[] =>
+  products.flatMap((product) => {
+    if (product.price <= 0) return [];
+
+    const { cost } = getRecipeCost(product, ingredients);
+    const marginPercent = toPercentage(product.price - cost, product.price);
+
+    if (marginPercent >= minMarginPercent) return [];
+
+    return [
+      {
+        productId: product.id,
+        productName: product.name,
+        price: product.price,
+        recipeCost: roundMoney(cost),
+        marginPercent,
+        minMarginPercent,
+      },
+    ];
+  });
+
+/**
+ * Revisa si el nuevo costo de un ingrediente dejó productos por debajo
+ * del margen mínimo del tenant y avisa al local. Nunca lanza error
+ * Solo alerta los productos que estaban en o sobre el mínimo
+ */
+export const checkIngredientCostAlerts = async (
+  tenantId: string,
+  ingredientId: string,
+  previousCostPerUnit: number,
+): Promise<MarginAlert[]> => {
+  try {
+    const tenant = await getTenantById(tenantId);
+
+    if (tenant.minMarginPercent === undefined) return [];
+
+    const [ingredients, products] = await Promise.all([
+      getIngredientsById(tenantId),
+      listProducts(tenantId),
+    ]);
+    const ingredient = ingredients.get(ingredientId);
+
+    if (!ingredient || ingredient.costPerUnit <= previousCostPerUnit) {
+      return [];
+    }
+
+    const affectedProducts = products.filter((product) =>
+      product.ingredients.some((item) => item.ingredientId === ingredientId),
+    );
+
+    const previousIngredients: IngredientsById = new Map(ingredients);
+    previousIngredients.set(ingredientId, {
+      ...ingredient,
+      costPerUnit: previousCostPerUnit,
+    });
+
+    const previouslyBelow = new Set(
+      getMarginAlerts(
+        affectedProducts,
+        previousIngredients,
+        tenant.minMarginPercent,
+      ).map((alert) => alert.productId),
+    );
+
+    const alerts = getMarginAlerts(
+      affectedProducts,
+      ingredients,
+      tenant.minMarginPercent,
+    ).filter((alert) => !previouslyBelow.has(alert.productId));
+
+    if (alerts.length > 0) {
+      logger.warn(
+        `Costo de ${ingredient.name} dejó ${alerts.length} productos bajo el margen mínimo (tenant: ${tenantId})`,
+      );
+      await sendMarginAlertNotification(tenantId, ingredient.name, alerts);
+    }
+
+    return alerts;
+  } catch (error) {
+    logger.error(
+      `Error al revisar alertas de margen del ingrediente ${ingredientId}`,
+      error,
+    );
+    return [];
+  }
+};
+
+/**
+ * Costo de los extras de un pedido o de una unidad de producto
+ * Solo tienen costo los extras vinculados a un ingrediente
+ * missingCosts: extras cuyo ingrediente fue borrado, no tiene costo o
+ * tiene una unidad a la que no se puede convertir el consumo
+ */
+const getExtrasCost = (
+  orderExtras: OrderExtra[],
+  data: CostingData,
+): { cost: number; missingCosts: string[] } => {
+  let cost = 0;
+  const missingCosts: string[] = [];
+
+  for (const orderExtra of orderExtras) {
+    const extra = data.extras.get(orderExtra.extraId);
+
+    if (!extra?.linkedProductId || !extra.stockConsumption) continue;
+
+    const ingredient = data.ingredients.get(extra.linkedProductId);
+
+    if (!ingredient?.costPerUnit) {
+      missingCosts.push(orderExtra.extraName);
+      continue;
+    }
+
+    try {
+      const quantity = getExtraStockQuantity(extra, ingredient);
+      cost += quantity * orderExtra.quantity * ingredient.costPerUnit;
+    } catch {
+      missingCosts.push(orderExtra.extraName);
+    }
+  }
+
+  return { cost, missingCosts };
+};
+
+/**
+ * Costo de una línea del pedido: receta, ingredientes agregados y extras
+ * Los productos borrados del menú no tienen receta para costear
+ */
+const getItemCost = (
+  item: OrderItem,
+  productsById: Map<string, Product>,
+  data: CostingData,
+): { cost: number; missingCosts: string[] } => {
+  const product = productsById.get(item.productId);
+  const recipe = product
+    ? getRecipeCost(product, data.ingredients)
+    : { cost: 0, missingCosts: [] };
+
+  const addOnsCost = item.customizations
+    .filter((customization) => customization.type === "agregar")
+    .reduce(
+      (sum, customization) =>
+        sum + getAddOnCost(product, customization.ingredientId, data),
+      0,
+    );
+
+  const extras = getExtrasCost(item.extras ?? [], data);
+
+  return {
+    cost: (recipe.cost + addOnsCost + extras.cost) * item.quantity,
+    missingCosts: [...recipe.missingCosts, ...extras.missingCosts],
+  };
+};
+
+/**
+ * Une listas de lo que no se pudo costear sin repetir nombres
+ */
+const mergeMissingCosts = (current: string[], added: string[]): string[] =>
+  added.length === 0 ? current : [...new Set([...current, ...added])];
+
+const getProductCostStats = (
+  orders: Order[],
+  productsById: Map<string, Product>,
+  data: CostingData,
+): ProductCostStat[] => {
+  const byProduct = new Map<string, ProductCostStat>();
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      const stat = byProduct.get(item.productId) ?? {
+        productId: item.productId,
+        productName: item.productName,
+        quantity: 0,
+        revenue: 0,
+        cost: 0,
+        grossMargin: 0,
+        marginPercent: 0,
+        missingCosts: [],
+      };
+      const itemCost = getItemCost(item, productsById, data);
+      stat.quantity += item.quantity;
+      stat.revenue += item.itemTotal;
+      stat.cost += itemCost.cost;
+      stat.missingCosts = mergeMissingCosts(
+        stat.missingCosts,
+        itemCost.missingCosts,
+      );
+      byProduct.set(item.productId, stat);
+    }
+  }
+
+  return [...byProduct.values()]
+    .map((stat) => ({
+      ...stat,
+      cost: roundMoney(stat.cost),
+      grossMargin: roundMoney(stat.revenue - stat.cost),
+      marginPercent: toPercentage(stat.revenue - stat.cost, stat.revenue),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+const buildCostReport = async (
+  tenantId: string,
+  period: ReportPeriod,
+  startDate: string,
+  endDate: string,
+): Promise<CostReport> => {
+  const [orders, products, data, tenant] = await Promise.all([
+    listOrdersByDateRange(tenantId, startDate, endDate),
+    listProducts(tenantId),
+    loadCostingData(tenantId),
+    getTenantById(tenantId),
+  ]);
+  const productsById = new Map(products.map((p) => [p.id, p]));
+
+  // El costo de la mercadería vendida se calcula sobre pedidos entregados
+  const deliveredOrders = orders.filter((o) => o.status === "entregado");
+
+  const revenue = deliveredOrders.reduce((sum, o) => sum + o.subtotal, 0);
+  let costOfGoodsSold = 0;
+  let missingCosts: string[] = [];
+
+  for (const order of deliveredOrders) {
+    const orderCosts = [
+      ...order.items.map((item) => getItemCost(item, productsById, data)),
+      getExtrasCost(order.extras ?? [], data),
+    ];
+
+    for (const { cost, missingCosts: orderMissing } of orderCosts) {
+      costOfGoodsSold += cost;
+      missingCosts = mergeMissingCosts(missingCosts, orderMissing);
+    }
+  }
+
+  return {
+    period,
+    startDate,
+    endDate,
+    deliveredOrders: deliveredOrders.length,
+    revenue,
+    costOfGoodsSold: roundMoney(costOfGoodsSold),
+    grossMargin: roundMoney(revenue - costOfGoodsSold),
+    marginPercent: toPercentage(revenue - costOfGoodsSold, revenue),
+    foodCostPercent: toPercentage(costOfGoodsSold, revenue),
+    missingCosts,
+    products: getProductCostStats(deliveredOrders, productsById, data),
+    marginAlerts:
+      tenant.minMarginPercent === undefined
+        ? []
+        : getMarginAlerts(products, data.ingredients, tenant.minMarginPercent),
+  };
+};
+
+export const generateCostReport = async (
+  tenantId: string,
+  period: Exclude<ReportPeriod, "custom">,
+  referenceDate: string,
+): Promise<CostReport> => {
+  const { startDate, endDate } = getDateRange(period, referenceDate);
+  return buildCostReport(tenantId, period, startDate, endDate);
+};
+
+export const generateCustomCostReport = async (
+  tenantId: string,
+  startDate: string,
+  endDate: string,
+): Promise<CostReport> => {
+  if (startDate > endDate) {
+    throw new HttpError(
+      400,
+      "La fecha de inicio no puede ser posterior a la fecha de fin.",
+    );
+  }
+
+  return buildCostReport(tenantId, "custom", startDate, endDate);
+};
@@ -0,0 +1,429 @@
+import type { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type {
+  CreateCustomerInput,
+  Customer,
+  CustomerAddress,
+  UpdateCustomerInput,
+} from "../models/customer";
+import type { Order } from "../models/order";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+import { sanitizePhone } from "../utils/phone";
+import { isValidGeoPoint } from "../utils/geo";
+import { CUSTOMER_FALLBACK_NAME } from "../utils/customer";
+
+/**
+ * Perfiles de clientes por tenant
+ * Se crean/actualizan solos con cada pedido (nombre, direcciones, totales)
+ * y el local puede sumar notas y etiquetas
+ */
+
+const CUSTOMERS_COLLECTION = "customers";
+
+const MAX_SAVED_ADDRESSES = 5;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type CustomerDocument = Omit<Customer, "id">;
+
+export interface ListCustomersFilters {
+  search?: string; // Prefijo del teléfono o del nombre
+  tag?: string;
+  limit?: number;
+}
+
+const getCollection = (tenantId: string) =>
+  getFirestore().collection(`tenants/${tenantId}/${CUSTOMERS_COLLECTION}`);
+
+/**
+ * ID del perfil de cliente para un teléfono (el teléfono normalizado)
+ */
+export const getCustomerIdFromPhone = (phone: string): string =>
+  sanitizePhone(phone);
+
+const getDocumentRef = (tenantId: string, phone: string) => {
+  const id = phone ? sanitizePhone(phone) : "";
+  if (!id) {
+    throw new HttpError(400, "Se requiere un teléfono de cliente válido.");
+  }
+  return getCollection(tenantId).doc(id);
+};
+
+/**
+ * Minúsculas y sin acentos, para buscar por prefijo del nombre
+ */
+const normalizeSearchText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+
+const isSameAddress = (a: string, b: string): boolean =>
+  normalizeSearchText(a).replace(/\s+/g, " ") ===
+  normalizeSearchText(b).replace(/\s+/g, " ");
+
+const mapSnapshotToCustomer = (doc: QueryDocumentSnapshot): Customer => ({
+  id: doc.id,
+  ...(doc.data() as CustomerDocument),
+});
+
+const resolvePageSize = (limit?: number): number => {
+  if (limit === undefined) return DEFAULT_PAGE_SIZE;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, "El límite debe ser un número entero positivo.");
+  }
+
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+const validateAddresses = (addresses: CustomerAddress[]): void => {
+  if (!Array.isArray(addresses)) {
+    throw new HttpError(400, "Las direcciones deben ser una lista.");
+  }
+
+  for (const address of addresses) {
+    if (!address?.address || typeof address.address !== "string") {
+      throw new HttpError(400, "Cada dirección debe tener un texto.");
+    }
+
+    if (
+      address.location !== undefined &&
+      !isValidGeoPoint(address.location)
+    ) {
+      throw new HttpError(
+        400,
+        "La ubicación de la dirección debe tener lat/lng válidos.",
+      );
+    }
+  }
+
+  if (addresses.length > MAX_SAVED_ADDRESSES) {
+    throw new HttpError(
+      400,
+      `Se pueden guardar hasta ${MAX_SAVED_ADDRESSES} direcciones.`,
+    );
+  }
+};
+
+const validateTags = (tags: string[]): void => {
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+    throw new HttpError(400, "Las etiquetas deben ser una lista de textos.");
+  }
+};
+
+const normalizeTags = (tags: string[]): string[] => [
+  ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
+
+/**
+ * Agrega (o mueve al principio) la dirección de un pedido de delivery
+ */
+const mergeOrderAddress = (
+  addresses: CustomerAddress[],
+  order: Order,
+): CustomerAddress[] => {
+  if (order.orderType !== "delivery" || !order.deliveryAddress) {
+    return addresses;
+  }
+
+  const address: CustomerAddress = {
+    address: order.deliveryAddress,
+    ...(order.deliveryZoneId ? { zoneId: order.deliveryZoneId } : {}),
+    ...(order.deliveryZoneName ? { zoneName: order.deliveryZoneName } : {}),
+    ...(order.deliveryLocation ? { location: order.deliveryLocation } : {}),
+    ...(order.deliveryNotes ? { notes: order.deliveryNotes } : {}),
+    lastUsedAt: order.createdAt,
+  };
+
+  return [
+    address,
+    ...addresses.filter((a) => !isSameAddress(a.address, address.address)),
+  ].slice(0, MAX_SAVED_ADDRESSES);
+};
+
+export const listCustomers = async (
+  tenantId: string,
+  filters: ListCustomersFilters = {},
+): Promise<Customer[]> => {
+  const pageSize = resolvePageSize(filters.limit);
+  const search = filters.search?.trim();
+
+  if (search) {
+    // Teléfono si son dígitos, si no nombre
+    const isPhoneSearch = /^[\d\s\-\(\)\+]+$/.test(search);
+    const field = isPhoneSearch ? "phone" : "searchName";
+    const prefix = isPhoneSearch
+      ? sanitizePhone(search)
+      : normalizeSearchText(search);
+
+    let searchQuery = getCollection(tenantId)
+      .where(field, ">=", prefix)
+      .where(field, "<=", `${prefix}\uf8ff`);
+
+    if (filters.tag) {
+      searchQuery = searchQuery.where(
+        "tags",
+        "array-contains",
+        filters.tag.toLowerCase(),
+      );
+    }
+
+    const snapshot = await searchQuery.get();
+
+    return snapshot.docs
+      .map(mapSnapshotToCustomer)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, pageSize);
+  }
+
+  let query = getCollection(tenantId).orderBy("updatedAt", "desc");
+
+  if (filters.tag) {
+    query = query.where("tags", "array-contains", filters.tag.toLowerCase());
+  }
+
+  const snapshot = await query.limit(pageSize).get();
+  return snapshot.docs.map(mapSnapshotToCustomer);
+};
+
+export const getCustomerById = async (
+  tenantId: string,
+  id: string,
+): Promise<Customer> => {
+  const doc = await getDocumentRef(tenantId, id).get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "El cliente solicitado no existe.");
+  }
+
+  return {
+    id: doc.id,
+    ...(doc.data() as CustomerDocument),
+  };
+};
+
+/**
+ * Cliente por teléfono (null si todavía no pidió ni fue cargado)
+ */
+export const findCustomerByPhone = async (
+  tenantId: string,
+  phone: string,
+): Promise<Customer | null> => {
+  const doc = await getDocumentRef(tenantId, phone).get();
+
+  if (!doc.exists) {
+    return null;
+  }
+
+  return {
+    id: doc.id,
+    ...(doc.data() as CustomerDocument),
+  };
+};
+
+export const createCustomer = async (
+  payload: CreateCustomerInput,
+): Promise<Customer> => {
+  if (!payload.phone) {
+    throw new HttpError(400, "El cliente debe tener un teléfono.");
+  }
+
+  if (!payload.name?.trim()) {
+    throw new HttpError(400, "El cliente debe tener un nombre.");
+  }
+
+  if (payload.addresses !== undefined) {
+    validateAddresses(payload.addresses);
+  }
+
+  if (payload.tags !== undefined) {
+    validateTags(payload.tags);
+  }
+
+  const docRef = getDocumentRef(payload.tenantId, payload.phone);
+  const existing = await docRef.get();
+
+  if (existing.exists) {
+    throw new HttpError(409, "Ya existe un cliente con ese teléfono.");
+  }
+
+  const now = new Date().toISOString();
+
+  const document: CustomerDocument = {
+    tenantId: payload.tenantId,
+    phone: docRef.id,
+    name: payload.name.trim(),
+    searchName: normalizeSearchText(payload.name),
+    addresses: payload.addresses ?? [],
+    orderCount: 0,
+    totalSpent: 0,
+    ...(payload.notes ? { notes: payload.notes } : {}),
+    tags: normalizeTags(payload.tags ?? []),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docRef.set(document);
+
+  return {
+    id: docRef.id,
+    ...document,
+  };
+};
+
+export const updateCustomer = async (
+  tenantId: string,
+  id: string,
+  payload: UpdateCustomerInput,
+): Promise<Customer> => {
+  const docRef = getDocumentRef(tenantId, id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "El cliente solicitado no existe.");
+  }
+
+  if (Object.keys(payload).length === 0) {
+    throw new HttpError(400, "No se recibieron cambios para actualizar.");
+  }
+
+  if (payload.name !== undefined && !payload.name.trim()) {
+    throw new HttpError(400, "El nombre del cliente no puede estar vacío.");
+  }
+
+  if (payload.addresses !== undefined) {
+    validateAddresses(payload.addresses);
+  }
+
+  if (payload.tags !== undefined) {
+    validateTags(payload.tags);
+  }
+
+  const updateData: Partial<CustomerDocument> = {
+    ...(payload.addresses !== undefined
+      ? { addresses: payload.addresses }
+      : {}),
+    ...(payload.notes !== undefined ? { notes: payload.notes } : {}),
+    ...(payload.tags !== undefined ? { tags: normalizeTags(payload.tags) } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (payload.name !== undefined) {
+    updateData.name = payload.name.trim();
+    updateData.searchName = normalizeSearchText(payload.name);
+  }
+
+  await docRef.update(updateData);
+  const updatedDoc = await docRef.get();
+
+  return {
+    id: updatedDoc.id,
+    ...(updatedDoc.data() as CustomerDocument),
+  };
+};
+
+export const deleteCustomer = async (
+  tenantId: string,
+  id: string,
+): Promise<void> => {
+  const docRef = getDocumentRef(tenantId, id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "El cliente solicitado no existe.");
+  }
+
+  await docRef.delete();
+};
+
+/**
+ * Nombre del perfil después de un pedido: el nombre genérico del bot
+ * (cliente que no dio su nombre) no pisa el que ya tenía
+ */
+const getOrderCustomerName = (
+  current: CustomerDocument | undefined,
+  orderName: string,
+): string => {
+  const isFallback =
+    !orderName.trim() || orderName.trim() === CUSTOMER_FALLBACK_NAME;
+
+  return current?.name && isFallback ? current.name : orderName;
+};
+
+/**
+ * Crea o actualiza el perfil con un pedido nuevo: nombre, dirección,
+ * cantidad de pedidos, gasto acumulado y fecha del último pedido.
+ * Nunca lanza error: un problema acá no debe frenar el pedido
+ */
+export const recordCustomerOrder = async (order: Order): Promise<void> => {
+  try {
+    const docRef = getDocumentRef(order.tenantId, order.customerPhone);
+
+    await getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const current = doc.exists
+        ? (doc.data() as CustomerDocument)
+        : undefined;
+
+      const lastOrderAt =
+        current?.lastOrderAt && current.lastOrderAt > order.createdAt
+          ? current.lastOrderAt
+          : order.createdAt;
+
+      const name = getOrderCustomerName(current, order.customerName);
+
+      const document: CustomerDocument = {
+        tenantId: order.tenantId,
+        phone: docRef.id,
+        name,
+        searchName: normalizeSearchText(name),
+        addresses: mergeOrderAddress(current?.addresses ?? [], order),
+        orderCount: (current?.orderCount ?? 0) + 1,
+        totalSpent: (current?.totalSpent ?? 0) + order.total,
+        lastOrderAt,
+        ...(current?.notes ? { notes: current.notes } : {}),
+        tags: current?.tags ?? [],
+        createdAt: current?.createdAt ?? order.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+
+      transaction.set(docRef, document);
+    });
+  } catch (error) {
+    logger.error(
+      `Error al actualizar el cliente del pedido ${order.id}`,
+      error,
+    );
+  }
+};
+
+/**
+ * Descuenta del perfil un pedido cancelado (cantidad y gasto)
+ * Nunca lanza error
+ */
+export const revertCustomerOrder = async (order: Order): Promise<void> => {
+  try {
+    const docRef = getDocumentRef(order.tenantId, order.customerPhone);
+
+    await getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) return;
+
+      const current = doc.data() as CustomerDocument;
+
+      transaction.update(docRef, {
+        orderCount: Math.max(0, current.orderCount - 1),
+        totalSpent: Math.max(0, current.totalSpent - order.total),
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  } catch (error) {
+    logger.error(
+      `Error al descontar el pedido cancelado ${order.id} del cliente`,
+      error,
+    );
+  }
+};
@@ -1,14 +1,27 @@
-import type {
-  QueryDocumentSnapshot,
-  DocumentReference,
+import {
+  FieldValue,
+  type QueryDocumentSnapshot,
+  type DocumentReference,
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
 import {
+  DeliveryQuote,
   DeliveryZone,
+  DeliveryZoneArea,
+  DeliveryZonePricing,
   CreateDeliveryZoneInput,
+  GeoJsonPolygon,
+  GeoPoint,
   UpdateDeliveryZoneInput,
 } from "../models/deliveryZone";
 import { HttpError } from "../utils/httpError";
+import {
+  getDistanceMeters,
+  getGeoJsonPolygonPoints,
+  isPointInPolygon,
+  isValidGeoPoint,
+} from "../utils/geo";
+import { getTenantById } from "./tenantService";
 
 const DELIVERY_ZONES_COLLECTION = "deliveryZones";
 
@@ -24,6 +37,160 @@ const getDocumentRef = (tenantId: string, id: string): DocumentReference => {
   return getCollection(tenantId).doc(id);
 };
 
+const MIN_POLYGON_POINTS = 3;
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Valida el área geográfica de una zona y la normaliza para guardarla
+ * - Un polígono GeoJSON se convierte a "polygon" (Firestore no admite
+ *   arrays anidados)
+ * - Un radio sin centro usa la ubicación del local, que debe existir
+ */
+const normalizeDeliveryZoneArea = (
+  area: DeliveryZoneArea | GeoJsonPolygon,
+  storeLocation?: GeoPoint,
+): DeliveryZoneArea => {
+  if (!area || typeof area !== "object") {
+    throw new HttpError(400, "El área de la zona no es válida.");
+  }
+
+  if (area.type === "Polygon") {
+    const points = getGeoJsonPolygonPoints(area);
+
+    if (!points) {
+      throw new HttpError(
+        400,
+        "El polígono GeoJSON debe tener coordenadas [lng, lat] válidas.",
+      );
+    }
+
+    return normalizeDeliveryZoneArea({ type: "polygon", points });
+  }
+
+  if (area.type === "polygon") {
+    if (
+      !Array.isArray(area.points) ||
+      area.points.length < MIN_POLYGON_POINTS ||
+      !area.points.every(isValidGeoPoint)
+    ) {
+      throw new HttpError(
+        400,
+        `El polígono debe tener al menos ${MIN_POLYGON_POINTS} puntos con lat/lng válidos.`,
+      );
+    }
+    return { type: "polygon", points: area.points };
+  }
+
+  if (area.type === "radius") {
+    if (area.center !== undefined && !isValidGeoPoint(area.center)) {
+      throw new HttpError(
+        400,
+        "El centro del radio debe tener lat/lng válidos.",
+      );
+    }
+
+    if (area.center === undefined && !storeLocation) {
+      throw new HttpError(
+        400,
+        "Indicá el centro del radio o configurá la ubicación del local.",
+      );
+    }
+
+    if (!isNonNegativeNumber(area.radiusMeters) || area.radiusMeters === 0) {
+      throw new HttpError(
+        400,
+        "El radio debe ser un número de metros positivo.",
+      );
+    }
+
+    if (
+      area.minRadiusMeters !== undefined &&
+      (!isNonNegativeNumber(area.minRadiusMeters) ||
+        area.minRadiusMeters >= area.radiusMeters)
+    ) {
+      throw new HttpError(
+        400,
+        "El radio interno debe ser un número de metros menor al radio.",
+      );
+    }
+
+    return {
+      type: "radius",
+      ...(area.center ? { center: area.center } : {}),
+      radiusMeters: area.radiusMeters,
+      ...(area.minRadiusMeters !== undefined
+        ? { minRadiusMeters: area.minRadiusMeters }
+        : {}),
+    };
+  }
+
+  throw new HttpError(
+    400,
+    "El tipo de área debe ser 'polygon', 'radius' o un 'Polygon' GeoJSON.",
+  );
+};
+
+const validateDeliveryZonePricing = (pricing: DeliveryZonePricing): void => {
+  if (!pricing || typeof pricing !== "object") {
+    throw new HttpError(400, "Las reglas de precio no son válidas.");
+  }
+
+  const values = [
+    pricing.perKm,
+    pricing.freeDeliveryThreshold,
+    pricing.minimumOrderAmount,
+  ];
+
+  if (values.some((v) => v !== undefined && !isNonNegativeNumber(v))) {
+    throw new HttpError(
+      400,
+      "Las reglas de precio requieren montos numéricos no negativos.",
+    );
+  }
+};
+
+/**
+ * Ubicación del local, solo si el área o el precio la necesitan
+ */
+const getStoreLocationIfNeeded = async (
+  tenantId: string,
+  area?: DeliveryZoneArea | GeoJsonPolygon | null,
+  pricing?: DeliveryZonePricing | null,
+): Promise<GeoPoint | undefined> => {
+  const needsStoreLocation =
+    (area?.type === "radius" && area.center === undefined) ||
+    pricing?.perKm !== undefined;
+
+  if (!needsStoreLocation) {
+    return undefined;
+  }
+
+  const tenant = await getTenantById(tenantId);
+  return tenant.storeLocation;
+};
+
+const isPointInArea = (
+  point: GeoPoint,
+  area: DeliveryZoneArea,
+  storeLocation?: GeoPoint,
+): boolean => {
+  if (area.type === "polygon") {
+    return isPointInPolygon(point, area.points);
+  }
+
+  const center = area.center ?? storeLocation;
+  if (!center) {
+    return false;
+  }
+
+  const distance = getDistanceMeters(point, center);
+  return (
+    distance <= area.radiusMeters && distance >= (area.minRadiusMeters ?? 0)
+  );
+};
+
 const mapSnapshotToDeliveryZone = (
   doc: QueryDocumentSnapshot,
 ): DeliveryZone => ({
@@ -78,9 +245,10 @@ export const getDeliveryZoneByName = async (
 export const calculateDeliveryCost = async (
   tenantId: string,
   zoneId: string,
+  subtotal?: number,
 ): Promise<number> => {
   const zone = await getDeliveryZoneById(tenantId, zoneId);
-  return zone.price;
+  return calculateZoneDeliveryQuote(zone, { subtotal }).cost;
 };
 
 export const createDeliveryZone = async (
@@ -94,8 +262,30 @@ export const createDeliveryZone = async (
     throw new HttpError(400, "El precio debe ser un número válido.");
   }
 
+  if (payload.pricing !== undefined) {
+    validateDeliveryZonePricing(payload.pricing);
+  }
+
+  const storeLocation = await getStoreLocationIfNeeded(
+    payload.tenantId,
+    payload.area,
+    payload.pricing,
+  );
+
+  if (payload.pricing?.perKm !== undefined && !storeLocation) {
+    throw new HttpError(
+      400,
+      "Configurá la ubicación del local para cobrar por km.",
+    );
+  }
+
+  const { area, ...rest } = payload;
+
   const document: DeliveryZoneDocument = {
-    ...payload,
+    ...rest,
+    ...(area !== undefined
+      ? { area: normalizeDeliveryZoneArea(area, storeLocation) }
+      : {}),
     isActive: true,
     createdAt: new Date().toISOString(),
   };
@@ -124,7 +314,38 @@ export const updateDeliveryZone = async (
     throw new HttpError(400, "No se recibieron cambios para actualizar.");
   }
 
-  await docRef.update({ ...payload });
+  if (payload.pricing) {
+    validateDeliveryZonePricing(payload.pricing);
+  }
+
+  const storeLocation = await getStoreLocationIfNeeded(
+    tenantId,
+    payload.area,
+    payload.pricing,
+  );
+
+  if (payload.pricing?.perKm !== undefined && !storeLocation) {
+    throw new HttpError(
+      400,
+      "Configurá la ubicación del local para cobrar por km.",
+    );
+  }
+
+  const { area, pricing, ...rest } = payload;
+
+  await docRef.update({
+    ...rest,
+    ...(area === null
+      ? { area: FieldValue.delete() }
+      : area !== undefined
+        ? { area: normalizeDeliveryZoneArea(area, storeLocation) }
+        : {}),
+    ...(pricing === null
+      ? { pricing: FieldValue.delete() }
+      : pricing !== undefined
+        ? { pricing }
+        : {}),
+  });
   const updatedDoc = await docRef.get();
 
   return {
@@ -146,3 +367,165 @@ export const deleteDeliveryZone = async (
 
   await docRef.delete();
 };
+
+/**
+ * Primera zona (en el orden recibido) cuya área contiene la ubicación
+ * Las zonas sin área definida no se consideran
+ */
+export const findZoneContainingLocation = (
+  zones: DeliveryZone[],
+  location: GeoPoint,
+  storeLocation?: GeoPoint,
+): DeliveryZone | null =>
+  zones.find(
+    (zone) => zone.area && isPointInArea(location, zone.area, storeLocation),
+  ) ?? null;
+
+/**
+ * Zona activa que contiene la ubicación (la primera por nombre)
+ */
+export const findDeliveryZoneByLocation = async (
+  tenantId: string,
+  location: GeoPoint,
+): Promise<DeliveryZone | null> => {
+  const [zones, tenant] = await Promise.all([
+    listActiveDeliveryZones(tenantId),
+    getTenantById(tenantId),
+  ]);
+  return findZoneContainingLocation(zones, location, tenant.storeLocation);
+};
+
+export interface DeliveryQuoteOptions {
+  subtotal?: number; // Sin subtotal no se evalúan envío gratis ni mínimo
+  location?: GeoPoint;
+  storeLocation?: GeoPoint;
+}
+
+/**
+ * Cotiza el envío a una zona: precio base + adicional por km
+ * El adicional por km solo se cobra si se conocen la ubicación del cliente
+ * y la del local (distancia en línea recta)
+ */
+export const calculateZoneDeliveryQuote = (
+  zone: DeliveryZone,
+  options: DeliveryQuoteOptions = {},
+): DeliveryQuote => {
+  const { subtotal, location, storeLocation } = options;
+  const pricing = zone.pricing ?? {};
+
+  const distanceKm =
+    location && storeLocation
+      ? Math.round(getDistanceMeters(location, storeLocation) / 10) / 100
+      : undefined;
+
+  const baseFee = zone.price;
+  const distanceFee =
+    pricing.perKm !== undefined && distanceKm !== undefined
+      ? Math.round(pricing.perKm * distanceKm)
+      : 0;
+
+  const freeDelivery =
+    pricing.freeDeliveryThreshold !== undefined &&
+    subtotal !== undefined &&
+    subtotal >= pricing.freeDeliveryThreshold;
+
+  const meetsMinimumOrder =
+    pricing.minimumOrderAmount === undefined ||
+    subtotal === undefined ||
+    subtotal >= pricing.minimumOrderAmount;
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    ...(distanceKm !== undefined ? { distanceKm } : {}),
+    baseFee,
+    distanceFee,
+    cost: freeDelivery ? 0 : baseFee + distanceFee,
+    freeDelivery,
+    ...(pricing.minimumOrderAmount !== undefined
+      ? { minimumOrderAmount: pricing.minimumOrderAmount }
+      : {}),
+    meetsMinimumOrder,
+  };
+};
+
+export interface DeliveryQuoteInput {
+  location?: GeoPoint;
+  zoneId?: string; // Zona elegida: tiene prioridad sobre la detectada
+  subtotal?: number;
+}
+
+/**
+ * Cotiza el envío de un pedido
+ * - Con zoneId: usa esa zona (la ubicación solo suma la distancia)
+ * - Con ubicación y zonas con área: detecta la zona (400 si queda afuera)
+ * Devuelve null si no hay forma de determinar la zona
+ */
+export const findDeliveryQuote = async (
+  tenantId: string,
+  input: DeliveryQuoteInput,
+): Promise<DeliveryQuote | null> => {
+  const { location, zoneId, subtotal } = input;
+
+  if (location !== undefined && !isValidGeoPoint(location)) {
+    throw new HttpError(400, "La ubicación debe tener lat/lng válidos.");
+  }
+
+  if (subtotal !== undefined && !isNonNegativeNumber(subtotal)) {
+    throw new HttpError(400, "El subtotal debe ser un número no negativo.");
+  }
+
+  const tenant = await getTenantById(tenantId);
+  const options = { subtotal, location, storeLocation: tenant.storeLocation };
+
+  if (zoneId) {
+    const zone = await getDeliveryZoneById(tenantId, zoneId);
+    return calculateZoneDeliveryQuote(zone, options);
+  }
+
+  if (!location) {
+    return null;
+  }
+
+  const zones = await listActiveDeliveryZones(tenantId);
+
+  if (!zones.some((zone) => zone.area)) {
+    return null;
+  }
+
+  const zone = findZoneContainingLocation(
+    zones,
+    location,
+    tenant.storeLocation,
+  );
+
+  if (!zone) {
+    throw new HttpError(
+      400,
+      "La ubicación está fuera de las zonas de delivery.",
+    );
+  }
+
+  return calculateZoneDeliveryQuote(zone, options);
+};
+
+/**
+ * Cotiza el envío (endpoint de cotización)
+ */
+export const quoteDelivery = async (
+  tenantId: string,
+  input: DeliveryQuoteInput,
+): Promise<DeliveryQuote> => {
+  const quote = await findDeliveryQuote(tenantId, input);
+
+  if (!quote) {
+    throw new HttpError(
+      400,
+      input.location
+        ? "No hay zonas con área definida para detectar la zona de la ubicación."
+        : "Se requiere una ubicación (lat/lng) o el id de la zona.",
+    );
+  }
+
+  return quote;
+};
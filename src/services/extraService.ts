@@ -4,7 +4,10 @@ import type {
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
 import { Extra, CreateExtraInput, UpdateExtraInput } from "../models/extra";
+import type { Ingredient } from "../models/ingredient";
 import { HttpError } from "../utils/httpError";
+import { areUnitsCompatible, convertQuantity } from "../utils/units";
+import { getIngredientById } from "./ingredientService";
 
 const EXTRAS_COLLECTION = "extras";
 
@@ -55,6 +58,35 @@ export const getExtraById = async (
   };
 };
 
+/**
+ * Valida que el consumo del extra se pueda convertir a la unidad de stock
+ * del ingrediente vinculado (ej: gramos -> kg, pero no gramos -> litros)
+ */
+const validateConsumptionUnit = async (
+  tenantId: string,
+  extra: Pick<Extra, "linkedProductId" | "consumptionUnit">,
+): Promise<void> => {
+  if (!extra.linkedProductId || !extra.consumptionUnit) return;
+
+  let ingredient: Ingredient;
+  try {
+    ingredient = await getIngredientById(tenantId, extra.linkedProductId);
+  } catch {
+    throw new HttpError(
+      400,
+      `El ingrediente vinculado ${extra.linkedProductId} no existe.`,
+    );
+  }
+
+  if (!areUnitsCompatible(extra.consumptionUnit, ingredient.unit)) {
+    throw new HttpError(
+      400,
+      `El stock de ${ingredient.name} está en ${ingredient.unit}: ` +
+        `el extra no puede consumir ${extra.consumptionUnit}.`,
+    );
+  }
+};
+
 export const createExtra = async (input: CreateExtraInput): Promise<Extra> => {
   const {
     tenantId,
@@ -62,8 +94,11 @@ export const createExtra = async (input: CreateExtraInput): Promise<Extra> => {
     price,
     linkedProductId,
     stockConsumption = 0,
+    consumptionUnit,
   } = input;
 
+  await validateConsumptionUnit(tenantId, { linkedProductId, consumptionUnit });
+
   const now = new Date().toISOString();
 
   const extraData: Omit<Extra, "id"> = {
@@ -72,6 +107,7 @@ export const createExtra = async (input: CreateExtraInput): Promise<Extra> => {
     price,
     linkedProductId,
     stockConsumption,
+    ...(consumptionUnit !== undefined ? { consumptionUnit } : {}),
     isActive: true,
     createdAt: now,
     updatedAt: now,
@@ -97,6 +133,12 @@ export const updateExtra = async (
     throw new HttpError(404, `Extra con id ${id} no encontrado.`);
   }
 
+  const current = doc.data() as ExtraDocument;
+  await validateConsumptionUnit(tenantId, {
+    linkedProductId: input.linkedProductId ?? current.linkedProductId,
+    consumptionUnit: input.consumptionUnit ?? current.consumptionUnit,
+  });
+
   const updateData = {
     ...input,
     updatedAt: new Date().toISOString(),
@@ -125,3 +167,45 @@ export const deleteExtra = async (
 
   await docRef.delete();
 };
+
+/**
+ * Extra vinculado a un ingrediente (el que el bot ofrece para agregarlo)
+ * Si hay varios, se prefiere uno activo
+ */
+export const findLinkedExtra = (
+  extras: Iterable<Extra>,
+  ingredientId: string,
+): Extra | undefined => {
+  const linked = [...extras].filter(
+    (extra) => extra.linkedProductId === ingredientId,
+  );
+  return linked.find((extra) => extra.isActive) ?? linked[0];
+};
+
+/**
+ * Consumo de un extra expresado en la unidad de stock del ingrediente
+ * vinculado (stockConsumption está en consumptionUnit)
+ */
+export const getExtraStockQuantity = (
+  extra: Extra,
+  ingredient: Ingredient | undefined,
+): number => {
+  // Sin unidad declarada: se asume la unidad del stock
+  if (!ingredient || !extra.consumptionUnit) {
+    return extra.stockConsumption;
+  }
+
+  if (!areUnitsCompatible(extra.consumptionUnit, ingredient.unit)) {
+    throw new HttpError(
+      400,
+      `El extra ${extra.name} consume ${extra.consumptionUnit} de ${ingredient.name}, ` +
+        `pero su stock está en ${ingredient.unit}.`,
+    );
+  }
+
+  return convertQuantity(
+    extra.stockConsumption,
+    extra.consumptionUnit,
+    ingredient.unit,
+  );
+};
@@ -0,0 +1,191 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type {
+  Conversation,
+  ConversationHandoff,
+  HandoffReason,
+} from "../models/conversation";
+import type { Tenant } from "../models/tenant";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+import { sanitizePhone } from "../utils/phone";
+import { sendMessage } from "./metaService";
+
+/**
+ * Atención humana de conversaciones (handoff)
+ * Mientras una conversación está tomada por el local, el bot no responde.
+ * El bot retoma cuando se libera explícitamente o cuando el local no
+ * responde durante HANDOFF_INACTIVITY_TIMEOUT_MS
+ */
+
+const CONVERSATIONS_COLLECTION = "conversations";
+
+const HANDOFF_INACTIVITY_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutos
+
+// Límite de WhatsApp para el cuerpo de un mensaje de texto
+const MAX_REPLY_LENGTH = 4096;
+
+type ConversationDocument = Omit<Conversation, "id">;
+
+export interface StartHandoffInput {
+  reason: HandoffReason;
+  orderId?: string;
+  startedBy?: string;
+}
+
+const getConversationRef = (tenantId: string, phone: string) =>
+  getFirestore()
+    .collection(`tenants/${tenantId}/${CONVERSATIONS_COLLECTION}`)
+    .doc(sanitizePhone(phone));
+
+const isExpired = (handoff: ConversationHandoff, now: Date): boolean =>
+  now.getTime() - new Date(handoff.lastAgentActivityAt).getTime() >
+  HANDOFF_INACTIVITY_TIMEOUT_MS;
+
+/**
+ * Pone la conversación en manos del local
+ * Si ya estaba tomada, conserva el motivo original y renueva la actividad
+ */
+export const startHandoff = async (
+  tenantId: string,
+  phone: string,
+  input: StartHandoffInput,
+  now: Date = new Date(),
+): Promise<ConversationHandoff> => {
+  const conversationRef = getConversationRef(tenantId, phone);
+  const nowISO = now.toISOString();
+
+  return getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(conversationRef);
+    const current = doc.exists
+      ? (doc.data() as ConversationDocument)
+      : undefined;
+
+    const existing =
+      current?.handoff && !isExpired(current.handoff, now)
+        ? current.handoff
+        : undefined;
+
+    const handoff: ConversationHandoff = existing
+      ? { ...existing, lastAgentActivityAt: nowISO }
+      : {
+          reason: input.reason,
+          ...(input.orderId ? { orderId: input.orderId } : {}),
+          ...(input.startedBy ? { startedBy: input.startedBy } : {}),
+          startedAt: nowISO,
+          lastAgentActivityAt: nowISO,
+        };
+
+    if (current) {
+      transaction.update(conversationRef, { handoff });
+    } else {
+      // Conversación sin mensajes registrados todavía
+      const conversation: ConversationDocument = {
+        tenantId,
+        phone: sanitizePhone(phone),
+        orderIds: input.orderId ? [input.orderId] : [],
+        messageCount: 0,
+        lastMessagePreview: "",
+        lastDirection: "inbound",
+        lastMessageAt: nowISO,
+        handoff,
+        createdAt: nowISO,
+      };
+      transaction.set(conversationRef, conversation);
+    }
+
+    return handoff;
+  });
+};
+
+/**
+ * Devuelve la conversación al bot
+ */
+export const releaseHandoff = async (
+  tenantId: string,
+  phone: string,
+): Promise<void> => {
+  const conversationRef = getConversationRef(tenantId, phone);
+  const doc = await conversationRef.get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "No hay conversación con ese teléfono.");
+  }
+
+  await conversationRef.update({ handoff: FieldValue.delete() });
+  logger.info(`Conversación con ${phone} devuelta al bot`);
+};
+
+/**
+ * Handoff vigente de la conversación (null si el bot debe responder)
+ * Si venció por inactividad se libera. Ante un error, el bot sigue respondiendo
+ */
+export const getActiveHandoff = async (
+  tenantId: string,
+  phone: string,
+  now: Date = new Date(),
+): Promise<ConversationHandoff | null> => {
+  try {
+    const doc = await getConversationRef(tenantId, phone).get();
+    const handoff = doc.exists
+      ? (doc.data() as ConversationDocument).handoff
+      : undefined;
+
+    if (!handoff) {
+      return null;
+    }
+
+    if (isExpired(handoff, now)) {
+      await doc.ref.update({ handoff: FieldValue.delete() });
+      logger.info(
+        `Handoff de ${phone} vencido por inactividad: el bot retoma la conversación`,
+      );
+      return null;
+    }
+
+    return handoff;
+  } catch (error) {
+    logger.error(`Error al verificar handoff de ${phone}`, error);
+    return null;
+  }
+};
+
+/**
+ * Envía una respuesta del local al cliente y mantiene el handoff activo
+ */
+export const sendAgentReply = async (
+  tenant: Tenant,
+  phone: string,
+  text: string,
+  agentId?: string,
+): Promise<ConversationHandoff> => {
+  const body = text?.trim();
+
+  if (!body) {
+    throw new HttpError(400, "El mensaje no puede estar vacío.");
+  }
+
+  if (body.length > MAX_REPLY_LENGTH) {
+    throw new HttpError(
+      400,
+      `El mensaje no puede superar los ${MAX_REPLY_LENGTH} caracteres.`,
+    );
+  }
+
+  // Tomar la conversación antes de enviar para que el bot no se cruce
+  const handoff = await startHandoff(tenant.id, phone, {
+    reason: "agent",
+    startedBy: agentId,
+  });
+
+  try {
+    await sendMessage(phone, body, tenant, { sentBy: agentId });
+  } catch (error) {
+    throw new HttpError(
+      502,
+      `No se pudo enviar el mensaje: ${error instanceof Error ? error.message : "Error desconocido"}`,
+    );
+  }
+
+  return handoff;
+};
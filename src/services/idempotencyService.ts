@@ -0,0 +1,129 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import { logger } from "../utils/logger";
+
+/**
+ * Almacenamiento de claves de idempotencia con TTL por clave
+ * Se usa para deduplicar webhooks (Meta, Mercado Pago) entre reinicios
+ * y entre varias instancias del servidor
+ */
+export interface IdempotencyStore {
+  /**
+   * Registra la clave si no existe o ya expiró
+   * Devuelve false si la clave ya estaba registrada (duplicado)
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Libera una clave para permitir reprocesarla (ej: si el proceso falló)
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Almacenamiento en memoria (para desarrollo/testing)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private store = new Map<string, number>(); // key -> expiresAt
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.removeExpired(now);
+
+    const expiresAt = this.store.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.store.set(key, now + ttlMs);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  private removeExpired(now: number): void {
+    for (const [key, expiresAt] of this.store) {
+      if (expiresAt <= now) {
+        this.store.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Almacenamiento en Firestore (para producción)
+ * El claim es transaccional: solo una instancia gana la clave.
+ * El campo expireAt permite configurar una política TTL de Firestore
+ * para borrar los documentos vencidos automáticamente
+ */
+export class FirestoreIdempotencyStore implements IdempotencyStore {
+  private collectionName = "idempotency_keys";
+
+  private get collection() {
+    return getFirestore().collection(this.collectionName);
+  }
+
+  // Los IDs de documento no pueden contener "/"
+  private getDocId(key: string): string {
+    return encodeURIComponent(key);
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const docRef = this.collection.doc(this.getDocId(key));
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const now = Date.now();
+
+      if (doc.exists) {
+        const expireAt = doc.get("expireAt") as Timestamp | undefined;
+        if (expireAt && expireAt.toMillis() > now) {
+          return false;
+        }
+      }
+
+      transaction.set(docRef, {
+        key,
+        createdAt: new Date(now).toISOString(),
+        expireAt: Timestamp.fromMillis(now + ttlMs),
+      });
+      return true;
+    });
+  }
+
+  async release(key: string): Promise<void> {
+    try {
+      await this.collection.doc(this.getDocId(key)).delete();
+    } catch (error) {
+      logger.error(`Error al liberar clave de idempotencia ${key}`, error);
+    }
+  }
+}
+
+// Singleton para uso global
+let idempotencyStoreInstance: IdempotencyStore | null = null;
+
+/**
+ * Obtiene el store de idempotencia
+ * En producción usa Firestore, en tests usa memoria
+ */
+export const getIdempotencyStore = (): IdempotencyStore => {
+  if (!idempotencyStoreInstance) {
+    const useFirestore = process.env.NODE_ENV !== "test";
+    idempotencyStoreInstance = useFirestore
+      ? new FirestoreIdempotencyStore()
+      : new MemoryIdempotencyStore();
+    logger.info(
+      `IdempotencyStore inicializado con ${useFirestore ? "Firestore" : "Memory"} storage`,
+    );
+  }
+  return idempotencyStoreInstance;
+};
+
+/**
+ * Permite reemplazar el store (tests u otra implementación)
+ */
+export const setIdempotencyStore = (store: IdempotencyStore): void => {
+  idempotencyStoreInstance = store;
+};
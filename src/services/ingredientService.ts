@@ -2,6 +2,7 @@ import type {
   QueryDocumentSnapshot,
   DocumentReference,
   Query,
+  Transaction,
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
 import {
@@ -11,11 +12,18 @@ import {
   StockMovement,
 } from "../models/ingredient";
 import { HttpError } from "../utils/httpError";
+import { roundQuantity } from "../utils/units";
+import type { TransactionWrite } from "../utils/transaction";
 
 const INGREDIENTS_COLLECTION = "ingredients";
 const STOCK_MOVEMENTS_COLLECTION = "stockMovements";
 
-type IngredientDocument = Omit<Ingredient, "id">;
+type IngredientDocument = Omit<
+  Ingredient,
+  "id" | "reservedStock" | "availableStock"
+> & {
+  reservedStock?: number; // Sin valor en ingredientes sin reservas
+};
 type StockMovementDocument = Omit<StockMovement, "id">;
 
 const getCollection = (tenantId: string) =>
@@ -36,10 +44,19 @@ const getDocumentRef = (tenantId: string, id: string): DocumentReference => {
   return getCollection(tenantId).doc(id);
 };
 
-const mapSnapshotToIngredient = (doc: QueryDocumentSnapshot): Ingredient => ({
-  id: doc.id,
-  ...(doc.data() as IngredientDocument),
-});
+const mapToIngredient = (id: string, data: IngredientDocument): Ingredient => {
+  const reservedStock = data.reservedStock ?? 0;
+
+  return {
+    id,
+    ...data,
+    reservedStock,
+    availableStock: Math.max(roundQuantity(data.stock - reservedStock), 0),
+  };
+};
+
+const mapSnapshotToIngredient = (doc: QueryDocumentSnapshot): Ingredient =>
+  mapToIngredient(doc.id, doc.data() as IngredientDocument);
 
 export const listIngredients = async (
   tenantId: string,
@@ -59,10 +76,7 @@ export const getIngredientById = async (
     throw new HttpError(404, "El ingrediente solicitado no existe.");
   }
 
-  return {
-    id: doc.id,
-    ...(doc.data() as IngredientDocument),
-  };
+  return mapToIngredient(doc.id, doc.data() as IngredientDocument);
 };
 
 export const createIngredient = async (
@@ -74,15 +88,13 @@ export const createIngredient = async (
 
   const document: IngredientDocument = {
     ...payload,
+    reservedStock: 0,
     createdAt: new Date().toISOString(),
   };
 
   const docRef = await getCollection(payload.tenantId).add(document);
 
-  return {
-    id: docRef.id,
-    ...document,
-  };
+  return mapToIngredient(docRef.id, document);
 };
 
 export const updateIngredient = async (
@@ -101,13 +113,18 @@ export const updateIngredient = async (
     throw new HttpError(400, "No se recibieron cambios para actualizar.");
   }
 
-  await docRef.update({ ...payload });
+  // Las reservas solo las mueven los pedidos
+  const { reservedStock, ...changes } = payload as UpdateIngredientInput & {
+    reservedStock?: number;
+  };
+
+  await docRef.update({ ...changes });
   const updatedDoc = await docRef.get();
 
-  return {
-    id: updatedDoc.id,
-    ...(updatedDoc.data() as IngredientDocument),
-  };
+  return mapToIngredient(
+    updatedDoc.id,
+    updatedDoc.data() as IngredientDocument,
+  );
 };
 
 export const deleteIngredient = async (
@@ -124,6 +141,49 @@ export const deleteIngredient = async (
   await docRef.delete();
 };
 
+/**
+ * Stock resultante de un movimiento (el ajuste fija el valor)
+ */
+const applyStockMovement = (
+  current: number,
+  quantity: number,
+  type: StockMovement["type"],
+): number => {
+  switch (type) {
+    case "entrada":
+      return current + quantity;
+    case "salida":
+      return current - quantity;
+    case "ajuste":
+      return quantity;
+  }
+};
+
+/**
+ * Movimiento de stock listo para guardar (sin orderId vacío)
+ */
+const buildMovementDocument = (
+  tenantId: string,
+  ingredientId: string,
+  quantity: number,
+  type: StockMovement["type"],
+  reason: string,
+  orderId?: string,
+): StockMovementDocument => ({
+  tenantId,
+  ingredientId,
+  type,
+  quantity,
+  reason,
+  ...(orderId ? { orderId } : {}),
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Cambia el stock de un ingrediente y registra el movimiento
+ * Lectura, control de stock negativo y escrituras van en una transacción:
+ * si otro pedido modifica el ingrediente a la vez, Firestore la reintenta
+ */
 export const updateStock = async (
   tenantId: string,
   ingredientId: string,
@@ -133,55 +193,37 @@ export const updateStock = async (
   orderId?: string,
 ): Promise<Ingredient> => {
   const docRef = getDocumentRef(tenantId, ingredientId);
-  const doc = await docRef.get();
-
-  if (!doc.exists) {
-    throw new HttpError(404, "El ingrediente solicitado no existe.");
-  }
+  const movementRef = getMovementsCollection(tenantId).doc();
 
-  const currentData = doc.data() as IngredientDocument;
-  let newStock = currentData.stock;
+  return getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
 
-  switch (type) {
-    case "entrada":
-      newStock += quantity;
-      break;
-    case "salida":
-      newStock -= quantity;
-      break;
-    case "ajuste":
-      newStock = quantity;
-      break;
-  }
-
-  if (newStock < 0) {
-    throw new HttpError(400, `Stock insuficiente de ${currentData.name}.`);
-  }
-
-  await docRef.update({ stock: newStock });
+    if (!doc.exists) {
+      throw new HttpError(404, "El ingrediente solicitado no existe.");
+    }
 
-  // Registrar movimiento - solo incluir orderId si tiene valor
-  const movementDoc: StockMovementDocument = {
-    tenantId,
-    ingredientId,
-    type,
-    quantity,
-    reason,
-    createdAt: new Date().toISOString(),
-  };
+    const currentData = doc.data() as IngredientDocument;
+    const newStock = applyStockMovement(currentData.stock, quantity, type);
 
-  // Solo agregar orderId si tiene valor (evitar undefined en Firestore)
-  if (orderId) {
-    movementDoc.orderId = orderId;
-  }
+    if (newStock < 0) {
+      throw new HttpError(400, `Stock insuficiente de ${currentData.name}.`);
+    }
 
-  await getMovementsCollection(tenantId).add(movementDoc);
+    transaction.update(docRef, { stock: newStock });
+    transaction.set(
+      movementRef,
+      buildMovementDocument(
+        tenantId,
+        ingredientId,
+        quantity,
+        type,
+        reason,
+        orderId,
+      ),
+    );
 
-  const updatedDoc = await docRef.get();
-  return {
-    id: updatedDoc.id,
-    ...(updatedDoc.data() as IngredientDocument),
-  };
+    return mapToIngredient(doc.id, { ...currentData, stock: newStock });
+  });
 };
 
 export const getLowStockIngredients = async (
@@ -193,49 +235,226 @@ export const getLowStockIngredients = async (
   return ingredients.filter((ing) => ing.stock <= ing.minStock);
 };
 
-export const bulkUpdateStock = async (
+type StockQuantity = { ingredientId: string; quantity: number };
+
+type StockMovementInfo = {
+  type: "salida" | "entrada";
+  reason: string;
+  orderId?: string;
+};
+
+/**
+ * Cambios a guardar en un ingrediente (null = se omite)
+ */
+type IngredientChangeBuilder = (
+  ingredient: IngredientDocument,
+  quantity: number,
+) => Partial<IngredientDocument> | null;
+
+/**
+ * Lee los ingredientes y prepara sus cambios de stock dentro de una
+ * transacción. Las cantidades del mismo ingrediente se suman para no
+ * pisar una con otra
+ */
+const prepareIngredientsStock = async (
+  transaction: Transaction,
   tenantId: string,
-  updates: Array<{ ingredientId: string; quantity: number }>,
-  type: "salida" | "entrada",
-  reason: string,
-  orderId?: string,
-): Promise<void> => {
-  const db = getFirestore();
-  const batch = db.batch();
+  updates: StockQuantity[],
+  buildChanges: IngredientChangeBuilder,
+  movement?: StockMovementInfo,
+  ignoreMissing = false,
+): Promise<TransactionWrite> => {
+  const quantities = new Map<string, number>();
+  updates.forEach(({ ingredientId, quantity }) => {
+    quantities.set(
+      ingredientId,
+      (quantities.get(ingredientId) ?? 0) + quantity,
+    );
+  });
 
-  for (const update of updates) {
-    const docRef = getDocumentRef(tenantId, update.ingredientId);
-    const doc = await docRef.get();
+  if (quantities.size === 0) return () => {};
 
-    if (!doc.exists) {
-      throw new HttpError(404, `Ingrediente ${update.ingredientId} no existe.`);
-    }
+  const ingredientIds = [...quantities.keys()];
+  const docRefs = ingredientIds.map((id) => getDocumentRef(tenantId, id));
+  const docs = await transaction.getAll(...docRefs);
 
-    const currentData = doc.data() as IngredientDocument;
-    const newStock =
-      type === "salida"
-        ? currentData.stock - update.quantity
-        : currentData.stock + update.quantity;
+  const changes = docs.map((doc, index) => {
+    const ingredientId = ingredientIds[index];
 
-    if (newStock < 0) {
-      throw new HttpError(400, `Stock insuficiente de ${currentData.name}.`);
+    if (!doc.exists) {
+      if (ignoreMissing) return null;
+      throw new HttpError(404, `Ingrediente ${ingredientId} no existe.`);
     }
 
-    batch.update(docRef, { stock: newStock });
+    return buildChanges(
+      doc.data() as IngredientDocument,
+      quantities.get(ingredientId)!,
+    );
+  });
+
+  return () => {
+    docRefs.forEach((docRef, index) => {
+      const ingredientId = ingredientIds[index];
+      const change = changes[index];
+
+      if (!change) return;
+
+      transaction.update(docRef, change);
+
+      if (movement) {
+        transaction.set(
+          getMovementsCollection(tenantId).doc(),
+          buildMovementDocument(
+            tenantId,
+            ingredientId,
+            quantities.get(ingredientId)!,
+            movement.type,
+            movement.reason,
+            movement.orderId,
+          ),
+        );
+      }
+    });
+  };
+};
 
-    // Registrar movimiento
-    const movementRef = getMovementsCollection(tenantId).doc();
-    const movementDoc: StockMovementDocument = {
-      tenantId,
-      ingredientId: update.ingredientId,
-      type,
-      quantity: update.quantity,
-      reason,
-      orderId,
-      createdAt: new Date().toISOString(),
-    };
-    batch.set(movementRef, movementDoc);
+/**
+ * Stock después de un movimiento, validando que no quede negativo
+ */
+const getValidatedStock = (
+  ingredient: IngredientDocument,
+  quantity: number,
+  type: StockMovementInfo["type"],
+): number => {
+  const newStock = roundQuantity(
+    applyStockMovement(ingredient.stock, quantity, type),
+  );
+
+  if (newStock < 0) {
+    throw new HttpError(400, `Stock insuficiente de ${ingredient.name}.`);
   }
 
-  await batch.commit();
+  return newStock;
 };
+
+/**
+ * Reserva que queda después de liberar una cantidad (nunca negativa)
+ */
+const releaseQuantity = (
+  ingredient: IngredientDocument,
+  quantity: number,
+): number =>
+  Math.max(roundQuantity((ingredient.reservedStock ?? 0) - quantity), 0);
+
+/**
+ * Descuenta o devuelve stock de varios ingredientes dentro de una
+ * transacción. Falla si alguno no alcanza
+ */
+export const prepareStockMovement = async (
+  transaction: Transaction,
+  tenantId: string,
+  updates: StockQuantity[],
+  movement: StockMovementInfo,
+): Promise<TransactionWrite> =>
+  prepareIngredientsStock(
+    transaction,
+    tenantId,
+    updates,
+    (ingredient, quantity) => ({
+      stock: getValidatedStock(ingredient, quantity, movement.type),
+    }),
+    movement,
+  );
+
+/**
+ * Descuenta o devuelve stock de varios ingredientes (ej: un pedido)
+ * Todo o nada: si alguno no alcanza no se modifica ninguno
+ */
+export const bulkUpdateStock = async (
+  tenantId: string,
+  updates: StockQuantity[],
+  type: "salida" | "entrada",
+  reason: string,
+  orderId?: string,
+): Promise<void> =>
+  getFirestore().runTransaction(async (transaction) => {
+    const writeStock = await prepareStockMovement(
+      transaction,
+      tenantId,
+      updates,
+      { type, reason, orderId },
+    );
+    writeStock();
+  });
+
+/**
+ * Reserva stock para un pedido sin confirmar (no genera movimientos)
+ * Falla si algún ingrediente no tiene stock libre suficiente: lo reservado
+ * por otros pedidos no cuenta como disponible
+ */
+export const prepareStockReservation = async (
+  transaction: Transaction,
+  tenantId: string,
+  updates: StockQuantity[],
+): Promise<TransactionWrite> =>
+  prepareIngredientsStock(
+    transaction,
+    tenantId,
+    updates,
+    (ingredient, quantity) => {
+      const reservedStock = roundQuantity(
+        (ingredient.reservedStock ?? 0) + quantity,
+      );
+
+      if (reservedStock > ingredient.stock) {
+        throw new HttpError(
+          400,
+          `No alcanza el stock de ${ingredient.name} para este pedido.`,
+        );
+      }
+
+      return { reservedStock };
+    },
+  );
+
+/**
+ * Libera el stock reservado por un pedido (cancelado o vencido)
+ * Los ingredientes borrados desde la reserva se ignoran
+ */
+export const prepareReservedStockRelease = async (
+  transaction: Transaction,
+  tenantId: string,
+  updates: StockQuantity[],
+): Promise<TransactionWrite> =>
+  prepareIngredientsStock(
+    transaction,
+    tenantId,
+    updates,
+    (ingredient, quantity) => ({
+      reservedStock: releaseQuantity(ingredient, quantity),
+    }),
+    undefined,
+    true,
+  );
+
+/**
+ * Convierte la reserva de un pedido en una salida de stock real
+ * El disponible no cambia: baja el stock y baja lo reservado
+ */
+export const prepareReservedStockConsumption = async (
+  transaction: Transaction,
+  tenantId: string,
+  updates: StockQuantity[],
+  reason: string,
+  orderId: string,
+): Promise<TransactionWrite> =>
+  prepareIngredientsStock(
+    transaction,
+    tenantId,
+    updates,
+    (ingredient, quantity) => ({
+      stock: getValidatedStock(ingredient, quantity, "salida"),
+      reservedStock: releaseQuantity(ingredient, quantity),
+    }),
+    { type: "salida", reason, orderId },
+  );
@@ -220,6 +220,7 @@ const getValidAccessToken = async (tenant: Tenant): Promise<string> => {
 /**
  * Crea una preferencia de pago para Checkout Pro
  * Retorna la URL donde el cliente puede completar el pago
+ * expiresAt: vencimiento del pedido (por defecto, 24 horas)
  */
 export const createPaymentPreference = async (
   tenant: Tenant,
@@ -227,6 +228,7 @@ export const createPaymentPreference = async (
   items: PreferenceItem[],
   payerPhone: string,
   payerName?: string,
+  expiresAt?: string,
 ): Promise<CreatePreferenceResponse> => {
   try {
     const accessToken = await getValidAccessToken(tenant);
@@ -274,9 +276,9 @@ export const createPaymentPreference = async (
         statement_descriptor: tenant.name.substring(0, 22), // Descripción en el resumen de cuenta
         expires: true,
         expiration_date_from: new Date().toISOString(),
-        expiration_date_to: new Date(
-          Date.now() + 24 * 60 * 60 * 1000,
-        ).toISOString(), // 24 horas
+        expiration_date_to:
+          expiresAt ??
+          new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 horas
       },
     });
 
@@ -0,0 +1,179 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type {
+  MessageTemplate,
+  MessageTemplateKey,
+  MessageTemplatePreview,
+  PreviewMessageTemplateInput,
+} from "../models/messageTemplate";
+import type { Tenant } from "../models/tenant";
+import { HttpError } from "../utils/httpError";
+import {
+  MESSAGE_TEMPLATES,
+  getTemplateBody,
+  getTemplatePlaceholders,
+  isMessageTemplateKey,
+  renderTemplate,
+} from "../utils/messageTemplates";
+import { getTenantById } from "./tenantService";
+
+/**
+ * Mensajes personalizados del bot por tenant
+ * Se guardan en el documento del tenant (messageTemplates) para que el bot
+ * los use sin consultas extra; sin personalizar se usa el texto de fábrica
+ */
+
+const TENANTS_COLLECTION = "tenants";
+
+// Límite de Meta para el cuerpo de un mensaje de texto
+const MAX_TEMPLATE_LENGTH = 4096;
+
+const getTenantRef = (tenantId: string) =>
+  getFirestore().collection(TENANTS_COLLECTION).doc(tenantId);
+
+const parseTemplateKey = (key: string): MessageTemplateKey => {
+  if (!isMessageTemplateKey(key)) {
+    throw new HttpError(404, `No existe el mensaje "${key}".`);
+  }
+  return key;
+};
+
+/**
+ * Valida el texto: no vacío, dentro del límite y solo con variables
+ * conocidas para ese mensaje
+ */
+const validateTemplateBody = (key: MessageTemplateKey, body: unknown) => {
+  if (typeof body !== "string" || !body.trim()) {
+    throw new HttpError(400, "El mensaje no puede estar vacío.");
+  }
+
+  if (body.length > MAX_TEMPLATE_LENGTH) {
+    throw new HttpError(
+      400,
+      `El mensaje no puede superar los ${MAX_TEMPLATE_LENGTH} caracteres.`,
+    );
+  }
+
+  const allowed = Object.keys(MESSAGE_TEMPLATES[key].placeholders);
+  const unknown = getTemplatePlaceholders(body).filter(
+    (name) => !allowed.includes(name),
+  );
+
+  if (unknown.length > 0) {
+    throw new HttpError(
+      400,
+      `Variables desconocidas: ${unknown.join(", ")}. ` +
+        `Disponibles: ${allowed.join(", ")}.`,
+    );
+  }
+};
+
+const toMessageTemplate = (
+  tenant: Tenant,
+  key: MessageTemplateKey,
+): MessageTemplate => ({
+  ...MESSAGE_TEMPLATES[key],
+  body: getTemplateBody(tenant, key),
+  isCustom: tenant.messageTemplates?.[key] !== undefined,
+});
+
+export const listMessageTemplates = async (
+  tenantId: string,
+): Promise<MessageTemplate[]> => {
+  const tenant = await getTenantById(tenantId);
+
+  return (Object.keys(MESSAGE_TEMPLATES) as MessageTemplateKey[]).map((key) =>
+    toMessageTemplate(tenant, key),
+  );
+};
+
+export const getMessageTemplate = async (
+  tenantId: string,
+  templateKey: string,
+): Promise<MessageTemplate> => {
+  const key = parseTemplateKey(templateKey);
+  const tenant = await getTenantById(tenantId);
+
+  return toMessageTemplate(tenant, key);
+};
+
+/**
+ * Guarda el texto personalizado de un mensaje
+ */
+export const updateMessageTemplate = async (
+  tenantId: string,
+  templateKey: string,
+  body: unknown,
+): Promise<MessageTemplate> => {
+  const key = parseTemplateKey(templateKey);
+  validateTemplateBody(key, body);
+
+  const tenant = await getTenantById(tenantId);
+
+  await getTenantRef(tenantId).update({ [`messageTemplates.${key}`]: body });
+
+  return toMessageTemplate(
+    {
+      ...tenant,
+      messageTemplates: { ...tenant.messageTemplates, [key]: body as string },
+    },
+    key,
+  );
+};
+
+/**
+ * Vuelve al texto de fábrica
+ */
+export const resetMessageTemplate = async (
+  tenantId: string,
+  templateKey: string,
+): Promise<MessageTemplate> => {
+  const key = parseTemplateKey(templateKey);
+  const tenant = await getTenantById(tenantId);
+
+  if (tenant.messageTemplates?.[key] !== undefined) {
+    await getTenantRef(tenantId).update({
+      [`messageTemplates.${key}`]: FieldValue.delete(),
+    });
+  }
+
+  const messageTemplates = { ...tenant.messageTemplates };
+  delete messageTemplates[key];
+
+  return toMessageTemplate({ ...tenant, messageTemplates }, key);
+};
+
+/**
+ * Renderiza un mensaje con valores de ejemplo (o los recibidos)
+ * Si se envía body se prueba ese texto sin guardarlo
+ */
+export const previewMessageTemplate = async (
+  tenantId: string,
+  templateKey: string,
+  payload: PreviewMessageTemplateInput,
+): Promise<MessageTemplatePreview> => {
+  const key = parseTemplateKey(templateKey);
+
+  if (payload.body !== undefined) {
+    validateTemplateBody(key, payload.body);
+  }
+
+  if (
+    payload.variables !== undefined &&
+    (typeof payload.variables !== "object" || payload.variables === null)
+  ) {
+    throw new HttpError(400, "Las variables deben ser un objeto.");
+  }
+
+  const tenant = await getTenantById(tenantId);
+  const body = payload.body ?? getTemplateBody(tenant, key);
+
+  return {
+    key,
+    body,
+    rendered: renderTemplate(body, {
+      ...MESSAGE_TEMPLATES[key].placeholders,
+      ...payload.variables,
+    }),
+  };
+};
@@ -1,7 +1,18 @@
 import axios, { AxiosError } from "axios";
 import env from "../config/env";
 import { logger } from "../utils/logger";
+import { sanitizePhone } from "../utils/phone";
 import type { Tenant } from "../models/tenant";
+import type {
+  OutboundMessageContext,
+  OutboundMessageType,
+} from "../models/outboundMessage";
+import type { WhatsappTemplateMessage } from "../models/whatsappTemplate";
+import { recordOutboundMessage } from "./outboundMessageService";
+import {
+  isCustomerServiceWindowOpen,
+  recordConversationMessage,
+} from "./conversationService";
 
 /**
  * Servicio para interactuar con la API de WhatsApp Business (Meta Graph API)
@@ -19,6 +30,21 @@ interface MetaMessagePayload {
   };
 }
 
+interface MetaTemplatePayload {
+  messaging_product: "whatsapp";
+  recipient_type: "individual";
+  to: string;
+  type: "template";
+  template: {
+    name: string;
+    language: { code: string };
+    components?: Array<{
+      type: "body";
+      parameters: Array<{ type: "text"; text: string }>;
+    }>;
+  };
+}
+
 interface MetaErrorResponse {
   error?: {
     message: string;
@@ -65,10 +91,9 @@ const getGraphApiUrl = (phoneNumberId: string): string => {
 };
 
 /**
- * Maneja errores de axios y los convierte en mensajes legibles
- * @throws Error siempre (nunca retorna normalmente)
+ * Convierte errores de axios en errores legibles (y los loguea)
  */
-const handleMetaApiError = (error: unknown, context: string): never => {
+const buildMetaApiError = (error: unknown, context: string): Error => {
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<MetaErrorResponse>;
 
@@ -84,14 +109,14 @@ const handleMetaApiError = (error: unknown, context: string): never => {
           subcode: metaError.error_subcode,
           traceId: metaError.fbtrace_id,
         });
-        throw new Error(errorMsg);
+        return new Error(errorMsg);
       }
 
       logger.error(
         `Meta API HTTP Error (${status}): ${axiosError.message}`,
         axiosError,
       );
-      throw new Error(
+      return new Error(
         `Error de comunicación con WhatsApp API (${status}): ${axiosError.message}`,
       );
     }
@@ -99,19 +124,72 @@ const handleMetaApiError = (error: unknown, context: string): never => {
     // Error de request (red, timeout, etc.)
     if (axiosError.request) {
       logger.error(`Meta API Request Error: ${axiosError.message}`, axiosError);
-      throw new Error(
+      return new Error(
         `No se pudo conectar con WhatsApp API: ${axiosError.message}`,
       );
     }
 
     // Error en la configuración del request
     logger.error(`Meta API Config Error: ${axiosError.message}`, axiosError);
-    throw new Error(`Error de configuración: ${axiosError.message}`);
+    return new Error(`Error de configuración: ${axiosError.message}`);
   }
 
   // Error genérico
   logger.error(`${context}: Error desconocido`);
-  throw new Error(`Error inesperado en ${context}`);
+  return new Error(`Error inesperado en ${context}`);
+};
+
+/**
+ * Maneja errores de axios y los convierte en mensajes legibles
+ * onFailure recibe el mensaje de error antes de lanzarlo (para registrar el envío fallido)
+ * @throws Error siempre (nunca retorna normalmente)
+ */
+const handleMetaApiError = async (
+  error: unknown,
+  context: string,
+  onFailure?: (message: string) => Promise<void>,
+): Promise<never> => {
+  const apiError = buildMetaApiError(error, context);
+  await onFailure?.(apiError.message);
+  throw apiError;
+};
+
+/**
+ * Registra el mensaje saliente antes de devolver el envío, para que el
+ * webhook de estado lo encuentre (nunca lanza error)
+ * Los enviados también quedan en el historial de la conversación
+ */
+const trackOutboundMessage = async (
+  tenant: Tenant,
+  to: string,
+  type: OutboundMessageType,
+  body: string,
+  context: OutboundMessageContext | undefined,
+  result: { metaMessageId?: string; error?: string },
+): Promise<void> => {
+  const recipient = sanitizePhone(to);
+
+  await recordOutboundMessage({
+    tenantId: tenant.id,
+    recipient,
+    type,
+    body,
+    context,
+    ...result,
+  });
+
+  if (result.metaMessageId) {
+    void recordConversationMessage({
+      tenantId: tenant.id,
+      phone: recipient,
+      direction: "outbound",
+      type,
+      body,
+      metaMessageId: result.metaMessageId,
+      orderId: context?.orderId,
+      sentBy: context?.sentBy,
+    });
+  }
 };
 
 /**
@@ -120,6 +198,7 @@ const handleMetaApiError = (error: unknown, context: string): never => {
  * @param to - Número de teléfono del destinatario (con código de país, sin +)
  * @param text - Texto del mensaje a enviar
  * @param tenant - Objeto Tenant con las credenciales de Meta
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
  * @returns ID del mensaje enviado
  *
  * @example
@@ -129,13 +208,14 @@ export const sendMessage = async (
   to: string,
   text: string,
   tenant: Tenant,
+  context?: OutboundMessageContext,
 ): Promise<string> => {
   try {
     // Validar credenciales del tenant
     validateTenantCredentials(tenant);
 
     // Sanitizar número de teléfono (remover espacios, guiones, paréntesis)
-    const sanitizedPhone = to.replace(/[\s\-\(\)\+]/g, "");
+    const sanitizedPhone = sanitizePhone(to);
 
     // Preparar payload
     const payload: MetaMessagePayload = {
@@ -175,9 +255,17 @@ export const sendMessage = async (
       `Mensaje enviado exitosamente. ID: ${messageId}, Destinatario: ${sanitizedPhone}`,
     );
 
+    await trackOutboundMessage(tenant, to, "text", text, context, {
+      metaMessageId: messageId,
+    });
+
     return messageId;
   } catch (error) {
-    return handleMetaApiError(error, "sendMessage");
+    return handleMetaApiError(error, "sendMessage", (message) =>
+      trackOutboundMessage(tenant, to, "text", text, context, {
+        error: message,
+      }),
+    );
   }
 };
 
@@ -187,17 +275,19 @@ export const sendMessage = async (
  * @param to - Número de teléfono del destinatario
  * @param text - Texto del mensaje (debe incluir una URL)
  * @param tenant - Objeto Tenant con las credenciales de Meta
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
  * @returns ID del mensaje enviado
  */
 export const sendMessageWithPreview = async (
   to: string,
   text: string,
   tenant: Tenant,
+  context?: OutboundMessageContext,
 ): Promise<string> => {
   try {
     validateTenantCredentials(tenant);
 
-    const sanitizedPhone = to.replace(/[\s\-\(\)\+]/g, "");
+    const sanitizedPhone = sanitizePhone(to);
 
     const payload: MetaMessagePayload = {
       messaging_product: "whatsapp",
@@ -230,12 +320,130 @@ export const sendMessageWithPreview = async (
       `Mensaje con preview enviado. ID: ${messageId}, Destinatario: ${sanitizedPhone}`,
     );
 
+    await trackOutboundMessage(tenant, to, "text", text, context, {
+      metaMessageId: messageId,
+    });
+
     return messageId;
   } catch (error) {
-    return handleMetaApiError(error, "sendMessageWithPreview");
+    return handleMetaApiError(error, "sendMessageWithPreview", (message) =>
+      trackOutboundMessage(tenant, to, "text", text, context, {
+        error: message,
+      }),
+    );
   }
 };
 
+/**
+ * Envía una plantilla aprobada (HSM)
+ * Es el único tipo de mensaje que Meta acepta fuera de la ventana de 24 hs
+ *
+ * @param to - Número de teléfono del destinatario
+ * @param template - Nombre, idioma y parámetros del cuerpo (en orden)
+ * @param tenant - Objeto Tenant con las credenciales de Meta
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
+ * @returns ID del mensaje enviado
+ */
+export const sendTemplateMessage = async (
+  to: string,
+  template: WhatsappTemplateMessage,
+  tenant: Tenant,
+  context?: OutboundMessageContext,
+): Promise<string> => {
+  // En el historial queda el nombre de la plantilla con sus parámetros
+  const summary = `[Plantilla ${template.name}] ${template.parameters.join(" | ")}`;
+
+  try {
+    validateTenantCredentials(tenant);
+
+    const sanitizedPhone = sanitizePhone(to);
+
+    const payload: MetaTemplatePayload = {
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to: sanitizedPhone,
+      type: "template",
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        ...(template.parameters.length > 0
+          ? {
+              components: [
+                {
+                  type: "body",
+                  parameters: template.parameters.map((text) => ({
+                    type: "text",
+                    text,
+                  })),
+                },
+              ],
+            }
+          : {}),
+      },
+    };
+
+    const url = getGraphApiUrl(tenant.metaPhoneNumberId!);
+
+    const response = await axios.post<MetaMessageResponse>(url, payload, {
+      headers: {
+        Authorization: `Bearer ${tenant.metaAccessToken}`,
+        "Content-Type": "application/json",
+      },
+      timeout: 15000,
+    });
+
+    const messageId = response.data.messages[0]?.id;
+
+    if (!messageId) {
+      throw new Error("Meta API no devolvió un ID de mensaje válido");
+    }
+
+    logger.info(
+      `Plantilla ${template.name} enviada. ID: ${messageId}, Destinatario: ${sanitizedPhone}`,
+    );
+
+    await trackOutboundMessage(tenant, to, "template", summary, context, {
+      metaMessageId: messageId,
+    });
+
+    return messageId;
+  } catch (error) {
+    return handleMetaApiError(error, "sendTemplateMessage", (message) =>
+      trackOutboundMessage(tenant, to, "template", summary, context, {
+        error: message,
+      }),
+    );
+  }
+};
+
+/**
+ * Envía un texto libre si la ventana de 24 hs está abierta
+ * y si no, la plantilla equivalente
+ *
+ * @param to - Número de teléfono del destinatario
+ * @param text - Texto a enviar dentro de la ventana
+ * @param template - Plantilla a usar si la ventana está cerrada
+ * @param tenant - Objeto Tenant con las credenciales de Meta
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
+ * @returns ID del mensaje enviado
+ */
+export const sendMessageOrTemplate = async (
+  to: string,
+  text: string,
+  template: WhatsappTemplateMessage,
+  tenant: Tenant,
+  context?: OutboundMessageContext,
+): Promise<string> => {
+  if (await isCustomerServiceWindowOpen(tenant.id, to)) {
+    return sendMessage(to, text, tenant, context);
+  }
+
+  logger.info(
+    `Ventana de 24 hs cerrada para ${to}, se envía la plantilla ${template.name}`,
+  );
+  return sendTemplateMessage(to, template, tenant, context);
+};
+
 /**
  * Marca un mensaje como leído
  *
@@ -292,6 +500,7 @@ interface InteractiveButton {
  * @param tenant - Objeto Tenant con las credenciales de Meta
  * @param header - Texto opcional del encabezado
  * @param footer - Texto opcional del pie
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
  * @returns ID del mensaje enviado
  */
 export const sendInteractiveButtons = async (
@@ -301,6 +510,7 @@ export const sendInteractiveButtons = async (
   tenant: Tenant,
   header?: string,
   footer?: string,
+  context?: OutboundMessageContext,
 ): Promise<string> => {
   try {
     validateTenantCredentials(tenant);
@@ -309,7 +519,7 @@ export const sendInteractiveButtons = async (
       throw new Error("Los mensajes interactivos requieren entre 1 y 3 botones");
     }
 
-    const sanitizedPhone = to.replace(/[\s\-\(\)\+]/g, "");
+    const sanitizedPhone = sanitizePhone(to);
 
     const payload: Record<string, unknown> = {
       messaging_product: "whatsapp",
@@ -372,16 +582,24 @@ export const sendInteractiveButtons = async (
       `Mensaje interactivo enviado. ID: ${messageId}, Destinatario: ${sanitizedPhone}`,
     );
 
+    await trackOutboundMessage(tenant, to, "buttons", body, context, {
+      metaMessageId: messageId,
+    });
+
     return messageId;
   } catch (error) {
-    return handleMetaApiError(error, "sendInteractiveButtons");
+    return handleMetaApiError(error, "sendInteractiveButtons", (message) =>
+      trackOutboundMessage(tenant, to, "buttons", body, context, {
+        error: message,
+      }),
+    );
   }
 };
 
 /**
  * Interfaz para items de lista
  */
-interface ListItem {
+export interface ListItem {
   id: string;
   title: string;
   description?: string;
@@ -390,7 +608,7 @@ interface ListItem {
 /**
  * Interfaz para secciones de lista
  */
-interface ListSection {
+export interface ListSection {
   title: string;
   rows: ListItem[];
 }
@@ -406,6 +624,7 @@ interface ListSection {
  * @param tenant - Objeto Tenant con las credenciales de Meta
  * @param header - Texto opcional del encabezado
  * @param footer - Texto opcional del pie
+ * @param context - Pedido asociado al mensaje (opcional, para seguimiento)
  * @returns ID del mensaje enviado
  */
 export const sendInteractiveList = async (
@@ -416,11 +635,12 @@ export const sendInteractiveList = async (
   tenant: Tenant,
   header?: string,
   footer?: string,
+  context?: OutboundMessageContext,
 ): Promise<string> => {
   try {
     validateTenantCredentials(tenant);
 
-    const sanitizedPhone = to.replace(/[\s\-\(\)\+]/g, "");
+    const sanitizedPhone = sanitizePhone(to);
 
     const payload: Record<string, unknown> = {
       messaging_product: "whatsapp",
@@ -485,8 +705,65 @@ export const sendInteractiveList = async (
       `Mensaje de lista enviado. ID: ${messageId}, Destinatario: ${sanitizedPhone}`,
     );
 
+    await trackOutboundMessage(tenant, to, "list", body, context, {
+      metaMessageId: messageId,
+    });
+
     return messageId;
   } catch (error) {
-    return handleMetaApiError(error, "sendInteractiveList");
+    return handleMetaApiError(error, "sendInteractiveList", (message) =>
+      trackOutboundMessage(tenant, to, "list", body, context, {
+        error: message,
+      }),
+    );
+  }
+};
+
+/**
+ * Archivo recibido por WhatsApp (imagen, documento)
+ */
+export interface MediaDownload {
+  data: Buffer;
+  mimeType: string;
+}
+
+interface MetaMediaResponse {
+  url: string;
+  mime_type: string;
+}
+
+/**
+ * Descarga un archivo que envió un cliente (ej: comprobante de transferencia)
+ * Meta devuelve primero una URL temporal y después el contenido
+ *
+ * @param mediaId - ID del archivo recibido en el webhook
+ * @param tenant - Objeto Tenant con las credenciales de Meta
+ */
+export const downloadMedia = async (
+  mediaId: string,
+  tenant: Tenant,
+): Promise<MediaDownload> => {
+  try {
+    validateTenantCredentials(tenant);
+
+    const headers = { Authorization: `Bearer ${tenant.metaAccessToken}` };
+
+    const { data: media } = await axios.get<MetaMediaResponse>(
+      `https://graph.facebook.com/${env.metaApiVersion}/${mediaId}`,
+      { headers, timeout: 10000 },
+    );
+
+    const response = await axios.get<ArrayBuffer>(media.url, {
+      headers,
+      responseType: "arraybuffer",
+      timeout: 30000,
+    });
+
+    return {
+      data: Buffer.from(response.data),
+      mimeType: media.mime_type,
+    };
+  } catch (error) {
+    return handleMetaApiError(error, "downloadMedia");
   }
 };
@@ -1,7 +1,22 @@
 import { logger } from "../utils/logger";
 import type { Order, OrderStatus } from "../models/order";
-import { sendMessage } from "./metaService";
+import { sendMessage, sendMessageOrTemplate } from "./metaService";
 import { getTenantById } from "./tenantService";
+import type { Tenant } from "../models/tenant";
+import type { MarginAlert } from "../models/product";
+import { getBusinessDayConfig } from "../utils/businessDay";
+import { HttpError } from "../utils/httpError";
+import { getMapsUrl } from "../utils/geo";
+import {
+  getStatusTemplateKey,
+  renderMessage,
+} from "../utils/messageTemplates";
+import { buildTemplateMessage } from "../utils/whatsappTemplates";
+import type { WhatsappTemplateMessage } from "../models/whatsappTemplate";
+import {
+  clearOrderNotificationFailure,
+  getOutboundMessageById,
+} from "./outboundMessageService";
 
 /**
  * NOTA: Este servicio está parcialmente deshabilitado debido a la migración a Meta API.
@@ -9,69 +24,83 @@ import { getTenantById } from "./tenantService";
  * Este archivo se mantiene para referencia futura.
  */
 
-const STATUS_MESSAGES: Record<OrderStatus, (order: Order) => string> = {
-  pendiente_pago: (order) =>
-    `⏳ *Pedido #${order.id.slice(-6).toUpperCase()} esperando pago*\n\n` +
-    `Hola ${order.customerName}! Tu pedido está pendiente de pago.\n` +
-    `Una vez confirmado el pago, comenzaremos a prepararlo. 💳`,
-
-  pendiente: (order) =>
-    `📋 *Pedido #${order.id.slice(-6).toUpperCase()} recibido*\n\n` +
-    `Hola ${order.customerName}! Tu pedido está siendo revisado.\n` +
-    `Te avisaremos cuando sea confirmado. 🍔`,
-
-  confirmado: (order) =>
-    `✅ *Pedido #${order.id.slice(-6).toUpperCase()} confirmado*\n\n` +
-    `¡Buenas noticias, ${order.customerName}!\n` +
-    `Tu pedido ha sido confirmado y pronto comenzaremos a prepararlo. 👨‍🍳`,
-
-  en_preparacion: (order) =>
-    `👨‍🍳 *Pedido #${order.id.slice(-6).toUpperCase()} en preparación*\n\n` +
-    `${order.customerName}, ya estamos cocinando tu pedido.\n` +
-    `¡Pronto estará listo! 🔥`,
-
-  listo: (order) => {
-    if (order.orderType === "delivery") {
-      return (
-        `🎉 *Pedido #${order.id.slice(-6).toUpperCase()} listo*\n\n` +
-        `${order.customerName}, tu pedido está listo y esperando al repartidor.\n` +
-        `¡En breve saldrá para tu domicilio! 🏍️`
-      );
-    }
-    return (
-      `🎉 *Pedido #${order.id.slice(-6).toUpperCase()} listo para retirar*\n\n` +
-      `${order.customerName}, tu pedido está listo para retirar.\n` +
-      `¡Te esperamos en el local! 📍`
-    );
-  },
-
-  en_camino: (order) =>
-    `🏍️ *Pedido #${order.id.slice(-6).toUpperCase()} en camino*\n\n` +
-    `${order.customerName}, tu pedido ya salió.\n` +
-    `Dirección: ${order.deliveryAddress || "No especificada"}\n\n` +
-    `¡Estará llegando pronto! 📦`,
-
-  entregado: (order) => {
-    if (order.orderType === "pickup") {
-      return (
-        `🎊 *Pedido #${order.id.slice(-6).toUpperCase()} retirado*\n\n` +
-        `¡Gracias por tu compra, ${order.customerName}!\n` +
-        `Esperamos que disfrutes tu comida. 🍔\n\n` +
-        `¡Hasta la próxima! 👋`
-      );
-    }
-    return (
-      `🎊 *Pedido #${order.id.slice(-6).toUpperCase()} entregado*\n\n` +
-      `¡Gracias por tu compra, ${order.customerName}!\n` +
-      `Esperamos que disfrutes tu comida. 🍔\n\n` +
-      `¡Hasta la próxima! 👋`
-    );
-  },
+/**
+ * Formatea el horario de un pedido programado en la zona del tenant
+ * Ej: "sáb, 18/10, 20:30"
+ */
+const formatScheduledTime = (scheduledFor: string, tenant: Tenant): string =>
+  new Date(scheduledFor).toLocaleString("es-AR", {
+    timeZone: getBusinessDayConfig(tenant).timezone,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+/**
+ * Variables de los mensajes de estado (ver utils/messageTemplates)
+ */
+const getStatusMessageVariables = (order: Order) => ({
+  orderNumber: order.id.slice(-6).toUpperCase(),
+  customerName: order.customerName,
+  total: `$${order.total.toLocaleString("es-AR", { minimumFractionDigits: 0 })}`,
+  deliveryAddress: order.deliveryAddress || "No especificada",
+});
 
-  cancelado: (order) =>
-    `❌ *Pedido #${order.id.slice(-6).toUpperCase()} cancelado*\n\n` +
-    `${order.customerName}, lamentamos informarte que tu pedido fue cancelado.\n\n` +
-    `Si tienes alguna consulta, no dudes en escribirnos. 📞`,
+/**
+ * Estado del pedido para la plantilla de WhatsApp (una sola línea)
+ */
+const STATUS_TEMPLATE_LABELS: Record<OrderStatus, string> = {
+  pendiente_pago: "esperando pago",
+  pendiente: "recibido",
+  confirmado: "confirmado",
+  en_preparacion: "en preparación",
+  listo: "listo",
+  en_camino: "en camino",
+  entregado: "entregado",
+  cancelado: "cancelado",
+};
+
+const getStatusTemplateLabel = (order: Order, status: OrderStatus): string => {
+  if (order.orderType === "pickup") {
+    if (status === "listo") return "listo para retirar";
+    if (status === "entregado") return "retirado";
+  }
+  return STATUS_TEMPLATE_LABELS[status];
+};
+
+/**
+ * Texto del estado (personalizado o de fábrica) y plantilla aprobada
+ * para enviar fuera de la ventana de 24 hs
+ */
+const buildOrderStatusMessage = (
+  tenant: Tenant,
+  order: Order,
+  status: OrderStatus,
+): { message: string; template: WhatsappTemplateMessage } => {
+  let message = renderMessage(
+    tenant,
+    getStatusTemplateKey(status, order.orderType),
+    getStatusMessageVariables(order),
+  );
+
+  // Agregar invitación a redes sociales en el mensaje de entregado
+  if (status === "entregado" && tenant.instagramUsername) {
+    const igUsername = tenant.instagramUsername.replace(/^@/, ""); // Remover @ si lo tiene
+    message +=
+      `\n\n📸 *¡Compartí tu experiencia!*\n` +
+      `Etiquetanos en tu historia de Instagram:\n` +
+      `https://instagram.com/${igUsername}`;
+  }
+
+  const template = buildTemplateMessage(tenant, "orderStatus", {
+    ...getStatusMessageVariables(order),
+    status: getStatusTemplateLabel(order, status),
+  });
+
+  return { message, template };
 };
 
 /**
@@ -140,27 +169,21 @@ export const sendOrderStatusNotification = async (
       return false;
     }
 
-    const messageGenerator = STATUS_MESSAGES[newStatus];
-    if (!messageGenerator) {
-      logger.warn(`No hay mensaje configurado para el estado: ${newStatus}`);
-      return false;
-    }
-
-    // Crear orden temporal con el nuevo estado para generar el mensaje
-    const orderWithNewStatus = { ...order, status: newStatus };
-    let message = messageGenerator(orderWithNewStatus);
-
-    // Agregar invitación a redes sociales en el mensaje de entregado
-    if (newStatus === "entregado" && tenant.instagramUsername) {
-      const igUsername = tenant.instagramUsername.replace(/^@/, ""); // Remover @ si lo tiene
-      message +=
-        `\n\n📸 *¡Compartí tu experiencia!*\n` +
-        `Etiquetanos en tu historia de Instagram:\n` +
-        `https://instagram.com/${igUsername}`;
-    }
+    // Fuera de la ventana de 24 hs se envía la plantilla aprobada
+    const { message, template } = buildOrderStatusMessage(
+      tenant,
+      order,
+      newStatus,
+    );
 
     // Usar customerPhone directamente (sin formato @c.us)
-    await sendMessage(order.customerPhone, message, tenant);
+    await sendMessageOrTemplate(
+      order.customerPhone,
+      message,
+      template,
+      tenant,
+      { orderId: order.id, orderStatus: newStatus },
+    );
 
     logger.info(
       `Notificación enviada a ${order.customerPhone} - Pedido #${order.id.slice(-6)} -> ${newStatus}`,
@@ -246,7 +269,15 @@ export const sendNewOrderNotification = async (
       order.orderType === "delivery" ? "Delivery" : "Retiro";
 
     const itemsList = order.items
-      .map((item) => `• ${item.quantity}x ${item.productName}`)
+      .map((item) => {
+        const extras = (item.extras ?? [])
+          .map((e) => `\n   + ${e.quantity}x ${e.extraName}`)
+          .join("");
+        return `• ${item.quantity}x ${item.productName}${extras}`;
+      })
+      .concat(
+        (order.extras ?? []).map((e) => `• ${e.quantity}x ${e.extraName}`),
+      )
       .join("\n");
 
     const message =
@@ -257,12 +288,20 @@ export const sendNewOrderNotification = async (
       (order.deliveryAddress
         ? `📍 *Dirección:* ${order.deliveryAddress}\n`
         : "") +
+      (order.deliveryLocation
+        ? `🗺️ *Ubicación:* ${getMapsUrl(order.deliveryLocation)}\n`
+        : "") +
+      (order.scheduledFor
+        ? `🕐 *Programado:* ${formatScheduledTime(order.scheduledFor, tenant)}\n`
+        : "") +
       `💳 *Pago:* ${order.paymentMethod === "efectivo" ? "Efectivo" : "Transferencia"}\n\n` +
       `📝 *Productos:*\n${itemsList}\n\n` +
       `💰 *Total: ${formatPrice(order.total)}*\n\n` +
       `Ingresa al panel para confirmar el pedido.`;
 
-    await sendMessage(tenant.notificationPhone, message, tenant);
+    await sendMessage(tenant.notificationPhone, message, tenant, {
+      orderId: order.id,
+    });
 
     logger.info(
       `Notificación de nuevo pedido enviada a ${tenant.notificationPhone} - Pedido #${order.id.slice(-6)}`,
@@ -315,7 +354,9 @@ export const sendOrderIssueNotification = async (
       `El cliente ha reportado un problema con su pedido y necesita ser contactado.\n\n` +
       `Por favor, comunícate con el cliente lo antes posible.`;
 
-    await sendMessage(tenant.notificationPhone, message, tenant);
+    await sendMessage(tenant.notificationPhone, message, tenant, {
+      orderId: order.id,
+    });
 
     logger.info(
       `Notificación de problema enviada a ${tenant.notificationPhone} - Pedido #${order.id.slice(-6)}`,
@@ -365,7 +406,9 @@ export const sendContactRequestNotification = async (
       `El cliente desea comunicarse con el restaurante sobre su pedido.\n\n` +
       `Por favor, contacta al cliente.`;
 
-    await sendMessage(tenant.notificationPhone, message, tenant);
+    await sendMessage(tenant.notificationPhone, message, tenant, {
+      orderId: order.id,
+    });
 
     logger.info(
       `Notificación de contacto enviada a ${tenant.notificationPhone} - Pedido #${order.id.slice(-6)}`,
@@ -376,3 +419,241 @@ export const sendContactRequestNotification = async (
     return false;
   }
 };
+
+/**
+ * Avisa al restaurante que llegó un comprobante de transferencia para revisar
+ */
+export const sendPaymentReceiptNotification = async (
+  order: Order,
+): Promise<boolean> => {
+  try {
+    const tenant = await getTenantById(order.tenantId);
+
+    if (!tenant) {
+      logger.warn(
+        `No se encontró tenant ${order.tenantId} para enviar notificación de comprobante`,
+      );
+      return false;
+    }
+
+    if (!tenant.notificationPhone) {
+      logger.debug(
+        `Tenant ${tenant.name} no tiene teléfono de notificación configurado`,
+      );
+      return false;
+    }
+
+    if (!tenant.metaPhoneNumberId || !tenant.metaAccessToken) {
+      logger.warn(
+        `Tenant ${tenant.name} no tiene credenciales de Meta configuradas`,
+      );
+      return false;
+    }
+
+    const total = `$${order.total.toLocaleString("es-AR", { minimumFractionDigits: 0 })}`;
+
+    const message =
+      `🧾 *COMPROBANTE RECIBIDO - PEDIDO #${order.id.slice(-6).toUpperCase()}*\n\n` +
+      `👤 *Cliente:* ${order.customerName}\n` +
+      `📱 *Teléfono:* ${order.customerPhone}\n` +
+      `💰 *Total:* ${total}\n\n` +
+      `El cliente envió el comprobante de la transferencia.\n\n` +
+      `Ingresa al panel para verificarlo.`;
+
+    await sendMessage(tenant.notificationPhone, message, tenant, {
+      orderId: order.id,
+    });
+
+    logger.info(
+      `Notificación de comprobante enviada a ${tenant.notificationPhone} - Pedido #${order.id.slice(-6)}`,
+    );
+    return true;
+  } catch (error) {
+    logger.error(`Error al enviar notificación de comprobante al admin`, error);
+    return false;
+  }
+};
+
+/**
+ * Avisa al cliente si su comprobante de transferencia fue aprobado o rechazado
+ */
+export const sendPaymentReviewNotification = async (
+  order: Order,
+): Promise<boolean> => {
+  try {
+    const tenant = await getTenantById(order.tenantId);
+
+    if (!tenant) {
+      logger.warn(
+        `No se encontró tenant ${order.tenantId} para enviar notificación de pago`,
+      );
+      return false;
+    }
+
+    if (!tenant.metaPhoneNumberId || !tenant.metaAccessToken) {
+      logger.warn(
+        `Tenant ${tenant.name} no tiene credenciales de Meta configuradas`,
+      );
+      return false;
+    }
+
+    const orderNumber = order.id.slice(-6).toUpperCase();
+    const reason = order.paymentReceipt?.rejectionReason;
+
+    const message =
+      order.paymentStatus === "pagado"
+        ? `✅ *Pago del pedido #${orderNumber} verificado*\n\n` +
+          `¡Gracias, ${order.customerName}! Recibimos tu transferencia. 💳`
+        : `⚠️ *No pudimos verificar el pago del pedido #${orderNumber}*\n\n` +
+          (reason ? `Motivo: ${reason}\n\n` : "") +
+          `Por favor, revisá la transferencia y envianos el comprobante ` +
+          `nuevamente (foto o PDF) por este chat.`;
+
+    const template = buildTemplateMessage(
+      tenant,
+      order.paymentStatus === "pagado" ? "paymentApproved" : "paymentRejected",
+      { orderNumber },
+    );
+
+    await sendMessageOrTemplate(
+      order.customerPhone,
+      message,
+      template,
+      tenant,
+      { orderId: order.id },
+    );
+
+    logger.info(
+      `Resultado de verificación de pago enviado a ${order.customerPhone} - Pedido #${order.id.slice(-6)} -> ${order.paymentStatus}`,
+    );
+    return true;
+  } catch (error) {
+    logger.error(
+      `Error al enviar verificación de pago a ${order.customerPhone}`,
+      error,
+    );
+    return false;
+  }
+};
+
+/**
+ * Avisa al restaurante que un cambio de costo de un ingrediente dejó
+ * productos por debajo del margen mínimo configurado
+ */
+export const sendMarginAlertNotification = async (
+  tenantId: string,
+  ingredientName: string,
+  alerts: MarginAlert[],
+): Promise<boolean> => {
+  try {
+    const tenant = await getTenantById(tenantId);
+
+    if (!tenant.notificationPhone) {
+      logger.debug(
+        `Tenant ${tenant.name} no tiene teléfono de notificación configurado`,
+      );
+      return false;
+    }
+
+    if (!tenant.metaPhoneNumberId || !tenant.metaAccessToken) {
+      logger.warn(
+        `Tenant ${tenant.name} no tiene credenciales de Meta configuradas`,
+      );
+      return false;
+    }
+
+    const lines = alerts.map(
+      (alert) =>
+        `• *${alert.productName}*: margen ${alert.marginPercent}% ` +
+        `(costo $${alert.recipeCost} / precio $${alert.price})`,
+    );
+
+    const message =
+      `📉 *ALERTA DE MARGEN*\n\n` +
+      `Cambió el costo de *${ingredientName}* y estos productos quedaron ` +
+      `por debajo del margen mínimo (${alerts[0].minMarginPercent}%):\n\n` +
+      `${lines.join("\n")}\n\n` +
+      `Revisá los precios desde el panel.`;
+
+    await sendMessage(tenant.notificationPhone, message, tenant);
+
+    logger.info(
+      `Alerta de margen enviada a ${tenant.notificationPhone} (${alerts.length} productos)`,
+    );
+    return true;
+  } catch (error) {
+    logger.error(`Error al enviar alerta de margen al admin`, error);
+    return false;
+  }
+};
+
+/**
+ * Reintenta una notificación de un pedido que no le llegó al destinatario
+ * Las notificaciones de estado se reenvían como texto si la ventana de
+ * 24 hs está abierta y si no con la plantilla. El nuevo envío queda
+ * registrado como reintento del mensaje original
+ */
+export const retryOrderNotification = async (
+  order: Order,
+  messageId: string,
+): Promise<string> => {
+  const message = await getOutboundMessageById(order.tenantId, messageId);
+
+  if (message.orderId !== order.id) {
+    throw new HttpError(404, "El mensaje no pertenece a este pedido.");
+  }
+
+  if (message.status !== "failed") {
+    throw new HttpError(409, "Solo se pueden reintentar mensajes fallidos.");
+  }
+
+  // Sin estado no hay plantilla equivalente: solo se reenvía el texto
+  if (!message.orderStatus && message.type !== "text") {
+    throw new HttpError(400, "Solo se pueden reintentar mensajes de texto.");
+  }
+
+  const tenant = await getTenantById(order.tenantId);
+  const context = {
+    orderId: order.id,
+    orderStatus: message.orderStatus,
+    retryOf: message.id,
+  };
+
+  let newMessageId: string;
+  try {
+    if (message.orderStatus) {
+      const { message: text, template } = buildOrderStatusMessage(
+        tenant,
+        order,
+        message.orderStatus,
+      );
+      newMessageId = await sendMessageOrTemplate(
+        message.recipient,
+        message.type === "text" ? message.body : text,
+        template,
+        tenant,
+        context,
+      );
+    } else {
+      newMessageId = await sendMessage(
+        message.recipient,
+        message.body,
+        tenant,
+        context,
+      );
+    }
+  } catch (error) {
+    // El envío fallido quedó registrado en lugar del original
+    throw new HttpError(
+      502,
+      `No se pudo reenviar la notificación: ${error instanceof Error ? error.message : "Error desconocido"}`,
+    );
+  }
+
+  await clearOrderNotificationFailure(order.tenantId, order.id, message.id);
+
+  logger.info(
+    `Notificación reintentada a ${message.recipient} - Pedido #${order.id.slice(-6)}`,
+  );
+  return newMessageId;
+};
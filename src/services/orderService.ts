@@ -1,7 +1,9 @@
-import type {
-  QueryDocumentSnapshot,
-  DocumentReference,
-  Query,
+import {
+  FieldValue,
+  type QueryDocumentSnapshot,
+  type DocumentReference,
+  type Query,
+  type Transaction,
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
 import {
@@ -10,19 +12,67 @@ import {
   UpdateOrderInput,
   OrderStatus,
   OrderItem,
+  OrderExtra,
+  PaymentReceipt,
+  ReviewPaymentReceiptInput,
 } from "../models/order";
-import { bulkUpdateStock } from "./ingredientService";
-import { getProductById } from "./productService";
+import {
+  prepareReservedStockConsumption,
+  prepareReservedStockRelease,
+  prepareStockMovement,
+  prepareStockReservation,
+} from "./ingredientService";
+import {
+  calculateMakeableUnits,
+  getAddOnStockQuantity,
+  getIngredientsById,
+  getProductById,
+  getRecipeStockQuantity,
+  syncStockAvailability,
+  type IngredientsById,
+} from "./productService";
+import {
+  findLinkedExtra,
+  getExtraStockQuantity,
+  listExtras,
+} from "./extraService";
+import type { Extra } from "../models/extra";
 import {
   sendOrderStatusNotification,
   sendNewOrderNotification,
+  sendPaymentReceiptNotification,
+  sendPaymentReviewNotification,
 } from "./notificationService";
 import { HttpError } from "../utils/httpError";
 import { logger } from "../utils/logger";
-import { listTenants } from "./tenantService";
+import {
+  getTenantBusinessDayConfig,
+  getTenantById,
+  listTenants,
+} from "./tenantService";
+import {
+  assertScheduledSlotAvailable,
+  getScheduledSlotId,
+  getScheduleSettings,
+  isInKitchenWindow,
+  prepareScheduledSlotBooking,
+  prepareScheduledSlotRelease,
+} from "./scheduleService";
+import { findDeliveryQuote } from "./deliveryZoneService";
+import {
+  getCustomerIdFromPhone,
+  recordCustomerOrder,
+  revertCustomerOrder,
+} from "./customerService";
+import { getBusinessDayRange } from "../utils/businessDay";
+import { isValidGeoPoint } from "../utils/geo";
+import type { TransactionWrite } from "../utils/transaction";
 
 const ORDERS_COLLECTION = "orders";
 
+// Vencimiento del link de pago: el pedido se cancela y libera su stock
+export const PAYMENT_EXPIRATION_MS = 60 * 60 * 1000;
+
 type OrderDocument = Omit<Order, "id">;
 
 const getCollection = (tenantId: string) =>
@@ -43,12 +93,279 @@ const mapSnapshotToOrder = (doc: QueryDocumentSnapshot): Order => ({
 const calculateOrderTotals = (
   items: OrderItem[],
   deliveryCost: number = 0,
+  extras: OrderExtra[] = [],
 ): { subtotal: number; total: number } => {
-  const subtotal = items.reduce((sum, item) => sum + item.itemTotal, 0);
+  const itemsTotal = items.reduce((sum, item) => sum + item.itemTotal, 0);
+  const extrasTotal = extras.reduce((sum, extra) => sum + extra.totalPrice, 0);
+  const subtotal = itemsTotal + extrasTotal;
   const total = subtotal + deliveryCost;
   return { subtotal, total };
 };
 
+/**
+ * Calcula el envío del lado del servidor con las reglas de la zona
+ * (detectada por ubicación o elegida) y valida el pedido mínimo.
+ * Si no se puede determinar la zona, se respeta el costo recibido
+ */
+const applyDeliveryQuote = async (
+  payload: CreateOrderInput,
+): Promise<CreateOrderInput> => {
+  const { subtotal } = calculateOrderTotals(payload.items, 0, payload.extras);
+
+  const quote = await findDeliveryQuote(payload.tenantId, {
+    location: payload.deliveryLocation,
+    zoneId: payload.deliveryZoneId,
+    subtotal,
+  });
+
+  if (!quote) {
+    return payload;
+  }
+
+  if (!quote.meetsMinimumOrder) {
+    throw new HttpError(
+      400,
+      `El pedido mínimo para la zona ${quote.zoneName} es $${(quote.minimumOrderAmount ?? 0).toLocaleString("es-AR")}.`,
+    );
+  }
+
+  return {
+    ...payload,
+    deliveryZoneId: quote.zoneId,
+    deliveryZoneName: quote.zoneName,
+    deliveryCost: quote.cost,
+  };
+};
+
+type StockUpdate = { ingredientId: string; quantity: number };
+
+const addStockUpdate = (
+  stockUpdates: StockUpdate[],
+  ingredientId: string,
+  quantity: number,
+): void => {
+  const existingUpdate = stockUpdates.find(
+    (u) => u.ingredientId === ingredientId,
+  );
+
+  if (existingUpdate) {
+    existingUpdate.quantity += quantity;
+  } else {
+    stockUpdates.push({ ingredientId, quantity });
+  }
+};
+
+/**
+ * Suma el consumo de stock de una lista de extras
+ * Solo consumen stock los extras vinculados a un ingrediente (linkedProductId)
+ */
+const addExtrasStockUpdates = (
+  stockUpdates: StockUpdate[],
+  extras: OrderExtra[],
+  extrasById: Map<string, Extra>,
+  ingredients: IngredientsById,
+  multiplier: number,
+): void => {
+  for (const orderExtra of extras) {
+    const extra = extrasById.get(orderExtra.extraId);
+
+    if (!extra) {
+      logger.warn(
+        `Extra ${orderExtra.extraId} no encontrado, se omite su consumo de stock`,
+      );
+      continue;
+    }
+
+    if (!extra.linkedProductId || !extra.stockConsumption) {
+      continue;
+    }
+
+    const quantity = getExtraStockQuantity(
+      extra,
+      ingredients.get(extra.linkedProductId),
+    );
+
+    addStockUpdate(
+      stockUpdates,
+      extra.linkedProductId,
+      quantity * orderExtra.quantity * multiplier,
+    );
+  }
+};
+
+/**
+ * Calcula el consumo total de ingredientes de un pedido:
+ * receta de cada producto, ingredientes agregados y extras
+ * Se usa tanto para descontar como para devolver stock
+ */
+const calculateStockUpdates = async (
+  tenantId: string,
+  order: Pick<Order, "items" | "extras">,
+): Promise<StockUpdate[]> => {
+  const stockUpdates: StockUpdate[] = [];
+  const [ingredients, extras] = await Promise.all([
+    getIngredientsById(tenantId),
+    listExtras(tenantId),
+  ]);
+  const extrasById = new Map(extras.map((extra) => [extra.id, extra]));
+
+  for (const item of order.items) {
+    const product = await getProductById(tenantId, item.productId);
+
+    for (const recipeItem of product.ingredients) {
+      const quantity = getRecipeStockQuantity(
+        product,
+        recipeItem,
+        ingredients.get(recipeItem.ingredientId),
+      );
+
+      addStockUpdate(
+        stockUpdates,
+        recipeItem.ingredientId,
+        quantity * item.quantity,
+      );
+    }
+
+    // Ingredientes agregados: la cantidad de su extra vinculado o de la
+    // receta, convertida a la unidad de stock
+    for (const customization of item.customizations) {
+      if (customization.type !== "agregar") continue;
+
+      const quantity = getAddOnStockQuantity(
+        product,
+        customization.ingredientId,
+        ingredients.get(customization.ingredientId),
+        findLinkedExtra(extras, customization.ingredientId),
+      );
+
+      if (quantity <= 0) continue;
+
+      addStockUpdate(
+        stockUpdates,
+        customization.ingredientId,
+        quantity * item.quantity,
+      );
+    }
+
+    // Extras del producto (cantidad por unidad del producto)
+    addExtrasStockUpdates(
+      stockUpdates,
+      item.extras ?? [],
+      extrasById,
+      ingredients,
+      item.quantity,
+    );
+  }
+
+  // Extras generales del pedido
+  addExtrasStockUpdates(
+    stockUpdates,
+    order.extras ?? [],
+    extrasById,
+    ingredients,
+    1,
+  );
+
+  return stockUpdates;
+};
+
+/**
+ * Verifica que haya stock libre para preparar cada producto del pedido
+ * El consumo total (ingredientes compartidos) lo controla la reserva
+ */
+const assertOrderWithinStock = async (
+  tenantId: string,
+  order: Pick<Order, "items" | "extras">,
+): Promise<void> => {
+  const ingredients = await getIngredientsById(tenantId);
+
+  const quantities = new Map<string, number>();
+  order.items.forEach((item) => {
+    quantities.set(
+      item.productId,
+      (quantities.get(item.productId) ?? 0) + item.quantity,
+    );
+  });
+
+  for (const [productId, quantity] of quantities) {
+    const product = await getProductById(tenantId, productId);
+    const makeable = calculateMakeableUnits(product, ingredients);
+
+    if (quantity > makeable) {
+      throw new HttpError(
+        400,
+        makeable === 0
+          ? `${product.name} no está disponible en este momento.`
+          : `Solo podemos preparar ${makeable} ${product.name} en este momento.`,
+      );
+    }
+  }
+};
+
+/**
+ * Prepara, dentro de la transacción del cambio de estado, los cambios de
+ * stock del pedido: libera (cancelado) o descuenta (confirmado) la reserva
+ * Sin reserva (pedidos anteriores a las reservas o ya confirmados) y con
+ * moveUnreservedStock: confirmar descuenta el stock y cancelar un pedido
+ * confirmado lo devuelve
+ * Devuelve las escrituras y los ingredientes cuyo disponible cambia
+ */
+const prepareOrderStockChanges = async (
+  transaction: Transaction,
+  tenantId: string,
+  id: string,
+  order: OrderDocument,
+  status: OrderStatus | undefined,
+  moveUnreservedStock: boolean,
+): Promise<{ write: TransactionWrite; changedIngredientIds: string[] }> => {
+  const { reservedStock } = order;
+
+  if (reservedStock && status === "confirmado") {
+    return {
+      write: await prepareReservedStockConsumption(
+        transaction,
+        tenantId,
+        reservedStock,
+        `Pedido #${id}`,
+        id,
+      ),
+      changedIngredientIds: [],
+    };
+  }
+
+  if (reservedStock && status === "cancelado") {
+    return {
+      write: await prepareReservedStockRelease(
+        transaction,
+        tenantId,
+        reservedStock,
+      ),
+      changedIngredientIds: reservedStock.map((item) => item.ingredientId),
+    };
+  }
+
+  const movement =
+    status === "confirmado"
+      ? { type: "salida" as const, reason: `Pedido #${id}` }
+      : status === "cancelado" && order.status === "confirmado"
+        ? { type: "entrada" as const, reason: `Cancelación pedido #${id}` }
+        : null;
+
+  if (!moveUnreservedStock || reservedStock || !movement) {
+    return { write: () => {}, changedIngredientIds: [] };
+  }
+
+  const stockUpdates = await calculateStockUpdates(tenantId, order);
+
+  return {
+    write: await prepareStockMovement(transaction, tenantId, stockUpdates, {
+      ...movement,
+      orderId: id,
+    }),
+    changedIngredientIds: stockUpdates.map((update) => update.ingredientId),
+  };
+};
+
 // Listar todos los orders de todos los tenants (para admin)
 export const listAllOrders = async (): Promise<Order[]> => {
   const tenants = await listTenants();
@@ -149,22 +466,103 @@ export const getActiveOrdersByPhone = async (
   }
 };
 
+// Rango ISO que cubre los días comerciales del tenant (zona horaria + hora de corte)
+const getTenantDateRange = async (
+  tenantId: string,
+  startDate: string,
+  endDate: string,
+): Promise<{ startISO: string; endISO: string }> => {
+  const config = await getTenantBusinessDayConfig(tenantId);
+  return getBusinessDayRange(startDate, endDate, config);
+};
+
+// Un pedido programado pertenece al día de su franja, no al de su creación
+const getOrderBusinessTime = (order: Order): string =>
+  order.scheduledFor ?? order.createdAt;
+
+const sortByCreatedAtDesc = (orders: Order[]): Order[] =>
+  orders.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+
+// Pedidos cuyo horario (programado o de creación) cae dentro del rango ISO
+const listOrdersInRange = async (
+  tenantId: string,
+  startISO: string,
+  endISO: string,
+): Promise<Order[]> => {
+  const [createdSnapshot, scheduledSnapshot] = await Promise.all([
+    getCollection(tenantId)
+      .where("createdAt", ">=", startISO)
+      .where("createdAt", "<=", endISO)
+      .get(),
+    getCollection(tenantId)
+      .where("scheduledFor", ">=", startISO)
+      .where("scheduledFor", "<=", endISO)
+      .get(),
+  ]);
+
+  const ordersById = new Map<string, Order>();
+  for (const doc of [...createdSnapshot.docs, ...scheduledSnapshot.docs]) {
+    ordersById.set(doc.id, mapSnapshotToOrder(doc));
+  }
+
+  return [...ordersById.values()].filter((order) => {
+    const time = getOrderBusinessTime(order);
+    return time >= startISO && time <= endISO;
+  });
+};
+
+/**
+ * Historial de pedidos de un cliente, los más recientes primero
+ * Incluye pedidos anteriores a los perfiles (sin customerId) por teléfono
+ */
+export const listOrdersByCustomer = async (
+  tenantId: string,
+  customerId: string,
+): Promise<Order[]> => {
+  const collection = getCollection(tenantId);
+  const [byCustomerSnapshot, byPhoneSnapshot] = await Promise.all([
+    collection.where("customerId", "==", customerId).get(),
+    collection.where("customerPhone", "==", customerId).get(),
+  ]);
+
+  const ordersById = new Map<string, Order>();
+  for (const doc of [...byCustomerSnapshot.docs, ...byPhoneSnapshot.docs]) {
+    ordersById.set(doc.id, mapSnapshotToOrder(doc));
+  }
+
+  return [...ordersById.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+};
+
+/**
+ * Último pedido entregado al cliente (null si nunca recibió uno)
+ */
+export const getLastDeliveredOrderByPhone = async (
+  tenantId: string,
+  customerPhone: string,
+): Promise<Order | null> => {
+  const orders = await listOrdersByCustomer(
+    tenantId,
+    getCustomerIdFromPhone(customerPhone),
+  );
+  return orders.find((order) => order.status === "entregado") ?? null;
+};
+
 export const listOrdersByDate = async (
   tenantId: string,
   date: string,
 ): Promise<Order[]> => {
-  const startOfDay = new Date(`${date}T00:00:00.000Z`).toISOString();
-  const endOfDay = new Date(`${date}T23:59:59.999Z`).toISOString();
-
-  const snapshot = await getCollection(tenantId)
-    .where("createdAt", ">=", startOfDay)
-    .where("createdAt", "<=", endOfDay)
-    .orderBy("createdAt", "desc")
-    .get();
+  const { startISO, endISO } = await getTenantDateRange(tenantId, date, date);
+  const orders = await listOrdersInRange(tenantId, startISO, endISO);
 
-  return snapshot.docs.map(mapSnapshotToOrder);
+  return sortByCreatedAtDesc(orders);
 };
 
+// Cola activa de cocina: los pedidos programados aparecen recién
+// cuando falta el tiempo de preparación para su franja
 export const listPendingOrders = async (tenantId: string): Promise<Order[]> => {
   const statuses: OrderStatus[] = [
     "pendiente",
@@ -174,20 +572,51 @@ export const listPendingOrders = async (tenantId: string): Promise<Order[]> => {
     "en_camino",
   ];
 
-  const snapshot = await getCollection(tenantId)
-    .where("status", "in", statuses)
-    .orderBy("createdAt", "asc")
-    .get();
+  const [snapshot, tenant] = await Promise.all([
+    getCollection(tenantId)
+      .where("status", "in", statuses)
+      .orderBy("createdAt", "asc")
+      .get(),
+    getTenantById(tenantId),
+  ]);
+  const settings = getScheduleSettings(tenant);
+  const now = new Date();
 
-  return snapshot.docs.map(mapSnapshotToOrder);
+  return snapshot.docs
+    .map(mapSnapshotToOrder)
+    .filter((order) => isInKitchenWindow(order, settings, now));
+};
+
+// Pedidos programados que todavía no entraron a la cola de cocina
+export const listUpcomingScheduledOrders = async (
+  tenantId: string,
+): Promise<Order[]> => {
+  const excludedStatuses: OrderStatus[] = ["entregado", "cancelado"];
+  const now = new Date();
+
+  const [snapshot, tenant] = await Promise.all([
+    getCollection(tenantId)
+      .where("scheduledFor", ">=", now.toISOString())
+      .orderBy("scheduledFor", "asc")
+      .get(),
+    getTenantById(tenantId),
+  ]);
+  const settings = getScheduleSettings(tenant);
+
+  return snapshot.docs
+    .map(mapSnapshotToOrder)
+    .filter(
+      (order) =>
+        !excludedStatuses.includes(order.status) &&
+        !isInKitchenWindow(order, settings, now),
+    );
 };
 
 export const getPendingOrdersByDate = async (
   tenantId: string,
   date: string,
 ): Promise<Order[]> => {
-  const startOfDay = new Date(`${date}T00:00:00.000Z`).toISOString();
-  const endOfDay = new Date(`${date}T23:59:59.999Z`).toISOString();
+  const { startISO, endISO } = await getTenantDateRange(tenantId, date, date);
 
   // Estados que NO deben mostrarse en la lista de pendientes
   const excludedStatuses: OrderStatus[] = [
@@ -196,16 +625,35 @@ export const getPendingOrdersByDate = async (
     "pendiente_pago",
   ];
 
+  // Los pedidos programados para otro día no cuentan para este cierre
+  const orders = await listOrdersInRange(tenantId, startISO, endISO);
+
+  // Filtrar los pedidos que NO están en estados excluidos
+  return sortByCreatedAtDesc(orders).filter(
+    (order) => !excludedStatuses.includes(order.status),
+  );
+};
+
+/**
+ * Pedidos esperando el pago cuyo link ya venció
+ * Query simple + filtrado en memoria para no requerir un índice compuesto
+ */
+export const getExpiredPaymentOrders = async (
+  tenantId: string,
+  now: Date = new Date(),
+): Promise<Order[]> => {
   const snapshot = await getCollection(tenantId)
-    .where("createdAt", ">=", startOfDay)
-    .where("createdAt", "<=", endOfDay)
-    .orderBy("createdAt", "desc")
+    .where("status", "==", "pendiente_pago")
     .get();
+  const nowISO = now.toISOString();
 
-  // Filtrar los pedidos que NO están en estados excluidos
   return snapshot.docs
     .map(mapSnapshotToOrder)
-    .filter((order) => !excludedStatuses.includes(order.status));
+    .filter(
+      (order) =>
+        order.paymentExpiresAt !== undefined &&
+        order.paymentExpiresAt <= nowISO,
+    );
 };
 
 // Listar pedidos por repartidor en una fecha específica
@@ -214,17 +662,12 @@ export const listOrdersByDeliveryId = async (
   deliveryId: string,
   date: string,
 ): Promise<Order[]> => {
-  const startOfDay = new Date(`${date}T00:00:00.000Z`).toISOString();
-  const endOfDay = new Date(`${date}T23:59:59.999Z`).toISOString();
+  const { startISO, endISO } = await getTenantDateRange(tenantId, date, date);
+  const orders = await listOrdersInRange(tenantId, startISO, endISO);
 
-  const snapshot = await getCollection(tenantId)
-    .where("deliveryId", "==", deliveryId)
-    .where("createdAt", ">=", startOfDay)
-    .where("createdAt", "<=", endOfDay)
-    .orderBy("createdAt", "desc")
-    .get();
-
-  return snapshot.docs.map(mapSnapshotToOrder);
+  return sortByCreatedAtDesc(
+    orders.filter((order) => order.deliveryId === deliveryId),
+  );
 };
 
 // Estadísticas de rendición por repartidor
@@ -272,9 +715,10 @@ export const getAllDeliverySettlements = async (
   tenantId: string,
   date: string,
 ): Promise<DeliverySettlement[]> => {
-  // Usar hora local de Argentina (UTC-3)
-  const startOfDay = new Date(`${date}T00:00:00.000-03:00`);
-  const endOfDay = new Date(`${date}T23:59:59.999-03:00`);
+  // Día comercial según la zona horaria y hora de corte del tenant
+  const range = await getTenantDateRange(tenantId, date, date);
+  const startOfDay = new Date(range.startISO);
+  const endOfDay = new Date(range.endISO);
 
   // Obtener todos los pedidos (sin filtros compuestos para evitar índice)
   const snapshot = await getCollection(tenantId).get();
@@ -288,7 +732,7 @@ export const getAllDeliverySettlements = async (
     .map(mapSnapshotToOrder)
     .filter((order) => {
       if (order.orderType !== "delivery") return false;
-      const orderDate = new Date(order.createdAt);
+      const orderDate = new Date(getOrderBusinessTime(order));
       const inRange = orderDate >= startOfDay && orderDate <= endOfDay;
       if (order.deliveryId) {
         console.log(
@@ -426,9 +870,39 @@ export const createOrder = async (
     );
   }
 
+  if (
+    payload.deliveryLocation !== undefined &&
+    !isValidGeoPoint(payload.deliveryLocation)
+  ) {
+    throw new HttpError(
+      400,
+      "La ubicación de entrega debe tener lat/lng válidos.",
+    );
+  }
+
+  await assertOrderWithinStock(payload.tenantId, payload);
+
+  if (payload.orderType === "delivery") {
+    payload = await applyDeliveryQuote(payload);
+  }
+
+  const tenant = payload.scheduledFor
+    ? await getTenantById(payload.tenantId)
+    : undefined;
+
+  if (tenant && payload.scheduledFor) {
+    await assertScheduledSlotAvailable(tenant, payload.scheduledFor);
+    // Normalizar a UTC para poder comparar y consultar por rango
+    payload = {
+      ...payload,
+      scheduledFor: new Date(payload.scheduledFor).toISOString(),
+    };
+  }
+
   const { subtotal, total } = calculateOrderTotals(
     payload.items,
     payload.deliveryCost,
+    payload.extras,
   );
 
   const now = new Date().toISOString();
@@ -438,6 +912,7 @@ export const createOrder = async (
 
   const document: OrderDocument = {
     ...restPayload,
+    customerId: getCustomerIdFromPhone(payload.customerPhone),
     status: initialStatus || "pendiente",
     subtotal,
     total,
@@ -445,13 +920,65 @@ export const createOrder = async (
     updatedAt: now,
   };
 
-  const docRef = await getCollection(payload.tenantId).add(document);
+  if (document.status === "pendiente_pago") {
+    document.paymentExpiresAt = new Date(
+      Date.now() + PAYMENT_EXPIRATION_MS,
+    ).toISOString();
+  }
+
+  // Reservar el stock hasta que el pedido se confirme o se cancele
+  const reservedStock = await calculateStockUpdates(payload.tenantId, payload);
+
+  if (reservedStock.length > 0) {
+    document.reservedStock = reservedStock;
+  }
+
+  if (tenant && document.scheduledFor) {
+    document.scheduledSlotId = getScheduledSlotId(
+      tenant,
+      document.scheduledFor,
+    );
+  }
+
+  // La reserva de stock, el lugar en la franja y el pedido se guardan
+  // juntos: o quedan todos o ninguno
+  const docRef = getCollection(payload.tenantId).doc();
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const writeReservation = await prepareStockReservation(
+      transaction,
+      payload.tenantId,
+      reservedStock,
+    );
+    const writeSlotBooking =
+      tenant && document.scheduledFor
+        ? await prepareScheduledSlotBooking(
+            transaction,
+            tenant,
+            document.scheduledFor,
+          )
+        : () => {};
+
+    writeReservation();
+    writeSlotBooking();
+    transaction.set(docRef, document);
+  });
+
+  if (reservedStock.length > 0) {
+    void syncStockAvailability(
+      payload.tenantId,
+      reservedStock.map((item) => item.ingredientId),
+    );
+  }
 
   const createdOrder: Order = {
     id: docRef.id,
     ...document,
   };
 
+  // Actualizar el perfil del cliente (no bloqueante, nunca falla)
+  void recordCustomerOrder(createdOrder);
+
   // Enviar notificación de nuevo pedido al admin (no bloqueante)
   // Solo notificar si el pedido NO está pendiente de pago
   if (initialStatus !== "pendiente_pago") {
@@ -465,42 +992,96 @@ export const createOrder = async (
   return createdOrder;
 };
 
-export const updateOrder = async (
+/**
+ * Actualiza el pedido y su stock en una sola transacción: si dos cambios
+ * de estado compiten, el segundo se reintenta con el pedido ya cambiado
+ * y no vuelve a liberar ni descontar el stock
+ */
+const applyOrderUpdate = async (
   tenantId: string,
   id: string,
   payload: UpdateOrderInput,
+  moveUnreservedStock = false,
 ): Promise<Order> => {
   const docRef = getDocumentRef(tenantId, id);
-  const doc = await docRef.get();
 
-  if (!doc.exists) {
-    throw new HttpError(404, "El pedido solicitado no existe.");
-  }
+  const { previousStatus, changedIngredientIds } =
+    await getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
 
-  const currentData = doc.data() as OrderDocument;
-  const previousStatus = currentData.status;
+      if (!doc.exists) {
+        throw new HttpError(404, "El pedido solicitado no existe.");
+      }
 
-  // Validar transiciones de estado
-  if (payload.status) {
-    validateStatusTransition(currentData.status, payload.status);
-  }
+      const currentData = doc.data() as OrderDocument;
 
-  const updateData: Partial<OrderDocument> = {
-    ...payload,
-    updatedAt: new Date().toISOString(),
-  };
+      // Validar transiciones de estado
+      if (payload.status) {
+        validateStatusTransition(currentData.status, payload.status);
+      }
 
-  // Recalcular total si cambia el costo de envío
-  if (payload.deliveryCost !== undefined) {
-    const { subtotal, total } = calculateOrderTotals(
-      currentData.items,
-      payload.deliveryCost,
-    );
-    updateData.subtotal = subtotal;
-    updateData.total = total;
+      const updateData: Record<string, unknown> = {
+        ...payload,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const stockChanges = await prepareOrderStockChanges(
+        transaction,
+        tenantId,
+        id,
+        currentData,
+        payload.status,
+        moveUnreservedStock,
+      );
+
+      // Cancelado: libera su lugar en el contador de su franja con la
+      // configuración actual, el que leen la disponibilidad y la reserva
+      // (los pedidos anteriores a los contadores quedaron contados ahí)
+      const writeSlotRelease =
+        payload.status === "cancelado" && currentData.scheduledFor
+          ? await prepareScheduledSlotRelease(
+              transaction,
+              tenantId,
+              getScheduledSlotId(
+                await getTenantById(tenantId),
+                currentData.scheduledFor,
+              ),
+            )
+          : () => {};
+
+      // Cancelado o confirmado: la reserva ya se liberó o se descontó
+      if (
+        currentData.reservedStock &&
+        (payload.status === "cancelado" || payload.status === "confirmado")
+      ) {
+        updateData.reservedStock = FieldValue.delete();
+      }
+
+      // Recalcular total si cambia el costo de envío
+      if (payload.deliveryCost !== undefined) {
+        const { subtotal, total } = calculateOrderTotals(
+          currentData.items,
+          payload.deliveryCost,
+          currentData.extras,
+        );
+        updateData.subtotal = subtotal;
+        updateData.total = total;
+      }
+
+      stockChanges.write();
+      writeSlotRelease();
+      transaction.update(docRef, updateData);
+
+      return {
+        previousStatus: currentData.status,
+        changedIngredientIds: stockChanges.changedIngredientIds,
+      };
+    });
+
+  if (changedIngredientIds.length > 0) {
+    void syncStockAvailability(tenantId, changedIngredientIds);
   }
 
-  await docRef.update(updateData);
   const updatedDoc = await docRef.get();
 
   const updatedOrder: Order = {
@@ -508,6 +1089,10 @@ export const updateOrder = async (
     ...(updatedDoc.data() as OrderDocument),
   };
 
+  if (payload.status === "cancelado" && previousStatus !== "cancelado") {
+    void revertCustomerOrder(updatedOrder);
+  }
+
   // Enviar notificación si cambió el estado
   if (payload.status && payload.status !== previousStatus) {
     // No bloquear la respuesta por la notificación
@@ -519,6 +1104,12 @@ export const updateOrder = async (
   return updatedOrder;
 };
 
+export const updateOrder = async (
+  tenantId: string,
+  id: string,
+  payload: UpdateOrderInput,
+): Promise<Order> => applyOrderUpdate(tenantId, id, payload);
+
 export const confirmOrder = async (
   tenantId: string,
   id: string,
@@ -529,53 +1120,9 @@ export const confirmOrder = async (
     throw new HttpError(400, "Solo se pueden confirmar pedidos pendientes.");
   }
 
-  // Descontar stock de ingredientes
-  const stockUpdates: Array<{ ingredientId: string; quantity: number }> = [];
-
-  for (const item of order.items) {
-    const product = await getProductById(tenantId, item.productId);
-
-    for (const ingredient of product.ingredients) {
-      const existingUpdate = stockUpdates.find(
-        (u) => u.ingredientId === ingredient.ingredientId,
-      );
-
-      const totalQuantity = ingredient.quantity * item.quantity;
-
-      if (existingUpdate) {
-        existingUpdate.quantity += totalQuantity;
-      } else {
-        stockUpdates.push({
-          ingredientId: ingredient.ingredientId,
-          quantity: totalQuantity,
-        });
-      }
-    }
-
-    // Procesar personalizaciones (extras agregan más ingredientes)
-    for (const customization of item.customizations) {
-      if (customization.type === "agregar") {
-        const existingUpdate = stockUpdates.find(
-          (u) => u.ingredientId === customization.ingredientId,
-        );
-
-        if (existingUpdate) {
-          existingUpdate.quantity += item.quantity;
-        } else {
-          stockUpdates.push({
-            ingredientId: customization.ingredientId,
-            quantity: item.quantity,
-          });
-        }
-      }
-    }
-  }
-
-  // Actualizar stock
-  await bulkUpdateStock(tenantId, stockUpdates, "salida", `Pedido #${id}`, id);
-
-  // Actualizar estado del pedido
-  return updateOrder(tenantId, id, { status: "confirmado" });
+  // La reserva se convierte en salida de stock junto con el cambio de
+  // estado (pedidos sin reserva: se descuenta el stock en ese momento)
+  return applyOrderUpdate(tenantId, id, { status: "confirmado" }, true);
 };
 
 export const cancelOrder = async (
@@ -596,60 +1143,135 @@ export const cancelOrder = async (
     );
   }
 
-  // Si el pedido estaba confirmado, devolver stock
-  if (order.status === "confirmado") {
-    const stockUpdates: Array<{ ingredientId: string; quantity: number }> = [];
+  // Se libera la reserva o, si el pedido estaba confirmado, se devuelve
+  // el stock junto con el cambio de estado
+  return applyOrderUpdate(tenantId, id, { status: "cancelado" }, true);
+};
 
-    for (const item of order.items) {
-      const product = await getProductById(tenantId, item.productId);
+/**
+ * Pedido activo del cliente que espera un comprobante de transferencia
+ * (pago pendiente o comprobante anterior rechazado). null si no hay
+ * Los pedidos con link de Mercado Pago se confirman por su webhook
+ */
+export const findOrderAwaitingPaymentReceipt = async (
+  tenantId: string,
+  customerPhone: string,
+): Promise<Order | null> => {
+  const orders = await getActiveOrdersByPhone(tenantId, customerPhone);
+
+  return (
+    orders.find(
+      (order) =>
+        order.paymentMethod === "transferencia" &&
+        order.status !== "pendiente_pago" &&
+        (order.paymentStatus === "pendiente" ||
+          order.paymentStatus === "rechazado"),
+    ) ?? null
+  );
+};
 
-      for (const ingredient of product.ingredients) {
-        const existingUpdate = stockUpdates.find(
-          (u) => u.ingredientId === ingredient.ingredientId,
-        );
-        const totalQuantity = ingredient.quantity * item.quantity;
-
-        if (existingUpdate) {
-          existingUpdate.quantity += totalQuantity;
-        } else {
-          stockUpdates.push({
-            ingredientId: ingredient.ingredientId,
-            quantity: totalQuantity,
-          });
-        }
-      }
+/**
+ * Adjunta un comprobante de transferencia y deja el pago en verificación
+ * Avisa al local para que lo revise
+ */
+export const attachPaymentReceipt = async (
+  tenantId: string,
+  id: string,
+  receipt: Omit<PaymentReceipt, "receivedAt">,
+): Promise<Order> => {
+  const order = await getOrderById(tenantId, id);
 
-      // Procesar personalizaciones (extras que se agregaron)
-      for (const customization of item.customizations) {
-        if (customization.type === "agregar") {
-          const existingUpdate = stockUpdates.find(
-            (u) => u.ingredientId === customization.ingredientId,
-          );
-          if (existingUpdate) {
-            existingUpdate.quantity += item.quantity;
-          } else {
-            stockUpdates.push({
-              ingredientId: customization.ingredientId,
-              quantity: item.quantity,
-            });
-          }
-        }
-      }
-    }
+  if (order.paymentMethod !== "transferencia") {
+    throw new HttpError(400, "El pedido no se paga por transferencia.");
+  }
 
-    // Devolver stock
-    if (stockUpdates.length > 0) {
-      await bulkUpdateStock(
-        tenantId,
-        stockUpdates,
-        "entrada",
-        `Cancelación pedido #${id}`,
-        id,
-      );
-    }
+  if (order.status === "cancelado") {
+    throw new HttpError(400, "El pedido está cancelado.");
   }
 
-  return updateOrder(tenantId, id, { status: "cancelado" });
+  if (order.paymentStatus === "pagado") {
+    throw new HttpError(409, "El pago del pedido ya fue aprobado.");
+  }
+
+  const paymentReceipt: PaymentReceipt = {
+    ...receipt,
+    receivedAt: new Date().toISOString(),
+  };
+
+  await getDocumentRef(tenantId, id).update({
+    paymentStatus: "en_verificacion",
+    paymentReceipt,
+    updatedAt: paymentReceipt.receivedAt,
+  });
+
+  const updatedOrder: Order = {
+    ...order,
+    paymentStatus: "en_verificacion",
+    paymentReceipt,
+    updatedAt: paymentReceipt.receivedAt,
+  };
+
+  // No bloquear por la notificación al local
+  sendPaymentReceiptNotification(updatedOrder).catch(() => {
+    // El error ya se loguea en el servicio de notificaciones
+  });
+
+  return updatedOrder;
+};
+
+/**
+ * Aprueba o rechaza el comprobante de transferencia de un pedido
+ * y le avisa al cliente. Al rechazarlo puede enviar otro comprobante
+ */
+export const reviewPaymentReceipt = async (
+  tenantId: string,
+  id: string,
+  payload: ReviewPaymentReceiptInput,
+  reviewedBy?: string,
+): Promise<Order> => {
+  if (typeof payload.approved !== "boolean") {
+    throw new HttpError(400, "Indicá si el comprobante se aprueba o rechaza.");
+  }
+
+  const order = await getOrderById(tenantId, id);
+
+  if (order.paymentStatus !== "en_verificacion" || !order.paymentReceipt) {
+    throw new HttpError(
+      409,
+      "El pedido no tiene un comprobante pendiente de verificación.",
+    );
+  }
+
+  const now = new Date().toISOString();
+  const rejectionReason = payload.rejectionReason?.trim();
+
+  const paymentReceipt: PaymentReceipt = {
+    ...order.paymentReceipt,
+    reviewedAt: now,
+    ...(reviewedBy ? { reviewedBy } : {}),
+    ...(!payload.approved && rejectionReason ? { rejectionReason } : {}),
+  };
+
+  const paymentStatus = payload.approved ? "pagado" : "rechazado";
+
+  await getDocumentRef(tenantId, id).update({
+    paymentStatus,
+    paymentReceipt,
+    updatedAt: now,
+  });
+
+  const updatedOrder: Order = {
+    ...order,
+    paymentStatus,
+    paymentReceipt,
+    updatedAt: now,
+  };
+
+  sendPaymentReviewNotification(updatedOrder).catch(() => {
+    // El error ya se loguea en el servicio de notificaciones
+  });
+
+  return updatedOrder;
 };
 
 const validateStatusTransition = (
@@ -675,28 +1297,32 @@ const validateStatusTransition = (
   }
 };
 
-export const getOrderStats = async (
+// Listar pedidos de los días comerciales entre dos fechas (inclusive, YYYY-MM-DD)
+export const listOrdersByDateRange = async (
   tenantId: string,
   startDate: string,
   endDate: string,
-): Promise<{
+): Promise<Order[]> => {
+  const { startISO, endISO } = await getTenantDateRange(
+    tenantId,
+    startDate,
+    endDate,
+  );
+
+  return listOrdersInRange(tenantId, startISO, endISO);
+};
+
+export interface OrderStats {
   totalOrders: number;
   totalSales: number;
   totalCash: number;
   totalTransfer: number;
   totalDeliveryCost: number;
   cancelledOrders: number;
-}> => {
-  const startISO = new Date(`${startDate}T00:00:00.000Z`).toISOString();
-  const endISO = new Date(`${endDate}T23:59:59.999Z`).toISOString();
-
-  const snapshot = await getCollection(tenantId)
-    .where("createdAt", ">=", startISO)
-    .where("createdAt", "<=", endISO)
-    .get();
-
-  const orders = snapshot.docs.map(mapSnapshotToOrder);
+}
 
+// Calcula las estadísticas de venta de una lista de pedidos (solo entregados)
+export const calculateOrderStats = (orders: Order[]): OrderStats => {
   const completedOrders = orders.filter((o) => o.status === "entregado");
   const cancelledOrders = orders.filter((o) => o.status === "cancelado");
 
@@ -721,3 +1347,12 @@ export const getOrderStats = async (
     cancelledOrders: cancelledOrders.length,
   };
 };
+
+export const getOrderStats = async (
+  tenantId: string,
+  startDate: string,
+  endDate: string,
+): Promise<OrderStats> => {
+  const orders = await listOrdersByDateRange(tenantId, startDate, endDate);
+  return calculateOrderStats(orders);
+};
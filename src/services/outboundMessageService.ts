@@ -0,0 +1,343 @@
+import type {
+  DocumentReference,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type {
+  OrderNotificationFailure,
+  OutboundMessage,
+  OutboundMessageContext,
+  OutboundMessageStatus,
+  OutboundMessageType,
+} from "../models/outboundMessage";
+import type { Order } from "../models/order";
+import { HttpError } from "../utils/httpError";
+import { logger } from "../utils/logger";
+
+/**
+ * Registro de mensajes salientes de WhatsApp
+ * Cada envío de metaService queda guardado con su ID de Meta (que también
+ * es el ID del documento), y los webhooks de estado
+ * (sent/delivered/read/failed) actualizan el registro.
+ * Si falla una notificación de un pedido, queda marcada en el pedido
+ */
+
+const OUTBOUND_MESSAGES_COLLECTION = "outboundMessages";
+const ORDERS_COLLECTION = "orders";
+
+// Los webhooks de estado pueden llegar desordenados: nunca retroceder
+const STATUS_RANK: Record<OutboundMessageStatus, number> = {
+  sent: 0,
+  delivered: 1,
+  read: 2,
+  failed: 3,
+};
+
+type OutboundMessageDocument = Omit<OutboundMessage, "id">;
+
+// Estado que llegó por webhook antes de que el envío quedara registrado
+type PendingStatusDocument = Pick<
+  OutboundMessageDocument,
+  "tenantId" | "metaMessageId" | "status" | "error" | "updatedAt"
+>;
+
+export interface RecordOutboundMessageInput {
+  tenantId: string;
+  recipient: string;
+  type: OutboundMessageType;
+  body: string;
+  context?: OutboundMessageContext;
+  metaMessageId?: string;
+  error?: string; // Presente si la API de Meta rechazó el envío
+}
+
+export interface MessageStatusUpdate {
+  metaMessageId: string;
+  status: OutboundMessageStatus;
+  timestamp: string; // ISO
+  error?: string;
+}
+
+const getCollection = (tenantId: string) =>
+  getFirestore().collection(
+    `tenants/${tenantId}/${OUTBOUND_MESSAGES_COLLECTION}`,
+  );
+
+const isHigherStatus = (
+  status: OutboundMessageStatus,
+  current: OutboundMessageStatus,
+): boolean => STATUS_RANK[status] > STATUS_RANK[current];
+
+const mapSnapshotToMessage = (doc: QueryDocumentSnapshot): OutboundMessage => ({
+  id: doc.id,
+  ...(doc.data() as OutboundMessageDocument),
+});
+
+/**
+ * Agrega la notificación fallida al pedido (una sola vez por mensaje)
+ * Si es un reintento fallido, reemplaza a la falla que reintentaba
+ */
+const addOrderNotificationFailure = async (
+  tenantId: string,
+  orderId: string,
+  failure: OrderNotificationFailure,
+  retryOf?: string,
+): Promise<void> => {
+  const orderRef = getFirestore()
+    .collection(`tenants/${tenantId}/${ORDERS_COLLECTION}`)
+    .doc(orderId);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(orderRef);
+    if (!doc.exists) return;
+
+    const order = doc.data() as Omit<Order, "id">;
+    const failures = order.notificationFailures ?? [];
+
+    if (failures.some((f) => f.messageId === failure.messageId)) return;
+
+    transaction.update(orderRef, {
+      notificationFailures: [
+        ...failures.filter((f) => f.messageId !== retryOf),
+        failure,
+      ],
+    });
+  });
+
+  logger.warn(
+    `Notificación del pedido #${orderId.slice(-6)} no entregada a ${failure.recipient}: ${failure.error ?? "sin detalle"}`,
+  );
+};
+
+/**
+ * Quita una notificación fallida del pedido (ej: después de reintentarla)
+ */
+export const clearOrderNotificationFailure = async (
+  tenantId: string,
+  orderId: string,
+  messageId: string,
+): Promise<void> => {
+  const orderRef = getFirestore()
+    .collection(`tenants/${tenantId}/${ORDERS_COLLECTION}`)
+    .doc(orderId);
+
+  await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(orderRef);
+    if (!doc.exists) return;
+
+    const order = doc.data() as Omit<Order, "id">;
+    const failures = order.notificationFailures ?? [];
+
+    transaction.update(orderRef, {
+      notificationFailures: failures.filter((f) => f.messageId !== messageId),
+    });
+  });
+};
+
+const buildFailure = (message: OutboundMessage): OrderNotificationFailure => ({
+  messageId: message.id,
+  recipient: message.recipient,
+  ...(message.orderStatus ? { orderStatus: message.orderStatus } : {}),
+  ...(message.error ? { error: message.error } : {}),
+  failedAt: message.updatedAt,
+});
+
+/**
+ * Guarda el mensaje usando su ID de Meta como ID del documento
+ * Si el webhook de estado llegó antes, conserva el estado más avanzado
+ */
+const saveSentMessage = async (
+  metaMessageId: string,
+  document: OutboundMessageDocument,
+): Promise<OutboundMessage> => {
+  const docRef = getCollection(document.tenantId).doc(metaMessageId);
+
+  return getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+    const pending = doc.exists
+      ? (doc.data() as PendingStatusDocument)
+      : undefined;
+
+    const saved: OutboundMessageDocument =
+      pending && isHigherStatus(pending.status, document.status)
+        ? {
+            ...document,
+            status: pending.status,
+            ...(pending.error ? { error: pending.error } : {}),
+            updatedAt: pending.updatedAt,
+          }
+        : document;
+
+    transaction.set(docRef, saved);
+    return { id: docRef.id, ...saved };
+  });
+};
+
+/**
+ * Registra un mensaje saliente
+ * Nunca lanza error: un problema al registrar no debe cortar el envío
+ */
+export const recordOutboundMessage = async (
+  input: RecordOutboundMessageInput,
+): Promise<OutboundMessage | null> => {
+  try {
+    const now = new Date().toISOString();
+    const document: OutboundMessageDocument = {
+      tenantId: input.tenantId,
+      recipient: input.recipient,
+      type: input.type,
+      body: input.body,
+      status: input.error ? "failed" : "sent",
+      ...(input.context?.orderId ? { orderId: input.context.orderId } : {}),
+      ...(input.context?.orderStatus
+        ? { orderStatus: input.context.orderStatus }
+        : {}),
+      ...(input.metaMessageId ? { metaMessageId: input.metaMessageId } : {}),
+      ...(input.error ? { error: input.error } : {}),
+      ...(input.context?.retryOf ? { retryOf: input.context.retryOf } : {}),
+      ...(input.context?.sentBy ? { sentBy: input.context.sentBy } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Los envíos rechazados por Meta no tienen ID ni webhooks de estado
+    const message: OutboundMessage = input.metaMessageId
+      ? await saveSentMessage(input.metaMessageId, document)
+      : {
+          id: (await getCollection(input.tenantId).add(document)).id,
+          ...document,
+        };
+
+    if (message.status === "failed" && message.orderId) {
+      await addOrderNotificationFailure(
+        message.tenantId,
+        message.orderId,
+        buildFailure(message),
+        message.retryOf,
+      );
+    }
+
+    return message;
+  } catch (error) {
+    logger.error(
+      `Error al registrar mensaje saliente a ${input.recipient}`,
+      error,
+    );
+    return null;
+  }
+};
+
+/**
+ * Busca el registro de un mensaje por su ID de Meta
+ * Los registros anteriores usaban un ID generado: se buscan por el campo
+ */
+const findMessageRef = async (
+  tenantId: string,
+  metaMessageId: string,
+): Promise<DocumentReference> => {
+  const snapshot = await getCollection(tenantId)
+    .where("metaMessageId", "==", metaMessageId)
+    .limit(1)
+    .get();
+
+  return snapshot.docs[0]?.ref ?? getCollection(tenantId).doc(metaMessageId);
+};
+
+/**
+ * Aplica una actualización de estado recibida por webhook
+ * Si el envío todavía no quedó registrado, guarda el estado para que el
+ * registro lo tome. Devuelve false en ese caso
+ */
+export const applyMessageStatusUpdate = async (
+  tenantId: string,
+  update: MessageStatusUpdate,
+): Promise<boolean> => {
+  const docRef = await findMessageRef(tenantId, update.metaMessageId);
+
+  const result = await getFirestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef);
+    const current = doc.exists
+      ? (doc.data() as Partial<OutboundMessageDocument>)
+      : undefined;
+
+    if (current?.status && !isHigherStatus(update.status, current.status)) {
+      logger.debug(
+        `Estado ${update.status} ignorado para mensaje ${update.metaMessageId} (actual: ${current.status})`,
+      );
+      return { found: current.recipient !== undefined };
+    }
+
+    const changes: Partial<OutboundMessageDocument> = {
+      status: update.status,
+      ...(update.error ? { error: update.error } : {}),
+      updatedAt: update.timestamp,
+    };
+
+    // Todavía sin registro (o solo con un estado anterior): el estado
+    // queda guardado hasta que se registre el envío
+    if (current?.recipient === undefined) {
+      const pending: PendingStatusDocument = {
+        tenantId,
+        metaMessageId: update.metaMessageId,
+        status: update.status,
+        ...(update.error ? { error: update.error } : {}),
+        updatedAt: update.timestamp,
+      };
+      transaction.set(docRef, pending);
+      return { found: false };
+    }
+
+    transaction.update(docRef, changes);
+    return {
+      found: true,
+      updated: {
+        id: docRef.id,
+        ...(current as OutboundMessageDocument),
+        ...changes,
+      },
+    };
+  });
+
+  if (result.updated?.status === "failed" && result.updated.orderId) {
+    await addOrderNotificationFailure(
+      tenantId,
+      result.updated.orderId,
+      buildFailure(result.updated),
+      result.updated.retryOf,
+    );
+  }
+
+  return result.found;
+};
+
+export const getOutboundMessageById = async (
+  tenantId: string,
+  id: string,
+): Promise<OutboundMessage> => {
+  const doc = await getCollection(tenantId).doc(id).get();
+
+  if (!doc.exists) {
+    throw new HttpError(404, "El mensaje solicitado no existe.");
+  }
+
+  return {
+    id: doc.id,
+    ...(doc.data() as OutboundMessageDocument),
+  };
+};
+
+/**
+ * Mensajes enviados en relación a un pedido (más antiguos primero)
+ */
+export const listOrderMessages = async (
+  tenantId: string,
+  orderId: string,
+): Promise<OutboundMessage[]> => {
+  const snapshot = await getCollection(tenantId)
+    .where("orderId", "==", orderId)
+    .get();
+
+  return snapshot.docs
+    .map(mapSnapshotToMessage)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,86 @@
+import { logger } from "../utils/logger";
+import { listTenants } from "./tenantService";
+import { cancelOrder, getExpiredPaymentOrders } from "./orderService";
+
+/**
+ * Servicio de vencimiento de pagos
+ * Cancela los pedidos que siguen esperando el pago cuando vence el link
+ * de Mercado Pago, para liberar el stock que tenían reservado
+ */
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000; // Cada 5 minutos
+
+/**
+ * Cancela los pedidos con el pago vencido de un tenant
+ * Devuelve cuántos pedidos se cancelaron
+ */
+export const expireUnpaidOrdersForTenant = async (
+  tenantId: string,
+): Promise<number> => {
+  const expiredOrders = await getExpiredPaymentOrders(tenantId);
+  let cancelled = 0;
+
+  for (const order of expiredOrders) {
+    try {
+      await cancelOrder(tenantId, order.id);
+      cancelled++;
+      logger.info(
+        `Pedido #${order.id.slice(-6)} cancelado por pago vencido (tenant: ${tenantId})`,
+      );
+    } catch (error) {
+      logger.warn(
+        `No se pudo cancelar el pedido vencido #${order.id.slice(-6)}: ${error instanceof Error ? error.message : "Error desconocido"}`,
+      );
+    }
+  }
+
+  return cancelled;
+};
+
+/**
+ * Revisa los pagos vencidos de todos los tenants activos
+ */
+export const runPaymentExpiration = async (): Promise<void> => {
+  try {
+    const tenants = await listTenants();
+    const activeTenants = tenants.filter((t) => t.isActive);
+
+    const results = await Promise.allSettled(
+      activeTenants.map((tenant) => expireUnpaidOrdersForTenant(tenant.id)),
+    );
+
+    const cancelled = results.reduce(
+      (sum, r) => sum + (r.status === "fulfilled" ? r.value : 0),
+      0,
+    );
+
+    if (cancelled > 0) {
+      logger.info(`Vencimiento de pagos: ${cancelled} pedidos cancelados`);
+    }
+  } catch (error) {
+    logger.error("Error en runPaymentExpiration", error);
+  }
+};
+
+let paymentExpirationInterval: NodeJS.Timeout | null = null;
+
+export const startPaymentExpirationScheduler = (): void => {
+  if (paymentExpirationInterval) {
+    logger.warn("Scheduler de vencimiento de pagos ya está corriendo");
+    return;
+  }
+
+  logger.info("Iniciando scheduler de vencimiento de pagos");
+
+  paymentExpirationInterval = setInterval(() => {
+    void runPaymentExpiration();
+  }, CHECK_INTERVAL_MS);
+};
+
+export const stopPaymentExpirationScheduler = (): void => {
+  if (paymentExpirationInterval) {
+    clearInterval(paymentExpirationInterval);
+    paymentExpirationInterval = null;
+    logger.info("Scheduler de vencimiento de pagos detenido");
+  }
+};
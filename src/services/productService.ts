@@ -1,6 +1,7 @@
-import type {
-  QueryDocumentSnapshot,
-  DocumentReference,
+import {
+  FieldValue,
+  type QueryDocumentSnapshot,
+  type DocumentReference,
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
 import {
@@ -8,8 +9,18 @@ import {
   CreateProductInput,
   UpdateProductInput,
   ProductCategory,
+  ProductIngredient,
 } from "../models/product";
 import { HttpError } from "../utils/httpError";
+import type { Ingredient } from "../models/ingredient";
+import type { Extra } from "../models/extra";
+import {
+  areUnitsCompatible,
+  convertQuantity,
+  parseUnit,
+} from "../utils/units";
+import { listIngredients } from "./ingredientService";
+import { getExtraStockQuantity } from "./extraService";
 import { getTenantById } from "./tenantService";
 import {
   addProductToCatalog,
@@ -22,8 +33,13 @@ import { logger } from "../utils/logger";
 
 const PRODUCTS_COLLECTION = "products";
 
+// Margen para errores de punto flotante al dividir stock por receta
+const STOCK_EPSILON = 1e-9;
+
 type ProductDocument = Omit<Product, "id">;
 
+export type IngredientsById = Map<string, Ingredient>;
+
 const getCollection = (tenantId: string) =>
   getFirestore().collection(`tenants/${tenantId}/${PRODUCTS_COLLECTION}`);
 
@@ -92,6 +108,156 @@ export const getProductById = async (
   };
 };
 
+/**
+ * Ingredientes del tenant indexados por ID
+ */
+export const getIngredientsById = async (
+  tenantId: string,
+): Promise<IngredientsById> =>
+  new Map(
+    (await listIngredients(tenantId)).map((ingredient) => [
+      ingredient.id,
+      ingredient,
+    ]),
+  );
+
+/**
+ * Cantidad de la receta expresada en la unidad de stock del ingrediente
+ */
+export const getRecipeStockQuantity = (
+  product: Product,
+  recipeItem: ProductIngredient,
+  ingredient: Ingredient | undefined,
+): number => {
+  const recipeUnit = parseUnit(recipeItem.unit);
+
+  // Recetas sin unidad reconocible: se asume la unidad del stock
+  if (!ingredient || !recipeUnit) {
+    return recipeItem.quantity;
+  }
+
+  if (!areUnitsCompatible(recipeUnit, ingredient.unit)) {
+    throw new HttpError(
+      400,
+      `La receta de ${product.name} usa ${recipeUnit} para ${ingredient.name}, ` +
+        `pero su stock está en ${ingredient.unit}.`,
+    );
+  }
+
+  return convertQuantity(recipeItem.quantity, recipeUnit, ingredient.unit);
+};
+
+/**
+ * Stock que consume un ingrediente agregado a una unidad del producto:
+ * el consumo declarado en su extra vinculado o, si no tiene, una porción
+ * igual a la de la receta. 0 si no hay ninguna cantidad definida
+ */
+export const getAddOnStockQuantity = (
+  product: Product | undefined,
+  ingredientId: string,
+  ingredient: Ingredient | undefined,
+  linkedExtra: Extra | undefined,
+): number => {
+  if (linkedExtra?.stockConsumption) {
+    return getExtraStockQuantity(linkedExtra, ingredient);
+  }
+
+  const recipeItem = product?.ingredients.find(
+    (item) => item.ingredientId === ingredientId,
+  );
+
+  return product && recipeItem
+    ? getRecipeStockQuantity(product, recipeItem, ingredient)
+    : 0;
+};
+
+/**
+ * Cuántas unidades del producto se pueden preparar con el stock actual
+ * Solo cuenta el stock libre (sin reservar por otros pedidos)
+ * Infinity si ningún ingrediente de la receta limita (ej: sin receta)
+ */
+export const calculateMakeableUnits = (
+  product: Product,
+  ingredients: IngredientsById,
+): number =>
+  product.ingredients.reduce((units, recipeItem) => {
+    const ingredient = ingredients.get(recipeItem.ingredientId);
+
+    // Ingrediente borrado: el pedido no se podría confirmar
+    if (!ingredient) return 0;
+
+    let quantity: number;
+    try {
+      quantity = getRecipeStockQuantity(product, recipeItem, ingredient);
+    } catch {
+      // Unidades incompatibles: lo informa confirmOrder al descontar
+      return units;
+    }
+
+    if (quantity <= 0) return units;
+
+    const makeable = Math.floor(
+      ingredient.availableStock / quantity + STOCK_EPSILON,
+    );
+    return Math.min(units, makeable);
+  }, Infinity);
+
+/**
+ * Nueva disponibilidad del producto según el stock (undefined = sin cambios)
+ * Solo se reactivan los productos que desactivó el stock
+ */
+const getStockAvailability = (
+  product: Product,
+  ingredients: IngredientsById,
+): boolean | undefined => {
+  const canMake = calculateMakeableUnits(product, ingredients) > 0;
+
+  if (!canMake && product.available) return false;
+  if (canMake && !product.available && product.disabledByStock) return true;
+  return undefined;
+};
+
+/**
+ * Valida que cada unidad de la receta se pueda convertir a la unidad de
+ * stock del ingrediente (ej: gramos -> kg, pero no gramos -> litros)
+ * Devuelve la receta con las unidades normalizadas ("g" -> "gramos")
+ */
+const normalizeRecipeUnits = (
+  recipe: ProductIngredient[],
+  ingredients: IngredientsById,
+): ProductIngredient[] => {
+  return recipe.map((recipeItem) => {
+    const ingredient = ingredients.get(recipeItem.ingredientId);
+
+    if (!ingredient) {
+      throw new HttpError(
+        400,
+        `El ingrediente ${recipeItem.ingredientName || recipeItem.ingredientId} no existe.`,
+      );
+    }
+
+    const unit = parseUnit(recipeItem.unit);
+
+    if (!unit) {
+      throw new HttpError(
+        400,
+        `Unidad desconocida para ${ingredient.name}: "${recipeItem.unit}". ` +
+          `Usá gramos, kg, ml, litros o unidades.`,
+      );
+    }
+
+    if (!areUnitsCompatible(unit, ingredient.unit)) {
+      throw new HttpError(
+        400,
+        `El stock de ${ingredient.name} está en ${ingredient.unit}: ` +
+          `la receta no puede usar ${unit}.`,
+      );
+    }
+
+    return { ...recipeItem, unit };
+  });
+};
+
 export const createProduct = async (
   payload: CreateProductInput,
 ): Promise<Product> => {
@@ -103,8 +269,11 @@ export const createProduct = async (
     throw new HttpError(400, "El producto debe tener un precio válido.");
   }
 
+  const ingredients = await getIngredientsById(payload.tenantId);
+
   const document: ProductDocument = {
     ...payload,
+    ingredients: normalizeRecipeUnits(payload.ingredients ?? [], ingredients),
     stock: payload.stock ?? 0,
     unit: payload.unit ?? "unidades",
     available: payload.available ?? true,
@@ -112,6 +281,12 @@ export const createProduct = async (
     createdAt: new Date().toISOString(),
   };
 
+  // Sin stock para prepararlo: se crea desactivado
+  if (getStockAvailability({ id: "", ...document }, ingredients) === false) {
+    document.available = false;
+    document.disabledByStock = true;
+  }
+
   const docRef = await getCollection(payload.tenantId).add(document);
 
   const product: Product = {
@@ -155,7 +330,38 @@ export const updateProduct = async (
     throw new HttpError(400, "No se recibieron cambios para actualizar.");
   }
 
-  await docRef.update({ ...payload });
+  const updates: Record<string, unknown> = { ...payload };
+
+  if (payload.available !== undefined) {
+    // La decisión manual pisa la automática por stock
+    updates.disabledByStock = FieldValue.delete();
+  }
+
+  if (payload.ingredients) {
+    const ingredients = await getIngredientsById(tenantId);
+    const recipe = normalizeRecipeUnits(payload.ingredients, ingredients);
+    updates.ingredients = recipe;
+
+    // Con la receta nueva puede alcanzar (o dejar de alcanzar) el stock
+    const available =
+      payload.available === undefined
+        ? getStockAvailability(
+            {
+              id,
+              ...(doc.data() as ProductDocument),
+              ingredients: recipe,
+            },
+            ingredients,
+          )
+        : undefined;
+
+    if (available !== undefined) {
+      updates.available = available;
+      updates.disabledByStock = available ? FieldValue.delete() : true;
+    }
+  }
+
+  await docRef.update(updates);
   const updatedDoc = await docRef.get();
   const data = updatedDoc.data() as ProductDocument;
 
@@ -224,7 +430,11 @@ export const toggleProductAvailability = async (
 
   const currentData = doc.data() as ProductDocument;
   const newAvailability = !currentData.available;
-  await docRef.update({ available: newAvailability });
+  // La decisión manual pisa la automática por stock
+  await docRef.update({
+    available: newAvailability,
+    disabledByStock: FieldValue.delete(),
+  });
 
   const updatedDoc = await docRef.get();
   const data = updatedDoc.data() as ProductDocument;
@@ -253,3 +463,71 @@ export const toggleProductAvailability = async (
 
   return product;
 };
+
+/**
+ * Desactiva los productos que ya no se pueden preparar por falta de stock y
+ * reactiva los que se habían desactivado así cuando vuelve a alcanzar.
+ * Los cambios se envían al catálogo de WhatsApp
+ * Nunca lanza error: se llama después de cada movimiento de stock
+ *
+ * @param ingredientIds - Solo revisa los productos que usan estos ingredientes
+ */
+export const syncStockAvailability = async (
+  tenantId: string,
+  ingredientIds?: string[],
+): Promise<void> => {
+  try {
+    const [products, ingredients] = await Promise.all([
+      listProducts(tenantId),
+      getIngredientsById(tenantId),
+    ]);
+
+    const changes = products
+      .filter(
+        (product) =>
+          !ingredientIds ||
+          product.ingredients.some((recipeItem) =>
+            ingredientIds.includes(recipeItem.ingredientId),
+          ),
+      )
+      .flatMap((product) => {
+        const available = getStockAvailability(product, ingredients);
+        return available === undefined ? [] : [{ product, available }];
+      });
+
+    if (changes.length === 0) return;
+
+    const tenant = await getTenantById(tenantId);
+
+    for (const { product, available } of changes) {
+      await getDocumentRef(tenantId, product.id).update({
+        available,
+        disabledByStock: available ? FieldValue.delete() : true,
+      });
+
+      logger.info(
+        `Producto ${product.name} ${available ? "reactivado" : "desactivado"} por stock`,
+      );
+
+      if (hasCatalogConfigured(tenant)) {
+        try {
+          await updateProductAvailabilityInCatalog(
+            product.id,
+            available,
+            tenant,
+          );
+        } catch (catalogError) {
+          logger.warn(
+            `No se pudo actualizar disponibilidad del producto ${product.id} en catálogo de WhatsApp`,
+            catalogError,
+          );
+        }
+      }
+    }
+  } catch (error) {
+    logger.error(
+      `Error al sincronizar disponibilidad por stock (tenant: ${tenantId})`,
+      error,
+    );
+  }
+};
@@ -0,0 +1,380 @@
+import type { Transaction } from "firebase-admin/firestore";
+import { getFirestore } from "../config/firebase";
+import type { Order, OrderStatus } from "../models/order";
+import type { Tenant } from "../models/tenant";
+import { HttpError } from "../utils/httpError";
+import {
+  getBusinessDayConfig,
+  getLocalDateTime,
+  zonedTimeToUtc,
+} from "../utils/businessDay";
+import type { TransactionWrite } from "../utils/transaction";
+import { isTenantOpenAt } from "./tenantService";
+
+/**
+ * Servicio de pedidos programados
+ * Arma las franjas horarias disponibles según el horario de atención y la
+ * capacidad de cocina por franja, y decide cuándo un pedido programado
+ * pasa a la cola de cocina
+ */
+
+const ORDERS_COLLECTION = "orders";
+const SCHEDULE_SLOTS_COLLECTION = "scheduleSlots";
+
+const DEFAULT_SLOT_MINUTES = 30;
+const DEFAULT_CAPACITY_PER_SLOT = 5;
+const DEFAULT_LEAD_TIME_MINUTES = 45;
+const DEFAULT_MAX_DAYS_AHEAD = 2;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const SLOT_FULL_MESSAGE =
+  "La franja horaria elegida ya no tiene capacidad. Elegí otro horario.";
+
+// Contador de pedidos tomados en una franja. Se incrementa en la misma
+// transacción que crea el pedido para no sobrevender la capacidad
+interface ScheduleSlotDocument {
+  slotStart: string;
+  slotMinutes: number;
+  count: number;
+  updatedAt: string;
+}
+
+export interface ScheduleSettings {
+  enabled: boolean;
+  slotMinutes: number;
+  capacityPerSlot: number;
+  leadTimeMinutes: number;
+  maxDaysAhead: number;
+  timezone: string; // Zona del tenant: las franjas arrancan a su medianoche
+}
+
+export const getScheduleSettings = (tenant: Tenant): ScheduleSettings => ({
+  enabled: tenant.scheduledOrders?.enabled ?? false,
+  slotMinutes: tenant.scheduledOrders?.slotMinutes ?? DEFAULT_SLOT_MINUTES,
+  capacityPerSlot:
+    tenant.scheduledOrders?.capacityPerSlot ?? DEFAULT_CAPACITY_PER_SLOT,
+  leadTimeMinutes:
+    tenant.scheduledOrders?.leadTimeMinutes ?? DEFAULT_LEAD_TIME_MINUTES,
+  maxDaysAhead:
+    tenant.scheduledOrders?.maxDaysAhead ?? DEFAULT_MAX_DAYS_AHEAD,
+  timezone: getBusinessDayConfig(tenant).timezone,
+});
+
+/**
+ * El tenant toma pedidos programados: los tiene habilitados o acepta
+ * programarlos mientras está cerrado (el pedido se puede confirmar
+ * cuando ya abrió)
+ */
+const acceptsScheduledOrders = (tenant: Tenant): boolean =>
+  getScheduleSettings(tenant).enabled ||
+  (tenant.openingHours?.acceptScheduledOrdersWhileClosed ?? false);
+
+/**
+ * Inicio de la franja que contiene un instante
+ * Las franjas se cuentan desde la medianoche local del tenant (slotMinutes
+ * divide el día), así arrancan a la misma hora todos los días
+ */
+const getSlotStart = (instant: Date, settings: ScheduleSettings): number => {
+  const { slotMinutes, timezone } = settings;
+  const { date, minutes } = getLocalDateTime(instant, timezone);
+  const slotMinute = Math.floor(minutes / slotMinutes) * slotMinutes;
+
+  return zonedTimeToUtc(
+    date,
+    Math.floor(slotMinute / 60),
+    timezone,
+    slotMinute % 60,
+  ).getTime();
+};
+
+/**
+ * Inicio de la franja siguiente (fin de la franja que empieza en slot)
+ */
+const getNextSlotStart = (slot: number, settings: ScheduleSettings): number => {
+  const slotMs = settings.slotMinutes * MS_PER_MINUTE;
+  const next = getSlotStart(new Date(slot + slotMs), settings);
+
+  // Cambio de horario (DST): la hora local se repite
+  return next > slot ? next : slot + slotMs;
+};
+
+const getSlotsCollection = (tenantId: string) =>
+  getFirestore().collection(`tenants/${tenantId}/${SCHEDULE_SLOTS_COLLECTION}`);
+
+const getSlotRef = (tenantId: string, slotId: string) =>
+  getSlotsCollection(tenantId).doc(slotId);
+
+/**
+ * Cuenta los pedidos programados (no cancelados) por inicio de franja
+ */
+const countScheduledOrdersBySlot = async (
+  tenantId: string,
+  from: Date,
+  to: Date,
+  settings: ScheduleSettings,
+): Promise<Map<number, number>> => {
+  const excludedStatuses: OrderStatus[] = ["cancelado"];
+
+  const snapshot = await getFirestore()
+    .collection(`tenants/${tenantId}/${ORDERS_COLLECTION}`)
+    .where("scheduledFor", ">=", from.toISOString())
+    .where("scheduledFor", "<", to.toISOString())
+    .get();
+
+  const counts = new Map<number, number>();
+
+  for (const doc of snapshot.docs) {
+    const order = doc.data() as Omit<Order, "id">;
+    if (!order.scheduledFor || excludedStatuses.includes(order.status)) {
+      continue;
+    }
+
+    const slot = getSlotStart(new Date(order.scheduledFor), settings);
+    counts.set(slot, (counts.get(slot) ?? 0) + 1);
+  }
+
+  return counts;
+};
+
+/**
+ * Lugares tomados por franja: el contador de la franja (scheduleSlots),
+ * el mismo que controla la reserva al crear el pedido
+ * Una franja sin contador se cuenta por sus pedidos, como cuando la
+ * reserva lo inicializa
+ */
+const getSlotCounts = async (
+  tenantId: string,
+  from: Date,
+  to: Date,
+  settings: ScheduleSettings,
+): Promise<Map<number, number>> => {
+  const [slotsSnapshot, orderCounts] = await Promise.all([
+    getSlotsCollection(tenantId)
+      .where("slotStart", ">=", from.toISOString())
+      .where("slotStart", "<", to.toISOString())
+      .get(),
+    countScheduledOrdersBySlot(tenantId, from, to, settings),
+  ]);
+
+  const counts = new Map(orderCounts);
+
+  for (const doc of slotsSnapshot.docs) {
+    const slot = doc.data() as ScheduleSlotDocument;
+    // Contadores de otra duración de franja (configuración anterior)
+    if (slot.slotMinutes !== settings.slotMinutes) continue;
+
+    counts.set(new Date(slot.slotStart).getTime(), slot.count);
+  }
+
+  return counts;
+};
+
+/**
+ * Franjas disponibles a partir de ahora: respetan el tiempo de preparación,
+ * el horario de atención y la capacidad de cocina de cada franja
+ */
+export const getAvailableSlots = async (
+  tenant: Tenant,
+  limit: number,
+  now: Date = new Date(),
+): Promise<Date[]> => {
+  const settings = getScheduleSettings(tenant);
+
+  const earliest = now.getTime() + settings.leadTimeMinutes * MS_PER_MINUTE;
+  let firstSlot = getSlotStart(new Date(earliest), settings);
+  if (firstSlot < earliest) {
+    firstSlot = getNextSlotStart(firstSlot, settings);
+  }
+  const lastSlot = now.getTime() + settings.maxDaysAhead * MS_PER_DAY;
+
+  const counts = await getSlotCounts(
+    tenant.id,
+    new Date(firstSlot),
+    new Date(getNextSlotStart(lastSlot, settings)),
+    settings,
+  );
+
+  const slots: Date[] = [];
+
+  for (
+    let slot = firstSlot;
+    slot <= lastSlot;
+    slot = getNextSlotStart(slot, settings)
+  ) {
+    if (slots.length >= limit) break;
+
+    if (!isTenantOpenAt(tenant, new Date(slot))) continue;
+    if ((counts.get(slot) ?? 0) >= settings.capacityPerSlot) continue;
+
+    slots.push(new Date(slot));
+  }
+
+  return slots;
+};
+
+/**
+ * Valida que un horario programado se pueda tomar: el tenant programa
+ * pedidos, es futuro, está dentro de los días que se pueden programar,
+ * dentro del horario de atención y con capacidad en su franja
+ * La capacidad se vuelve a controlar al tomar el lugar en la transacción
+ * que crea el pedido (prepareScheduledSlotBooking), con el mismo contador
+ */
+export const assertScheduledSlotAvailable = async (
+  tenant: Tenant,
+  scheduledFor: string,
+  now: Date = new Date(),
+): Promise<void> => {
+  if (!acceptsScheduledOrders(tenant)) {
+    throw new HttpError(400, "El local no toma pedidos programados.");
+  }
+
+  const instant = new Date(scheduledFor);
+
+  if (Number.isNaN(instant.getTime())) {
+    throw new HttpError(
+      400,
+      "El horario programado no es válido. Usá formato ISO 8601.",
+    );
+  }
+
+  if (instant <= now) {
+    throw new HttpError(400, "El horario programado debe ser futuro.");
+  }
+
+  const settings = getScheduleSettings(tenant);
+
+  if (instant.getTime() > now.getTime() + settings.maxDaysAhead * MS_PER_DAY) {
+    throw new HttpError(
+      400,
+      `Los pedidos se pueden programar hasta ${settings.maxDaysAhead} días antes.`,
+    );
+  }
+
+  if (!isTenantOpenAt(tenant, instant)) {
+    throw new HttpError(
+      400,
+      "El horario programado está fuera del horario de atención.",
+    );
+  }
+
+  const slot = getSlotStart(instant, settings);
+  const counts = await getSlotCounts(
+    tenant.id,
+    new Date(slot),
+    new Date(getNextSlotStart(slot, settings)),
+    settings,
+  );
+
+  if ((counts.get(slot) ?? 0) >= settings.capacityPerSlot) {
+    throw new HttpError(409, SLOT_FULL_MESSAGE);
+  }
+};
+
+/**
+ * Identificador del contador de la franja de un horario programado
+ * Incluye la duración: si el local la cambia, las franjas nuevas
+ * arrancan su propio contador
+ */
+export const getScheduledSlotId = (
+  tenant: Tenant,
+  scheduledFor: string,
+): string => {
+  const settings = getScheduleSettings(tenant);
+  const slot = getSlotStart(new Date(scheduledFor), settings);
+  return `${new Date(slot).toISOString()}_${settings.slotMinutes}`;
+};
+
+/**
+ * Toma un lugar en la franja dentro de la transacción que crea el pedido
+ * Si la franja todavía no tiene contador, se inicializa contando sus
+ * pedidos no cancelados. Falla con 409 si la franja está completa
+ */
+export const prepareScheduledSlotBooking = async (
+  transaction: Transaction,
+  tenant: Tenant,
+  scheduledFor: string,
+): Promise<TransactionWrite> => {
+  const settings = getScheduleSettings(tenant);
+  const slot = getSlotStart(new Date(scheduledFor), settings);
+  const slotEnd = getNextSlotStart(slot, settings);
+  const slotRef = getSlotRef(
+    tenant.id,
+    getScheduledSlotId(tenant, scheduledFor),
+  );
+
+  const slotDoc = await transaction.get(slotRef);
+  let count: number;
+
+  if (slotDoc.exists) {
+    count = (slotDoc.data() as ScheduleSlotDocument).count;
+  } else {
+    const ordersSnapshot = await transaction.get(
+      getFirestore()
+        .collection(`tenants/${tenant.id}/${ORDERS_COLLECTION}`)
+        .where("scheduledFor", ">=", new Date(slot).toISOString())
+        .where("scheduledFor", "<", new Date(slotEnd).toISOString()),
+    );
+    count = ordersSnapshot.docs.filter(
+      (doc) => (doc.data() as Omit<Order, "id">).status !== "cancelado",
+    ).length;
+  }
+
+  if (count >= settings.capacityPerSlot) {
+    throw new HttpError(409, SLOT_FULL_MESSAGE);
+  }
+
+  return () => {
+    const document: ScheduleSlotDocument = {
+      slotStart: new Date(slot).toISOString(),
+      slotMinutes: settings.slotMinutes,
+      count: count + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    transaction.set(slotRef, document);
+  };
+};
+
+/**
+ * Libera el lugar de un pedido cancelado en el contador de su franja
+ */
+export const prepareScheduledSlotRelease = async (
+  transaction: Transaction,
+  tenantId: string,
+  slotId: string,
+): Promise<TransactionWrite> => {
+  const slotRef = getSlotRef(tenantId, slotId);
+  const slotDoc = await transaction.get(slotRef);
+
+  if (!slotDoc.exists) return () => {};
+
+  const { count } = slotDoc.data() as ScheduleSlotDocument;
+
+  return () => {
+    transaction.update(slotRef, {
+      count: Math.max(count - 1, 0),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+};
+
+/**
+ * Un pedido programado entra a la cola de cocina recién cuando falta
+ * el tiempo de preparación configurado para su franja
+ */
+export const isInKitchenWindow = (
+  order: Order,
+  settings: ScheduleSettings,
+  now: Date = new Date(),
+): boolean => {
+  if (!order.scheduledFor) {
+    return true;
+  }
+
+  const releaseAt =
+    new Date(order.scheduledFor).getTime() -
+    settings.leadTimeMinutes * MS_PER_MINUTE;
+
+  return now.getTime() >= releaseAt;
+};
@@ -3,11 +3,49 @@ import type {
   DocumentReference,
 } from "firebase-admin/firestore";
 import { getFirestore } from "../config/firebase";
-import { Tenant, CreateTenantInput, UpdateTenantInput } from "../models/tenant";
+import {
+  Tenant,
+  CreateTenantInput,
+  UpdateTenantInput,
+  OpeningHours,
+  OpeningShift,
+  Weekday,
+} from "../models/tenant";
 import { HttpError } from "../utils/httpError";
+import {
+  BusinessDayConfig,
+  addDays,
+  getBusinessDayConfig,
+  getDayOfWeek,
+  getLocalDateTime,
+  isValidCutoffHour,
+  isValidTimezone,
+  zonedTimeToUtc,
+} from "../utils/businessDay";
+import { isValidGeoPoint } from "../utils/geo";
+import { isWhatsappTemplateEvent } from "../utils/whatsappTemplates";
 
 const TENANTS_COLLECTION = "tenants";
 
+// Índice = getDayOfWeek (0 = domingo)
+const WEEKDAYS: Weekday[] = [
+  "domingo",
+  "lunes",
+  "martes",
+  "miercoles",
+  "jueves",
+  "viernes",
+  "sabado",
+];
+
+// Días hacia adelante en los que se busca la próxima apertura
+const NEXT_OPENING_LOOKAHEAD_DAYS = 14;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 type TenantDocument = Omit<Tenant, "id">;
 
 const getCollection = () => getFirestore().collection(TENANTS_COLLECTION);
@@ -19,6 +57,188 @@ const getDocumentRef = (id: string): DocumentReference => {
   return getCollection().doc(id);
 };
 
+const validateBusinessDaySettings = (
+  payload: Pick<CreateTenantInput, "timezone" | "businessDayCutoffHour">,
+): void => {
+  if (payload.timezone !== undefined && !isValidTimezone(payload.timezone)) {
+    throw new HttpError(
+      400,
+      `Zona horaria inválida: "${payload.timezone}". Usá un nombre IANA (ej: America/Argentina/Buenos_Aires).`,
+    );
+  }
+
+  if (
+    payload.businessDayCutoffHour !== undefined &&
+    !isValidCutoffHour(payload.businessDayCutoffHour)
+  ) {
+    throw new HttpError(
+      400,
+      "La hora de corte del día comercial debe ser un entero entre 0 y 23.",
+    );
+  }
+};
+
+const validateShifts = (shifts: OpeningShift[], label: string): void => {
+  for (const shift of shifts) {
+    if (!TIME_REGEX.test(shift.open) || !TIME_REGEX.test(shift.close)) {
+      throw new HttpError(
+        400,
+        `Horario inválido en ${label}: usá el formato HH:mm (ej: 19:30).`,
+      );
+    }
+  }
+};
+
+const validateOpeningHours = (openingHours: OpeningHours): void => {
+  if (!openingHours.weekly || typeof openingHours.weekly !== "object") {
+    throw new HttpError(400, "El horario de atención requiere un horario semanal.");
+  }
+
+  for (const [day, shifts] of Object.entries(openingHours.weekly)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      throw new HttpError(
+        400,
+        `Día inválido en el horario: "${day}". Usá: ${WEEKDAYS.join(", ")}.`,
+      );
+    }
+    validateShifts(shifts ?? [], day);
+  }
+
+  for (const exception of openingHours.exceptions ?? []) {
+    if (!DATE_REGEX.test(exception.date)) {
+      throw new HttpError(
+        400,
+        "Las excepciones de horario requieren una fecha con formato YYYY-MM-DD.",
+      );
+    }
+    validateShifts(exception.shifts ?? [], exception.date);
+  }
+};
+
+const validateScheduledOrders = (
+  settings: NonNullable<CreateTenantInput["scheduledOrders"]>,
+): void => {
+  const values = [
+    settings.slotMinutes,
+    settings.capacityPerSlot,
+    settings.leadTimeMinutes,
+    settings.maxDaysAhead,
+  ];
+
+  if (values.some((v) => v !== undefined && (!Number.isInteger(v) || v < 0))) {
+    throw new HttpError(
+      400,
+      "La configuración de pedidos programados requiere números enteros no negativos.",
+    );
+  }
+
+  if (settings.slotMinutes !== undefined && settings.slotMinutes < 5) {
+    throw new HttpError(
+      400,
+      "Las franjas de pedidos programados deben durar al menos 5 minutos.",
+    );
+  }
+
+  if (settings.maxDaysAhead !== undefined && settings.maxDaysAhead < 1) {
+    throw new HttpError(
+      400,
+      "Los pedidos programados deben poder tomarse al menos con 1 día de anticipación.",
+    );
+  }
+
+  // Las franjas arrancan a la medianoche local y tienen que cubrir el día
+  if (
+    settings.slotMinutes !== undefined &&
+    MINUTES_PER_DAY % settings.slotMinutes !== 0
+  ) {
+    throw new HttpError(
+      400,
+      "La duración de las franjas debe dividir el día en partes iguales (ej: 15, 30, 45, 60, 90 o 120 minutos).",
+    );
+  }
+};
+
+const validateStoreLocation = (
+  storeLocation: CreateTenantInput["storeLocation"],
+): void => {
+  if (storeLocation !== undefined && !isValidGeoPoint(storeLocation)) {
+    throw new HttpError(
+      400,
+      "La ubicación del local debe tener lat/lng válidos.",
+    );
+  }
+};
+
+const validateBankTransfer = (
+  bankTransfer: CreateTenantInput["bankTransfer"],
+): void => {
+  if (bankTransfer === undefined) return;
+
+  if (!bankTransfer?.holderName?.trim()) {
+    throw new HttpError(
+      400,
+      "Los datos de transferencia deben tener el titular de la cuenta.",
+    );
+  }
+
+  if (!bankTransfer.alias?.trim() && !bankTransfer.cbu?.trim()) {
+    throw new HttpError(
+      400,
+      "Los datos de transferencia deben tener un alias o un CBU/CVU.",
+    );
+  }
+
+  if (bankTransfer.cbu !== undefined && !/^\d{22}$/.test(bankTransfer.cbu)) {
+    throw new HttpError(400, "El CBU/CVU debe tener 22 dígitos.");
+  }
+};
+
+const validateMinMarginPercent = (minMarginPercent?: number): void => {
+  if (minMarginPercent === undefined) return;
+
+  if (
+    typeof minMarginPercent !== "number" ||
+    !Number.isFinite(minMarginPercent) ||
+    minMarginPercent < 0 ||
+    minMarginPercent >= 100
+  ) {
+    throw new HttpError(
+      400,
+      "El margen mínimo debe ser un porcentaje (0 o más y menor a 100).",
+    );
+  }
+};
+
+const validateWhatsappTemplates = (
+  whatsappTemplates: CreateTenantInput["whatsappTemplates"],
+): void => {
+  if (whatsappTemplates === undefined) return;
+
+  Object.entries(whatsappTemplates).forEach(([event, config]) => {
+    if (!isWhatsappTemplateEvent(event)) {
+      throw new HttpError(400, `Evento de plantilla desconocido: ${event}.`);
+    }
+
+    // Meta solo acepta minúsculas, números y guiones bajos en el nombre
+    if (!config?.name || !/^[a-z0-9_]+$/.test(config.name)) {
+      throw new HttpError(
+        400,
+        `La plantilla de ${event} debe tener un nombre válido (minúsculas, números y _).`,
+      );
+    }
+
+    if (
+      config.language !== undefined &&
+      !/^[a-z]{2,3}(_[A-Z]{2})?$/.test(config.language)
+    ) {
+      throw new HttpError(
+        400,
+        `El idioma de la plantilla de ${event} no es válido (ej: es_AR).`,
+      );
+    }
+  });
+};
+
 const mapSnapshotToTenant = (doc: QueryDocumentSnapshot): Tenant => ({
   id: doc.id,
   ...(doc.data() as TenantDocument),
@@ -43,6 +263,17 @@ export const getTenantById = async (id: string): Promise<Tenant> => {
   };
 };
 
+/**
+ * Obtiene la configuración de día comercial (zona horaria y hora de corte)
+ * usada para agrupar pedidos, cierres de caja, reportes y rendiciones
+ */
+export const getTenantBusinessDayConfig = async (
+  tenantId: string,
+): Promise<BusinessDayConfig> => {
+  const tenant = await getTenantById(tenantId);
+  return getBusinessDayConfig(tenant);
+};
+
 /**
  * Busca un tenant por su metaPhoneNumberId
  * Esta función es crítica para el webhook de Meta, ya que permite
@@ -79,6 +310,20 @@ export const createTenant = async (
     throw new HttpError(400, "El tenant debe tener un ownerId (Firebase UID).");
   }
 
+  validateBusinessDaySettings(payload);
+  validateStoreLocation(payload.storeLocation);
+  validateBankTransfer(payload.bankTransfer);
+  validateMinMarginPercent(payload.minMarginPercent);
+  validateWhatsappTemplates(payload.whatsappTemplates);
+
+  if (payload.openingHours) {
+    validateOpeningHours(payload.openingHours);
+  }
+
+  if (payload.scheduledOrders) {
+    validateScheduledOrders(payload.scheduledOrders);
+  }
+
   const document: TenantDocument = {
     ...payload,
     hasPickup: payload.hasPickup ?? true,
@@ -110,6 +355,20 @@ export const updateTenant = async (
     throw new HttpError(400, "No se recibieron cambios para actualizar.");
   }
 
+  validateBusinessDaySettings(payload);
+  validateStoreLocation(payload.storeLocation);
+  validateBankTransfer(payload.bankTransfer);
+  validateMinMarginPercent(payload.minMarginPercent);
+  validateWhatsappTemplates(payload.whatsappTemplates);
+
+  if (payload.openingHours) {
+    validateOpeningHours(payload.openingHours);
+  }
+
+  if (payload.scheduledOrders) {
+    validateScheduledOrders(payload.scheduledOrders);
+  }
+
   await docRef.update({ ...payload });
   const updatedDoc = await docRef.get();
 
@@ -130,3 +389,115 @@ export const deleteTenant = async (id: string): Promise<void> => {
   // Soft delete - just deactivate
   await docRef.update({ isActive: false });
 };
+
+// ============================================================================
+// HORARIO DE ATENCIÓN
+// ============================================================================
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  nextOpening?: Date; // Próxima apertura (solo si está cerrado)
+  acceptsScheduledOrders: boolean; // Toma pedidos programados estando cerrado
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Turnos de una fecha: la excepción de esa fecha reemplaza al horario semanal
+ */
+const getShiftsForDate = (
+  openingHours: OpeningHours,
+  date: string,
+): OpeningShift[] => {
+  const exception = openingHours.exceptions?.find((e) => e.date === date);
+
+  if (exception) {
+    return exception.closed ? [] : (exception.shifts ?? []);
+  }
+
+  return openingHours.weekly[WEEKDAYS[getDayOfWeek(date)]] ?? [];
+};
+
+const crossesMidnight = (shift: OpeningShift): boolean =>
+  toMinutes(shift.close) <= toMinutes(shift.open);
+
+/**
+ * Indica si el local está abierto en un instante dado
+ * Sin horario configurado se considera siempre abierto
+ */
+export const isTenantOpenAt = (tenant: Tenant, instant: Date): boolean => {
+  const { openingHours } = tenant;
+  if (!openingHours) {
+    return true;
+  }
+
+  const { timezone } = getBusinessDayConfig(tenant);
+  const { date, minutes } = getLocalDateTime(instant, timezone);
+
+  const openToday = getShiftsForDate(openingHours, date).some((shift) => {
+    const open = toMinutes(shift.open);
+    const close = toMinutes(shift.close);
+    return crossesMidnight(shift)
+      ? minutes >= open
+      : minutes >= open && minutes < close;
+  });
+
+  if (openToday) {
+    return true;
+  }
+
+  // Turnos del día anterior que terminan después de medianoche
+  return getShiftsForDate(openingHours, addDays(date, -1)).some(
+    (shift) => crossesMidnight(shift) && minutes < toMinutes(shift.close),
+  );
+};
+
+/**
+ * Busca la próxima apertura posterior a un instante
+ */
+export const getNextOpeningTime = (
+  tenant: Tenant,
+  from: Date,
+): Date | undefined => {
+  const { openingHours } = tenant;
+  if (!openingHours) {
+    return undefined;
+  }
+
+  const { timezone } = getBusinessDayConfig(tenant);
+  const { date: today } = getLocalDateTime(from, timezone);
+
+  for (let offset = 0; offset <= NEXT_OPENING_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(today, offset);
+    const openings = getShiftsForDate(openingHours, date)
+      .map((shift) => {
+        const [hours, minutes] = shift.open.split(":").map(Number);
+        return zonedTimeToUtc(date, hours, timezone, minutes);
+      })
+      .filter((opening) => opening > from)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    if (openings.length > 0) {
+      return openings[0];
+    }
+  }
+
+  return undefined;
+};
+
+export const getOpeningStatus = (
+  tenant: Tenant,
+  now: Date = new Date(),
+): OpeningStatus => {
+  const isOpen = isTenantOpenAt(tenant, now);
+
+  return {
+    isOpen,
+    nextOpening: isOpen ? undefined : getNextOpeningTime(tenant, now),
+    acceptsScheduledOrders:
+      tenant.openingHours?.acceptScheduledOrdersWhileClosed ?? false,
+  };
+};
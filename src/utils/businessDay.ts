@@ -0,0 +1,197 @@
+import type { Tenant } from "../models/tenant";
+
+/**
+ * Utilidades de "día comercial" por tenant.
+ *
+ * Un día comercial empieza a la hora de corte (businessDayCutoffHour) en la
+ * zona horaria del tenant y termina justo antes de la hora de corte del día
+ * siguiente. Así, un local que cierra a las 2 AM con corte a las 5 registra
+ * esos pedidos en el día anterior.
+ *
+ * Las fechas de negocio se manejan como strings YYYY-MM-DD.
+ */
+
+export const DEFAULT_TIMEZONE = "America/Argentina/Buenos_Aires";
+export const DEFAULT_BUSINESS_DAY_CUTOFF_HOUR = 0;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+export interface BusinessDayConfig {
+  timezone: string;
+  cutoffHour: number; // 0-23, hora local en la que empieza el día comercial
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (instant: Date, timezone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const formatDate = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * Diferencia en ms entre la hora local de la zona y UTC para un instante
+ */
+const getTimezoneOffsetMs = (instant: Date, timezone: string): number => {
+  const p = getZonedParts(instant, timezone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convierte una fecha + hora local de la zona al instante UTC correspondiente
+ */
+export const zonedTimeToUtc = (
+  date: string,
+  hour: number,
+  timezone: string,
+  minute: number = 0,
+): Date => {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Dos pasadas para resolver correctamente los cambios de horario (DST)
+  let utc = wallTime - getTimezoneOffsetMs(new Date(wallTime), timezone);
+  utc = wallTime - getTimezoneOffsetMs(new Date(utc), timezone);
+
+  return new Date(utc);
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidCutoffHour = (hour: number): boolean =>
+  Number.isInteger(hour) && hour >= 0 && hour <= 23;
+
+export const getBusinessDayConfig = (
+  tenant: Pick<Tenant, "timezone" | "businessDayCutoffHour">,
+): BusinessDayConfig => ({
+  timezone: tenant.timezone ?? DEFAULT_TIMEZONE,
+  cutoffHour: tenant.businessDayCutoffHour ?? DEFAULT_BUSINESS_DAY_CUTOFF_HOUR,
+});
+
+/**
+ * Suma (o resta) días a una fecha YYYY-MM-DD
+ */
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY);
+  return result.toISOString().split("T")[0];
+};
+
+/**
+ * Día de la semana de una fecha YYYY-MM-DD (0 = domingo)
+ */
+export const getDayOfWeek = (date: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Hora local (0-23) de un instante en la zona del tenant
+ */
+export const getLocalHour = (instant: Date, timezone: string): number =>
+  getZonedParts(instant, timezone).hour;
+
+/**
+ * Fecha (YYYY-MM-DD) y minutos desde la medianoche de un instante,
+ * en la zona horaria indicada
+ */
+export const getLocalDateTime = (
+  instant: Date,
+  timezone: string,
+): { date: string; minutes: number } => {
+  const p = getZonedParts(instant, timezone);
+  return {
+    date: formatDate(p.year, p.month, p.day),
+    minutes: p.hour * 60 + p.minute,
+  };
+};
+
+/**
+ * Fecha de negocio a la que pertenece un instante
+ */
+export const getBusinessDate = (
+  instant: Date,
+  config: BusinessDayConfig,
+): string => {
+  const p = getZonedParts(instant, config.timezone);
+  const date = formatDate(p.year, p.month, p.day);
+  return p.hour < config.cutoffHour ? addDays(date, -1) : date;
+};
+
+export const getCurrentBusinessDate = (config: BusinessDayConfig): string =>
+  getBusinessDate(new Date(), config);
+
+/**
+ * Rango de instantes (ISO, inclusive) que cubren los días comerciales
+ * desde startDate hasta endDate
+ */
+export const getBusinessDayRange = (
+  startDate: string,
+  endDate: string,
+  config: BusinessDayConfig,
+): { startISO: string; endISO: string } => {
+  const start = zonedTimeToUtc(startDate, config.cutoffHour, config.timezone);
+  const nextDayStart = zonedTimeToUtc(
+    addDays(endDate, 1),
+    config.cutoffHour,
+    config.timezone,
+  );
+
+  return {
+    startISO: start.toISOString(),
+    endISO: new Date(nextDayStart.getTime() - 1).toISOString(),
+  };
+};
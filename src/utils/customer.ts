@@ -0,0 +1,5 @@
+/**
+ * Nombre que se guarda en pedidos de clientes que no dieron su nombre
+ * (el bot lo usa si falta; el perfil del cliente no lo toma como nombre)
+ */
+export const CUSTOMER_FALLBACK_NAME = "Cliente WhatsApp";
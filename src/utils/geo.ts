@@ -0,0 +1,101 @@
+import type { GeoJsonPolygon, GeoPoint } from "../models/deliveryZone";
+
+/**
+ * Utilidades geográficas para zonas de delivery
+ * Coordenadas en grados decimales (WGS84), distancias en metros
+ */
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const isValidGeoPoint = (point: unknown): point is GeoPoint => {
+  if (!point || typeof point !== "object") return false;
+
+  const { lat, lng } = point as Record<string, unknown>;
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lng) &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lng >= -180 &&
+    lng <= 180
+  );
+};
+
+/**
+ * Distancia entre dos puntos (fórmula de haversine)
+ */
+export const getDistanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Punto dentro de un polígono (ray casting)
+ * Alcanza para zonas de una ciudad: se trata lat/lng como plano
+ */
+export const isPointInPolygon = (
+  point: GeoPoint,
+  polygon: GeoPoint[],
+): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+};
+
+/**
+ * Vértices del anillo exterior de un polígono GeoJSON ([lng, lat])
+ * Descarta el punto de cierre repetido. Devuelve null si no es válido
+ */
+export const getGeoJsonPolygonPoints = (
+  polygon: GeoJsonPolygon,
+): GeoPoint[] | null => {
+  const ring = Array.isArray(polygon.coordinates)
+    ? polygon.coordinates[0]
+    : undefined;
+
+  if (!Array.isArray(ring)) return null;
+
+  const points = ring.map((position) =>
+    Array.isArray(position) ? { lat: position[1], lng: position[0] } : null,
+  );
+
+  if (!points.every(isValidGeoPoint)) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    points.pop();
+  }
+
+  return points;
+};
+
+/**
+ * Link de Google Maps para un punto
+ */
+export const getMapsUrl = (point: GeoPoint): string =>
+  `https://maps.google.com/?q=${point.lat},${point.lng}`;
@@ -0,0 +1,271 @@
+import type {
+  MessageTemplateDefinition,
+  MessageTemplateKey,
+} from "../models/messageTemplate";
+import type { OrderStatus, OrderType } from "../models/order";
+import type { Tenant } from "../models/tenant";
+
+/**
+ * Registro de mensajes personalizables del bot
+ * Cada tenant puede reemplazar el texto (tenant.messageTemplates) y si no
+ * lo hace se usa el de fábrica. Las variables se escriben {{nombre}}
+ */
+
+type Variables = Record<string, string | undefined>;
+
+const ORDER_PLACEHOLDERS = {
+  orderNumber: "A1B2C3",
+  customerName: "Juan",
+  total: "$5.500",
+  deliveryAddress: "Av. Corrientes 1234",
+};
+
+const define = (
+  key: MessageTemplateKey,
+  description: string,
+  placeholders: Record<string, string>,
+  defaultBody: string,
+): MessageTemplateDefinition => ({
+  key,
+  description,
+  placeholders,
+  defaultBody,
+});
+
+export const MESSAGE_TEMPLATES: Record<
+  MessageTemplateKey,
+  MessageTemplateDefinition
+> = {
+  welcome: define(
+    "welcome",
+    "Bienvenida para tenants con catálogo de WhatsApp",
+    {
+      greeting: "¡Hola Juan! 👋",
+      customerName: "Juan",
+      tenantName: "Burger Palace",
+    },
+    "{{greeting}}\n\n" +
+      "Bienvenido a *{{tenantName}}* 🍔\n\n" +
+      "Para hacer tu pedido, seleccioná las hamburguesas que quieras desde nuestro *catálogo* 📋\n\n" +
+      "👉 Tocá el ícono del catálogo en este chat para ver todas nuestras opciones.\n\n" +
+      "Una vez que elijas tus productos, te ayudo a completar el pedido. ¡Gracias por elegirnos!",
+  ),
+  welcomeMenu: define(
+    "welcomeMenu",
+    "Bienvenida para tenants que toman pedidos con el menú del bot",
+    {
+      greeting: "¡Hola Juan! 👋",
+      customerName: "Juan",
+      tenantName: "Burger Palace",
+    },
+    "{{greeting}}\n\n" +
+      "Bienvenido a *{{tenantName}}* 🍔\n\n" +
+      "Tocá *Ver menú* o escribí *pedir* para elegir tus productos.",
+  ),
+  closed: define(
+    "closed",
+    "Aviso de local cerrado",
+    {
+      tenantName: "Burger Palace",
+      nextOpening: "hoy a las 20:00",
+      reopenInfo: "Volvemos a abrir *hoy a las 20:00*. ¡Te esperamos!",
+    },
+    "🕐 *{{tenantName}}* está cerrado en este momento.\n\n{{reopenInfo}}",
+  ),
+  cancellation: define(
+    "cancellation",
+    "Despedida cuando el cliente cancela el pedido en el bot",
+    { tenantName: "Burger Palace" },
+    "Pedido cancelado. ¡Esperamos verte pronto en *{{tenantName}}*! 🍔",
+  ),
+  orderReceived: define(
+    "orderReceived",
+    "Pedido creado, esperando confirmación del local",
+    {
+      orderNumber: "A1B2C3",
+      tenantName: "Burger Palace",
+      total: "$5.500",
+      eta: "40-50 minutos",
+      timeInfo:
+        "Tiempo estimado después de la confirmación: 40-50 minutos",
+    },
+    "📋 *¡Pedido recibido!*\n\n" +
+      "Número de pedido: *#{{orderNumber}}*\n\n" +
+      "⏳ *Esperando confirmación del restaurante...*\n\n" +
+      "Te notificaremos cuando tu pedido sea confirmado y comience a prepararse.\n\n" +
+      "{{timeInfo}}\n\n" +
+      "¡Gracias por elegir *{{tenantName}}*! 🍔",
+  ),
+  orderWithPaymentLink: define(
+    "orderWithPaymentLink",
+    "Pedido pendiente de pago con link de Mercado Pago",
+    {
+      orderNumber: "A1B2C3",
+      total: "$5.500",
+      paymentLink: "https://mpago.la/abc123",
+      eta: "40-50 minutos",
+    },
+    "⏳ *Pedido pendiente de pago*\n\n" +
+      "Número de pedido: *#{{orderNumber}}*\n\n" +
+      "💳 *Para confirmar tu pedido, realizá el pago:*\n\n" +
+      "👉 {{paymentLink}}\n\n" +
+      "⚠️ *Tu pedido NO será preparado hasta confirmar el pago.*\n\n" +
+      "Una vez recibido el pago, el restaurante confirmará tu pedido.\n\n" +
+      "Tiempo estimado después de la confirmación: {{eta}}",
+  ),
+  bankTransferInstructions: define(
+    "bankTransferInstructions",
+    "Datos de la cuenta para pagar por transferencia",
+    {
+      transferDetails:
+        "Alias: *burger.palace.mp*\nTitular: Burger Palace SRL",
+      total: "$5.500",
+    },
+    "💳 *Datos para la transferencia*\n\n" +
+      "{{transferDetails}}\n\n" +
+      "Monto: *{{total}}*\n\n" +
+      "📎 Cuando transfieras, envianos por acá la *foto o PDF del comprobante*.",
+  ),
+  paymentReceiptReceived: define(
+    "paymentReceiptReceived",
+    "Comprobante de transferencia recibido",
+    { orderNumber: "A1B2C3" },
+    "🧾 *¡Recibimos tu comprobante!*\n\n" +
+      "Lo estamos verificando para el pedido *#{{orderNumber}}*. " +
+      "Te avisamos apenas esté confirmado el pago.",
+  ),
+  status_pendiente_pago: define(
+    "status_pendiente_pago",
+    "Notificación: pedido esperando pago",
+    ORDER_PLACEHOLDERS,
+    "⏳ *Pedido #{{orderNumber}} esperando pago*\n\n" +
+      "Hola {{customerName}}! Tu pedido está pendiente de pago.\n" +
+      "Una vez confirmado el pago, comenzaremos a prepararlo. 💳",
+  ),
+  status_pendiente: define(
+    "status_pendiente",
+    "Notificación: pedido recibido y en revisión",
+    ORDER_PLACEHOLDERS,
+    "📋 *Pedido #{{orderNumber}} recibido*\n\n" +
+      "Hola {{customerName}}! Tu pedido está siendo revisado.\n" +
+      "Te avisaremos cuando sea confirmado. 🍔",
+  ),
+  status_confirmado: define(
+    "status_confirmado",
+    "Notificación: pedido confirmado",
+    ORDER_PLACEHOLDERS,
+    "✅ *Pedido #{{orderNumber}} confirmado*\n\n" +
+      "¡Buenas noticias, {{customerName}}!\n" +
+      "Tu pedido ha sido confirmado y pronto comenzaremos a prepararlo. 👨‍🍳",
+  ),
+  status_en_preparacion: define(
+    "status_en_preparacion",
+    "Notificación: pedido en preparación",
+    ORDER_PLACEHOLDERS,
+    "👨‍🍳 *Pedido #{{orderNumber}} en preparación*\n\n" +
+      "{{customerName}}, ya estamos cocinando tu pedido.\n" +
+      "¡Pronto estará listo! 🔥",
+  ),
+  status_listo_delivery: define(
+    "status_listo_delivery",
+    "Notificación: pedido de delivery listo, esperando al repartidor",
+    ORDER_PLACEHOLDERS,
+    "🎉 *Pedido #{{orderNumber}} listo*\n\n" +
+      "{{customerName}}, tu pedido está listo y esperando al repartidor.\n" +
+      "¡En breve saldrá para tu domicilio! 🏍️",
+  ),
+  status_listo_pickup: define(
+    "status_listo_pickup",
+    "Notificación: pedido listo para retirar",
+    ORDER_PLACEHOLDERS,
+    "🎉 *Pedido #{{orderNumber}} listo para retirar*\n\n" +
+      "{{customerName}}, tu pedido está listo para retirar.\n" +
+      "¡Te esperamos en el local! 📍",
+  ),
+  status_en_camino: define(
+    "status_en_camino",
+    "Notificación: pedido en camino",
+    ORDER_PLACEHOLDERS,
+    "🏍️ *Pedido #{{orderNumber}} en camino*\n\n" +
+      "{{customerName}}, tu pedido ya salió.\n" +
+      "Dirección: {{deliveryAddress}}\n\n" +
+      "¡Estará llegando pronto! 📦",
+  ),
+  status_entregado_delivery: define(
+    "status_entregado_delivery",
+    "Notificación: pedido entregado",
+    ORDER_PLACEHOLDERS,
+    "🎊 *Pedido #{{orderNumber}} entregado*\n\n" +
+      "¡Gracias por tu compra, {{customerName}}!\n" +
+      "Esperamos que disfrutes tu comida. 🍔\n\n" +
+      "¡Hasta la próxima! 👋",
+  ),
+  status_entregado_pickup: define(
+    "status_entregado_pickup",
+    "Notificación: pedido retirado",
+    ORDER_PLACEHOLDERS,
+    "🎊 *Pedido #{{orderNumber}} retirado*\n\n" +
+      "¡Gracias por tu compra, {{customerName}}!\n" +
+      "Esperamos que disfrutes tu comida. 🍔\n\n" +
+      "¡Hasta la próxima! 👋",
+  ),
+  status_cancelado: define(
+    "status_cancelado",
+    "Notificación: pedido cancelado por el local",
+    ORDER_PLACEHOLDERS,
+    "❌ *Pedido #{{orderNumber}} cancelado*\n\n" +
+      "{{customerName}}, lamentamos informarte que tu pedido fue cancelado.\n\n" +
+      "Si tienes alguna consulta, no dudes en escribirnos. 📞",
+  ),
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const isMessageTemplateKey = (key: string): key is MessageTemplateKey =>
+  Object.prototype.hasOwnProperty.call(MESSAGE_TEMPLATES, key);
+
+/**
+ * Variables usadas en un texto (sin repetir)
+ */
+export const getTemplatePlaceholders = (body: string): string[] => [
+  ...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1])),
+];
+
+/**
+ * Reemplaza las variables {{nombre}}. Las que no tienen valor quedan vacías
+ */
+export const renderTemplate = (body: string, variables: Variables): string =>
+  body.replace(PLACEHOLDER_PATTERN, (_, name: string) => variables[name] ?? "");
+
+/**
+ * Texto vigente del tenant para un mensaje (personalizado o de fábrica)
+ */
+export const getTemplateBody = (
+  tenant: Pick<Tenant, "messageTemplates">,
+  key: MessageTemplateKey,
+): string =>
+  tenant.messageTemplates?.[key] ?? MESSAGE_TEMPLATES[key].defaultBody;
+
+/**
+ * Arma el mensaje del tenant con sus variables
+ */
+export const renderMessage = (
+  tenant: Pick<Tenant, "messageTemplates">,
+  key: MessageTemplateKey,
+  variables: Variables,
+): string => renderTemplate(getTemplateBody(tenant, key), variables);
+
+/**
+ * Mensaje de notificación para un estado del pedido
+ * "listo" y "entregado" tienen texto distinto para delivery y retiro
+ */
+export const getStatusTemplateKey = (
+  status: OrderStatus,
+  orderType: OrderType,
+): MessageTemplateKey => {
+  if (status === "listo" || status === "entregado") {
+    return `status_${status}_${orderType === "delivery" ? "delivery" : "pickup"}`;
+  }
+
+  return `status_${status}`;
+};
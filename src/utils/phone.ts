@@ -0,0 +1,6 @@
+/**
+ * Normaliza un teléfono de WhatsApp: sin espacios, guiones, paréntesis
+ * ni el "+" inicial (el formato que usan Meta y los IDs de documentos)
+ */
+export const sanitizePhone = (phone: string): string =>
+  phone.replace(/[\s\-\(\)\+]/g, "");
@@ -0,0 +1,16 @@
+import { HttpError } from "./httpError";
+
+/**
+ * Parámetro "limit" de la query string (undefined si no se envió)
+ * @throws HttpError 400 si no es un número entero
+ */
+export const parseLimit = (value: unknown): number | undefined => {
+  if (value === undefined) return undefined;
+
+  const limit = Number(value);
+  if (typeof value !== "string" || !Number.isInteger(limit)) {
+    throw new HttpError(400, "El límite debe ser un número entero.");
+  }
+
+  return limit;
+};
@@ -0,0 +1,10 @@
+/**
+ * Utilidades para transacciones de Firestore
+ */
+
+/**
+ * Escrituras pendientes de una transacción. Firestore exige todas las
+ * lecturas antes de escribir: cada paso lee y devuelve sus escrituras
+ * para que el llamador las aplique al final
+ */
+export type TransactionWrite = () => void;
@@ -0,0 +1,91 @@
+import type { IngredientUnit } from "../models/ingredient";
+
+/**
+ * Conversión de unidades entre recetas y stock de ingredientes
+ * Solo se convierte dentro de la misma magnitud (peso, volumen o unidades)
+ */
+
+type UnitDimension = "peso" | "volumen" | "cantidad";
+
+interface UnitInfo {
+  dimension: UnitDimension;
+  factor: number; // Respecto de la unidad base (gramos, ml, unidades)
+}
+
+const UNITS: Record<IngredientUnit, UnitInfo> = {
+  gramos: { dimension: "peso", factor: 1 },
+  kg: { dimension: "peso", factor: 1000 },
+  ml: { dimension: "volumen", factor: 1 },
+  litros: { dimension: "volumen", factor: 1000 },
+  unidades: { dimension: "cantidad", factor: 1 },
+};
+
+// Formas en que se suele escribir cada unidad en las recetas
+const UNIT_ALIASES: Record<string, IngredientUnit> = {
+  g: "gramos",
+  gr: "gramos",
+  grs: "gramos",
+  gramo: "gramos",
+  gramos: "gramos",
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogramo: "kg",
+  kilogramos: "kg",
+  ml: "ml",
+  cc: "ml",
+  mililitro: "ml",
+  mililitros: "ml",
+  l: "litros",
+  lt: "litros",
+  lts: "litros",
+  litro: "litros",
+  litros: "litros",
+  u: "unidades",
+  un: "unidades",
+  unidad: "unidades",
+  unidades: "unidades",
+};
+
+// Evita arrastrar errores de punto flotante (ej: 0.1 + 0.2)
+const QUANTITY_DECIMALS = 6;
+
+export const roundQuantity = (quantity: number): number =>
+  Number(quantity.toFixed(QUANTITY_DECIMALS));
+
+/**
+ * Unidad de stock correspondiente a un texto libre ("g", "Kilos", "lts")
+ * undefined si no se reconoce
+ */
+export const parseUnit = (
+  unit: string | undefined,
+): IngredientUnit | undefined => {
+  if (!unit) return undefined;
+
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  return Object.prototype.hasOwnProperty.call(UNIT_ALIASES, key)
+    ? UNIT_ALIASES[key]
+    : undefined;
+};
+
+export const areUnitsCompatible = (
+  from: IngredientUnit,
+  to: IngredientUnit,
+): boolean => UNITS[from].dimension === UNITS[to].dimension;
+
+/**
+ * Convierte una cantidad entre unidades de la misma magnitud
+ * @throws Error si las unidades no son compatibles (ej: gramos a litros)
+ */
+export const convertQuantity = (
+  quantity: number,
+  from: IngredientUnit,
+  to: IngredientUnit,
+): number => {
+  if (!areUnitsCompatible(from, to)) {
+    throw new Error(`No se puede convertir de ${from} a ${to}.`);
+  }
+
+  return roundQuantity((quantity * UNITS[from].factor) / UNITS[to].factor);
+};
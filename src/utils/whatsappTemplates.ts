@@ -0,0 +1,70 @@
+import type {
+  WhatsappTemplateDefinition,
+  WhatsappTemplateEvent,
+  WhatsappTemplateMessage,
+} from "../models/whatsappTemplate";
+import type { Tenant } from "../models/tenant";
+
+/**
+ * Registro de plantillas de WhatsApp (HSM) por evento
+ * Meta solo acepta plantillas aprobadas fuera de la ventana de 24 hs, así que
+ * cada tenant puede indicar el nombre e idioma de las que aprobó
+ * (tenant.whatsappTemplates); si no, se usan los nombres por defecto
+ */
+
+const DEFAULT_LANGUAGE = "es_AR";
+
+// Meta rechaza parámetros vacíos
+const EMPTY_PARAMETER = "-";
+
+export const WHATSAPP_TEMPLATES: Record<
+  WhatsappTemplateEvent,
+  WhatsappTemplateDefinition
+> = {
+  orderStatus: {
+    event: "orderStatus",
+    description: "Hola {{1}}, tu pedido #{{2}} está: {{3}}",
+    name: "order_status_update",
+    language: DEFAULT_LANGUAGE,
+    parameters: ["customerName", "orderNumber", "status"],
+  },
+  paymentApproved: {
+    event: "paymentApproved",
+    description: "Recibimos el pago de tu pedido #{{1}}",
+    name: "payment_approved",
+    language: DEFAULT_LANGUAGE,
+    parameters: ["orderNumber"],
+  },
+  paymentRejected: {
+    event: "paymentRejected",
+    description: "No pudimos procesar el pago de tu pedido #{{1}}",
+    name: "payment_rejected",
+    language: DEFAULT_LANGUAGE,
+    parameters: ["orderNumber"],
+  },
+};
+
+export const isWhatsappTemplateEvent = (
+  event: string,
+): event is WhatsappTemplateEvent =>
+  Object.prototype.hasOwnProperty.call(WHATSAPP_TEMPLATES, event);
+
+/**
+ * Arma la plantilla del tenant para un evento con sus parámetros en orden
+ */
+export const buildTemplateMessage = (
+  tenant: Pick<Tenant, "whatsappTemplates">,
+  event: WhatsappTemplateEvent,
+  values: Record<string, string | undefined>,
+): WhatsappTemplateMessage => {
+  const definition = WHATSAPP_TEMPLATES[event];
+  const config = tenant.whatsappTemplates?.[event];
+
+  return {
+    name: config?.name ?? definition.name,
+    language: config?.language ?? definition.language,
+    parameters: definition.parameters.map(
+      (parameter) => values[parameter]?.trim() || EMPTY_PARAMETER,
+    ),
+  };
+};
@@ -8,7 +8,10 @@ export const createExtraSchema = z.object({
   name: z.string().min(1, "El nombre es requerido").max(100),
   price: z.number().min(0, "El precio debe ser mayor o igual a 0"),
   linkedProductId: z.string().optional(),
-  stockConsumption: z.number().int().min(0).optional(),
+  stockConsumption: z.number().min(0).optional(),
+  consumptionUnit: z
+    .enum(["gramos", "unidades", "ml", "kg", "litros"])
+    .optional(),
 });
 
 export const updateExtraSchema = createExtraSchema.partial();